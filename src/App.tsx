@@ -1,20 +1,25 @@
 import { Toaster } from "@/components/ui/toaster";
 import { Toaster as Sonner } from "@/components/ui/sonner";
 import { TooltipProvider } from "@/components/ui/tooltip";
-import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
+import { QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
 import { AuthProvider } from "@/contexts/AuthContext";
+import { queryClient } from "@/lib/query-client";
 import Navbar from "@/components/Navbar";
 import Index from "./pages/Index";
 import Auth from "./pages/Auth";
 import Resources from "./pages/Resources";
 import Dashboard from "./pages/Dashboard";
 import AddResource from "./pages/AddResource";
+import EditResource from "./pages/EditResource";
 import BookResource from "./pages/BookResource";
+import Profile from "./pages/Profile";
+import UserProfile from "./pages/UserProfile";
+import Inbox from "./pages/Inbox";
+import Notifications from "./pages/Notifications";
+import Admin from "./pages/Admin";
 import NotFound from "./pages/NotFound";
 
-const queryClient = new QueryClient();
-
 const App = () => (
   <QueryClientProvider client={queryClient}>
     <TooltipProvider>
@@ -29,7 +34,14 @@ const App = () => (
             <Route path="/resources" element={<Resources />} />
             <Route path="/dashboard" element={<Dashboard />} />
             <Route path="/add-resource" element={<AddResource />} />
+            <Route path="/edit-resource/:id" element={<EditResource />} />
             <Route path="/book/:id" element={<BookResource />} />
+            <Route path="/profile" element={<Profile />} />
+            <Route path="/users/:id" element={<UserProfile />} />
+            <Route path="/inbox" element={<Inbox />} />
+            <Route path="/inbox/:conversationId" element={<Inbox />} />
+            <Route path="/notifications" element={<Notifications />} />
+            <Route path="/admin" element={<Admin />} />
             {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
             <Route path="*" element={<NotFound />} />
           </Routes>
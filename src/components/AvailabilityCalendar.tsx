@@ -0,0 +1,92 @@
+import { DateRange } from "react-day-picker";
+import { addDays, endOfDay, isBefore, max, startOfDay } from "date-fns";
+import { Calendar } from "@/components/ui/calendar";
+import { BookableSlot, findSlotForDays } from "@/lib/availability";
+
+export interface BusyInterval {
+  start_time: string;
+  end_time: string;
+}
+
+interface AvailabilityCalendarProps {
+  availabilityStart: string;
+  availabilityEnd: string;
+  busyIntervals: BusyInterval[];
+  // Bookable time computed by the server from the owner's rules and bookings
+  slots: BookableSlot[];
+  selected: DateRange | undefined;
+  onSelect: (range: DateRange | undefined) => void;
+}
+
+// Whether any of the intervals overlaps the day, even partially
+const overlapsDay = (day: Date, intervals: BusyInterval[]) => {
+  const dayStart = startOfDay(day);
+  const nextDayStart = addDays(dayStart, 1);
+  return intervals.some(
+    (interval) =>
+      new Date(interval.start_time) < nextDayStart && new Date(interval.end_time) > dayStart
+  );
+};
+
+const AvailabilityCalendar = ({
+  availabilityStart,
+  availabilityEnd,
+  busyIntervals,
+  slots,
+  selected,
+  onSelect,
+}: AvailabilityCalendarProps) => {
+  const firstBookableDay = startOfDay(max([new Date(), new Date(availabilityStart)]));
+  const lastBookableDay = endOfDay(new Date(availabilityEnd));
+
+  const isOutsideWindow = (day: Date) =>
+    isBefore(day, firstBookableDay) || isBefore(lastBookableDay, day);
+
+  const isClosed = (day: Date) => !overlapsDay(day, slots);
+
+  // Closed because someone else has it, rather than by the owner's schedule
+  const isBooked = (day: Date) => isClosed(day) && overlapsDay(day, busyIntervals);
+
+  const handleSelect = (range: DateRange | undefined, selectedDay: Date) => {
+    // react-day-picker lets a range span disabled days; start over from the
+    // clicked day unless a single bookable slot covers the whole range.
+    if (range?.from && range.to && !findSlotForDays(slots, range.from, range.to)) {
+      onSelect({ from: selectedDay, to: undefined });
+      return;
+    }
+    onSelect(range);
+  };
+
+  return (
+    <div className="space-y-3">
+      <Calendar
+        mode="range"
+        selected={selected}
+        onSelect={handleSelect}
+        defaultMonth={selected?.from ?? firstBookableDay}
+        fromDate={firstBookableDay}
+        toDate={lastBookableDay}
+        disabled={[isOutsideWindow, isClosed]}
+        modifiers={{ booked: isBooked }}
+        modifiersClassNames={{ booked: "line-through text-destructive" }}
+        className="rounded-md border w-fit"
+      />
+      <div className="flex flex-wrap gap-4 text-sm text-muted-foreground">
+        <div className="flex items-center gap-2">
+          <span className="h-3 w-3 rounded-sm bg-primary" />
+          Selected
+        </div>
+        <div className="flex items-center gap-2">
+          <span className="h-3 w-3 rounded-sm bg-destructive/60" />
+          Booked
+        </div>
+        <div className="flex items-center gap-2">
+          <span className="h-3 w-3 rounded-sm bg-muted" />
+          Unavailable
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AvailabilityCalendar;
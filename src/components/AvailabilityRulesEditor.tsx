@@ -0,0 +1,153 @@
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { BlackoutDraft, WEEKDAY_NAMES, WeeklyHoursDraft } from "@/lib/availability";
+import { ResourceFormData } from "@/lib/resources";
+import { Plus, Trash2 } from "lucide-react";
+
+type AvailabilityRules = Pick<ResourceFormData, "weekly_hours_enabled" | "weekly_hours" | "blackouts">;
+
+interface AvailabilityRulesEditorProps {
+  value: AvailabilityRules;
+  onChange: (rules: Partial<AvailabilityRules>) => void;
+  errors: { weekly_hours?: string; blackouts?: string };
+}
+
+// Weekly opening hours and blackout dates for the resource form
+const AvailabilityRulesEditor = ({ value, onChange, errors }: AvailabilityRulesEditorProps) => {
+  const updateDay = (weekday: number, changes: Partial<WeeklyHoursDraft>) =>
+    onChange({
+      weekly_hours: value.weekly_hours.map((day) => (day.weekday === weekday ? { ...day, ...changes } : day)),
+    });
+
+  const updateBlackout = (index: number, changes: Partial<BlackoutDraft>) =>
+    onChange({
+      blackouts: value.blackouts.map((blackout, i) => (i === index ? { ...blackout, ...changes } : blackout)),
+    });
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-3">
+        <div className="flex items-center justify-between">
+          <div>
+            <Label htmlFor="weekly_hours_enabled">Only on certain days</Label>
+            <p className="text-sm text-muted-foreground">
+              Limit bookings to weekly hours, e.g. weekends or weekday evenings.
+            </p>
+          </div>
+          <Switch
+            id="weekly_hours_enabled"
+            checked={value.weekly_hours_enabled}
+            onCheckedChange={(checked) => onChange({ weekly_hours_enabled: checked })}
+          />
+        </div>
+
+        {value.weekly_hours_enabled && (
+          <div className="space-y-2">
+            {value.weekly_hours.map((day) => (
+              <div key={day.weekday} className="flex flex-wrap items-center gap-3">
+                <div className="flex items-center gap-2 w-36">
+                  <Switch
+                    id={`weekday_${day.weekday}`}
+                    checked={day.enabled}
+                    onCheckedChange={(checked) => updateDay(day.weekday, { enabled: checked })}
+                  />
+                  <Label htmlFor={`weekday_${day.weekday}`} className="font-normal">
+                    {WEEKDAY_NAMES[day.weekday]}
+                  </Label>
+                </div>
+                {day.enabled && (
+                  <div className="flex items-center gap-2">
+                    <Input
+                      type="time"
+                      aria-label={`${WEEKDAY_NAMES[day.weekday]} from`}
+                      value={day.start}
+                      onChange={(e) => updateDay(day.weekday, { start: e.target.value })}
+                      className="w-32"
+                      required
+                    />
+                    <span className="text-muted-foreground">to</span>
+                    <Input
+                      type="time"
+                      aria-label={`${WEEKDAY_NAMES[day.weekday]} until`}
+                      value={day.end}
+                      onChange={(e) => updateDay(day.weekday, { end: e.target.value })}
+                      className="w-32"
+                      required
+                    />
+                  </div>
+                )}
+              </div>
+            ))}
+            <p className="text-sm text-muted-foreground">
+              Times are in your time zone. An end of 00:00 means midnight, so consecutive all-day
+              entries can be booked as one stretch.
+            </p>
+          </div>
+        )}
+        {errors.weekly_hours && <p className="text-sm text-destructive">{errors.weekly_hours}</p>}
+      </div>
+
+      <div className="space-y-3">
+        <div className="flex items-center justify-between">
+          <div>
+            <Label>Blackout dates</Label>
+            <p className="text-sm text-muted-foreground">Days the resource can't be booked, e.g. while you use it.</p>
+          </div>
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => onChange({ blackouts: [...value.blackouts, { start_date: "", end_date: "", reason: "" }] })}
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            Add
+          </Button>
+        </div>
+        {value.blackouts.map((blackout, index) => (
+          <div key={index} className="flex flex-wrap items-center gap-2">
+            <Input
+              type="date"
+              aria-label="Blackout from"
+              value={blackout.start_date}
+              onChange={(e) => updateBlackout(index, { start_date: e.target.value })}
+              className="w-40"
+              required
+            />
+            <span className="text-muted-foreground">to</span>
+            <Input
+              type="date"
+              aria-label="Blackout until"
+              value={blackout.end_date}
+              min={blackout.start_date}
+              onChange={(e) => updateBlackout(index, { end_date: e.target.value })}
+              className="w-40"
+              required
+            />
+            <Input
+              aria-label="Blackout note"
+              placeholder="Note (only you see this)"
+              value={blackout.reason}
+              maxLength={200}
+              onChange={(e) => updateBlackout(index, { reason: e.target.value })}
+              className="flex-1 min-w-40"
+            />
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              aria-label="Remove blackout"
+              onClick={() => onChange({ blackouts: value.blackouts.filter((_, i) => i !== index) })}
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        ))}
+        {errors.blackouts && <p className="text-sm text-destructive">{errors.blackouts}</p>}
+      </div>
+    </div>
+  );
+};
+
+export default AvailabilityRulesEditor;
@@ -0,0 +1,163 @@
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { CalendarPlus, MapPin, MessageSquare, ShieldAlert, Star } from "lucide-react";
+import {
+  BookingParty,
+  BookingStatus,
+  bookingStatusBadgeVariant,
+  bookingStatusLabels,
+  getBookingActions,
+} from "@/lib/bookings";
+import { canAddToCalendar, downloadBookingEvent } from "@/lib/calendar";
+import {
+  BookingDeposit,
+  DamageClaim,
+  DamageClaimStatus,
+  damageClaimStatusLabels,
+  describeDeposit,
+} from "@/lib/deposits";
+import { BookingPayment, PaymentStatus, paymentStatusLabels } from "@/lib/payments";
+
+export interface DashboardBooking {
+  id: string;
+  start_time: string;
+  end_time: string;
+  total_price: number;
+  deposit_amount: number;
+  status: BookingStatus;
+  // Unanswered requests are cancelled at expires_at and stamped with expired_at
+  expires_at: string | null;
+  expired_at: string | null;
+  resource_id: string;
+  resources: {
+    id: string;
+    title: string;
+    category: string;
+    price: number;
+    location: string;
+    image_url?: string | null;
+    // Only returned once the booking has been accepted
+    resource_locations?: { address: string } | null;
+  };
+  booking_deposits?: BookingDeposit | null;
+  booking_payments?: BookingPayment | null;
+  damage_claims?: DamageClaim | null;
+}
+
+interface BookingCardProps {
+  booking: DashboardBooking;
+  party: BookingParty;
+  onStatusChange: (bookingId: string, status: BookingStatus) => void;
+  onMessage: (booking: DashboardBooking) => void;
+  canReview?: boolean;
+  onReview?: (booking: DashboardBooking) => void;
+  onFileClaim?: (booking: DashboardBooking) => void;
+  onViewClaim?: (booking: DashboardBooking) => void;
+}
+
+const BookingCard = ({
+  booking,
+  party,
+  onStatusChange,
+  onMessage,
+  canReview = false,
+  onReview,
+  onFileClaim,
+  onViewClaim,
+}: BookingCardProps) => {
+  const actions = getBookingActions(booking.status, party);
+  const deposit = booking.booking_deposits;
+  const claim = booking.damage_claims;
+  const expired = booking.status === "cancelled" && !!booking.expired_at;
+  const canFileClaim =
+    party === "owner" && booking.status === "returned" && deposit?.status === "held" && !claim;
+
+  return (
+    <Card>
+      <CardContent className="p-6">
+        <div className="flex justify-between items-start">
+          <div>
+            <h3 className="font-semibold">{booking.resources.title}</h3>
+            <p className="text-muted-foreground">
+              {new Date(booking.start_time).toLocaleDateString()} - {new Date(booking.end_time).toLocaleDateString()}
+            </p>
+            {booking.status === "pending" && booking.expires_at && (
+              <p className="text-sm text-muted-foreground">
+                {party === "owner" ? "Answer by" : "Expires"} {new Date(booking.expires_at).toLocaleString()}
+              </p>
+            )}
+            <p className="font-semibold">
+              ${booking.total_price}
+              {booking.booking_payments && (
+                <Badge variant={booking.booking_payments.status === "failed" ? "destructive" : "outline"} className="ml-2">
+                  {paymentStatusLabels[booking.booking_payments.status as PaymentStatus] ?? booking.booking_payments.status}
+                </Badge>
+              )}
+            </p>
+            {booking.resources.resource_locations && (
+              <p className="flex items-center text-sm text-muted-foreground mt-1">
+                <MapPin className="h-4 w-4 mr-1" />
+                {booking.resources.resource_locations.address}
+              </p>
+            )}
+            {deposit && (
+              <p className="text-sm text-muted-foreground mt-1">{describeDeposit(deposit)}</p>
+            )}
+            {claim && (
+              <button
+                type="button"
+                onClick={() => onViewClaim?.(booking)}
+                className="flex items-center text-sm text-destructive hover:underline mt-1"
+              >
+                <ShieldAlert className="h-4 w-4 mr-1" />
+                Damage claim: ${claim.amount} ({damageClaimStatusLabels[claim.status as DamageClaimStatus] ?? claim.status})
+              </button>
+            )}
+          </div>
+          <div className="flex flex-col items-end gap-2">
+            <Badge variant={bookingStatusBadgeVariant(booking.status)}>
+              {expired ? "Expired" : bookingStatusLabels[booking.status]}
+            </Badge>
+            <div className="flex gap-2">
+              <Button size="sm" variant="outline" onClick={() => onMessage(booking)}>
+                <MessageSquare className="h-4 w-4 mr-2" />
+                Message
+              </Button>
+              {canAddToCalendar(booking.status) && (
+                <Button size="sm" variant="outline" onClick={() => downloadBookingEvent(booking, party)}>
+                  <CalendarPlus className="h-4 w-4 mr-2" />
+                  Add to calendar
+                </Button>
+              )}
+              {canReview && onReview && (
+                <Button size="sm" onClick={() => onReview(booking)}>
+                  <Star className="h-4 w-4 mr-2" />
+                  Leave Review
+                </Button>
+              )}
+              {canFileClaim && onFileClaim && (
+                <Button size="sm" variant="outline" onClick={() => onFileClaim(booking)}>
+                  <ShieldAlert className="h-4 w-4 mr-2" />
+                  File Damage Claim
+                </Button>
+              )}
+              {actions.map((action) => (
+                <Button
+                  key={action.status}
+                  size="sm"
+                  variant={action.variant}
+                  onClick={() => onStatusChange(booking.id, action.status)}
+                >
+                  {action.label}
+                </Button>
+              ))}
+            </div>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default BookingCard;
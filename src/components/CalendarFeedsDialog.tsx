@@ -0,0 +1,119 @@
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useCalendarFeeds, useCreateCalendarFeed } from "@/hooks/use-calendar-feeds";
+import { useToast } from "@/hooks/use-toast";
+import { getCalendarFeedUrl } from "@/lib/calendar";
+import { Copy, RefreshCw } from "lucide-react";
+
+interface CalendarFeedsDialogProps {
+  open: boolean;
+  userId: string | undefined;
+  resources: { id: string; title: string }[];
+  onOpenChange: (open: boolean) => void;
+}
+
+// Secret feed URLs to subscribe to from Google Calendar, Apple Calendar or
+// Outlook: one for all the user's bookings and one per resource they own
+const CalendarFeedsDialog = ({ open, userId, resources, onOpenChange }: CalendarFeedsDialogProps) => {
+  const { toast } = useToast();
+  const { data: feeds = [] } = useCalendarFeeds(open ? userId : undefined);
+  const createFeed = useCreateCalendarFeed(userId);
+  const rows = [
+    { resourceId: null, label: "All my bookings" },
+    ...resources.map((resource) => ({ resourceId: resource.id, label: resource.title })),
+  ];
+
+  const handleCreate = (resourceId: string | null, previousFeedId?: string) => {
+    createFeed.mutate(
+      { resourceId, previousFeedId },
+      {
+        onSuccess: () => {
+          if (previousFeedId) {
+            toast({
+              title: "Success",
+              description: "Feed link reset; calendars using the old link stop updating",
+            });
+          }
+        },
+        onError: (error) => {
+          console.error("Error creating calendar feed:", error);
+          toast({
+            title: "Error",
+            description: "Failed to create the calendar link",
+            variant: "destructive",
+          });
+        },
+      }
+    );
+  };
+
+  const copyUrl = async (url: string) => {
+    try {
+      await navigator.clipboard.writeText(url);
+      toast({ title: "Copied", description: "Paste the link into your calendar app to subscribe" });
+    } catch (error) {
+      console.error("Error copying feed link:", error);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Calendar sync</DialogTitle>
+          <DialogDescription>
+            Subscribe to these links in your calendar app to see accepted bookings there. Keep them private: anyone
+            with a link can see the bookings it covers.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          {rows.map((row) => {
+            const feed = feeds.find((f) => f.resource_id === row.resourceId);
+            return (
+              <div key={row.resourceId ?? "all"} className="space-y-2">
+                <Label>{row.label}</Label>
+                {feed ? (
+                  <div className="flex gap-2">
+                    <Input readOnly value={getCalendarFeedUrl(feed)} onFocus={(e) => e.target.select()} />
+                    <Button size="icon" variant="outline" onClick={() => copyUrl(getCalendarFeedUrl(feed))}>
+                      <Copy className="h-4 w-4" />
+                      <span className="sr-only">Copy link</span>
+                    </Button>
+                    <Button
+                      size="icon"
+                      variant="outline"
+                      disabled={createFeed.isPending}
+                      onClick={() => handleCreate(row.resourceId, feed.id)}
+                    >
+                      <RefreshCw className="h-4 w-4" />
+                      <span className="sr-only">Reset link</span>
+                    </Button>
+                  </div>
+                ) : (
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    disabled={createFeed.isPending}
+                    onClick={() => handleCreate(row.resourceId)}
+                  >
+                    Create link
+                  </Button>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default CalendarFeedsDialog;
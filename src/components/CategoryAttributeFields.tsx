@@ -0,0 +1,84 @@
+import { useFormContext } from "react-hook-form";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { ResourceFormData } from "@/lib/resources";
+import { CategoryAttribute } from "@shared/schemas";
+
+interface CategoryAttributeFieldsProps {
+  attributes: CategoryAttribute[];
+}
+
+const fieldLabel = (attribute: CategoryAttribute) =>
+  [attribute.label, attribute.unit && `(${attribute.unit})`, !attribute.required && "(optional)"]
+    .filter(Boolean)
+    .join(" ");
+
+// The fields the chosen category asks for, rendered inside the resource form
+const CategoryAttributeFields = ({ attributes }: CategoryAttributeFieldsProps) => {
+  const form = useFormContext<ResourceFormData>();
+
+  if (attributes.length === 0) return null;
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+      {attributes.map((attribute) => (
+        <FormField
+          key={attribute.key}
+          control={form.control}
+          name={`attributes.${attribute.key}`}
+          render={({ field }) =>
+            attribute.type === "boolean" ? (
+              <FormItem className="flex items-center justify-between space-y-0 rounded-lg border p-4">
+                <FormLabel>{attribute.label}</FormLabel>
+                <FormControl>
+                  <Switch checked={field.value === true} onCheckedChange={field.onChange} />
+                </FormControl>
+              </FormItem>
+            ) : (
+              <FormItem>
+                <FormLabel>{fieldLabel(attribute)}</FormLabel>
+                <FormControl>
+                  {attribute.type === "select" ? (
+                    <select
+                      {...field}
+                      value={typeof field.value === "string" ? field.value : ""}
+                      className="w-full px-3 py-2 border border-input rounded-md bg-background"
+                    >
+                      <option value="">{attribute.required ? "Select an option" : "Not specified"}</option>
+                      {(attribute.options ?? []).map((option) => (
+                        <option key={option} value={option}>
+                          {option}
+                        </option>
+                      ))}
+                    </select>
+                  ) : attribute.type === "number" ? (
+                    <Input
+                      type="number"
+                      min={attribute.min}
+                      max={attribute.max}
+                      {...field}
+                      value={typeof field.value === "number" ? field.value : ""}
+                      // Kept as a number so it is saved as one; a cleared field is ""
+                      onChange={(e) => field.onChange(e.target.value === "" ? "" : e.target.valueAsNumber)}
+                    />
+                  ) : (
+                    <Input {...field} value={typeof field.value === "string" ? field.value : ""} />
+                  )}
+                </FormControl>
+                {attribute.type === "number" && attribute.min !== undefined && attribute.max !== undefined && (
+                  <FormDescription>
+                    Between {attribute.min} and {attribute.max}.
+                  </FormDescription>
+                )}
+                <FormMessage />
+              </FormItem>
+            )
+          }
+        />
+      ))}
+    </div>
+  );
+};
+
+export default CategoryAttributeFields;
@@ -0,0 +1,68 @@
+import {
+  Axe,
+  Bike,
+  BookOpen,
+  Camera,
+  Car,
+  Disc,
+  Drill,
+  Dumbbell,
+  Gamepad2,
+  Hammer,
+  Laptop,
+  LucideIcon,
+  LucideProps,
+  Monitor,
+  Package,
+  PartyPopper,
+  Shapes,
+  Shovel,
+  Snowflake,
+  Speaker,
+  SprayCan,
+  Tag,
+  Tent,
+  Truck,
+  Waves,
+  Wrench,
+  Zap,
+} from "lucide-react";
+
+// Icons categories may use, by lucide name; unknown names fall back to a tag
+const categoryIcons: Record<string, LucideIcon> = {
+  axe: Axe,
+  bike: Bike,
+  "book-open": BookOpen,
+  camera: Camera,
+  car: Car,
+  disc: Disc,
+  drill: Drill,
+  dumbbell: Dumbbell,
+  "gamepad-2": Gamepad2,
+  hammer: Hammer,
+  laptop: Laptop,
+  monitor: Monitor,
+  package: Package,
+  "party-popper": PartyPopper,
+  shapes: Shapes,
+  shovel: Shovel,
+  snowflake: Snowflake,
+  speaker: Speaker,
+  "spray-can": SprayCan,
+  tent: Tent,
+  truck: Truck,
+  waves: Waves,
+  wrench: Wrench,
+  zap: Zap,
+};
+
+interface CategoryIconProps extends LucideProps {
+  icon: string | null;
+}
+
+const CategoryIcon = ({ icon, ...props }: CategoryIconProps) => {
+  const Icon = (icon && categoryIcons[icon]) || Tag;
+  return <Icon {...props} />;
+};
+
+export default CategoryIcon;
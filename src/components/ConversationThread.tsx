@@ -0,0 +1,91 @@
+import { useEffect, useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { useConversationMessages, useSendMessage } from "@/hooks/use-conversations";
+import { useToast } from "@/hooks/use-toast";
+import { cn } from "@/lib/utils";
+import { Send } from "lucide-react";
+
+interface ConversationThreadProps {
+  conversationId: string;
+  userId: string;
+}
+
+const ConversationThread = ({ conversationId, userId }: ConversationThreadProps) => {
+  const { toast } = useToast();
+  const { data: messages = [], isLoading: loading } = useConversationMessages(conversationId, userId);
+  const sendMessage = useSendMessage(conversationId, userId);
+  const [body, setBody] = useState("");
+  const bottomRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView({ behavior: "smooth" });
+  }, [messages]);
+
+  const handleSend = (e: React.FormEvent) => {
+    e.preventDefault();
+    const text = body.trim();
+    if (!text) return;
+
+    sendMessage.mutate(text, {
+      onSuccess: () => setBody(""),
+      onError: (error) => {
+        console.error("Error sending message:", error);
+        toast({
+          title: "Error",
+          description: "Failed to send message",
+          variant: "destructive",
+        });
+      },
+    });
+  };
+
+  return (
+    <div className="flex flex-col h-[60vh]">
+      <ScrollArea className="flex-1 pr-4">
+        {loading ? (
+          <div className="text-center text-muted-foreground py-8">Loading messages...</div>
+        ) : messages.length === 0 ? (
+          <div className="text-center text-muted-foreground py-8">No messages yet. Say hello!</div>
+        ) : (
+          <div className="space-y-3 py-2">
+            {messages.map((message) => {
+              const isOwn = message.sender_id === userId;
+              return (
+                <div key={message.id} className={cn("flex", isOwn ? "justify-end" : "justify-start")}>
+                  <div
+                    className={cn(
+                      "max-w-[75%] rounded-lg px-3 py-2",
+                      isOwn ? "bg-primary text-primary-foreground" : "bg-muted"
+                    )}
+                  >
+                    <p className="whitespace-pre-wrap break-words">{message.body}</p>
+                    <p className={cn("text-xs mt-1", isOwn ? "text-primary-foreground/70" : "text-muted-foreground")}>
+                      {new Date(message.created_at).toLocaleString()}
+                    </p>
+                  </div>
+                </div>
+              );
+            })}
+            <div ref={bottomRef} />
+          </div>
+        )}
+      </ScrollArea>
+      <form onSubmit={handleSend} className="flex gap-2 pt-4 border-t">
+        <Input
+          placeholder="Write a message..."
+          value={body}
+          onChange={(e) => setBody(e.target.value)}
+          maxLength={4000}
+        />
+        <Button type="submit" disabled={sendMessage.isPending || !body.trim()}>
+          <Send className="h-4 w-4" />
+          <span className="sr-only">Send</span>
+        </Button>
+      </form>
+    </div>
+  );
+};
+
+export default ConversationThread;
@@ -0,0 +1,169 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { DashboardBooking } from "@/components/BookingCard";
+import {
+  useClaimPhotoUrls,
+  useRespondToDamageClaim,
+  useWithdrawDamageClaim,
+} from "@/hooks/use-damage-claims";
+import { useToast } from "@/hooks/use-toast";
+import { BookingParty, getBookingErrorMessage } from "@/lib/bookings";
+import { DamageClaim, DamageClaimStatus, damageClaimStatusLabels } from "@/lib/deposits";
+
+interface DamageClaimDetailsDialogProps {
+  booking: DashboardBooking | null;
+  party: BookingParty;
+  onOpenChange: (open: boolean) => void;
+  onChanged: (claim: DamageClaim) => void;
+  onRevise: (booking: DashboardBooking) => void;
+}
+
+// A claim as seen by either party: the renter accepts or disputes it, the
+// owner revises or withdraws it
+const DamageClaimDetailsDialog = ({
+  booking,
+  party,
+  onOpenChange,
+  onChanged,
+  onRevise,
+}: DamageClaimDetailsDialogProps) => {
+  const { toast } = useToast();
+  const claim = booking?.damage_claims ?? null;
+  const { data: photoUrls = [] } = useClaimPhotoUrls(claim);
+  const respondToClaim = useRespondToDamageClaim();
+  const withdrawClaim = useWithdrawDamageClaim();
+  const [response, setResponse] = useState("");
+  const submitting = respondToClaim.isPending || withdrawClaim.isPending;
+
+  useEffect(() => {
+    setResponse("");
+  }, [claim?.id, claim?.updated_at]);
+
+  const mutationCallbacks = (successMessage: string) => ({
+    onSuccess: (updated: DamageClaim) => {
+      toast({
+        title: "Success!",
+        description: successMessage,
+      });
+      onChanged(updated);
+    },
+    onError: (error: Error) => {
+      console.error("Error updating damage claim:", error);
+      toast({
+        title: "Error",
+        description: getBookingErrorMessage(error, "Failed to update damage claim"),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const respond = (claimId: string, accept: boolean) =>
+    respondToClaim.mutate(
+      { claimId, accept, response },
+      mutationCallbacks(accept ? "Claim accepted" : "Claim disputed")
+    );
+
+  const withdraw = (claimId: string) => withdrawClaim.mutate(claimId, mutationCallbacks("Claim withdrawn"));
+
+  const isActive = claim?.status === "open" || claim?.status === "disputed";
+
+  return (
+    <Dialog open={booking !== null && claim !== null} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            Damage Claim: ${claim?.amount}
+            {claim && (
+              <Badge variant={claim.status === "disputed" ? "destructive" : "secondary"}>
+                {damageClaimStatusLabels[claim.status as DamageClaimStatus] ?? claim.status}
+              </Badge>
+            )}
+          </DialogTitle>
+          <DialogDescription>
+            Filed against the ${booking?.deposit_amount} deposit for "{booking?.resources.title}".
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <p className="whitespace-pre-wrap">{claim?.description}</p>
+
+          {photoUrls.length > 0 && (
+            <div className="grid grid-cols-3 gap-2">
+              {photoUrls.map((url) => (
+                <a key={url} href={url} target="_blank" rel="noreferrer">
+                  <img src={url} alt="Damage" className="h-24 w-full object-cover rounded-md" />
+                </a>
+              ))}
+            </div>
+          )}
+
+          {claim?.renter_response && (
+            <div className="p-3 bg-muted rounded-lg">
+              <p className="text-sm font-medium">Renter's response</p>
+              <p className="text-sm whitespace-pre-wrap">{claim.renter_response}</p>
+            </div>
+          )}
+
+          {claim?.status === "resolved" && (
+            <div className="p-3 bg-muted rounded-lg">
+              <p className="text-sm font-medium">
+                Decision: ${claim.awarded_amount ?? 0} of the deposit kept by the owner
+              </p>
+              {claim.resolution_note && <p className="text-sm whitespace-pre-wrap">{claim.resolution_note}</p>}
+            </div>
+          )}
+
+          {party === "renter" && claim?.status === "open" && (
+            <div className="space-y-2">
+              <Label htmlFor="claim_response">Your response</Label>
+              <Textarea
+                id="claim_response"
+                value={response}
+                onChange={(e) => setResponse(e.target.value)}
+                maxLength={2000}
+                rows={3}
+                placeholder="Required if you dispute the claim"
+              />
+            </div>
+          )}
+        </div>
+
+        <DialogFooter className="gap-2">
+          {party === "renter" && claim?.status === "open" && (
+            <>
+              <Button variant="outline" onClick={() => respond(claim.id, false)} disabled={submitting || !response.trim()}>
+                Dispute
+              </Button>
+              <Button onClick={() => respond(claim.id, true)} disabled={submitting}>
+                Accept ${claim.amount}
+              </Button>
+            </>
+          )}
+          {party === "owner" && isActive && booking && claim && (
+            <>
+              <Button variant="outline" onClick={() => withdraw(claim.id)} disabled={submitting}>
+                Withdraw Claim
+              </Button>
+              <Button onClick={() => onRevise(booking)} disabled={submitting}>
+                Revise Claim
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default DamageClaimDetailsDialog;
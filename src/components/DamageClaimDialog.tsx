@@ -0,0 +1,146 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { DashboardBooking } from "@/components/BookingCard";
+import { useFileDamageClaim } from "@/hooks/use-damage-claims";
+import { useToast } from "@/hooks/use-toast";
+import { getBookingErrorMessage } from "@/lib/bookings";
+import { DamageClaim, MAX_CLAIM_PHOTOS } from "@/lib/deposits";
+
+interface DamageClaimDialogProps {
+  booking: DashboardBooking | null;
+  onOpenChange: (open: boolean) => void;
+  onSubmitted: (claim: DamageClaim) => void;
+}
+
+// Lets the owner file a claim against the deposit, or revise an existing one
+const DamageClaimDialog = ({ booking, onOpenChange, onSubmitted }: DamageClaimDialogProps) => {
+  const { toast } = useToast();
+  const existingClaim = booking?.damage_claims ?? null;
+  const [amount, setAmount] = useState("");
+  const [description, setDescription] = useState("");
+  const [photos, setPhotos] = useState<File[]>([]);
+  const fileClaim = useFileDamageClaim();
+
+  const claimAmount = existingClaim?.amount;
+  const claimDescription = existingClaim?.description;
+
+  // Start from the saved claim whenever the dialog opens for another booking;
+  // primitives keep refetches of the same claim from wiping edits
+  useEffect(() => {
+    setAmount(claimAmount === undefined ? "" : String(claimAmount));
+    setDescription(claimDescription ?? "");
+    setPhotos([]);
+  }, [booking?.id, claimAmount, claimDescription]);
+
+  const keptPhotoCount = existingClaim?.photo_paths.length ?? 0;
+
+  const handlePhotosChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []);
+    setPhotos(files.slice(0, MAX_CLAIM_PHOTOS - keptPhotoCount));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!booking) return;
+
+    fileClaim.mutate(
+      {
+        bookingId: booking.id,
+        amount: parseFloat(amount),
+        description,
+        keptPhotoPaths: existingClaim?.photo_paths ?? [],
+        photos,
+      },
+      {
+        onSuccess: (claim) => {
+          toast({
+            title: "Success!",
+            description: existingClaim ? "Claim updated" : "Damage claim sent to the renter",
+          });
+          onSubmitted(claim);
+        },
+        onError: (error) => {
+          console.error("Error filing damage claim:", error);
+          toast({
+            title: "Error",
+            description: getBookingErrorMessage(error, "Failed to file damage claim"),
+            variant: "destructive",
+          });
+        },
+      }
+    );
+  };
+
+  return (
+    <Dialog open={booking !== null} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle>{existingClaim ? "Revise Damage Claim" : "File Damage Claim"}</DialogTitle>
+            <DialogDescription>
+              Describe the damage to "{booking?.resources.title}". The renter can accept the claim, which
+              keeps that amount of the ${booking?.deposit_amount} deposit, or dispute it.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="claim_amount">Amount ($)</Label>
+            <Input
+              id="claim_amount"
+              type="number"
+              step="0.01"
+              min="0.01"
+              max={booking?.deposit_amount}
+              value={amount}
+              onChange={(e) => setAmount(e.target.value)}
+              required
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="claim_description">What was damaged?</Label>
+            <Textarea
+              id="claim_description"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              maxLength={2000}
+              rows={4}
+              required
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="claim_photos">Photos (optional)</Label>
+            <Input
+              id="claim_photos"
+              type="file"
+              accept="image/*"
+              multiple
+              onChange={handlePhotosChange}
+              disabled={keptPhotoCount >= MAX_CLAIM_PHOTOS}
+            />
+            <p className="text-sm text-muted-foreground">
+              {keptPhotoCount > 0 && `${keptPhotoCount} photo(s) already attached. `}
+              Up to {MAX_CLAIM_PHOTOS} photos in total.
+            </p>
+          </div>
+          <DialogFooter>
+            <Button type="submit" disabled={fileClaim.isPending}>
+              {fileClaim.isPending ? "Submitting..." : existingClaim ? "Update Claim" : "File Claim"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default DamageClaimDialog;
@@ -0,0 +1,247 @@
+import { useState } from "react";
+import { format } from "date-fns";
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from "recharts";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  ChartConfig,
+  ChartContainer,
+  ChartTooltip,
+  ChartTooltipContent,
+} from "@/components/ui/chart";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useEarnings } from "@/hooks/use-earnings";
+import {
+  EARNINGS_PRESETS,
+  EarningsInterval,
+  EarningsRange,
+  formatPercent,
+  getPresetRange,
+} from "@/lib/earnings";
+
+interface EarningsTabProps {
+  resources: { id: string; title: string }[];
+}
+
+const revenueChartConfig = {
+  revenue: { label: "Revenue", color: "hsl(var(--primary))" },
+} satisfies ChartConfig;
+
+const bookingsChartConfig = {
+  booking_count: { label: "Bookings", color: "hsl(var(--primary))" },
+} satisfies ChartConfig;
+
+const periodFormats: Record<EarningsInterval, string> = {
+  day: "MMM d",
+  week: "'Week of' MMM d",
+  month: "MMM yyyy",
+};
+
+// Owner analytics over a date range; all figures are aggregated by the
+// database, and picking a resource drills the summary and chart down to it
+const EarningsTab = ({ resources }: EarningsTabProps) => {
+  const [range, setRange] = useState<EarningsRange>(() => getPresetRange(30));
+  const [resourceId, setResourceId] = useState<string | null>(null);
+  const { data: earnings, isLoading: loading } = useEarnings(range, resourceId);
+  const stats = earnings?.stats ?? [];
+  const summary = earnings?.summary ?? null;
+  const series = earnings?.series ?? [];
+  const seriesInterval = earnings?.interval ?? "day";
+
+  const chartData = series.map((point) => ({
+    ...point,
+    label: format(new Date(point.period_start), periodFormats[seriesInterval]),
+  }));
+
+  const selectedTitle = resources.find((r) => r.id === resourceId)?.title;
+  const visibleStats = resourceId ? stats.filter((s) => s.resource_id === resourceId) : stats;
+
+  const summaryCards = [
+    { title: "Revenue", value: `$${summary?.revenue ?? 0}` },
+    { title: "Bookings", value: String(summary?.active_booking_count ?? 0) },
+    { title: "Utilization", value: formatPercent(summary?.utilization_rate ?? null) },
+    {
+      title: "Avg. booking length",
+      value: summary?.average_booking_hours ? `${summary.average_booking_hours} h` : "—",
+    },
+    { title: "Cancellation rate", value: formatPercent(summary?.cancellation_rate ?? null) },
+  ];
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-end gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="earnings_from">From</Label>
+          <Input
+            id="earnings_from"
+            type="date"
+            value={range.from}
+            max={range.to}
+            onChange={(e) => setRange((prev) => ({ ...prev, from: e.target.value }))}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="earnings_to">To</Label>
+          <Input
+            id="earnings_to"
+            type="date"
+            value={range.to}
+            min={range.from}
+            onChange={(e) => setRange((prev) => ({ ...prev, to: e.target.value }))}
+          />
+        </div>
+        <div className="flex gap-2">
+          {EARNINGS_PRESETS.map((preset) => (
+            <Button
+              key={preset.days}
+              variant="outline"
+              size="sm"
+              onClick={() => setRange(getPresetRange(preset.days))}
+            >
+              {preset.label}
+            </Button>
+          ))}
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="earnings_resource">Resource</Label>
+          <select
+            id="earnings_resource"
+            value={resourceId ?? ""}
+            onChange={(e) => setResourceId(e.target.value || null)}
+            className="px-3 py-2 border border-input rounded-md bg-background"
+          >
+            <option value="">All resources</option>
+            {resources.map((resource) => (
+              <option key={resource.id} value={resource.id}>
+                {resource.title}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {loading && !summary ? (
+        <div className="text-center py-8">Loading earnings...</div>
+      ) : (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-5 gap-4">
+            {summaryCards.map((card) => (
+              <Card key={card.title}>
+                <CardHeader className="pb-2">
+                  <CardDescription>{card.title}</CardDescription>
+                  <CardTitle className="text-2xl">{card.value}</CardTitle>
+                </CardHeader>
+              </Card>
+            ))}
+          </div>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Revenue over time</CardTitle>
+              <CardDescription>
+                {selectedTitle ? `Accepted bookings for "${selectedTitle}"` : "Accepted bookings across all resources"}
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <ChartContainer config={revenueChartConfig} className="h-64 w-full">
+                <BarChart data={chartData}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="label" tickLine={false} axisLine={false} minTickGap={16} />
+                  <YAxis tickLine={false} axisLine={false} width={48} />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  <Bar dataKey="revenue" fill="var(--color-revenue)" radius={4} />
+                </BarChart>
+              </ChartContainer>
+            </CardContent>
+          </Card>
+
+          {!resourceId && stats.length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg">Bookings per resource</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <ChartContainer config={bookingsChartConfig} className="h-64 w-full">
+                  <BarChart data={stats}>
+                    <CartesianGrid vertical={false} />
+                    <XAxis dataKey="title" tickLine={false} axisLine={false} interval={0} />
+                    <YAxis tickLine={false} axisLine={false} width={32} allowDecimals={false} />
+                    <ChartTooltip content={<ChartTooltipContent />} />
+                    <Bar dataKey="booking_count" fill="var(--color-booking_count)" radius={4} />
+                  </BarChart>
+                </ChartContainer>
+              </CardContent>
+            </Card>
+          )}
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">By resource</CardTitle>
+              <CardDescription>Select a row to focus on that resource.</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Resource</TableHead>
+                    <TableHead className="text-right">Requests</TableHead>
+                    <TableHead className="text-right">Revenue</TableHead>
+                    <TableHead className="text-right">Booked days</TableHead>
+                    <TableHead className="text-right">Utilization</TableHead>
+                    <TableHead className="text-right">Avg. length</TableHead>
+                    <TableHead className="text-right">Cancelled</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {visibleStats.map((row) => (
+                    <TableRow
+                      key={row.resource_id}
+                      className="cursor-pointer"
+                      data-state={row.resource_id === resourceId ? "selected" : undefined}
+                      onClick={() => setResourceId(row.resource_id === resourceId ? null : row.resource_id)}
+                    >
+                      <TableCell className="font-medium">{row.title}</TableCell>
+                      <TableCell className="text-right">{row.booking_count}</TableCell>
+                      <TableCell className="text-right">${row.revenue}</TableCell>
+                      <TableCell className="text-right">
+                        {row.booked_days} / {row.available_days}
+                      </TableCell>
+                      <TableCell className="text-right">{formatPercent(row.utilization_rate)}</TableCell>
+                      <TableCell className="text-right">
+                        {row.average_booking_hours ? `${row.average_booking_hours} h` : "—"}
+                      </TableCell>
+                      <TableCell className="text-right">{formatPercent(row.cancellation_rate)}</TableCell>
+                    </TableRow>
+                  ))}
+                  {visibleStats.length === 0 && (
+                    <TableRow>
+                      <TableCell colSpan={7} className="text-center text-muted-foreground">
+                        List a resource to start tracking earnings.
+                      </TableCell>
+                    </TableRow>
+                  )}
+                </TableBody>
+              </Table>
+              {resourceId && (
+                <Button variant="link" className="px-0" onClick={() => setResourceId(null)}>
+                  Show all resources
+                </Button>
+              )}
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default EarningsTab;
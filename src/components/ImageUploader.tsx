@@ -0,0 +1,170 @@
+import { useRef, useState } from "react";
+import { ArrowLeft, ArrowRight, ImagePlus, Star, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { cn } from "@/lib/utils";
+import { MAX_RESOURCE_IMAGES, ResourceImageDraft } from "@/lib/images";
+
+interface ImageUploaderProps {
+  images: ResourceImageDraft[];
+  onChange: (images: ResourceImageDraft[]) => void;
+}
+
+const ImageUploader = ({ images, onChange }: ImageUploaderProps) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [dragActive, setDragActive] = useState(false);
+
+  const addFiles = (files: FileList | null) => {
+    if (!files) return;
+
+    const remaining = MAX_RESOURCE_IMAGES - images.length;
+    const added = Array.from(files)
+      .filter((file) => file.type.startsWith("image/"))
+      .slice(0, remaining)
+      .map((file) => ({
+        key: crypto.randomUUID(),
+        previewUrl: URL.createObjectURL(file),
+        isCover: false,
+        file,
+      }));
+
+    const next = [...images, ...added];
+    if (next.length > 0 && !next.some((image) => image.isCover)) {
+      next[0] = { ...next[0], isCover: true };
+    }
+    onChange(next);
+  };
+
+  const removeImage = (key: string) => {
+    const removed = images.find((image) => image.key === key);
+    if (removed?.file) {
+      URL.revokeObjectURL(removed.previewUrl);
+    }
+
+    const next = images.filter((image) => image.key !== key);
+    if (removed?.isCover && next.length > 0) {
+      next[0] = { ...next[0], isCover: true };
+    }
+    onChange(next);
+  };
+
+  const moveImage = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= images.length) return;
+
+    const next = [...images];
+    [next[index], next[target]] = [next[target], next[index]];
+    onChange(next);
+  };
+
+  const setCover = (key: string) => {
+    onChange(images.map((image) => ({ ...image, isCover: image.key === key })));
+  };
+
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    setDragActive(false);
+    addFiles(e.dataTransfer.files);
+  };
+
+  return (
+    <div className="space-y-4">
+      {images.length < MAX_RESOURCE_IMAGES && (
+        <div
+          role="button"
+          tabIndex={0}
+          onClick={() => inputRef.current?.click()}
+          onKeyDown={(e) => {
+            if (e.key === "Enter" || e.key === " ") inputRef.current?.click();
+          }}
+          onDragOver={(e) => {
+            e.preventDefault();
+            setDragActive(true);
+          }}
+          onDragLeave={() => setDragActive(false)}
+          onDrop={handleDrop}
+          className={cn(
+            "flex flex-col items-center justify-center gap-2 rounded-lg border-2 border-dashed p-6 text-center cursor-pointer text-muted-foreground",
+            dragActive ? "border-primary bg-primary/5" : "border-input"
+          )}
+        >
+          <ImagePlus className="h-8 w-8" />
+          <p className="text-sm">
+            Drag photos here or click to browse ({images.length}/{MAX_RESOURCE_IMAGES})
+          </p>
+          <input
+            ref={inputRef}
+            type="file"
+            accept="image/*"
+            multiple
+            className="hidden"
+            onChange={(e) => {
+              addFiles(e.target.files);
+              e.target.value = "";
+            }}
+          />
+        </div>
+      )}
+
+      {images.length > 0 && (
+        <div className="grid grid-cols-2 sm:grid-cols-3 gap-4">
+          {images.map((image, index) => (
+            <div key={image.key} className="relative rounded-lg overflow-hidden border">
+              <img src={image.previewUrl} alt="" className="w-full h-32 object-cover" />
+              {image.isCover && (
+                <Badge className="absolute top-2 left-2">Cover</Badge>
+              )}
+              <Button
+                type="button"
+                size="icon"
+                variant="destructive"
+                className="absolute top-2 right-2 h-7 w-7"
+                onClick={() => removeImage(image.key)}
+              >
+                <X className="h-4 w-4" />
+                <span className="sr-only">Remove photo</span>
+              </Button>
+              <div className="flex justify-between p-2 bg-background">
+                <Button
+                  type="button"
+                  size="icon"
+                  variant="ghost"
+                  className="h-7 w-7"
+                  disabled={index === 0}
+                  onClick={() => moveImage(index, -1)}
+                >
+                  <ArrowLeft className="h-4 w-4" />
+                  <span className="sr-only">Move left</span>
+                </Button>
+                <Button
+                  type="button"
+                  size="sm"
+                  variant="ghost"
+                  className="h-7"
+                  disabled={image.isCover}
+                  onClick={() => setCover(image.key)}
+                >
+                  <Star className="h-4 w-4 mr-1" />
+                  Cover
+                </Button>
+                <Button
+                  type="button"
+                  size="icon"
+                  variant="ghost"
+                  className="h-7 w-7"
+                  disabled={index === images.length - 1}
+                  onClick={() => moveImage(index, 1)}
+                >
+                  <ArrowRight className="h-4 w-4" />
+                  <span className="sr-only">Move right</span>
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ImageUploader;
@@ -0,0 +1,76 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+
+interface ModerationReasonDialogProps {
+  open: boolean;
+  title: string;
+  description: string;
+  confirmLabel: string;
+  submitting: boolean;
+  onOpenChange: (open: boolean) => void;
+  onConfirm: (reason: string) => void;
+}
+
+// Asks an admin why they are suspending a member or unpublishing a listing;
+// the reason is kept in the audit log
+const ModerationReasonDialog = ({
+  open,
+  title,
+  description,
+  confirmLabel,
+  submitting,
+  onOpenChange,
+  onConfirm,
+}: ModerationReasonDialogProps) => {
+  const [reason, setReason] = useState("");
+
+  useEffect(() => {
+    if (open) setReason("");
+  }, [open]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onConfirm(reason.trim());
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle>{title}</DialogTitle>
+            <DialogDescription>{description}</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="moderation_reason">Reason</Label>
+            <Textarea
+              id="moderation_reason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              maxLength={500}
+              rows={3}
+              required
+            />
+          </div>
+          <DialogFooter>
+            <Button type="submit" variant="destructive" disabled={submitting || !reason.trim()}>
+              {submitting ? "Saving..." : confirmLabel}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ModerationReasonDialog;
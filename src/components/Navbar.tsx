@@ -1,12 +1,19 @@
 import { useState } from "react";
 import { Link, useNavigate } from "react-router-dom";
 import { Button } from "@/components/ui/button";
-import { Menu, X, User, LogOut } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Menu, X, User, LogOut, MessageSquare, Bell, Shield } from "lucide-react";
 import { useAuth } from "@/contexts/AuthContext";
+import { useIsAdmin } from "@/hooks/use-admin";
+import { useUnreadMessages } from "@/hooks/use-unread-messages";
+import { useUnreadNotifications } from "@/hooks/use-unread-notifications";
 
 const Navbar = () => {
   const [isOpen, setIsOpen] = useState(false);
   const { user, signOut } = useAuth();
+  const unreadMessages = useUnreadMessages();
+  const unreadNotifications = useUnreadNotifications();
+  const { data: isAdmin } = useIsAdmin(user?.id);
   const navigate = useNavigate();
 
   const handleSignOut = async () => {
@@ -37,6 +44,29 @@ const Navbar = () => {
                 <Link to="/add-resource" className="text-foreground hover:text-primary">
                   Add Resource
                 </Link>
+                <Link to="/inbox" className="text-foreground hover:text-primary flex items-center gap-1">
+                  <MessageSquare className="h-4 w-4" />
+                  Inbox
+                  {unreadMessages > 0 && <Badge className="ml-1 px-1.5">{unreadMessages}</Badge>}
+                </Link>
+                <Link
+                  to="/notifications"
+                  className="text-foreground hover:text-primary flex items-center gap-1"
+                  aria-label="Notifications"
+                >
+                  <Bell className="h-4 w-4" />
+                  {unreadNotifications > 0 && <Badge className="px-1.5">{unreadNotifications}</Badge>}
+                </Link>
+                {isAdmin && (
+                  <Link to="/admin" className="text-foreground hover:text-primary flex items-center gap-1">
+                    <Shield className="h-4 w-4" />
+                    Admin
+                  </Link>
+                )}
+                <Link to="/profile" className="text-foreground hover:text-primary flex items-center gap-1">
+                  <User className="h-4 w-4" />
+                  Profile
+                </Link>
                 <Button variant="ghost" onClick={handleSignOut} className="flex items-center gap-2">
                   <LogOut className="h-4 w-4" />
                   Sign Out
@@ -93,6 +123,38 @@ const Navbar = () => {
                   >
                     Add Resource
                   </Link>
+                  <Link
+                    to="/inbox"
+                    className="flex items-center px-3 py-2 text-foreground hover:text-primary"
+                    onClick={() => setIsOpen(false)}
+                  >
+                    Inbox
+                    {unreadMessages > 0 && <Badge className="ml-2 px-1.5">{unreadMessages}</Badge>}
+                  </Link>
+                  <Link
+                    to="/notifications"
+                    className="flex items-center px-3 py-2 text-foreground hover:text-primary"
+                    onClick={() => setIsOpen(false)}
+                  >
+                    Notifications
+                    {unreadNotifications > 0 && <Badge className="ml-2 px-1.5">{unreadNotifications}</Badge>}
+                  </Link>
+                  {isAdmin && (
+                    <Link
+                      to="/admin"
+                      className="block px-3 py-2 text-foreground hover:text-primary"
+                      onClick={() => setIsOpen(false)}
+                    >
+                      Admin
+                    </Link>
+                  )}
+                  <Link
+                    to="/profile"
+                    className="block px-3 py-2 text-foreground hover:text-primary"
+                    onClick={() => setIsOpen(false)}
+                  >
+                    Profile
+                  </Link>
                   <Button
                     variant="ghost"
                     onClick={() => {
@@ -0,0 +1,87 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { useNotificationPreferences, useSaveNotificationPreference } from "@/hooks/use-notifications";
+import { useToast } from "@/hooks/use-toast";
+import {
+  NOTIFICATION_TYPES,
+  NotificationChannels,
+  NotificationType,
+  notificationTypeLabels,
+} from "@/lib/notifications";
+
+interface NotificationPreferencesProps {
+  userId: string;
+}
+
+// Per-event switches for in-app and email notifications; each change saves
+// straight away
+const NotificationPreferences = ({ userId }: NotificationPreferencesProps) => {
+  const { toast } = useToast();
+  const { data: preferences } = useNotificationPreferences(userId);
+  const savePreference = useSaveNotificationPreference(userId);
+
+  const updatePreference = (type: NotificationType, channel: keyof NotificationChannels, value: boolean) => {
+    if (!preferences) return;
+
+    const channels = { ...preferences[type], [channel]: value };
+    savePreference.mutate(
+      { type, channels },
+      {
+        onError: (error) => {
+          console.error("Error saving notification preference:", error);
+          toast({
+            title: "Error",
+            description: "Failed to save notification settings",
+            variant: "destructive",
+          });
+        },
+      }
+    );
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">Notification Settings</CardTitle>
+        <CardDescription>Choose how you hear about each booking event.</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {!preferences ? (
+          <div className="text-center py-4">Loading settings...</div>
+        ) : (
+          <div className="space-y-4">
+            {NOTIFICATION_TYPES.map((type) => (
+              <div key={type} className="flex flex-wrap items-center justify-between gap-4">
+                <div>
+                  <p className="font-medium">{notificationTypeLabels[type].title}</p>
+                  <p className="text-sm text-muted-foreground">{notificationTypeLabels[type].description}</p>
+                </div>
+                <div className="flex items-center gap-6">
+                  <div className="flex items-center gap-2">
+                    <Switch
+                      id={`${type}_in_app`}
+                      checked={preferences[type].in_app}
+                      onCheckedChange={(checked) => updatePreference(type, "in_app", checked)}
+                    />
+                    <Label htmlFor={`${type}_in_app`} className="font-normal">In app</Label>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Switch
+                      id={`${type}_email`}
+                      checked={preferences[type].email}
+                      onCheckedChange={(checked) => updatePreference(type, "email", checked)}
+                    />
+                    <Label htmlFor={`${type}_email`} className="font-normal">Email</Label>
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default NotificationPreferences;
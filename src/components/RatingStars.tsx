@@ -0,0 +1,48 @@
+import { Star } from "lucide-react";
+import { cn } from "@/lib/utils";
+
+interface RatingStarsProps {
+  rating: number;
+  reviewCount?: number;
+  size?: "sm" | "md";
+  onChange?: (rating: number) => void;
+}
+
+// Five stars filled up to the rating; clickable when onChange is given
+const RatingStars = ({ rating, reviewCount, size = "sm", onChange }: RatingStarsProps) => {
+  const starClass = size === "sm" ? "h-4 w-4" : "h-6 w-6";
+
+  return (
+    <div className="flex items-center gap-1">
+      {[1, 2, 3, 4, 5].map((value) => {
+        const star = (
+          <Star
+            className={cn(
+              starClass,
+              value <= Math.round(rating) ? "fill-yellow-400 text-yellow-400" : "text-muted-foreground"
+            )}
+          />
+        );
+        return onChange ? (
+          <button
+            key={value}
+            type="button"
+            onClick={() => onChange(value)}
+            aria-label={`${value} star${value === 1 ? "" : "s"}`}
+          >
+            {star}
+          </button>
+        ) : (
+          <span key={value}>{star}</span>
+        );
+      })}
+      {reviewCount !== undefined && (
+        <span className="text-sm text-muted-foreground ml-1">
+          {reviewCount > 0 ? `${rating.toFixed(1)} (${reviewCount})` : "No reviews yet"}
+        </span>
+      )}
+    </div>
+  );
+};
+
+export default RatingStars;
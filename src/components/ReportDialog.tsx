@@ -0,0 +1,113 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useSubmitReport } from "@/hooks/use-reports";
+import { useToast } from "@/hooks/use-toast";
+import { getBookingErrorMessage } from "@/lib/bookings";
+import { REPORT_REASONS, ReportReason, ReportTargetType, reportReasonLabels } from "@/lib/reports";
+
+interface ReportDialogProps {
+  open: boolean;
+  targetType: ReportTargetType;
+  targetId: string;
+  targetName: string;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Flags a listing or member for the moderators to review
+const ReportDialog = ({ open, targetType, targetId, targetName, onOpenChange }: ReportDialogProps) => {
+  const { toast } = useToast();
+  const submitReport = useSubmitReport();
+  const reasons = REPORT_REASONS[targetType];
+  const [reason, setReason] = useState<ReportReason>(reasons[0]);
+  const [details, setDetails] = useState("");
+
+  useEffect(() => {
+    if (open) {
+      setReason(REPORT_REASONS[targetType][0]);
+      setDetails("");
+    }
+  }, [open, targetType]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    submitReport.mutate(
+      { targetType, targetId, reason, details },
+      {
+        onSuccess: () => {
+          toast({
+            title: "Report sent",
+            description: "Thanks for letting us know. Our moderators will review it.",
+          });
+          onOpenChange(false);
+        },
+        onError: (error) => {
+          console.error("Error sending report:", error);
+          toast({
+            title: "Error",
+            description: getBookingErrorMessage(error, "Failed to send report"),
+            variant: "destructive",
+          });
+        },
+      }
+    );
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle>{targetType === "resource" ? "Report Listing" : "Report Member"}</DialogTitle>
+            <DialogDescription>
+              Tell us what's wrong with "{targetName}". Reports are private; the{" "}
+              {targetType === "resource" ? "owner" : "member"} won't see who sent them.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="report_reason">Reason</Label>
+            <select
+              id="report_reason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value as ReportReason)}
+              className="w-full px-3 py-2 border border-input rounded-md bg-background"
+            >
+              {reasons.map((value) => (
+                <option key={value} value={value}>
+                  {reportReasonLabels[value]}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="report_details">Details (optional)</Label>
+            <Textarea
+              id="report_details"
+              value={details}
+              onChange={(e) => setDetails(e.target.value)}
+              maxLength={1000}
+              rows={4}
+            />
+          </div>
+          <DialogFooter>
+            <Button type="submit" variant="destructive" disabled={submitReport.isPending}>
+              {submitReport.isPending ? "Sending..." : "Send Report"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ReportDialog;
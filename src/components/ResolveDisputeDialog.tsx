@@ -0,0 +1,141 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useClaimPhotoUrls } from "@/hooks/use-damage-claims";
+import { useResolveDispute } from "@/hooks/use-admin";
+import { useToast } from "@/hooks/use-toast";
+import { AdminDispute, MemberSummary } from "@/lib/admin";
+import { getBookingErrorMessage } from "@/lib/bookings";
+
+interface ResolveDisputeDialogProps {
+  dispute: AdminDispute | null;
+  members: Record<string, MemberSummary>;
+  onOpenChange: (open: boolean) => void;
+  onResolved: () => void;
+}
+
+// Shows both sides of a disputed claim and lets an admin decide how much of
+// the deposit the owner keeps
+const ResolveDisputeDialog = ({ dispute, members, onOpenChange, onResolved }: ResolveDisputeDialogProps) => {
+  const { toast } = useToast();
+  const { data: photoUrls = [] } = useClaimPhotoUrls(dispute);
+  const resolveDispute = useResolveDispute();
+  const [amount, setAmount] = useState("");
+  const [note, setNote] = useState("");
+
+  const disputeAmount = dispute?.amount;
+
+  useEffect(() => {
+    setAmount(disputeAmount === undefined ? "" : String(disputeAmount));
+    setNote("");
+  }, [dispute?.id, disputeAmount]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!dispute) return;
+
+    resolveDispute.mutate(
+      { claimId: dispute.id, awardedAmount: parseFloat(amount), note },
+      {
+        onSuccess: () => {
+          toast({
+            title: "Success!",
+            description: "Dispute resolved",
+          });
+          onResolved();
+        },
+        onError: (error) => {
+          console.error("Error resolving dispute:", error);
+          toast({
+            title: "Error",
+            description: getBookingErrorMessage(error, "Failed to resolve dispute"),
+            variant: "destructive",
+          });
+        },
+      }
+    );
+  };
+
+  return (
+    <Dialog open={dispute !== null} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle>Resolve Dispute: ${dispute?.amount}</DialogTitle>
+            <DialogDescription>
+              "{dispute?.bookings.resources.title}", ${dispute?.bookings.deposit_amount} deposit.
+              Owner {members[dispute?.owner_id ?? ""]?.name ?? "unknown"}, renter{" "}
+              {members[dispute?.renter_id ?? ""]?.name ?? "unknown"}.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="p-3 bg-muted rounded-lg">
+            <p className="text-sm font-medium">Owner's claim</p>
+            <p className="text-sm whitespace-pre-wrap">{dispute?.description}</p>
+          </div>
+
+          {photoUrls.length > 0 && (
+            <div className="grid grid-cols-4 gap-2">
+              {photoUrls.map((url) => (
+                <a key={url} href={url} target="_blank" rel="noreferrer">
+                  <img src={url} alt="Damage" className="h-20 w-full object-cover rounded-md" />
+                </a>
+              ))}
+            </div>
+          )}
+
+          <div className="p-3 bg-muted rounded-lg">
+            <p className="text-sm font-medium">Renter's response</p>
+            <p className="text-sm whitespace-pre-wrap">{dispute?.renter_response || "No response given."}</p>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="awarded_amount">Amount the owner keeps ($)</Label>
+            <Input
+              id="awarded_amount"
+              type="number"
+              step="0.01"
+              min="0"
+              max={dispute?.amount}
+              value={amount}
+              onChange={(e) => setAmount(e.target.value)}
+              required
+            />
+            <p className="text-sm text-muted-foreground">
+              Enter 0 to reject the claim. The rest of the deposit is released when the booking completes.
+            </p>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="resolution_note">Decision</Label>
+            <Textarea
+              id="resolution_note"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              maxLength={2000}
+              rows={3}
+              placeholder="Shown to both the owner and the renter"
+              required
+            />
+          </div>
+          <DialogFooter>
+            <Button type="submit" disabled={resolveDispute.isPending || !note.trim()}>
+              {resolveDispute.isPending ? "Resolving..." : "Resolve Dispute"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ResolveDisputeDialog;
@@ -0,0 +1,572 @@
+import { useMemo, useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import AvailabilityRulesEditor from "@/components/AvailabilityRulesEditor";
+import CategoryAttributeFields from "@/components/CategoryAttributeFields";
+import ImageUploader from "@/components/ImageUploader";
+import { useCategories } from "@/hooks/use-categories";
+import { BUFFER_OPTIONS, getBrowserTimeZone, getTimeZoneOptions, toWeeklyHoursDrafts } from "@/lib/availability";
+import { bookingModeLabels, RESPONSE_WINDOW_OPTIONS } from "@/lib/bookings";
+import { flattenCategoryTree, getCategoryAttributes, getCategoryOptionLabel } from "@/lib/categories";
+import { geocodeAddress } from "@/lib/geocoding";
+import { getResourceFormSchema, Resource, ResourceFormData } from "@/lib/resources";
+import { BOOKING_MODES } from "@shared/schemas";
+import { MapPin } from "lucide-react";
+
+const emptyResourceFormData: ResourceFormData = {
+  title: "",
+  description: "",
+  category_id: "",
+  attributes: {},
+  price: "",
+  hourly_price: "",
+  weekly_price: "",
+  weekend_price: "",
+  min_rental_hours: "1",
+  deposit_amount: "",
+  location: "",
+  address: "",
+  coordinates: null,
+  images: [],
+  availability_start: "",
+  availability_end: "",
+  buffer_minutes: "0",
+  timezone: getBrowserTimeZone(),
+  weekly_hours_enabled: false,
+  weekly_hours: toWeeklyHoursDrafts(),
+  blackouts: [],
+  is_available: true,
+  booking_mode: "request",
+  instant_book_verified_email: true,
+  instant_book_min_rating: "",
+  request_expiry_hours: "24",
+  ical_import_url: "",
+};
+
+interface ResourceFormProps {
+  initialData?: ResourceFormData;
+  submitLabel: string;
+  submittingLabel: string;
+  loading: boolean;
+  showAvailabilityToggle?: boolean;
+  // Outcome of the last calendar import, shown when editing
+  calendarImport?: Pick<Resource, "ical_synced_at" | "ical_sync_error">;
+  onSubmit: (data: ResourceFormData) => void;
+  onCancel: () => void;
+}
+
+type AvailabilityRules = Pick<ResourceFormData, "weekly_hours_enabled" | "weekly_hours" | "blackouts">;
+
+const priceFields = [
+  { name: "hourly_price", label: "Price per hour ($, optional)" },
+  { name: "weekly_price", label: "Price per week ($, optional)" },
+  { name: "weekend_price", label: "Weekend day price ($, optional)" },
+] as const;
+
+const MIN_RATING_OPTIONS = ["3", "3.5", "4", "4.5"];
+
+const ResourceForm = ({
+  initialData = emptyResourceFormData,
+  submitLabel,
+  submittingLabel,
+  loading,
+  showAvailabilityToggle = false,
+  calendarImport,
+  onSubmit,
+  onCancel,
+}: ResourceFormProps) => {
+  const { data: categories = [] } = useCategories();
+  const categoryOptions = useMemo(() => flattenCategoryTree(categories), [categories]);
+  const form = useForm<ResourceFormData>({
+    // The rules depend on the category being validated, so the schema is
+    // built for each check
+    resolver: (values, context, options) =>
+      zodResolver(getResourceFormSchema(getCategoryAttributes(categories, values.category_id)))(
+        values,
+        context,
+        options
+      ),
+    defaultValues: initialData,
+  });
+  const attributes = getCategoryAttributes(categories, form.watch("category_id"));
+  const [locating, setLocating] = useState(false);
+  const address = form.watch("address");
+  const coordinates = form.watch("coordinates");
+  const availabilityStart = form.watch("availability_start");
+  const bookingMode = form.watch("booking_mode");
+  const rules: AvailabilityRules = {
+    weekly_hours_enabled: form.watch("weekly_hours_enabled"),
+    weekly_hours: form.watch("weekly_hours"),
+    blackouts: form.watch("blackouts"),
+  };
+
+  // Once the form has been submitted, edits are checked as they happen
+  const updateRules = (changes: Partial<AvailabilityRules>) => {
+    const options = { shouldValidate: form.formState.isSubmitted };
+    if (changes.weekly_hours_enabled !== undefined) {
+      form.setValue("weekly_hours_enabled", changes.weekly_hours_enabled, options);
+    }
+    if (changes.weekly_hours) form.setValue("weekly_hours", changes.weekly_hours, options);
+    if (changes.blackouts) form.setValue("blackouts", changes.blackouts, options);
+  };
+
+  // Look up the exact address; returns the form data with coordinates filled in
+  const locateAddress = async (data: ResourceFormData) => {
+    if (!data.address.trim() || data.coordinates) return data;
+
+    setLocating(true);
+    try {
+      const result = await geocodeAddress(data.address);
+      if (!result) {
+        form.setError("address", { message: "We couldn't find this address" });
+        return null;
+      }
+      const located = { latitude: result.latitude, longitude: result.longitude };
+      form.setValue("coordinates", located);
+      form.clearErrors("address");
+      return { ...data, coordinates: located };
+    } catch (error) {
+      console.error("Error geocoding address:", error);
+      form.setError("address", { message: "Address lookup failed, please try again" });
+      return null;
+    } finally {
+      setLocating(false);
+    }
+  };
+
+  const handleSubmit = form.handleSubmit(async (data) => {
+    const located = await locateAddress(data);
+    if (!located) return;
+
+    onSubmit(located);
+  });
+
+  return (
+    <Form {...form}>
+      <form onSubmit={handleSubmit} className="space-y-6" noValidate>
+        <FormField
+          control={form.control}
+          name="title"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Title</FormLabel>
+              <FormControl>
+                <Input {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="description"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Description</FormLabel>
+              <FormControl>
+                <Textarea rows={4} {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="category_id"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Category</FormLabel>
+              <FormControl>
+                <select {...field} className="w-full px-3 py-2 border border-input rounded-md bg-background">
+                  <option value="">Select a category</option>
+                  {categoryOptions.map((option) => (
+                    <option key={option.category.id} value={option.category.id}>
+                      {getCategoryOptionLabel(option)}
+                    </option>
+                  ))}
+                </select>
+              </FormControl>
+              <FormDescription>Pick the most specific category that fits.</FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <CategoryAttributeFields attributes={attributes} />
+
+        <FormField
+          control={form.control}
+          name="price"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Price per day ($)</FormLabel>
+              <FormControl>
+                <Input type="number" step="0.01" min="0" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          {priceFields.map(({ name, label }) => (
+            <FormField
+              key={name}
+              control={form.control}
+              name={name}
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>{label}</FormLabel>
+                  <FormControl>
+                    <Input type="number" step="0.01" min="0" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          ))}
+        </div>
+
+        <FormField
+          control={form.control}
+          name="min_rental_hours"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Minimum rental (hours)</FormLabel>
+              <FormControl>
+                <Input type="number" step="1" min="1" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="deposit_amount"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Refundable deposit ($, optional)</FormLabel>
+              <FormControl>
+                <Input type="number" step="0.01" min="0" {...field} />
+              </FormControl>
+              <FormDescription>
+                Held for each booking and released once the item is returned undamaged.
+              </FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="location"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Location</FormLabel>
+              <FormControl>
+                <Input placeholder="Neighborhood or city" {...field} />
+              </FormControl>
+              <FormDescription>Shown publicly on your listing.</FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="address"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Exact address (optional)</FormLabel>
+              <div className="flex gap-2">
+                <FormControl>
+                  <Input
+                    {...field}
+                    onChange={(e) => {
+                      field.onChange(e);
+                      // A changed address has to be located again
+                      form.setValue("coordinates", null);
+                    }}
+                  />
+                </FormControl>
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() => locateAddress(form.getValues())}
+                  disabled={locating || !address.trim() || coordinates !== null}
+                >
+                  <MapPin className="h-4 w-4 mr-2" />
+                  {locating ? "Locating..." : "Locate"}
+                </Button>
+              </div>
+              <FormDescription>
+                {coordinates
+                  ? "Located. Browsers see an approximate area until you accept their booking."
+                  : "Lets renters find this resource nearby. Only shared once you accept a booking."}
+              </FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="images"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Photos (optional)</FormLabel>
+              <ImageUploader images={field.value} onChange={field.onChange} />
+            </FormItem>
+          )}
+        />
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <FormField
+            control={form.control}
+            name="availability_start"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Available From</FormLabel>
+                <FormControl>
+                  <Input type="datetime-local" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="availability_end"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Available Until</FormLabel>
+                <FormControl>
+                  <Input type="datetime-local" min={availabilityStart} {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
+        <AvailabilityRulesEditor
+          value={rules}
+          onChange={updateRules}
+          errors={{
+            weekly_hours: form.formState.errors.weekly_hours?.message,
+            blackouts: form.formState.errors.blackouts?.message,
+          }}
+        />
+
+        <FormField
+          control={form.control}
+          name="timezone"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Time zone</FormLabel>
+              <FormControl>
+                <select {...field} className="w-full px-3 py-2 border border-input rounded-md bg-background">
+                  {getTimeZoneOptions(field.value).map((zone) => (
+                    <option key={zone} value={zone}>
+                      {zone.replace(/_/g, " ")}
+                    </option>
+                  ))}
+                </select>
+              </FormControl>
+              <FormDescription>
+                Weekly hours are in this time zone, wherever you edit the listing from.
+              </FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="buffer_minutes"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Time between rentals</FormLabel>
+              <FormControl>
+                <select {...field} className="w-full px-3 py-2 border border-input rounded-md bg-background">
+                  {BUFFER_OPTIONS.map((option) => (
+                    <option key={option.value} value={option.value}>
+                      {option.label}
+                    </option>
+                  ))}
+                </select>
+              </FormControl>
+              <FormDescription>
+                Kept free before and after each booking for cleaning or charging.
+              </FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="ical_import_url"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Import calendar (optional)</FormLabel>
+              <FormControl>
+                <Input {...field} placeholder="webcal://example.com/listing.ics" />
+              </FormControl>
+              <FormDescription>
+                Listed somewhere else too? Paste that platform's calendar export link and its bookings will block
+                dates here. It is checked for changes every hour.
+              </FormDescription>
+              {calendarImport?.ical_sync_error ? (
+                <p className="text-sm text-destructive">Last import failed: {calendarImport.ical_sync_error}</p>
+              ) : (
+                calendarImport?.ical_synced_at && (
+                  <p className="text-sm text-muted-foreground">
+                    Last imported {new Date(calendarImport.ical_synced_at).toLocaleString()}
+                  </p>
+                )
+              )}
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="booking_mode"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Booking approval</FormLabel>
+              <FormControl>
+                <select {...field} className="w-full px-3 py-2 border border-input rounded-md bg-background">
+                  {BOOKING_MODES.map((mode) => (
+                    <option key={mode} value={mode}>
+                      {bookingModeLabels[mode]}
+                    </option>
+                  ))}
+                </select>
+              </FormControl>
+              <FormDescription>
+                {bookingMode === "instant"
+                  ? "Renters who meet your criteria are confirmed straight away; others still send a request."
+                  : "You accept or decline every request yourself."}
+              </FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        {bookingMode === "instant" && (
+          <div className="space-y-4 rounded-lg border p-4">
+            <FormField
+              control={form.control}
+              name="instant_book_verified_email"
+              render={({ field }) => (
+                <FormItem className="flex items-center justify-between space-y-0">
+                  <div>
+                    <FormLabel>Verified email required</FormLabel>
+                    <FormDescription>Only renters who confirmed their email address can book instantly.</FormDescription>
+                  </div>
+                  <FormControl>
+                    <Switch checked={field.value} onCheckedChange={field.onChange} />
+                  </FormControl>
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="instant_book_min_rating"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Minimum renter rating</FormLabel>
+                  <FormControl>
+                    <select {...field} className="w-full px-3 py-2 border border-input rounded-md bg-background">
+                      <option value="">Any rating</option>
+                      {MIN_RATING_OPTIONS.map((rating) => (
+                        <option key={rating} value={rating}>
+                          {rating} stars or more
+                        </option>
+                      ))}
+                    </select>
+                  </FormControl>
+                  <FormDescription>Renters without reviews only qualify when any rating is accepted.</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          </div>
+        )}
+
+        <FormField
+          control={form.control}
+          name="request_expiry_hours"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Time to answer requests</FormLabel>
+              <FormControl>
+                <select {...field} className="w-full px-3 py-2 border border-input rounded-md bg-background">
+                  {RESPONSE_WINDOW_OPTIONS.map((option) => (
+                    <option key={option.value} value={option.value}>
+                      {option.label}
+                    </option>
+                  ))}
+                </select>
+              </FormControl>
+              <FormDescription>
+                Requests you haven't answered by then expire and any payment hold is released.
+              </FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        {showAvailabilityToggle && (
+          <FormField
+            control={form.control}
+            name="is_available"
+            render={({ field }) => (
+              <FormItem className="flex items-center justify-between space-y-0 rounded-lg border p-4">
+                <div>
+                  <FormLabel>Listed for booking</FormLabel>
+                  <FormDescription>
+                    Unlisted resources are hidden from browsing and cannot be booked.
+                  </FormDescription>
+                </div>
+                <FormControl>
+                  <Switch checked={field.value} onCheckedChange={field.onChange} />
+                </FormControl>
+              </FormItem>
+            )}
+          />
+        )}
+
+        <div className="flex gap-4">
+          <Button type="submit" disabled={loading || locating} className="flex-1">
+            {loading ? submittingLabel : submitLabel}
+          </Button>
+          <Button type="button" variant="outline" onClick={onCancel}>
+            Cancel
+          </Button>
+        </div>
+      </form>
+    </Form>
+  );
+};
+
+export default ResourceForm;
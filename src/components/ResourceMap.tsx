@@ -0,0 +1,133 @@
+import { useMemo, useState } from "react";
+import { Link } from "react-router-dom";
+import L from "leaflet";
+import { MapContainer, Marker, Popup, TileLayer, useMap, useMapEvents } from "react-leaflet";
+import "leaflet/dist/leaflet.css";
+import { Coordinates } from "@/lib/geocoding";
+
+export interface MapListing extends Coordinates {
+  id: string;
+  title: string;
+  price: number;
+}
+
+interface Cluster extends Coordinates {
+  key: string;
+  listings: MapListing[];
+}
+
+interface ResourceMapProps {
+  listings: MapListing[];
+  origin?: Coordinates | null;
+}
+
+const CLUSTER_CELL_PX = 60;
+const DEFAULT_CENTER: L.LatLngTuple = [40.7128, -74.006];
+
+const markerIcon = (label: string, size: L.PointTuple, colorClass = "bg-primary text-primary-foreground") =>
+  L.divIcon({
+    className: "",
+    html: `<div class="flex h-full w-full items-center justify-center rounded-full ${colorClass} text-xs font-semibold shadow-md border-2 border-background">${label}</div>`,
+    iconSize: size,
+  });
+
+// Group listings whose markers would overlap at the current zoom level
+const clusterListings = (map: L.Map, listings: MapListing[], zoom: number) => {
+  const cells = new Map<string, MapListing[]>();
+  for (const listing of listings) {
+    const point = map.project([listing.latitude, listing.longitude], zoom);
+    const key = `${Math.floor(point.x / CLUSTER_CELL_PX)}:${Math.floor(point.y / CLUSTER_CELL_PX)}`;
+    cells.set(key, [...(cells.get(key) ?? []), listing]);
+  }
+
+  return [...cells.entries()].map(([key, members]): Cluster => ({
+    key,
+    listings: members,
+    latitude: members.reduce((sum, l) => sum + l.latitude, 0) / members.length,
+    longitude: members.reduce((sum, l) => sum + l.longitude, 0) / members.length,
+  }));
+};
+
+const ClusteredMarkers = ({ listings }: { listings: MapListing[] }) => {
+  const map = useMap();
+  const [zoom, setZoom] = useState(map.getZoom());
+  useMapEvents({ zoomend: () => setZoom(map.getZoom()) });
+
+  const clusters = useMemo(() => clusterListings(map, listings, zoom), [map, listings, zoom]);
+
+  return (
+    <>
+      {clusters.map((cluster) =>
+        cluster.listings.length === 1 ? (
+          <Marker
+            key={cluster.key}
+            position={[cluster.latitude, cluster.longitude]}
+            icon={markerIcon(`$${cluster.listings[0].price}`, [64, 28])}
+          >
+            <Popup>
+              <Link to={`/book/${cluster.listings[0].id}`} className="font-medium">
+                {cluster.listings[0].title}
+              </Link>
+              <div>${cluster.listings[0].price}/day</div>
+            </Popup>
+          </Marker>
+        ) : (
+          <Marker
+            key={cluster.key}
+            position={[cluster.latitude, cluster.longitude]}
+            icon={markerIcon(String(cluster.listings.length), [40, 40])}
+          >
+            <Popup>
+              <ul className="space-y-1">
+                {cluster.listings.map((listing) => (
+                  <li key={listing.id}>
+                    <Link to={`/book/${listing.id}`} className="font-medium">
+                      {listing.title}
+                    </Link>{" "}
+                    - ${listing.price}/day
+                  </li>
+                ))}
+              </ul>
+            </Popup>
+          </Marker>
+        )
+      )}
+    </>
+  );
+};
+
+// Listings on an OpenStreetMap map, clustered by zoom level. Positions are the
+// approximate public coordinates, never the exact address.
+const ResourceMap = ({ listings, origin }: ResourceMapProps) => {
+  const bounds = useMemo(() => {
+    const points: L.LatLngTuple[] = listings.map((l) => [l.latitude, l.longitude]);
+    if (origin) points.push([origin.latitude, origin.longitude]);
+    return points.length > 0 ? L.latLngBounds(points).pad(0.1) : undefined;
+  }, [listings, origin]);
+
+  return (
+    <MapContainer
+      key={bounds?.toBBoxString() ?? "default"}
+      bounds={bounds}
+      center={bounds ? undefined : DEFAULT_CENTER}
+      zoom={bounds ? undefined : 11}
+      maxZoom={15}
+      className="h-[600px] w-full rounded-lg border z-0"
+    >
+      <TileLayer
+        attribution='&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors'
+        url="https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png"
+      />
+      {origin && (
+        <Marker
+          position={[origin.latitude, origin.longitude]}
+          icon={markerIcon("", [16, 16], "bg-blue-500")}
+          title="Search location"
+        />
+      )}
+      <ClusteredMarkers listings={listings} />
+    </MapContainer>
+  );
+};
+
+export default ResourceMap;
@@ -0,0 +1,93 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import RatingStars from "@/components/RatingStars";
+import { useSubmitReview } from "@/hooks/use-reviews";
+import { useToast } from "@/hooks/use-toast";
+import { getBookingErrorMessage } from "@/lib/bookings";
+
+interface ReviewDialogProps {
+  bookingId: string | null;
+  title: string;
+  description: string;
+  onOpenChange: (open: boolean) => void;
+  onSubmitted: (bookingId: string) => void;
+}
+
+const ReviewDialog = ({ bookingId, title, description, onOpenChange, onSubmitted }: ReviewDialogProps) => {
+  const { toast } = useToast();
+  const [rating, setRating] = useState(0);
+  const [comment, setComment] = useState("");
+  const submitReview = useSubmitReview();
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!bookingId || rating === 0) return;
+
+    submitReview.mutate(
+      { bookingId, rating, comment },
+      {
+        onSuccess: () => {
+          toast({
+            title: "Success!",
+            description: "Thanks for your review",
+          });
+          setRating(0);
+          setComment("");
+          onSubmitted(bookingId);
+        },
+        onError: (error) => {
+          console.error("Error submitting review:", error);
+          toast({
+            title: "Error",
+            description: getBookingErrorMessage(error, "Failed to submit review"),
+            variant: "destructive",
+          });
+        },
+      }
+    );
+  };
+
+  return (
+    <Dialog open={bookingId !== null} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle>{title}</DialogTitle>
+            <DialogDescription>{description}</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label>Rating</Label>
+            <RatingStars rating={rating} size="md" onChange={setRating} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="review_comment">Comment (optional)</Label>
+            <Textarea
+              id="review_comment"
+              value={comment}
+              onChange={(e) => setComment(e.target.value)}
+              maxLength={2000}
+              rows={4}
+            />
+          </div>
+          <DialogFooter>
+            <Button type="submit" disabled={submitReview.isPending || rating === 0}>
+              {submitReview.isPending ? "Submitting..." : "Submit Review"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ReviewDialog;
@@ -0,0 +1,51 @@
+import { Link } from "react-router-dom";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import RatingStars from "@/components/RatingStars";
+import { usePublicProfiles } from "@/hooks/use-profiles";
+import { getInitials } from "@/lib/profiles";
+import { Review } from "@/lib/reviews";
+
+interface ReviewListProps {
+  reviews: Review[];
+  emptyMessage?: string;
+}
+
+const ReviewList = ({ reviews, emptyMessage = "No reviews yet." }: ReviewListProps) => {
+  const { data: reviewers = {} } = usePublicProfiles(reviews.map(review => review.reviewer_id));
+
+  if (reviews.length === 0) {
+    return <p className="text-muted-foreground">{emptyMessage}</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      {reviews.map((review) => {
+        const reviewer = reviewers[review.reviewer_id];
+        return (
+          <div key={review.id} className="flex gap-3 border-b pb-4 last:border-b-0">
+            <Link to={`/users/${review.reviewer_id}`}>
+              <Avatar>
+                {reviewer?.avatar_url && <AvatarImage src={reviewer.avatar_url} alt="" />}
+                <AvatarFallback>{getInitials(reviewer?.name)}</AvatarFallback>
+              </Avatar>
+            </Link>
+            <div className="flex-1 space-y-1">
+              <div className="flex justify-between items-center">
+                <Link to={`/users/${review.reviewer_id}`} className="font-medium hover:underline">
+                  {reviewer?.name ?? "Member"}
+                </Link>
+                <span className="text-sm text-muted-foreground">
+                  {new Date(review.created_at).toLocaleDateString()}
+                </span>
+              </div>
+              <RatingStars rating={review.rating} />
+              {review.comment && <p className="text-sm">{review.comment}</p>}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default ReviewList;
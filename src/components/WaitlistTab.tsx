@@ -0,0 +1,84 @@
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { usePublicProfiles } from "@/hooks/use-profiles";
+import { useResourceWaitlists } from "@/hooks/use-waitlist";
+import {
+  formatWaitlistDates,
+  groupWaitlistByResource,
+  WaitlistStatus,
+  waitlistStatusLabels,
+} from "@/lib/waitlist";
+
+interface WaitlistTabProps {
+  userId: string | undefined;
+}
+
+// Renters waiting for dates on the owner's resources, in the order freed
+// dates are offered to them
+const WaitlistTab = ({ userId }: WaitlistTabProps) => {
+  const { data: entries = [], isLoading: loading } = useResourceWaitlists(userId);
+  const { data: renters = {} } = usePublicProfiles(entries.map((entry) => entry.renter_id));
+  const groups = groupWaitlistByResource(entries);
+
+  if (loading) {
+    return <div className="text-center text-muted-foreground py-8">Loading waitlists...</div>;
+  }
+
+  if (groups.length === 0) {
+    return (
+      <p className="text-center text-muted-foreground py-8">
+        Nobody is waiting for your resources. Renters can join a waitlist when the dates they want are taken.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {groups.map((group) => (
+        <Card key={group.resourceId}>
+          <CardHeader>
+            <CardTitle className="text-lg">{group.title}</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Renter</TableHead>
+                  <TableHead>Dates</TableHead>
+                  <TableHead>Joined</TableHead>
+                  <TableHead className="text-right">Status</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {group.entries.map((entry) => (
+                  <TableRow key={entry.id}>
+                    <TableCell className="font-medium">{renters[entry.renter_id]?.name ?? "Member"}</TableCell>
+                    <TableCell>{formatWaitlistDates(entry)}</TableCell>
+                    <TableCell>{new Date(entry.created_at).toLocaleDateString()}</TableCell>
+                    <TableCell className="text-right">
+                      <Badge variant={entry.status === "offered" ? "default" : "secondary"}>
+                        {entry.status === "offered" && entry.offer_expires_at
+                          ? `Offered until ${new Date(entry.offer_expires_at).toLocaleString()}`
+                          : waitlistStatusLabels[entry.status as WaitlistStatus] ?? entry.status}
+                      </Badge>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      ))}
+    </div>
+  );
+};
+
+export default WaitlistTab;
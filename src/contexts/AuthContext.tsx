@@ -2,6 +2,7 @@ import { createContext, useContext, useEffect, useState } from "react";
 import { User, Session } from "@supabase/supabase-js";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
+import { queryClient } from "@/lib/query-client";
 
 interface AuthContextType {
   user: User | null;
@@ -36,6 +37,11 @@ export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
         setUser(session?.user ?? null);
         setLoading(false);
 
+        // Cached queries belong to the previous user
+        if (event === 'SIGNED_OUT') {
+          queryClient.clear();
+        }
+
         // Create profile if user signs up
         if (event === 'SIGNED_IN' && session?.user) {
           setTimeout(async () => {
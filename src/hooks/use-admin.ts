@@ -0,0 +1,276 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import {
+  ADMIN_LIST_LIMIT,
+  AdminBooking,
+  AdminDispute,
+  AdminResource,
+  fetchMemberSummaries,
+} from "@/lib/admin";
+import { BookingStatus } from "@/lib/bookings";
+import { queryKeys } from "@/lib/query-keys";
+import { ReportTargetType, groupReports } from "@/lib/reports";
+
+// Roles change rarely and are enforced again by every admin function, so the
+// answer can be cached for a while
+const ROLE_STALE_TIME = 5 * 60 * 1000;
+
+export function useIsAdmin(userId: string | undefined) {
+  return useQuery({
+    queryKey: queryKeys.admin.role(userId ?? ""),
+    enabled: !!userId,
+    staleTime: ROLE_STALE_TIME,
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc("is_admin");
+
+      if (error) throw error;
+      return data;
+    },
+  });
+}
+
+export function useAdminUsers(search: string, enabled: boolean) {
+  return useQuery({
+    queryKey: queryKeys.admin.users(search),
+    enabled,
+    meta: { errorMessage: "Failed to load members" },
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc("admin_list_users", {
+        _search: search || undefined,
+        _limit: ADMIN_LIST_LIMIT,
+      });
+
+      if (error) throw error;
+      return data || [];
+    },
+  });
+}
+
+export function useAdminResources(search: string, enabled: boolean) {
+  return useQuery({
+    queryKey: queryKeys.admin.resources(search),
+    enabled,
+    meta: { errorMessage: "Failed to load listings" },
+    queryFn: async () => {
+      let query = supabase
+        .from("resources")
+        .select("id, title, category, owner_id, is_available, unpublished_at, unpublished_reason, created_at")
+        .order("created_at", { ascending: false })
+        .limit(ADMIN_LIST_LIMIT);
+
+      if (search) {
+        query = query.ilike("title", `%${search}%`);
+      }
+
+      const { data, error } = await query;
+      if (error) throw error;
+
+      const resources = (data || []) as AdminResource[];
+      const owners = await fetchMemberSummaries(resources.map((r) => r.owner_id));
+      return { resources, owners };
+    },
+  });
+}
+
+export function useAdminBookings(search: string, status: BookingStatus | "all", enabled: boolean) {
+  return useQuery({
+    queryKey: queryKeys.admin.bookings(search, status),
+    enabled,
+    meta: { errorMessage: "Failed to load bookings" },
+    queryFn: async () => {
+      let query = supabase
+        .from("bookings")
+        .select("id, resource_id, renter_id, owner_id, start_time, end_time, total_price, status, created_at, resources!inner(title)")
+        .order("created_at", { ascending: false })
+        .limit(ADMIN_LIST_LIMIT);
+
+      if (search) {
+        query = query.ilike("resources.title", `%${search}%`);
+      }
+      if (status !== "all") {
+        query = query.eq("status", status);
+      }
+
+      const { data, error } = await query;
+      if (error) throw error;
+
+      const bookings = (data || []) as AdminBooking[];
+      const members = await fetchMemberSummaries(bookings.flatMap((b) => [b.renter_id, b.owner_id]));
+      return { bookings, members };
+    },
+  });
+}
+
+// Claims the renter disputed, oldest first so they are settled in order
+export function useAdminDisputes(enabled: boolean) {
+  return useQuery({
+    queryKey: queryKeys.admin.disputes(),
+    enabled,
+    meta: { errorMessage: "Failed to load disputes" },
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("damage_claims")
+        .select("*, bookings(deposit_amount, start_time, end_time, resources(title))")
+        .eq("status", "disputed")
+        .order("updated_at", { ascending: true });
+
+      if (error) throw error;
+
+      const disputes = (data || []) as AdminDispute[];
+      const members = await fetchMemberSummaries(disputes.flatMap((d) => [d.renter_id, d.owner_id]));
+      return { disputes, members };
+    },
+  });
+}
+
+// Open reports grouped by the listing or member they are about, with what
+// the moderators need to judge them
+export function useReportQueue(enabled: boolean) {
+  return useQuery({
+    queryKey: queryKeys.admin.reports(),
+    enabled,
+    meta: { errorMessage: "Failed to load reports" },
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("reports")
+        .select("*")
+        .eq("status", "open")
+        .order("created_at", { ascending: true });
+
+      if (error) throw error;
+
+      const groups = groupReports(data || []);
+      const resourceIds = groups.filter((g) => g.targetType === "resource").map((g) => g.targetId);
+      let resources: AdminResource[] = [];
+      if (resourceIds.length > 0) {
+        const { data: resourceData, error: resourceError } = await supabase
+          .from("resources")
+          .select("id, title, category, owner_id, is_available, unpublished_at, unpublished_reason, created_at")
+          .in("id", resourceIds);
+
+        if (resourceError) throw resourceError;
+        resources = resourceData || [];
+      }
+
+      const members = await fetchMemberSummaries([
+        ...(data || []).flatMap((r) => [r.reporter_id, ...(r.reported_user_id ? [r.reported_user_id] : [])]),
+        ...resources.map((r) => r.owner_id),
+      ]);
+      return {
+        groups,
+        resources: Object.fromEntries(resources.map((r) => [r.id, r])) as Record<string, AdminResource>,
+        members,
+      };
+    },
+  });
+}
+
+export function useAuditLog(enabled: boolean) {
+  return useQuery({
+    queryKey: queryKeys.admin.auditLog(),
+    enabled,
+    meta: { errorMessage: "Failed to load the audit log" },
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("admin_audit_log")
+        .select("*")
+        .order("created_at", { ascending: false })
+        .limit(ADMIN_LIST_LIMIT);
+
+      if (error) throw error;
+
+      const entries = data || [];
+      const admins = await fetchMemberSummaries(entries.flatMap((e) => (e.admin_id ? [e.admin_id] : [])));
+      return { entries, admins };
+    },
+  });
+}
+
+// Every moderation action writes to the audit log and can change listings,
+// bookings or deposits that are cached elsewhere in the app
+const useAdminMutation = <TVariables, TData>(mutationFn: (variables: TVariables) => Promise<TData>) => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.admin.all });
+      queryClient.invalidateQueries({ queryKey: queryKeys.resources.all });
+      queryClient.invalidateQueries({ queryKey: queryKeys.bookings.all });
+      queryClient.invalidateQueries({ queryKey: queryKeys.earnings.all });
+    },
+  });
+};
+
+export function useSuspendUser() {
+  return useAdminMutation(async ({ userId, reason }: { userId: string; reason: string }) => {
+    const { data, error } = await supabase.rpc("admin_suspend_user", { _user_id: userId, _reason: reason });
+
+    if (error) throw error;
+    return data;
+  });
+}
+
+export function useUnsuspendUser() {
+  return useAdminMutation(async (userId: string) => {
+    const { error } = await supabase.rpc("admin_unsuspend_user", { _user_id: userId });
+
+    if (error) throw error;
+  });
+}
+
+export function useSetResourcePublished() {
+  return useAdminMutation(
+    async ({ resourceId, published, reason }: { resourceId: string; published: boolean; reason?: string }) => {
+      const { data, error } = await supabase.rpc("admin_set_resource_published", {
+        _resource_id: resourceId,
+        _published: published,
+        _reason: reason,
+      });
+
+      if (error) throw error;
+      return data;
+    }
+  );
+}
+
+export function useResolveDispute() {
+  return useAdminMutation(
+    async ({ claimId, awardedAmount, note }: { claimId: string; awardedAmount: number; note: string }) => {
+      const { data, error } = await supabase.rpc("admin_resolve_damage_claim", {
+        _claim_id: claimId,
+        _awarded_amount: awardedAmount,
+        _note: note,
+      });
+
+      if (error) throw error;
+      return data;
+    }
+  );
+}
+
+export function useResolveReports() {
+  return useAdminMutation(
+    async ({
+      targetType,
+      targetId,
+      action,
+      note,
+    }: {
+      targetType: ReportTargetType;
+      targetId: string;
+      action: "take_down" | "dismiss";
+      note?: string;
+    }) => {
+      const { data, error } = await supabase.rpc("admin_resolve_reports", {
+        _target_type: targetType,
+        _target_id: targetId,
+        _action: action,
+        _note: note,
+      });
+
+      if (error) throw error;
+      return data;
+    }
+  );
+}
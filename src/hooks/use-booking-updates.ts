@@ -0,0 +1,105 @@
+import { useEffect, useRef } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import type { RealtimePostgresChangesPayload } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import type { DashboardBooking } from "@/components/BookingCard";
+import { useAuth } from "@/contexts/AuthContext";
+import { updateCachedBooking } from "@/hooks/use-bookings";
+import type { OwnedResource } from "@/hooks/use-resources";
+import { useToast } from "@/hooks/use-toast";
+import { BookingStatus, bookingStatusLabels } from "@/lib/bookings";
+import { queryKeys } from "@/lib/query-keys";
+
+type BookingRow = Tables<"bookings">;
+
+// Keeps the signed-in user's bookings current through Realtime, as renter
+// and as owner, and announces changes made by the other party
+export function useBookingUpdates() {
+  const { user } = useAuth();
+  const userId = user?.id;
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const toastRef = useRef(toast);
+  toastRef.current = toast;
+
+  useEffect(() => {
+    if (!userId) return;
+
+    const renterKey = queryKeys.bookings.renter(userId);
+    const ownerKey = queryKeys.bookings.owner(userId);
+
+    const findCachedBooking = (bookingId: string) =>
+      [renterKey, ownerKey]
+        .flatMap((key) => queryClient.getQueryData<DashboardBooking[]>(key) ?? [])
+        .find((booking) => booking.id === bookingId);
+
+    const resourceTitle = (booking: BookingRow) =>
+      findCachedBooking(booking.id)?.resources.title ??
+      queryClient
+        .getQueryData<OwnedResource[]>(queryKeys.resources.owned(userId))
+        ?.find((resource) => resource.id === booking.resource_id)?.title;
+
+    const refresh = () => {
+      // Embedded payments, deposits and claims are not part of the payload
+      queryClient.invalidateQueries({ queryKey: queryKeys.bookings.all });
+      queryClient.invalidateQueries({ queryKey: queryKeys.earnings.all });
+    };
+
+    const handleChange = (payload: RealtimePostgresChangesPayload<BookingRow>) => {
+      if (payload.eventType === "INSERT") {
+        const booking = payload.new;
+        if (booking.owner_id === userId && booking.renter_id !== userId) {
+          toastRef.current({
+            title: "New booking request",
+            description: `Someone wants to rent ${resourceTitle(booking) ?? "one of your resources"}.`,
+          });
+        }
+      } else if (payload.eventType === "UPDATE") {
+        const booking = payload.new;
+        const cached = findCachedBooking(booking.id);
+        // A status the cache already shows was applied by this user
+        const changedElsewhere = cached ? cached.status !== booking.status : payload.old.status !== booking.status;
+        updateCachedBooking(queryClient, booking.id, {
+          status: booking.status,
+          start_time: booking.start_time,
+          end_time: booking.end_time,
+          total_price: booking.total_price,
+        });
+        if (changedElsewhere) {
+          const label = bookingStatusLabels[booking.status as BookingStatus].toLowerCase();
+          toastRef.current({
+            title: "Booking updated",
+            description: `${resourceTitle(booking) ?? "A booking"} is now ${label}.`,
+          });
+        }
+      }
+
+      refresh();
+      queryClient.invalidateQueries({
+        queryKey: queryKeys.resources.availability(
+          payload.eventType === "DELETE" ? payload.old.resource_id ?? "" : payload.new.resource_id
+        ),
+      });
+    };
+
+    let subscribedBefore = false;
+    const channel = supabase
+      .channel(`bookings:${userId}`)
+      .on("postgres_changes", { event: "*", schema: "public", table: "bookings", filter: `owner_id=eq.${userId}` }, handleChange)
+      .on("postgres_changes", { event: "*", schema: "public", table: "bookings", filter: `renter_id=eq.${userId}` }, handleChange)
+      .subscribe((status, error) => {
+        if (status === "SUBSCRIBED") {
+          // Changes made while the connection was down were never delivered
+          if (subscribedBefore) refresh();
+          subscribedBefore = true;
+        } else if (status === "CHANNEL_ERROR" || status === "TIMED_OUT") {
+          console.error("Booking updates disconnected:", error ?? status);
+        }
+      });
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [userId, queryClient]);
+}
@@ -0,0 +1,205 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import type { DashboardBooking } from "@/components/BookingCard";
+import { BookingQuote, BookingStatus } from "@/lib/bookings";
+import {
+  authorizeBookingPayment,
+  isPaymentTransition,
+  PaymentError,
+  transitionBookingWithPayment,
+} from "@/lib/payments";
+import { queryKeys } from "@/lib/query-keys";
+import { bookingRequestSchema, PaymentMethod } from "@shared/schemas";
+
+const BOOKING_RESOURCE_COLUMNS = "id, title, category, price, location, image_url";
+
+// Bookings the user made as a renter; the exact address is only visible once accepted
+export function useMyBookings(userId: string | undefined) {
+  return useQuery({
+    queryKey: queryKeys.bookings.renter(userId ?? ""),
+    enabled: !!userId,
+    meta: { errorMessage: "Failed to load your bookings" },
+    queryFn: async (): Promise<DashboardBooking[]> => {
+      const { data, error } = await supabase
+        .from("bookings")
+        .select(`
+          *,
+          resources (
+            ${BOOKING_RESOURCE_COLUMNS},
+            resource_locations (
+              address
+            )
+          ),
+          booking_deposits (*),
+          booking_payments (*),
+          damage_claims (*)
+        `)
+        .eq("renter_id", userId!)
+        .order("created_at", { ascending: false });
+
+      if (error) throw error;
+      return data || [];
+    },
+  });
+}
+
+// Bookings other people made for the user's resources
+export function useBookingRequests(userId: string | undefined) {
+  return useQuery({
+    queryKey: queryKeys.bookings.owner(userId ?? ""),
+    enabled: !!userId,
+    meta: { errorMessage: "Failed to load booking requests" },
+    queryFn: async (): Promise<DashboardBooking[]> => {
+      const { data, error } = await supabase
+        .from("bookings")
+        .select(`
+          *,
+          resources (
+            ${BOOKING_RESOURCE_COLUMNS}
+          ),
+          booking_deposits (*),
+          booking_payments (*),
+          damage_claims (*)
+        `)
+        .eq("owner_id", userId!)
+        .order("created_at", { ascending: false });
+
+      if (error) throw error;
+      return data || [];
+    },
+  });
+}
+
+// Apply changes to a booking wherever it is cached, in either party's list
+export const updateCachedBooking = (
+  queryClient: ReturnType<typeof useQueryClient>,
+  bookingId: string,
+  changes: Partial<DashboardBooking>
+) => {
+  queryClient.setQueriesData<DashboardBooking[]>({ queryKey: queryKeys.bookings.all }, (bookings) =>
+    Array.isArray(bookings)
+      ? bookings.map((booking) => (booking.id === bookingId ? { ...booking, ...changes } : booking))
+      : bookings
+  );
+};
+
+// Moves a booking through its lifecycle. The card shows the new status
+// straight away and rolls back if the server refuses the transition.
+export function useUpdateBookingStatus() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ bookingId, status }: { bookingId: string; status: BookingStatus }) => {
+      if (isPaymentTransition(status)) {
+        await transitionBookingWithPayment(bookingId, status);
+        return;
+      }
+
+      const { error } = await supabase
+        .from("bookings")
+        .update({ status })
+        .eq("id", bookingId);
+
+      if (error) throw error;
+    },
+    onMutate: async ({ bookingId, status }) => {
+      await queryClient.cancelQueries({ queryKey: queryKeys.bookings.all });
+      const previous = queryClient.getQueriesData<DashboardBooking[]>({ queryKey: queryKeys.bookings.all });
+      updateCachedBooking(queryClient, bookingId, { status });
+      return { previous };
+    },
+    onError: (_error, _variables, context) => {
+      context?.previous.forEach(([queryKey, data]) => queryClient.setQueryData(queryKey, data));
+    },
+    // Ending a booking settles its payment and deposit and frees its dates
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.bookings.all });
+      queryClient.invalidateQueries({ queryKey: queryKeys.resources.all });
+      queryClient.invalidateQueries({ queryKey: queryKeys.earnings.all });
+    },
+  });
+}
+
+// Itemized price for the selected times; errors surface as the quote's error
+export function useBookingQuote(resourceId: string | undefined, startTime: string | null, endTime: string | null) {
+  return useQuery({
+    queryKey: queryKeys.bookings.quote(resourceId ?? "", startTime ?? "", endTime ?? ""),
+    enabled: !!resourceId && !!startTime && !!endTime,
+    retry: false,
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc("quote_booking", {
+        _resource_id: resourceId!,
+        _start_time: startTime!,
+        _end_time: endTime!,
+      });
+
+      if (error) throw error;
+      return data as unknown as BookingQuote;
+    },
+  });
+}
+
+// Whether the signed-in renter meets the listing's Instant Book criteria; the
+// booking itself decides again when it is created
+export function useInstantBookEligibility(resourceId: string | undefined, userId: string | undefined) {
+  return useQuery({
+    queryKey: queryKeys.bookings.instantBook(resourceId ?? "", userId ?? ""),
+    enabled: !!resourceId && !!userId,
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc("can_instant_book", { _resource_id: resourceId! });
+
+      if (error) throw error;
+      return data;
+    },
+  });
+}
+
+interface CreateBookingVariables {
+  resourceId: string;
+  startTime: string;
+  endTime: string;
+  paymentMethod: PaymentMethod;
+  paymentMethodToken?: string;
+}
+
+// Request a booking and place the payment hold for it. A declined payment
+// cancels the request on the server and is reported as a PaymentError.
+export function useCreateBooking() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ resourceId, startTime, endTime, paymentMethod, paymentMethodToken }: CreateBookingVariables) => {
+      bookingRequestSchema.parse({
+        resource_id: resourceId,
+        start_time: startTime,
+        end_time: endTime,
+        payment_method: paymentMethod,
+      });
+
+      const { data: booking, error } = await supabase.rpc("create_booking", {
+        _resource_id: resourceId,
+        _start_time: startTime,
+        _end_time: endTime,
+        _payment_method: paymentMethod,
+      });
+
+      if (error) throw error;
+
+      try {
+        const authorized = await authorizeBookingPayment(booking.id, paymentMethodToken);
+        return authorized.booking ? { ...booking, status: authorized.booking.status } : booking;
+      } catch (paymentError) {
+        console.error("Error authorizing payment:", paymentError);
+        throw paymentError instanceof PaymentError
+          ? paymentError
+          : new PaymentError("Your payment could not be authorized");
+      }
+    },
+    onSettled: (_booking, _error, { resourceId }) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.bookings.all });
+      queryClient.invalidateQueries({ queryKey: queryKeys.resources.availability(resourceId) });
+      // Booking dates the renter was waiting for takes them off the waitlist
+      queryClient.invalidateQueries({ queryKey: queryKeys.waitlist.all });
+    },
+  });
+}
@@ -0,0 +1,53 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { queryKeys } from "@/lib/query-keys";
+
+export function useCalendarFeeds(userId: string | undefined) {
+  return useQuery({
+    queryKey: queryKeys.calendarFeeds.list(userId ?? ""),
+    enabled: !!userId,
+    meta: { errorMessage: "Failed to load calendar feeds" },
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("calendar_feeds")
+        .select("*")
+        .eq("user_id", userId!);
+
+      if (error) throw error;
+      return data || [];
+    },
+  });
+}
+
+interface CalendarFeedVariables {
+  // null for the feed of all the user's bookings
+  resourceId: string | null;
+  // Set when replacing a feed whose URL may have leaked
+  previousFeedId?: string;
+}
+
+// The database issues the token, so resetting a feed replaces the row
+export function useCreateCalendarFeed(userId: string | undefined) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ resourceId, previousFeedId }: CalendarFeedVariables) => {
+      if (previousFeedId) {
+        const { error } = await supabase.from("calendar_feeds").delete().eq("id", previousFeedId);
+        if (error) throw error;
+      }
+
+      const { data, error } = await supabase
+        .from("calendar_feeds")
+        .insert({ user_id: userId!, resource_id: resourceId })
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data;
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.calendarFeeds.all });
+    },
+  });
+}
@@ -0,0 +1,21 @@
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { toCategory } from "@/lib/categories";
+import { queryKeys } from "@/lib/query-keys";
+
+// The taxonomy is edited rarely, by admins, so it is cached for a while
+const CATEGORY_STALE_TIME = 30 * 60 * 1000;
+
+export function useCategories() {
+  return useQuery({
+    queryKey: queryKeys.categories.all,
+    staleTime: CATEGORY_STALE_TIME,
+    meta: { errorMessage: "Failed to load categories" },
+    queryFn: async () => {
+      const { data, error } = await supabase.from("categories").select("*");
+
+      if (error) throw error;
+      return (data || []).map(toCategory);
+    },
+  });
+}
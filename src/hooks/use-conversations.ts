@@ -0,0 +1,159 @@
+import { useEffect } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { markConversationRead } from "@/lib/messaging";
+import { PublicProfile } from "@/lib/profiles";
+import { queryKeys } from "@/lib/query-keys";
+
+export type Message = Tables<"messages">;
+
+const appendMessage = (messages: Message[] | undefined, message: Message) =>
+  !messages || messages.some((m) => m.id === message.id) ? messages : [...messages, message];
+
+// The user's conversations with the counterpart's profile and unread count
+// for each, refetched whenever a message arrives or is read
+export function useConversations(userId: string | undefined) {
+  const queryClient = useQueryClient();
+
+  const query = useQuery({
+    queryKey: queryKeys.conversations.list(userId ?? ""),
+    enabled: !!userId,
+    meta: { errorMessage: "Failed to load conversations" },
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("conversations")
+        .select("*, resources(title)")
+        .order("last_message_at", { ascending: false, nullsFirst: false });
+
+      if (error) throw error;
+      const conversations = data || [];
+
+      const counterpartIds = [
+        ...new Set(conversations.map((c) => (c.renter_id === userId ? c.owner_id : c.renter_id))),
+      ];
+      let profiles: Record<string, PublicProfile> = {};
+      if (counterpartIds.length > 0) {
+        const { data: profileData, error: profileError } = await supabase
+          .from("public_profiles")
+          .select("*")
+          .in("user_id", counterpartIds);
+
+        if (profileError) throw profileError;
+        profiles = Object.fromEntries((profileData || []).map((p) => [p.user_id, p]));
+      }
+
+      const { data: unread, error: unreadError } = await supabase
+        .from("messages")
+        .select("conversation_id")
+        .is("read_at", null)
+        .neq("sender_id", userId!);
+
+      if (unreadError) throw unreadError;
+      const unreadCounts = (unread || []).reduce<Record<string, number>>((counts, m) => {
+        counts[m.conversation_id] = (counts[m.conversation_id] ?? 0) + 1;
+        return counts;
+      }, {});
+
+      return { conversations, profiles, unreadCounts };
+    },
+  });
+
+  useEffect(() => {
+    if (!userId) return;
+
+    const channel = supabase
+      .channel(`inbox:${userId}`)
+      .on("postgres_changes", { event: "*", schema: "public", table: "messages" }, () => {
+        queryClient.invalidateQueries({ queryKey: queryKeys.conversations.list(userId) });
+      })
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [userId, queryClient]);
+
+  return query;
+}
+
+export type Conversation = NonNullable<ReturnType<typeof useConversations>["data"]>["conversations"][number];
+
+// Messages in a conversation, oldest first. Opening the thread marks it read,
+// and new messages are appended as they arrive.
+export function useConversationMessages(conversationId: string, userId: string) {
+  const queryClient = useQueryClient();
+  const messagesKey = queryKeys.conversations.messages(conversationId);
+
+  const query = useQuery({
+    queryKey: messagesKey,
+    meta: { errorMessage: "Failed to load messages" },
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("messages")
+        .select("*")
+        .eq("conversation_id", conversationId)
+        .order("created_at", { ascending: true });
+
+      if (error) throw error;
+      markConversationRead(conversationId);
+      return data || [];
+    },
+  });
+
+  useEffect(() => {
+    const channel = supabase
+      .channel(`conversation:${conversationId}`)
+      .on(
+        "postgres_changes",
+        {
+          event: "INSERT",
+          schema: "public",
+          table: "messages",
+          filter: `conversation_id=eq.${conversationId}`,
+        },
+        (payload) => {
+          const message = payload.new as Message;
+          queryClient.setQueryData<Message[]>(queryKeys.conversations.messages(conversationId), (messages) =>
+            appendMessage(messages, message)
+          );
+          if (message.sender_id !== userId) {
+            markConversationRead(conversationId);
+          }
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [conversationId, userId, queryClient]);
+
+  return query;
+}
+
+export function useSendMessage(conversationId: string, userId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (body: string) => {
+      const { data, error } = await supabase
+        .from("messages")
+        .insert({
+          conversation_id: conversationId,
+          sender_id: userId,
+          body,
+        })
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: (message) => {
+      queryClient.setQueryData<Message[]>(queryKeys.conversations.messages(conversationId), (messages) =>
+        appendMessage(messages, message)
+      );
+    },
+  });
+}
@@ -0,0 +1,78 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { updateCachedBooking } from "@/hooks/use-bookings";
+import { DamageClaim, getClaimPhotoUrls, uploadClaimPhotos } from "@/lib/deposits";
+import { queryKeys } from "@/lib/query-keys";
+
+// Signed photo URLs expire after an hour, so refresh them well before that
+const PHOTO_URL_STALE_TIME = 30 * 60 * 1000;
+
+export function useClaimPhotoUrls(claim: DamageClaim | null) {
+  return useQuery({
+    queryKey: queryKeys.damageClaims.photos(claim?.id ?? "", claim?.updated_at ?? ""),
+    enabled: !!claim && claim.photo_paths.length > 0,
+    staleTime: PHOTO_URL_STALE_TIME,
+    queryFn: () => getClaimPhotoUrls(claim!.photo_paths),
+  });
+}
+
+// Show the updated claim on its booking at once; settling a claim can also
+// capture part of the deposit, so the bookings are refetched as well
+const useDamageClaimMutation = <TVariables>(mutationFn: (variables: TVariables) => Promise<DamageClaim>) => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn,
+    onSuccess: (claim) => {
+      updateCachedBooking(queryClient, claim.booking_id, { damage_claims: claim });
+      queryClient.invalidateQueries({ queryKey: queryKeys.bookings.all });
+      queryClient.invalidateQueries({ queryKey: queryKeys.earnings.all });
+    },
+  });
+};
+
+interface FileDamageClaimVariables {
+  bookingId: string;
+  amount: number;
+  description: string;
+  // Photos already attached to the claim being revised
+  keptPhotoPaths: string[];
+  photos: File[];
+}
+
+export function useFileDamageClaim() {
+  return useDamageClaimMutation(async ({ bookingId, amount, description, keptPhotoPaths, photos }: FileDamageClaimVariables) => {
+    const newPaths = await uploadClaimPhotos(bookingId, photos);
+    const { data, error } = await supabase.rpc("file_damage_claim", {
+      _booking_id: bookingId,
+      _amount: amount,
+      _description: description,
+      _photo_paths: [...keptPhotoPaths, ...newPaths],
+    });
+
+    if (error) throw error;
+    return data;
+  });
+}
+
+export function useRespondToDamageClaim() {
+  return useDamageClaimMutation(async ({ claimId, accept, response }: { claimId: string; accept: boolean; response: string }) => {
+    const { data, error } = await supabase.rpc("respond_to_damage_claim", {
+      _claim_id: claimId,
+      _accept: accept,
+      _response: response,
+    });
+
+    if (error) throw error;
+    return data;
+  });
+}
+
+export function useWithdrawDamageClaim() {
+  return useDamageClaimMutation(async (claimId: string) => {
+    const { data, error } = await supabase.rpc("withdraw_damage_claim", { _claim_id: claimId });
+
+    if (error) throw error;
+    return data;
+  });
+}
@@ -0,0 +1,17 @@
+import { keepPreviousData, useQuery } from "@tanstack/react-query";
+import { EarningsRange, fetchEarnings } from "@/lib/earnings";
+import { queryKeys } from "@/lib/query-keys";
+
+const isValidRange = (range: EarningsRange) => !!range.from && !!range.to && range.to >= range.from;
+
+// The signed-in owner's earnings; the previous figures stay on screen while
+// a new range or resource loads
+export function useEarnings(range: EarningsRange, resourceId: string | null) {
+  return useQuery({
+    queryKey: queryKeys.earnings.detail(range, resourceId),
+    enabled: isValidRange(range),
+    placeholderData: keepPreviousData,
+    meta: { errorMessage: "Failed to load earnings" },
+    queryFn: () => fetchEarnings(range, resourceId),
+  });
+}
@@ -0,0 +1,96 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import {
+  fetchNotificationPreferences,
+  markNotificationsRead,
+  Notification,
+  NotificationChannels,
+  NotificationType,
+  saveNotificationPreference,
+} from "@/lib/notifications";
+import { queryKeys } from "@/lib/query-keys";
+
+export function useNotifications(userId: string | undefined) {
+  return useQuery({
+    queryKey: queryKeys.notifications.list(userId ?? ""),
+    enabled: !!userId,
+    meta: { errorMessage: "Failed to load notifications" },
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("notifications")
+        .select("*")
+        .order("created_at", { ascending: false })
+        .limit(100);
+
+      if (error) throw error;
+      return data || [];
+    },
+  });
+}
+
+// Marks the given notifications, or all of them, read in the list and the
+// unread badge straight away
+export function useMarkNotificationsRead(userId: string | undefined) {
+  const queryClient = useQueryClient();
+  const listKey = queryKeys.notifications.list(userId ?? "");
+  const countKey = queryKeys.notifications.unreadCount(userId ?? "");
+
+  return useMutation({
+    mutationFn: (ids?: string[]) => markNotificationsRead(ids),
+    onMutate: async (ids) => {
+      await queryClient.cancelQueries({ queryKey: queryKeys.notifications.all });
+      const previousList = queryClient.getQueryData<Notification[]>(listKey);
+      const previousCount = queryClient.getQueryData<number>(countKey);
+
+      const readAt = new Date().toISOString();
+      const isTarget = (n: Notification) => !n.read_at && (!ids || ids.includes(n.id));
+      const markedCount = previousList?.filter(isTarget).length ?? 0;
+      queryClient.setQueryData<Notification[]>(listKey, (notifications) =>
+        notifications?.map((n) => (isTarget(n) ? { ...n, read_at: readAt } : n))
+      );
+      queryClient.setQueryData<number>(countKey, (count) =>
+        count === undefined ? count : ids ? Math.max(0, count - markedCount) : 0
+      );
+      return { previousList, previousCount };
+    },
+    onError: (_error, _ids, context) => {
+      queryClient.setQueryData(listKey, context?.previousList);
+      queryClient.setQueryData(countKey, context?.previousCount);
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: countKey });
+    },
+  });
+}
+
+export function useNotificationPreferences(userId: string) {
+  return useQuery({
+    queryKey: queryKeys.notifications.preferences(userId),
+    meta: { errorMessage: "Failed to load notification settings" },
+    queryFn: () => fetchNotificationPreferences(userId),
+  });
+}
+
+type NotificationPreferenceMap = Record<NotificationType, NotificationChannels>;
+
+// Switches flip at once and flip back if the save fails
+export function useSaveNotificationPreference(userId: string) {
+  const queryClient = useQueryClient();
+  const preferencesKey = queryKeys.notifications.preferences(userId);
+
+  return useMutation({
+    mutationFn: ({ type, channels }: { type: NotificationType; channels: NotificationChannels }) =>
+      saveNotificationPreference(userId, type, channels),
+    onMutate: async ({ type, channels }) => {
+      await queryClient.cancelQueries({ queryKey: preferencesKey });
+      const previous = queryClient.getQueryData<NotificationPreferenceMap>(preferencesKey);
+      queryClient.setQueryData<NotificationPreferenceMap>(preferencesKey, (preferences) =>
+        preferences && { ...preferences, [type]: channels }
+      );
+      return { previous };
+    },
+    onError: (_error, _variables, context) => {
+      queryClient.setQueryData(preferencesKey, context?.previous);
+    },
+  });
+}
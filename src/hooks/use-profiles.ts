@@ -0,0 +1,88 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import type { TablesUpdate } from "@/integrations/supabase/types";
+import { PublicProfile } from "@/lib/profiles";
+import { queryKeys } from "@/lib/query-keys";
+
+// The signed-in user's full profile, including private fields
+export function useOwnProfile(userId: string | undefined) {
+  return useQuery({
+    queryKey: queryKeys.profiles.own(userId ?? ""),
+    enabled: !!userId,
+    // The profile form is seeded once; refetching would not reach it
+    refetchOnWindowFocus: false,
+    meta: { errorMessage: "Failed to load your profile" },
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("profiles")
+        .select("*")
+        .eq("user_id", userId!)
+        .single();
+
+      if (error) throw error;
+      return data;
+    },
+  });
+}
+
+export function useUpdateProfile(userId: string | undefined) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (changes: TablesUpdate<"profiles">) => {
+      const { data, error } = await supabase
+        .from("profiles")
+        .update(changes)
+        .eq("user_id", userId!)
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: (profile) => {
+      queryClient.setQueryData(queryKeys.profiles.own(profile.user_id), profile);
+      queryClient.invalidateQueries({ queryKey: queryKeys.profiles.public(profile.user_id) });
+      // Conversations show the counterpart's name and photo
+      queryClient.invalidateQueries({ queryKey: queryKeys.conversations.all });
+    },
+  });
+}
+
+// What other users can see of a profile; null when it does not exist
+export function usePublicProfile(userId: string | undefined) {
+  return useQuery({
+    queryKey: queryKeys.profiles.public(userId ?? ""),
+    enabled: !!userId,
+    meta: { errorMessage: "Failed to load profile" },
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("public_profiles")
+        .select("*")
+        .eq("user_id", userId!)
+        .maybeSingle();
+
+      if (error) throw error;
+      return data;
+    },
+  });
+}
+
+// Public profiles for a set of users, keyed by user id
+export function usePublicProfiles(userIds: string[]) {
+  const ids = [...new Set(userIds)].sort();
+
+  return useQuery({
+    queryKey: queryKeys.profiles.publicMany(ids),
+    enabled: ids.length > 0,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("public_profiles")
+        .select("*")
+        .in("user_id", ids);
+
+      if (error) throw error;
+      return Object.fromEntries((data || []).map((p) => [p.user_id, p])) as Record<string, PublicProfile>;
+    },
+  });
+}
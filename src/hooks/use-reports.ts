@@ -0,0 +1,33 @@
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { queryKeys } from "@/lib/query-keys";
+import { ReportReason, ReportTargetType } from "@/lib/reports";
+
+interface SubmitReportVariables {
+  targetType: ReportTargetType;
+  targetId: string;
+  reason: ReportReason;
+  details: string;
+}
+
+// A report can hide the listing it's about, so listings are refetched after one
+export function useSubmitReport() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ targetType, targetId, reason, details }: SubmitReportVariables) => {
+      const { data, error } =
+        targetType === "resource"
+          ? await supabase.rpc("report_resource", { _resource_id: targetId, _reason: reason, _details: details })
+          : await supabase.rpc("report_user", { _user_id: targetId, _reason: reason, _details: details });
+
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: (_report, { targetType }) => {
+      if (targetType === "resource") {
+        queryClient.invalidateQueries({ queryKey: queryKeys.resources.all });
+      }
+    },
+  });
+}
@@ -0,0 +1,272 @@
+import { addDays } from "date-fns";
+import { useInfiniteQuery, useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { fetchBookableSlots, saveResourceAvailability } from "@/lib/availability";
+import { BookingStatus } from "@/lib/bookings";
+import { syncResourceCalendar } from "@/lib/calendar";
+import { removeResourceImageFiles, saveResourceImages } from "@/lib/images";
+import { queryKeys } from "@/lib/query-keys";
+import { ResourceFormData, saveResourceLocation, toResourcePayload } from "@/lib/resources";
+import { fetchResourceRatings } from "@/lib/reviews";
+import { ResourceSearchCursor, ResourceSearchFilters, searchResources } from "@/lib/search";
+import { resourceSchema } from "@shared/schemas";
+
+const IMAGE_COLUMNS = "resource_images(storage_path, position, is_cover)";
+
+// Bookings that still hold their dates and so constrain edits to the resource
+const ACTIVE_BOOKING_STATUSES: BookingStatus[] = ["pending", "confirmed", "picked_up"];
+
+// How far ahead the calendar looks for bookable slots
+const SLOT_LOOKAHEAD_DAYS = 365;
+
+// Newest listings for the home page, with their rating summaries
+export function useFeaturedResources() {
+  return useQuery({
+    queryKey: queryKeys.resources.featured(),
+    meta: { errorMessage: "Failed to load featured resources" },
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("resources")
+        .select(`*, ${IMAGE_COLUMNS}`)
+        .eq("is_available", true)
+        .order("created_at", { ascending: false })
+        .limit(6);
+
+      if (error) throw error;
+      const resources = data || [];
+      return { resources, ratings: await fetchResourceRatings(resources.map((r) => r.id)) };
+    },
+  });
+}
+
+// Paged search results; the next page is fetched with the last result's cursor
+export function useResources(filters: ResourceSearchFilters) {
+  return useInfiniteQuery({
+    queryKey: queryKeys.resources.search(filters),
+    initialPageParam: null as ResourceSearchCursor | null,
+    queryFn: ({ pageParam }) => searchResources(filters, pageParam),
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+  });
+}
+
+// A listed resource as shown on its booking page
+export function useResource(id: string | undefined) {
+  return useQuery({
+    queryKey: queryKeys.resources.detail(id ?? ""),
+    enabled: !!id,
+    retry: false,
+    meta: { errorMessage: "Resource not found or unavailable" },
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("resources")
+        .select(`*, ${IMAGE_COLUMNS}, resource_weekly_hours(weekday, start_time, end_time)`)
+        .eq("id", id!)
+        .eq("is_available", true)
+        .single();
+
+      if (error) throw error;
+      return data;
+    },
+  });
+}
+
+// Taken time for the calendar and the slots still open for booking
+export function useResourceAvailability(id: string | undefined) {
+  return useQuery({
+    queryKey: queryKeys.resources.availability(id ?? ""),
+    enabled: !!id,
+    meta: { errorMessage: "Failed to load availability" },
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc("get_resource_busy_intervals", {
+        _resource_id: id!,
+      });
+
+      if (error) throw error;
+      const now = new Date();
+      return {
+        busyIntervals: data || [],
+        slots: await fetchBookableSlots(id!, now, addDays(now, SLOT_LOOKAHEAD_DAYS)),
+      };
+    },
+  });
+}
+
+// Everything the owner's edit form needs, including the bookings an edit could affect
+export function useEditableResource(id: string | undefined, userId: string | undefined) {
+  return useQuery({
+    queryKey: queryKeys.resources.editable(id ?? ""),
+    enabled: !!id && !!userId,
+    retry: false,
+    // Keep an open form from being reset underneath the owner
+    refetchOnWindowFocus: false,
+    meta: { errorMessage: "Resource not found" },
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("resources")
+        .select(`*, ${IMAGE_COLUMNS}, resource_locations(address, latitude, longitude), resource_weekly_hours(weekday, start_time, end_time), resource_blackouts(*)`)
+        .eq("id", id!)
+        .eq("owner_id", userId!)
+        .single();
+
+      if (error) throw error;
+
+      const { data: activeBookings, error: bookingsError } = await supabase
+        .from("bookings")
+        .select("id, start_time, end_time, status")
+        .eq("resource_id", id!)
+        .in("status", ACTIVE_BOOKING_STATUSES)
+        .gt("end_time", new Date().toISOString())
+        .order("start_time", { ascending: true });
+
+      if (bookingsError) throw bookingsError;
+
+      const { resource_images, resource_locations, resource_weekly_hours, resource_blackouts, ...resource } = data;
+      return {
+        resource,
+        images: resource_images,
+        exactLocation: resource_locations,
+        weeklyHours: resource_weekly_hours,
+        blackouts: resource_blackouts,
+        activeBookings: activeBookings || [],
+      };
+    },
+  });
+}
+
+const fetchOwnedResources = async (userId: string) => {
+  const { data, error } = await supabase
+    .from("resources")
+    .select(`*, ${IMAGE_COLUMNS}`)
+    .eq("owner_id", userId)
+    .order("created_at", { ascending: false });
+
+  if (error) throw error;
+  return data || [];
+};
+
+export type OwnedResource = Awaited<ReturnType<typeof fetchOwnedResources>>[number];
+
+// All of the user's own resources, listed or not
+export function useOwnedResources(userId: string | undefined) {
+  return useQuery({
+    queryKey: queryKeys.resources.owned(userId ?? ""),
+    enabled: !!userId,
+    meta: { errorMessage: "Failed to load your resources" },
+    queryFn: () => fetchOwnedResources(userId!),
+  });
+}
+
+// Resources another user currently has listed, for their public profile
+export function useListedResources(userId: string | undefined) {
+  return useQuery({
+    queryKey: queryKeys.resources.listedBy(userId ?? ""),
+    enabled: !!userId,
+    meta: { errorMessage: "Failed to load resources" },
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("resources")
+        .select(`*, ${IMAGE_COLUMNS}`)
+        .eq("owner_id", userId!)
+        .eq("is_available", true)
+        .order("created_at", { ascending: false });
+
+      if (error) throw error;
+      return data || [];
+    },
+  });
+}
+
+interface SaveResourceVariables {
+  // Omitted when adding a new resource
+  resourceId?: string;
+  ownerId: string;
+  formData: ResourceFormData;
+}
+
+// Create or update a resource along with its photos, location and availability rules
+export function useSaveResource() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ resourceId, ownerId, formData }: SaveResourceVariables) => {
+      // The same rules the form applied, checked again on what is sent
+      const payload = toResourcePayload(formData);
+      resourceSchema.parse(payload);
+      let id = resourceId;
+      if (id) {
+        const { error } = await supabase
+          .from("resources")
+          .update(payload)
+          .eq("id", id);
+
+        if (error) throw error;
+      } else {
+        const { data, error } = await supabase
+          .from("resources")
+          .insert({
+            ...payload,
+            owner_id: ownerId,
+            is_available: true,
+          })
+          .select("id")
+          .single();
+
+        if (error) throw error;
+        id = data.id;
+      }
+
+      await saveResourceImages(id, ownerId, formData.images);
+      await saveResourceLocation(id, formData);
+      await saveResourceAvailability(id, formData);
+      // The save stands even if the other calendar can't be read; the error
+      // is recorded on the resource and the scheduled sync retries
+      if (payload.ical_import_url) {
+        await syncResourceCalendar(id).catch((error) => console.error("Error importing calendar:", error));
+      }
+      return id;
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.resources.all });
+    },
+  });
+}
+
+// Removes the resource from the owner's list straight away and restores it
+// if the delete fails
+export function useDeleteResource(userId: string | undefined) {
+  const queryClient = useQueryClient();
+  const ownedKey = queryKeys.resources.owned(userId ?? "");
+
+  return useMutation({
+    mutationFn: async (resourceId: string) => {
+      const { error } = await supabase
+        .from("resources")
+        .delete()
+        .eq("id", resourceId);
+
+      if (error) throw error;
+    },
+    onMutate: async (resourceId) => {
+      await queryClient.cancelQueries({ queryKey: ownedKey });
+      const previous = queryClient.getQueryData<OwnedResource[]>(ownedKey);
+      queryClient.setQueryData<OwnedResource[]>(ownedKey, (resources) =>
+        resources?.filter((resource) => resource.id !== resourceId)
+      );
+      return { previous };
+    },
+    onSuccess: async (_data, resourceId, context) => {
+      const imagePaths = context?.previous
+        ?.find((resource) => resource.id === resourceId)
+        ?.resource_images.map((image) => image.storage_path) ?? [];
+      if (imagePaths.length > 0) {
+        await removeResourceImageFiles(imagePaths);
+      }
+    },
+    onError: (_error, _resourceId, context) => {
+      queryClient.setQueryData(ownedKey, context?.previous);
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.resources.all });
+    },
+  });
+}
@@ -0,0 +1,97 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { queryKeys } from "@/lib/query-keys";
+
+// Reviews renters left for a resource
+export function useResourceReviews(resourceId: string | undefined) {
+  return useQuery({
+    queryKey: queryKeys.reviews.resource(resourceId ?? ""),
+    enabled: !!resourceId,
+    meta: { errorMessage: "Failed to load reviews" },
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("reviews")
+        .select("*")
+        .eq("resource_id", resourceId!)
+        .eq("direction", "renter_to_owner")
+        .order("created_at", { ascending: false });
+
+      if (error) throw error;
+      return data || [];
+    },
+  });
+}
+
+// Reviews a user received, as an owner or as a renter
+export function useUserReviews(userId: string | undefined) {
+  return useQuery({
+    queryKey: queryKeys.reviews.user(userId ?? ""),
+    enabled: !!userId,
+    meta: { errorMessage: "Failed to load reviews" },
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("reviews")
+        .select("*")
+        .eq("reviewee_id", userId!)
+        .order("created_at", { ascending: false });
+
+      if (error) throw error;
+      return data || [];
+    },
+  });
+}
+
+export function useUserRatingSummary(userId: string | undefined) {
+  return useQuery({
+    queryKey: queryKeys.reviews.ratingSummary(userId ?? ""),
+    enabled: !!userId,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("user_rating_summary")
+        .select("*")
+        .eq("user_id", userId!)
+        .maybeSingle();
+
+      if (error) throw error;
+      return data;
+    },
+  });
+}
+
+// Bookings the user has already reviewed, so they are not asked twice
+export function useReviewedBookingIds(userId: string | undefined) {
+  return useQuery({
+    queryKey: queryKeys.reviews.authored(userId ?? ""),
+    enabled: !!userId,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("reviews")
+        .select("booking_id")
+        .eq("reviewer_id", userId!);
+
+      if (error) throw error;
+      return (data || []).map((review) => review.booking_id);
+    },
+  });
+}
+
+export function useSubmitReview() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ bookingId, rating, comment }: { bookingId: string; rating: number; comment: string }) => {
+      const { error } = await supabase.rpc("submit_review", {
+        _booking_id: bookingId,
+        _rating: rating,
+        _comment: comment,
+      });
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.reviews.all });
+      // Listings carry their rating summaries
+      queryClient.invalidateQueries({ queryKey: queryKeys.resources.all });
+    },
+  });
+}
@@ -0,0 +1,40 @@
+import { useEffect } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/contexts/AuthContext";
+import { queryKeys } from "@/lib/query-keys";
+
+// Number of messages the signed-in user has received but not read, kept
+// current through Realtime
+export function useUnreadMessages() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  const { data: unreadCount = 0 } = useQuery({
+    queryKey: queryKeys.conversations.unreadCount(user?.id ?? ""),
+    enabled: !!user,
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc("get_unread_message_count");
+      if (error) throw error;
+      return data ?? 0;
+    },
+  });
+
+  useEffect(() => {
+    if (!user) return;
+
+    // RLS limits the stream to messages in the user's own conversations
+    const channel = supabase
+      .channel(`unread-messages:${user.id}`)
+      .on("postgres_changes", { event: "*", schema: "public", table: "messages" }, () => {
+        queryClient.invalidateQueries({ queryKey: queryKeys.conversations.unreadCount(user.id) });
+      })
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [user, queryClient]);
+
+  return user ? unreadCount : 0;
+}
@@ -0,0 +1,42 @@
+import { useEffect } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/contexts/AuthContext";
+import { queryKeys } from "@/lib/query-keys";
+
+// Number of unread in-app notifications for the signed-in user, kept
+// current through Realtime
+export function useUnreadNotifications() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  const { data: unreadCount = 0 } = useQuery({
+    queryKey: queryKeys.notifications.unreadCount(user?.id ?? ""),
+    enabled: !!user,
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc("get_unread_notification_count");
+      if (error) throw error;
+      return data ?? 0;
+    },
+  });
+
+  useEffect(() => {
+    if (!user) return;
+
+    // RLS limits the stream to the user's own notifications; new ones also
+    // belong at the top of the notifications page
+    const channel = supabase
+      .channel(`unread-notifications:${user.id}`)
+      .on("postgres_changes", { event: "*", schema: "public", table: "notifications" }, () => {
+        queryClient.invalidateQueries({ queryKey: queryKeys.notifications.unreadCount(user.id) });
+        queryClient.invalidateQueries({ queryKey: queryKeys.notifications.list(user.id) });
+      })
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [user, queryClient]);
+
+  return user ? unreadCount : 0;
+}
@@ -0,0 +1,88 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { queryKeys } from "@/lib/query-keys";
+import { WaitlistEntryWithResource } from "@/lib/waitlist";
+
+// The renter's open waitlist entries, including offers they can still book
+export function useMyWaitlist(userId: string | undefined) {
+  return useQuery({
+    queryKey: queryKeys.waitlist.renter(userId ?? ""),
+    enabled: !!userId,
+    meta: { errorMessage: "Failed to load your waitlist" },
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("waitlist_entries")
+        .select("*, resources(title)")
+        .eq("renter_id", userId!)
+        .in("status", ["waiting", "offered"])
+        .order("start_time", { ascending: true });
+
+      if (error) throw error;
+      return (data || []) as WaitlistEntryWithResource[];
+    },
+  });
+}
+
+// Open entries on the owner's resources, oldest first as they are offered
+export function useResourceWaitlists(userId: string | undefined) {
+  return useQuery({
+    queryKey: queryKeys.waitlist.owner(userId ?? ""),
+    enabled: !!userId,
+    meta: { errorMessage: "Failed to load waitlists" },
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("waitlist_entries")
+        .select("*, resources!inner(title, owner_id)")
+        .eq("resources.owner_id", userId!)
+        .in("status", ["waiting", "offered"])
+        .order("created_at", { ascending: true });
+
+      if (error) throw error;
+      return (data || []) as WaitlistEntryWithResource[];
+    },
+  });
+}
+
+interface JoinWaitlistVariables {
+  resourceId: string;
+  startTime: string;
+  endTime: string;
+}
+
+export function useJoinWaitlist() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ resourceId, startTime, endTime }: JoinWaitlistVariables) => {
+      const { data, error } = await supabase.rpc("join_waitlist", {
+        _resource_id: resourceId,
+        _start_time: startTime,
+        _end_time: endTime,
+      });
+
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.waitlist.all });
+    },
+  });
+}
+
+// Leaving with a live offer releases the held dates to the next renter
+export function useLeaveWaitlist() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (entryId: string) => {
+      const { data, error } = await supabase.rpc("leave_waitlist", { _entry_id: entryId });
+
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: (entry) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.waitlist.all });
+      queryClient.invalidateQueries({ queryKey: queryKeys.resources.availability(entry.resource_id) });
+    },
+  });
+}
@@ -14,49 +14,1001 @@ export type Database = {
   }
   public: {
     Tables: {
+      admin_audit_log: {
+        Row: {
+          action: string
+          admin_id: string | null
+          created_at: string
+          details: Json
+          id: string
+          target_id: string
+          target_type: string
+        }
+        Insert: {
+          action: string
+          admin_id?: string | null
+          created_at?: string
+          details?: Json
+          id?: string
+          target_id: string
+          target_type: string
+        }
+        Update: {
+          action?: string
+          admin_id?: string | null
+          created_at?: string
+          details?: Json
+          id?: string
+          target_id?: string
+          target_type?: string
+        }
+        Relationships: []
+      }
+      booking_deposits: {
+        Row: {
+          amount: number
+          booking_id: string
+          captured_amount: number
+          created_at: string
+          settled_at: string | null
+          status: string
+        }
+        Insert: {
+          amount: number
+          booking_id: string
+          captured_amount?: number
+          created_at?: string
+          settled_at?: string | null
+          status?: string
+        }
+        Update: {
+          amount?: number
+          booking_id?: string
+          captured_amount?: number
+          created_at?: string
+          settled_at?: string | null
+          status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "booking_deposits_booking_id_fkey"
+            columns: ["booking_id"]
+            isOneToOne: true
+            referencedRelation: "bookings"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      booking_payments: {
+        Row: {
+          amount: number
+          booking_id: string
+          created_at: string
+          currency: string
+          failure_reason: string | null
+          provider: string
+          provider_payment_id: string | null
+          status: string
+          updated_at: string
+        }
+        Insert: {
+          amount: number
+          booking_id: string
+          created_at?: string
+          currency?: string
+          failure_reason?: string | null
+          provider: string
+          provider_payment_id?: string | null
+          status: string
+          updated_at?: string
+        }
+        Update: {
+          amount?: number
+          booking_id?: string
+          created_at?: string
+          currency?: string
+          failure_reason?: string | null
+          provider?: string
+          provider_payment_id?: string | null
+          status?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "booking_payments_booking_id_fkey"
+            columns: ["booking_id"]
+            isOneToOne: true
+            referencedRelation: "bookings"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       bookings: {
+        Row: {
+          created_at: string
+          deposit_amount: number
+          end_time: string
+          expired_at: string | null
+          expires_at: string | null
+          id: string
+          instant_book: boolean
+          owner_id: string
+          payment_method: string | null
+          price_breakdown: Json | null
+          renter_id: string
+          resource_id: string
+          start_time: string
+          status: Database["public"]["Enums"]["booking_status"]
+          total_price: number
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          deposit_amount?: number
+          end_time: string
+          expired_at?: string | null
+          expires_at?: string | null
+          id?: string
+          instant_book?: boolean
+          owner_id: string
+          payment_method?: string | null
+          price_breakdown?: Json | null
+          renter_id: string
+          resource_id: string
+          start_time: string
+          status?: Database["public"]["Enums"]["booking_status"]
+          total_price: number
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          deposit_amount?: number
+          end_time?: string
+          expired_at?: string | null
+          expires_at?: string | null
+          id?: string
+          instant_book?: boolean
+          owner_id?: string
+          payment_method?: string | null
+          price_breakdown?: Json | null
+          renter_id?: string
+          resource_id?: string
+          start_time?: string
+          status?: Database["public"]["Enums"]["booking_status"]
+          total_price?: number
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "bookings_resource_id_fkey"
+            columns: ["resource_id"]
+            isOneToOne: false
+            referencedRelation: "resources"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      calendar_feeds: {
+        Row: {
+          created_at: string
+          id: string
+          resource_id: string | null
+          token: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          resource_id?: string | null
+          token?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          resource_id?: string | null
+          token?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "calendar_feeds_resource_id_fkey"
+            columns: ["resource_id"]
+            isOneToOne: false
+            referencedRelation: "resources"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      categories: {
+        Row: {
+          attribute_schema: Json
+          created_at: string
+          icon: string | null
+          id: string
+          name: string
+          parent_id: string | null
+          position: number
+          slug: string
+        }
+        Insert: {
+          attribute_schema?: Json
+          created_at?: string
+          icon?: string | null
+          id?: string
+          name: string
+          parent_id?: string | null
+          position?: number
+          slug: string
+        }
+        Update: {
+          attribute_schema?: Json
+          created_at?: string
+          icon?: string | null
+          id?: string
+          name?: string
+          parent_id?: string | null
+          position?: number
+          slug?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "categories_parent_id_fkey"
+            columns: ["parent_id"]
+            isOneToOne: false
+            referencedRelation: "categories"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      conversations: {
+        Row: {
+          booking_id: string | null
+          created_at: string
+          id: string
+          last_message_at: string | null
+          owner_id: string
+          renter_id: string
+          resource_id: string
+        }
+        Insert: {
+          booking_id?: string | null
+          created_at?: string
+          id?: string
+          last_message_at?: string | null
+          owner_id: string
+          renter_id: string
+          resource_id: string
+        }
+        Update: {
+          booking_id?: string | null
+          created_at?: string
+          id?: string
+          last_message_at?: string | null
+          owner_id?: string
+          renter_id?: string
+          resource_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "conversations_booking_id_fkey"
+            columns: ["booking_id"]
+            isOneToOne: true
+            referencedRelation: "bookings"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "conversations_resource_id_fkey"
+            columns: ["resource_id"]
+            isOneToOne: false
+            referencedRelation: "resources"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      damage_claims: {
+        Row: {
+          amount: number
+          awarded_amount: number | null
+          booking_id: string
+          created_at: string
+          description: string
+          id: string
+          owner_id: string
+          photo_paths: string[]
+          renter_id: string
+          renter_response: string | null
+          resolution_note: string | null
+          resolved_at: string | null
+          resolved_by: string | null
+          status: string
+          updated_at: string
+        }
+        Insert: {
+          amount: number
+          awarded_amount?: number | null
+          booking_id: string
+          created_at?: string
+          description: string
+          id?: string
+          owner_id: string
+          photo_paths?: string[]
+          renter_id: string
+          renter_response?: string | null
+          resolution_note?: string | null
+          resolved_at?: string | null
+          resolved_by?: string | null
+          status?: string
+          updated_at?: string
+        }
+        Update: {
+          amount?: number
+          awarded_amount?: number | null
+          booking_id?: string
+          created_at?: string
+          description?: string
+          id?: string
+          owner_id?: string
+          photo_paths?: string[]
+          renter_id?: string
+          renter_response?: string | null
+          resolution_note?: string | null
+          resolved_at?: string | null
+          resolved_by?: string | null
+          status?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "damage_claims_booking_id_fkey"
+            columns: ["booking_id"]
+            isOneToOne: true
+            referencedRelation: "bookings"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      messages: {
+        Row: {
+          body: string
+          conversation_id: string
+          created_at: string
+          id: string
+          read_at: string | null
+          sender_id: string
+        }
+        Insert: {
+          body: string
+          conversation_id: string
+          created_at?: string
+          id?: string
+          read_at?: string | null
+          sender_id: string
+        }
+        Update: {
+          body?: string
+          conversation_id?: string
+          created_at?: string
+          id?: string
+          read_at?: string | null
+          sender_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "messages_conversation_id_fkey"
+            columns: ["conversation_id"]
+            isOneToOne: false
+            referencedRelation: "conversations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      notification_preferences: {
+        Row: {
+          email: boolean
+          in_app: boolean
+          type: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          email?: boolean
+          in_app?: boolean
+          type: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          email?: boolean
+          in_app?: boolean
+          type?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      notifications: {
+        Row: {
+          body: string
+          booking_id: string | null
+          created_at: string
+          email_attempts: number
+          email_error: string | null
+          email_status: string
+          emailed_at: string | null
+          id: string
+          in_app: boolean
+          link: string | null
+          read_at: string | null
+          title: string
+          type: string
+          user_id: string
+          waitlist_entry_id: string | null
+        }
+        Insert: {
+          body: string
+          booking_id?: string | null
+          created_at?: string
+          email_attempts?: number
+          email_error?: string | null
+          email_status?: string
+          emailed_at?: string | null
+          id?: string
+          in_app?: boolean
+          link?: string | null
+          read_at?: string | null
+          title: string
+          type: string
+          user_id: string
+          waitlist_entry_id?: string | null
+        }
+        Update: {
+          body?: string
+          booking_id?: string | null
+          created_at?: string
+          email_attempts?: number
+          email_error?: string | null
+          email_status?: string
+          emailed_at?: string | null
+          id?: string
+          in_app?: boolean
+          link?: string | null
+          read_at?: string | null
+          title?: string
+          type?: string
+          user_id?: string
+          waitlist_entry_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "notifications_booking_id_fkey"
+            columns: ["booking_id"]
+            isOneToOne: false
+            referencedRelation: "bookings"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "notifications_waitlist_entry_id_fkey"
+            columns: ["waitlist_entry_id"]
+            isOneToOne: false
+            referencedRelation: "waitlist_entries"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      profiles: {
+        Row: {
+          avatar_url: string | null
+          created_at: string
+          email: string
+          id: string
+          location: string | null
+          name: string
+          phone: string | null
+          phone_visibility: string
+          show_location: boolean
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          avatar_url?: string | null
+          created_at?: string
+          email: string
+          id?: string
+          location?: string | null
+          name: string
+          phone?: string | null
+          phone_visibility?: string
+          show_location?: boolean
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          avatar_url?: string | null
+          created_at?: string
+          email?: string
+          id?: string
+          location?: string | null
+          name?: string
+          phone?: string | null
+          phone_visibility?: string
+          show_location?: boolean
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      reports: {
+        Row: {
+          created_at: string
+          details: string | null
+          id: string
+          reason: string
+          reported_user_id: string | null
+          reporter_id: string
+          resolution_note: string | null
+          resource_id: string | null
+          reviewed_at: string | null
+          reviewed_by: string | null
+          status: string
+        }
+        Insert: {
+          created_at?: string
+          details?: string | null
+          id?: string
+          reason: string
+          reported_user_id?: string | null
+          reporter_id: string
+          resolution_note?: string | null
+          resource_id?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          status?: string
+        }
+        Update: {
+          created_at?: string
+          details?: string | null
+          id?: string
+          reason?: string
+          reported_user_id?: string | null
+          reporter_id?: string
+          resolution_note?: string | null
+          resource_id?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "reports_resource_id_fkey"
+            columns: ["resource_id"]
+            isOneToOne: false
+            referencedRelation: "resources"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      resource_blackouts: {
+        Row: {
+          created_at: string
+          ends_at: string
+          id: string
+          reason: string | null
+          resource_id: string
+          starts_at: string
+        }
+        Insert: {
+          created_at?: string
+          ends_at: string
+          id?: string
+          reason?: string | null
+          resource_id: string
+          starts_at: string
+        }
+        Update: {
+          created_at?: string
+          ends_at?: string
+          id?: string
+          reason?: string | null
+          resource_id?: string
+          starts_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "resource_blackouts_resource_id_fkey"
+            columns: ["resource_id"]
+            isOneToOne: false
+            referencedRelation: "resources"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      resource_calendar_blocks: {
+        Row: {
+          ends_at: string
+          id: string
+          resource_id: string
+          starts_at: string
+          summary: string | null
+          uid: string
+        }
+        Insert: {
+          ends_at: string
+          id?: string
+          resource_id: string
+          starts_at: string
+          summary?: string | null
+          uid: string
+        }
+        Update: {
+          ends_at?: string
+          id?: string
+          resource_id?: string
+          starts_at?: string
+          summary?: string | null
+          uid?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "resource_calendar_blocks_resource_id_fkey"
+            columns: ["resource_id"]
+            isOneToOne: false
+            referencedRelation: "resources"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      resource_images: {
+        Row: {
+          created_at: string
+          id: string
+          is_cover: boolean
+          position: number
+          resource_id: string
+          storage_path: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          is_cover?: boolean
+          position?: number
+          resource_id: string
+          storage_path: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          is_cover?: boolean
+          position?: number
+          resource_id?: string
+          storage_path?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "resource_images_resource_id_fkey"
+            columns: ["resource_id"]
+            isOneToOne: false
+            referencedRelation: "resources"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      resource_locations: {
+        Row: {
+          address: string
+          created_at: string
+          latitude: number
+          longitude: number
+          resource_id: string
+          updated_at: string
+        }
+        Insert: {
+          address: string
+          created_at?: string
+          latitude: number
+          longitude: number
+          resource_id: string
+          updated_at?: string
+        }
+        Update: {
+          address?: string
+          created_at?: string
+          latitude?: number
+          longitude?: number
+          resource_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "resource_locations_resource_id_fkey"
+            columns: ["resource_id"]
+            isOneToOne: true
+            referencedRelation: "resources"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      resource_weekly_hours: {
+        Row: {
+          end_time: string
+          resource_id: string
+          start_time: string
+          weekday: number
+        }
+        Insert: {
+          end_time: string
+          resource_id: string
+          start_time: string
+          weekday: number
+        }
+        Update: {
+          end_time?: string
+          resource_id?: string
+          start_time?: string
+          weekday?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "resource_weekly_hours_resource_id_fkey"
+            columns: ["resource_id"]
+            isOneToOne: false
+            referencedRelation: "resources"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      resources: {
+        Row: {
+          attributes: Json
+          availability_end: string
+          availability_start: string
+          booking_mode: string
+          buffer_minutes: number
+          category: string
+          category_id: string
+          created_at: string
+          deposit_amount: number
+          description: string | null
+          hourly_price: number | null
+          ical_import_url: string | null
+          ical_sync_error: string | null
+          ical_synced_at: string | null
+          id: string
+          image_url: string | null
+          instant_book_min_rating: number | null
+          instant_book_verified_email: boolean
+          is_available: boolean | null
+          latitude: number | null
+          listed_before_reports: boolean
+          location: string
+          longitude: number | null
+          min_rental_hours: number
+          owner_id: string
+          price: number
+          request_expiry_hours: number
+          search_vector: unknown | null
+          timezone: string
+          title: string
+          unpublished_at: string | null
+          unpublished_reason: string | null
+          updated_at: string
+          weekend_price: number | null
+          weekly_price: number | null
+        }
+        Insert: {
+          attributes?: Json
+          availability_end: string
+          availability_start: string
+          booking_mode?: string
+          buffer_minutes?: number
+          category?: string
+          category_id: string
+          created_at?: string
+          deposit_amount?: number
+          description?: string | null
+          hourly_price?: number | null
+          ical_import_url?: string | null
+          ical_sync_error?: string | null
+          ical_synced_at?: string | null
+          id?: string
+          image_url?: string | null
+          instant_book_min_rating?: number | null
+          instant_book_verified_email?: boolean
+          is_available?: boolean | null
+          latitude?: number | null
+          listed_before_reports?: boolean
+          location: string
+          longitude?: number | null
+          min_rental_hours?: number
+          owner_id: string
+          price: number
+          request_expiry_hours?: number
+          search_vector?: unknown | null
+          timezone?: string
+          title: string
+          unpublished_at?: string | null
+          unpublished_reason?: string | null
+          updated_at?: string
+          weekend_price?: number | null
+          weekly_price?: number | null
+        }
+        Update: {
+          attributes?: Json
+          availability_end?: string
+          availability_start?: string
+          booking_mode?: string
+          buffer_minutes?: number
+          category?: string
+          category_id?: string
+          created_at?: string
+          deposit_amount?: number
+          description?: string | null
+          hourly_price?: number | null
+          ical_import_url?: string | null
+          ical_sync_error?: string | null
+          ical_synced_at?: string | null
+          id?: string
+          image_url?: string | null
+          instant_book_min_rating?: number | null
+          instant_book_verified_email?: boolean
+          is_available?: boolean | null
+          latitude?: number | null
+          listed_before_reports?: boolean
+          location?: string
+          longitude?: number | null
+          min_rental_hours?: number
+          owner_id?: string
+          price?: number
+          request_expiry_hours?: number
+          search_vector?: unknown | null
+          timezone?: string
+          title?: string
+          unpublished_at?: string | null
+          unpublished_reason?: string | null
+          updated_at?: string
+          weekend_price?: number | null
+          weekly_price?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "resources_category_id_fkey"
+            columns: ["category_id"]
+            isOneToOne: false
+            referencedRelation: "categories"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      reviews: {
+        Row: {
+          booking_id: string
+          comment: string | null
+          created_at: string
+          direction: string
+          id: string
+          rating: number
+          resource_id: string
+          reviewee_id: string
+          reviewer_id: string
+        }
+        Insert: {
+          booking_id: string
+          comment?: string | null
+          created_at?: string
+          direction: string
+          id?: string
+          rating: number
+          resource_id: string
+          reviewee_id: string
+          reviewer_id: string
+        }
+        Update: {
+          booking_id?: string
+          comment?: string | null
+          created_at?: string
+          direction?: string
+          id?: string
+          rating?: number
+          resource_id?: string
+          reviewee_id?: string
+          reviewer_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "reviews_booking_id_fkey"
+            columns: ["booking_id"]
+            isOneToOne: false
+            referencedRelation: "bookings"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "reviews_resource_id_fkey"
+            columns: ["resource_id"]
+            isOneToOne: false
+            referencedRelation: "resources"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      user_roles: {
+        Row: {
+          created_at: string
+          id: string
+          role: Database["public"]["Enums"]["app_role"]
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          role: Database["public"]["Enums"]["app_role"]
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          role?: Database["public"]["Enums"]["app_role"]
+          user_id?: string
+        }
+        Relationships: []
+      }
+      user_suspensions: {
+        Row: {
+          created_at: string
+          reason: string
+          suspended_by: string | null
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          reason: string
+          suspended_by?: string | null
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          reason?: string
+          suspended_by?: string | null
+          user_id?: string
+        }
+        Relationships: []
+      }
+      waitlist_entries: {
         Row: {
           created_at: string
           end_time: string
           id: string
-          owner_id: string
-          payment_method: string | null
+          offer_expires_at: string | null
+          offered_at: string | null
           renter_id: string
           resource_id: string
           start_time: string
-          status: string | null
-          total_price: number
-          updated_at: string
+          status: string
         }
         Insert: {
           created_at?: string
           end_time: string
           id?: string
-          owner_id: string
-          payment_method?: string | null
+          offer_expires_at?: string | null
+          offered_at?: string | null
           renter_id: string
           resource_id: string
           start_time: string
-          status?: string | null
-          total_price: number
-          updated_at?: string
+          status?: string
         }
         Update: {
           created_at?: string
           end_time?: string
           id?: string
-          owner_id?: string
-          payment_method?: string | null
+          offer_expires_at?: string | null
+          offered_at?: string | null
           renter_id?: string
           resource_id?: string
           start_time?: string
-          status?: string | null
-          total_price?: number
-          updated_at?: string
+          status?: string
         }
         Relationships: [
           {
-            foreignKeyName: "bookings_resource_id_fkey"
+            foreignKeyName: "waitlist_entries_resource_id_fkey"
             columns: ["resource_id"]
             isOneToOne: false
             referencedRelation: "resources"
@@ -64,99 +1016,548 @@ export type Database = {
           },
         ]
       }
-      profiles: {
+    }
+    Views: {
+      public_profiles: {
         Row: {
           avatar_url: string | null
-          created_at: string
-          email: string
-          id: string
+          created_at: string | null
+          email: string | null
           location: string | null
-          name: string
+          name: string | null
           phone: string | null
-          updated_at: string
-          user_id: string
+          user_id: string | null
         }
-        Insert: {
-          avatar_url?: string | null
-          created_at?: string
+        Relationships: []
+      }
+      resource_rating_summary: {
+        Row: {
+          average_rating: number | null
+          resource_id: string | null
+          review_count: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "reviews_resource_id_fkey"
+            columns: ["resource_id"]
+            isOneToOne: false
+            referencedRelation: "resources"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      user_rating_summary: {
+        Row: {
+          average_as_owner: number | null
+          average_as_renter: number | null
+          average_rating: number | null
+          review_count: number | null
+          review_count_as_owner: number | null
+          review_count_as_renter: number | null
+          user_id: string | null
+        }
+        Relationships: []
+      }
+    }
+    Functions: {
+      admin_list_users: {
+        Args: { _limit?: number; _search?: string }
+        Returns: {
+          booking_count: number
+          created_at: string
           email: string
-          id?: string
-          location?: string | null
+          is_admin: boolean
           name: string
-          phone?: string | null
-          updated_at?: string
+          resource_count: number
+          suspended_at: string
+          suspension_reason: string
           user_id: string
+        }[]
+      }
+      admin_resolve_damage_claim: {
+        Args: {
+          _awarded_amount: number
+          _claim_id: string
+          _note: string
         }
-        Update: {
-          avatar_url?: string | null
-          created_at?: string
-          email?: string
-          id?: string
-          location?: string | null
-          name?: string
-          phone?: string | null
-          updated_at?: string
-          user_id?: string
+        Returns: {
+          amount: number
+          awarded_amount: number | null
+          booking_id: string
+          created_at: string
+          description: string
+          id: string
+          owner_id: string
+          photo_paths: string[]
+          renter_id: string
+          renter_response: string | null
+          resolution_note: string | null
+          resolved_at: string | null
+          resolved_by: string | null
+          status: string
+          updated_at: string
         }
-        Relationships: []
       }
-      resources: {
-        Row: {
+      admin_resolve_reports: {
+        Args: {
+          _action: string
+          _note?: string
+          _target_id: string
+          _target_type: string
+        }
+        Returns: number
+      }
+      admin_set_resource_published: {
+        Args: {
+          _published: boolean
+          _reason?: string
+          _resource_id: string
+        }
+        Returns: {
+          attributes: Json
           availability_end: string
           availability_start: string
+          booking_mode: string
+          buffer_minutes: number
           category: string
+          category_id: string
           created_at: string
+          deposit_amount: number
           description: string | null
+          hourly_price: number | null
+          ical_import_url: string | null
+          ical_sync_error: string | null
+          ical_synced_at: string | null
           id: string
           image_url: string | null
+          instant_book_min_rating: number | null
+          instant_book_verified_email: boolean
           is_available: boolean | null
+          latitude: number | null
+          listed_before_reports: boolean
           location: string
+          longitude: number | null
+          min_rental_hours: number
           owner_id: string
           price: number
+          request_expiry_hours: number
+          search_vector: unknown | null
+          timezone: string
           title: string
+          unpublished_at: string | null
+          unpublished_reason: string | null
           updated_at: string
+          weekend_price: number | null
+          weekly_price: number | null
         }
-        Insert: {
+      }
+      admin_suspend_user: {
+        Args: { _reason: string; _user_id: string }
+        Returns: {
+          created_at: string
+          reason: string
+          suspended_by: string | null
+          user_id: string
+        }
+      }
+      admin_unsuspend_user: {
+        Args: { _user_id: string }
+        Returns: undefined
+      }
+      are_booking_counterparties: {
+        Args: { _user_a: string; _user_b: string }
+        Returns: boolean
+      }
+      can_instant_book: {
+        Args: { _resource_id: string }
+        Returns: boolean
+      }
+      category_lineage: {
+        Args: { _category_id: string }
+        Returns: {
+          attribute_schema: Json
+          depth: number
+          id: string
+        }[]
+      }
+      category_subtree: {
+        Args: { _category_id: string }
+        Returns: string[]
+      }
+      create_booking: {
+        Args: {
+          _end_time: string
+          _payment_method: string
+          _resource_id: string
+          _start_time: string
+        }
+        Returns: {
+          created_at: string
+          deposit_amount: number
+          end_time: string
+          expired_at: string | null
+          expires_at: string | null
+          id: string
+          instant_book: boolean
+          owner_id: string
+          payment_method: string | null
+          price_breakdown: Json | null
+          renter_id: string
+          resource_id: string
+          start_time: string
+          status: Database["public"]["Enums"]["booking_status"]
+          total_price: number
+          updated_at: string
+        }
+      }
+      distance_km: {
+        Args: { _lat1: number; _lat2: number; _lng1: number; _lng2: number }
+        Returns: number
+      }
+      expire_waitlist_offers: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
+      file_damage_claim: {
+        Args: {
+          _amount: number
+          _booking_id: string
+          _description: string
+          _photo_paths?: string[]
+        }
+        Returns: {
+          amount: number
+          awarded_amount: number | null
+          booking_id: string
+          created_at: string
+          description: string
+          id: string
+          owner_id: string
+          photo_paths: string[]
+          renter_id: string
+          renter_response: string | null
+          resolution_note: string | null
+          resolved_at: string | null
+          resolved_by: string | null
+          status: string
+          updated_at: string
+        }
+      }
+      format_booking_dates: {
+        Args: { _end: string; _start: string; _timezone: string }
+        Returns: string
+      }
+      get_or_create_conversation: {
+        Args: { _booking_id?: string; _resource_id: string }
+        Returns: string
+      }
+      get_owner_earnings_summary: {
+        Args: { _from: string; _resource_id?: string; _to: string }
+        Returns: {
+          active_booking_count: number
+          available_days: number
+          average_booking_hours: number
+          booked_days: number
+          booking_count: number
+          cancellation_rate: number
+          cancelled_count: number
+          revenue: number
+          utilization_rate: number
+        }[]
+      }
+      get_owner_resource_stats: {
+        Args: { _from: string; _to: string }
+        Returns: {
+          active_booking_count: number
+          available_days: number
+          average_booking_hours: number
+          booked_days: number
+          booking_count: number
+          cancellation_rate: number
+          cancelled_count: number
+          resource_id: string
+          revenue: number
+          title: string
+          utilization_rate: number
+        }[]
+      }
+      get_owner_revenue_series: {
+        Args: {
+          _from: string
+          _interval?: string
+          _resource_id?: string
+          _to: string
+        }
+        Returns: {
+          booking_count: number
+          period_start: string
+          revenue: number
+        }[]
+      }
+      get_resource_blocked_hours: {
+        Args: { _from: string; _resource_id: string; _to: string }
+        Returns: unknown
+      }
+      get_resource_bookable_slots: {
+        Args: { _from: string; _resource_id: string; _to: string }
+        Returns: {
+          end_time: string
+          start_time: string
+        }[]
+      }
+      get_resource_busy_intervals: {
+        Args: { _resource_id: string }
+        Returns: {
+          end_time: string
+          start_time: string
+        }[]
+      }
+      get_resource_held_hours: {
+        Args: { _except_renter_id: string; _resource_id: string }
+        Returns: unknown
+      }
+      get_resource_open_hours: {
+        Args: { _from: string; _resource_id: string; _to: string }
+        Returns: unknown
+      }
+      get_unread_message_count: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
+      get_unread_notification_count: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
+      has_role: {
+        Args: {
+          _role: Database["public"]["Enums"]["app_role"]
+          _user_id: string
+        }
+        Returns: boolean
+      }
+      is_admin: {
+        Args: Record<PropertyKey, never>
+        Returns: boolean
+      }
+      is_booking_transition_allowed: {
+        Args: {
+          _actor: string
+          _from: Database["public"]["Enums"]["booking_status"]
+          _to: Database["public"]["Enums"]["booking_status"]
+        }
+        Returns: boolean
+      }
+      is_conversation_participant: {
+        Args: { _conversation_id: string }
+        Returns: boolean
+      }
+      is_instant_book_eligible: {
+        Args: { _renter_id: string; _resource_id: string }
+        Returns: boolean
+      }
+      is_resource_open_during: {
+        Args: { _from: string; _resource_id: string; _to: string }
+        Returns: boolean
+      }
+      is_suspended: {
+        Args: { _user_id: string }
+        Returns: boolean
+      }
+      join_waitlist: {
+        Args: { _end_time: string; _resource_id: string; _start_time: string }
+        Returns: {
+          created_at: string
+          end_time: string
+          id: string
+          offer_expires_at: string | null
+          offered_at: string | null
+          renter_id: string
+          resource_id: string
+          start_time: string
+          status: string
+        }
+      }
+      leave_waitlist: {
+        Args: { _entry_id: string }
+        Returns: {
+          created_at: string
+          end_time: string
+          id: string
+          offer_expires_at: string | null
+          offered_at: string | null
+          renter_id: string
+          resource_id: string
+          start_time: string
+          status: string
+        }
+      }
+      mark_conversation_read: {
+        Args: { _conversation_id: string }
+        Returns: undefined
+      }
+      mark_notifications_read: {
+        Args: { _ids?: string[] }
+        Returns: undefined
+      }
+      notify_user: {
+        Args: {
+          _body: string
+          _booking_id: string
+          _link: string
+          _title: string
+          _type: string
+          _user_id: string
+          _waitlist_entry_id?: string
+        }
+        Returns: undefined
+      }
+      offer_waitlist_holds: {
+        Args: { _resource_id: string }
+        Returns: number
+      }
+      queue_booking_reminders: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
+      quote_booking: {
+        Args: { _end_time: string; _resource_id: string; _start_time: string }
+        Returns: Json
+      }
+      report_resource: {
+        Args: { _details?: string; _reason: string; _resource_id: string }
+        Returns: {
+          created_at: string
+          details: string | null
+          id: string
+          reason: string
+          reported_user_id: string | null
+          reporter_id: string
+          resolution_note: string | null
+          resource_id: string | null
+          reviewed_at: string | null
+          reviewed_by: string | null
+          status: string
+        }
+      }
+      report_user: {
+        Args: { _details?: string; _reason: string; _user_id: string }
+        Returns: {
+          created_at: string
+          details: string | null
+          id: string
+          reason: string
+          reported_user_id: string | null
+          reporter_id: string
+          resolution_note: string | null
+          resource_id: string | null
+          reviewed_at: string | null
+          reviewed_by: string | null
+          status: string
+        }
+      }
+      respond_to_damage_claim: {
+        Args: { _accept: boolean; _claim_id: string; _response?: string }
+        Returns: {
+          amount: number
+          awarded_amount: number | null
+          booking_id: string
+          created_at: string
+          description: string
+          id: string
+          owner_id: string
+          photo_paths: string[]
+          renter_id: string
+          renter_response: string | null
+          resolution_note: string | null
+          resolved_at: string | null
+          resolved_by: string | null
+          status: string
+          updated_at: string
+        }
+      }
+      search_resources: {
+        Args: {
+          _available_from?: string
+          _attributes?: Json
+          _available_to?: string
+          _category?: string
+          _cursor_id?: string
+          _cursor_key?: number
+          _latitude?: number
+          _limit?: number
+          _longitude?: number
+          _max_price?: number
+          _min_price?: number
+          _query?: string
+          _radius_km?: number
+          _sort?: string
+        }
+        Returns: {
           availability_end: string
           availability_start: string
+          average_rating: number
           category: string
-          created_at?: string
-          description?: string | null
-          id?: string
-          image_url?: string | null
-          is_available?: boolean | null
+          cover_image_path: string
+          created_at: string
+          description: string
+          distance_km: number
+          id: string
+          image_url: string
+          latitude: number
           location: string
+          longitude: number
           owner_id: string
           price: number
+          review_count: number
+          sort_key: number
           title: string
-          updated_at?: string
+        }[]
+      }
+      submit_review: {
+        Args: { _booking_id: string; _comment?: string; _rating: number }
+        Returns: {
+          booking_id: string
+          comment: string | null
+          created_at: string
+          direction: string
+          id: string
+          rating: number
+          resource_id: string
+          reviewee_id: string
+          reviewer_id: string
         }
-        Update: {
-          availability_end?: string
-          availability_start?: string
-          category?: string
-          created_at?: string
-          description?: string | null
-          id?: string
-          image_url?: string | null
-          is_available?: boolean | null
-          location?: string
-          owner_id?: string
-          price?: number
-          title?: string
-          updated_at?: string
+      }
+      withdraw_damage_claim: {
+        Args: { _claim_id: string }
+        Returns: {
+          amount: number
+          awarded_amount: number | null
+          booking_id: string
+          created_at: string
+          description: string
+          id: string
+          owner_id: string
+          photo_paths: string[]
+          renter_id: string
+          renter_response: string | null
+          resolution_note: string | null
+          resolved_at: string | null
+          resolved_by: string | null
+          status: string
+          updated_at: string
         }
-        Relationships: []
       }
     }
-    Views: {
-      [_ in never]: never
-    }
-    Functions: {
-      [_ in never]: never
-    }
     Enums: {
-      [_ in never]: never
+      app_role: "admin"
+      booking_status:
+        | "pending"
+        | "confirmed"
+        | "rejected"
+        | "picked_up"
+        | "returned"
+        | "completed"
+        | "cancelled"
     }
     CompositeTypes: {
       [_ in never]: never
@@ -283,6 +1684,17 @@ export type CompositeTypes<
 
 export const Constants = {
   public: {
-    Enums: {},
+    Enums: {
+      app_role: ["admin"],
+      booking_status: [
+        "pending",
+        "confirmed",
+        "rejected",
+        "picked_up",
+        "returned",
+        "completed",
+        "cancelled",
+      ],
+    },
   },
 } as const
@@ -0,0 +1,84 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Database, Tables } from "@/integrations/supabase/types";
+import { BookingStatus } from "@/lib/bookings";
+import { DamageClaim } from "@/lib/deposits";
+
+// Lists in the admin console show the most recent rows first, up to this many
+export const ADMIN_LIST_LIMIT = 100;
+
+export type AdminUser = Database["public"]["Functions"]["admin_list_users"]["Returns"][number];
+
+export type AuditLogEntry = Tables<"admin_audit_log">;
+
+export type AuditTargetType = "user" | "resource" | "booking" | "damage_claim";
+
+export interface MemberSummary {
+  name: string;
+  email: string;
+}
+
+export interface AdminResource {
+  id: string;
+  title: string;
+  category: string;
+  owner_id: string;
+  is_available: boolean | null;
+  unpublished_at: string | null;
+  unpublished_reason: string | null;
+  created_at: string;
+}
+
+export interface AdminBooking {
+  id: string;
+  resource_id: string;
+  renter_id: string;
+  owner_id: string;
+  start_time: string;
+  end_time: string;
+  total_price: number;
+  status: BookingStatus;
+  created_at: string;
+  resources: { title: string };
+}
+
+export interface AdminDispute extends DamageClaim {
+  bookings: {
+    deposit_amount: number;
+    start_time: string;
+    end_time: string;
+    resources: { title: string };
+  };
+}
+
+export const auditActionLabels: Record<string, string> = {
+  suspend_user: "Suspended member",
+  unsuspend_user: "Lifted suspension",
+  unpublish_resource: "Unpublished listing",
+  republish_resource: "Restored listing",
+  resolve_damage_claim: "Resolved dispute",
+  action_reports: "Acted on reports",
+  dismiss_reports: "Dismissed reports",
+};
+
+export const auditTargetLabels: Record<AuditTargetType, string> = {
+  user: "Member",
+  resource: "Listing",
+  booking: "Booking",
+  damage_claim: "Damage claim",
+};
+
+// Admins can read every profile, so names and emails come straight from profiles
+export const fetchMemberSummaries = async (userIds: string[]) => {
+  const ids = [...new Set(userIds)];
+  if (ids.length === 0) return {};
+
+  const { data, error } = await supabase
+    .from("profiles")
+    .select("user_id, name, email")
+    .in("user_id", ids);
+
+  if (error) throw error;
+  return Object.fromEntries(
+    (data || []).map((profile) => [profile.user_id, { name: profile.name, email: profile.email }])
+  ) as Record<string, MemberSummary>;
+};
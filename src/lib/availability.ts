@@ -0,0 +1,153 @@
+import { addDays, endOfDay, format, startOfDay } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import type { ResourceFormData } from "@/lib/resources";
+
+export type WeeklyHours = Pick<Tables<"resource_weekly_hours">, "weekday" | "start_time" | "end_time">;
+
+export type ResourceBlackout = Tables<"resource_blackouts">;
+
+export interface BookableSlot {
+  start_time: string;
+  end_time: string;
+}
+
+// Weekdays follow Date.getDay(): 0 is Sunday. Forms list them from Monday.
+export const WEEKDAY_NAMES = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+
+export const WEEKDAY_ORDER = [1, 2, 3, 4, 5, 6, 0];
+
+export const BUFFER_OPTIONS = [
+  { value: 0, label: "No buffer" },
+  { value: 30, label: "30 minutes" },
+  { value: 60, label: "1 hour" },
+  { value: 120, label: "2 hours" },
+  { value: 240, label: "4 hours" },
+  { value: 720, label: "12 hours" },
+  { value: 1440, label: "1 day" },
+];
+
+export const getBrowserTimeZone = () => Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+// Zones an owner can pick for their weekly hours, keeping the current one
+// listed even if this browser does not know it
+export const getTimeZoneOptions = (current: string) => {
+  const { supportedValuesOf } = Intl as { supportedValuesOf?: (key: "timeZone") => string[] };
+  const zones = supportedValuesOf?.("timeZone") ?? [getBrowserTimeZone()];
+  return zones.includes(current) ? zones : [current, ...zones];
+};
+
+// Form values; times use the time input format and an end of 00:00 means
+// midnight at the end of the day
+export interface WeeklyHoursDraft {
+  weekday: number;
+  enabled: boolean;
+  start: string;
+  end: string;
+}
+
+// Whole days in the owner's time zone, inclusive, in the date input format
+export interface BlackoutDraft {
+  start_date: string;
+  end_date: string;
+  reason: string;
+}
+
+const toTimeInput = (value: string) => value.slice(0, 5);
+
+const toEndTime = (value: string) => (value === "00:00" ? "24:00" : value);
+
+export const toWeeklyHoursDrafts = (rows: WeeklyHours[] = []): WeeklyHoursDraft[] =>
+  WEEKDAY_ORDER.map((weekday) => {
+    const row = rows.find((r) => r.weekday === weekday);
+    return row
+      ? { weekday, enabled: true, start: toTimeInput(row.start_time), end: toTimeInput(row.end_time).replace("24:00", "00:00") }
+      : { weekday, enabled: false, start: "00:00", end: "00:00" };
+  });
+
+export const isWeeklyHoursDraftValid = (draft: WeeklyHoursDraft) =>
+  !draft.enabled || toEndTime(draft.end) > draft.start;
+
+export const toBlackoutDrafts = (rows: ResourceBlackout[] = []): BlackoutDraft[] =>
+  rows.map((row) => ({
+    start_date: format(new Date(row.starts_at), "yyyy-MM-dd"),
+    end_date: format(addDays(new Date(row.ends_at), -1), "yyyy-MM-dd"),
+    reason: row.reason ?? "",
+  }));
+
+// Weekly hours and blackouts are replaced wholesale on every save
+export const saveResourceAvailability = async (
+  resourceId: string,
+  data: Pick<ResourceFormData, "weekly_hours_enabled" | "weekly_hours" | "blackouts">
+) => {
+  const { error: deleteHoursError } = await supabase
+    .from("resource_weekly_hours")
+    .delete()
+    .eq("resource_id", resourceId);
+  if (deleteHoursError) throw deleteHoursError;
+
+  const hours = data.weekly_hours_enabled ? data.weekly_hours.filter((draft) => draft.enabled) : [];
+  if (hours.length > 0) {
+    const { error } = await supabase.from("resource_weekly_hours").insert(
+      hours.map((draft) => ({
+        resource_id: resourceId,
+        weekday: draft.weekday,
+        start_time: draft.start,
+        end_time: toEndTime(draft.end),
+      }))
+    );
+    if (error) throw error;
+  }
+
+  const { error: deleteBlackoutsError } = await supabase
+    .from("resource_blackouts")
+    .delete()
+    .eq("resource_id", resourceId);
+  if (deleteBlackoutsError) throw deleteBlackoutsError;
+
+  if (data.blackouts.length > 0) {
+    const { error } = await supabase.from("resource_blackouts").insert(
+      data.blackouts.map((draft) => ({
+        resource_id: resourceId,
+        starts_at: startOfDay(new Date(`${draft.start_date}T00:00`)).toISOString(),
+        ends_at: addDays(startOfDay(new Date(`${draft.end_date}T00:00`)), 1).toISOString(),
+        reason: draft.reason.trim() || null,
+      }))
+    );
+    if (error) throw error;
+  }
+};
+
+export const fetchBookableSlots = async (resourceId: string, from: Date, to: Date) => {
+  const { data, error } = await supabase.rpc("get_resource_bookable_slots", {
+    _resource_id: resourceId,
+    _from: from.toISOString(),
+    _to: to.toISOString(),
+  });
+
+  if (error) throw error;
+  return data || [];
+};
+
+// The slot that runs from the first day into the last, if any
+export const findSlotForDays = (slots: BookableSlot[], firstDay: Date, lastDay: Date) =>
+  slots.find(
+    (slot) => new Date(slot.start_time) <= endOfDay(firstDay) && new Date(slot.end_time) > startOfDay(lastDay)
+  );
+
+export const isRangeBookable = (slots: BookableSlot[], start: Date, end: Date) =>
+  slots.some((slot) => new Date(slot.start_time) <= start && new Date(slot.end_time) >= end);
+
+// e.g. "Saturday: all day, Monday: 18:00–21:00"
+export const describeWeeklyHours = (rows: WeeklyHours[]) =>
+  WEEKDAY_ORDER.flatMap((weekday) => {
+    const row = rows.find((r) => r.weekday === weekday);
+    if (!row) return [];
+    const start = toTimeInput(row.start_time);
+    const end = toTimeInput(row.end_time);
+    const hours = start === "00:00" && end === "24:00" ? "all day" : `${start}–${end}`;
+    return [`${WEEKDAY_NAMES[weekday].slice(0, 3)}: ${hours}`];
+  }).join(", ");
+
+export const describeBuffer = (minutes: number) =>
+  BUFFER_OPTIONS.find((option) => option.value === minutes)?.label.toLowerCase() ?? `${minutes} minutes`;
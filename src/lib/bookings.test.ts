@@ -0,0 +1,47 @@
+import { describe, expect, it } from "vitest";
+import { BookingStatus, getBookingActions, getBookingErrorMessage, isBookingConflictError } from "./bookings";
+
+const nextStatuses = (status: BookingStatus, party: "owner" | "renter") =>
+  getBookingActions(status, party).map((action) => action.status);
+
+describe("getBookingActions", () => {
+  it("lets the owner answer a request and the renter withdraw it", () => {
+    expect(nextStatuses("pending", "owner")).toEqual(["confirmed", "rejected"]);
+    expect(nextStatuses("pending", "renter")).toEqual(["cancelled"]);
+  });
+
+  it("follows an accepted booking through pick-up and return", () => {
+    expect(nextStatuses("confirmed", "owner")).toEqual(["picked_up", "cancelled"]);
+    expect(nextStatuses("confirmed", "renter")).toEqual(["cancelled"]);
+    expect(nextStatuses("picked_up", "owner")).toEqual(["returned"]);
+    expect(nextStatuses("picked_up", "renter")).toEqual(["returned"]);
+  });
+
+  it("leaves completing a returned booking to the owner", () => {
+    expect(nextStatuses("returned", "owner")).toEqual(["completed"]);
+    expect(nextStatuses("returned", "renter")).toEqual([]);
+  });
+
+  it.each<BookingStatus>(["rejected", "completed", "cancelled"])("offers nothing once a booking is %s", (status) => {
+    expect(nextStatuses(status, "owner")).toEqual([]);
+    expect(nextStatuses(status, "renter")).toEqual([]);
+  });
+});
+
+describe("getBookingErrorMessage", () => {
+  it("explains overlapping bookings", () => {
+    const error = { code: "23P01", message: 'conflicting key value violates exclusion constraint "bookings_no_overlap"' };
+    expect(isBookingConflictError(error)).toBe(true);
+    expect(getBookingErrorMessage(error, "Failed")).toMatch(/already booked/);
+  });
+
+  it("passes on messages written for the renter and hides the rest", () => {
+    expect(getBookingErrorMessage({ code: "23514", message: "Bookings must last at least 2 hours" }, "Failed")).toBe(
+      "Bookings must last at least 2 hours"
+    );
+    expect(getBookingErrorMessage({ code: "42501", message: "permission denied for table bookings" }, "Failed")).toBe(
+      "Failed"
+    );
+    expect(getBookingErrorMessage(new Error("boom"), "Failed")).toBe("Failed");
+  });
+});
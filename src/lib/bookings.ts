@@ -0,0 +1,160 @@
+import { z } from "zod";
+import type { Enums } from "@/integrations/supabase/types";
+import { bookingDetailsSchema, BookingMode, PaymentMethod } from "@shared/schemas";
+
+export type BookingStatus = Enums<"booking_status">;
+
+export type BookingParty = "owner" | "renter";
+
+export interface BookingAction {
+  status: BookingStatus;
+  label: string;
+  variant: "default" | "outline" | "destructive";
+}
+
+export const bookingStatusLabels: Record<BookingStatus, string> = {
+  pending: "Requested",
+  confirmed: "Accepted",
+  rejected: "Rejected",
+  picked_up: "Picked up",
+  returned: "Returned",
+  completed: "Completed",
+  cancelled: "Cancelled",
+};
+
+export const bookingStatusBadgeVariant = (
+  status: BookingStatus
+): "default" | "secondary" | "destructive" | "outline" => {
+  switch (status) {
+    case "confirmed":
+    case "picked_up":
+      return "default";
+    case "pending":
+    case "returned":
+      return "secondary";
+    case "completed":
+      return "outline";
+    default:
+      return "destructive";
+  }
+};
+
+// Mirrors public.is_booking_transition_allowed; the database is the authority
+const bookingActions: Record<BookingStatus, Record<BookingParty, BookingAction[]>> = {
+  pending: {
+    owner: [
+      { status: "confirmed", label: "Accept", variant: "default" },
+      { status: "rejected", label: "Reject", variant: "destructive" },
+    ],
+    renter: [{ status: "cancelled", label: "Cancel Request", variant: "destructive" }],
+  },
+  confirmed: {
+    owner: [
+      { status: "picked_up", label: "Mark Picked Up", variant: "default" },
+      { status: "cancelled", label: "Cancel Booking", variant: "destructive" },
+    ],
+    renter: [{ status: "cancelled", label: "Cancel Booking", variant: "destructive" }],
+  },
+  picked_up: {
+    owner: [{ status: "returned", label: "Mark Returned", variant: "default" }],
+    renter: [{ status: "returned", label: "Mark Returned", variant: "default" }],
+  },
+  returned: {
+    owner: [{ status: "completed", label: "Complete", variant: "default" }],
+    renter: [],
+  },
+  rejected: { owner: [], renter: [] },
+  completed: { owner: [], renter: [] },
+  cancelled: { owner: [], renter: [] },
+};
+
+export const getBookingActions = (status: BookingStatus, party: BookingParty) =>
+  bookingActions[status][party];
+
+// Postgres exclusion_violation, raised by the bookings_no_overlap constraint
+const BOOKING_CONFLICT_CODE = "23P01";
+
+// check_violation and no_data_found carry messages written for the renter
+const USER_FACING_ERROR_CODES = ["23514", "P0002"];
+
+const errorCode = (error: unknown) =>
+  typeof error === "object" && error !== null ? (error as { code?: string }).code : undefined;
+
+export const isBookingConflictError = (error: unknown) => errorCode(error) === BOOKING_CONFLICT_CODE;
+
+export const getBookingErrorMessage = (error: unknown, fallback: string) => {
+  if (isBookingConflictError(error)) {
+    return "This resource is already booked for those dates. Please choose different dates.";
+  }
+  if (USER_FACING_ERROR_CODES.includes(errorCode(error) ?? "")) {
+    return (error as { message: string }).message;
+  }
+  return fallback;
+};
+
+export interface BookingQuoteLine {
+  label: string;
+  quantity: number;
+  unit: "hour" | "day" | "week";
+  unit_price: number;
+  amount: number;
+}
+
+// Itemized price returned by the quote_booking database function
+export interface BookingQuote {
+  lines: BookingQuoteLine[];
+  total: number;
+  duration_hours: number;
+}
+
+// Values held by the booking form; times use the datetime-local input format
+export interface BookingFormData {
+  start_time: string;
+  end_time: string;
+  payment_method: PaymentMethod;
+}
+
+export const paymentMethodLabels: Record<PaymentMethod, string> = {
+  card: "Credit/Debit Card",
+  paypal: "PayPal",
+  cash: "Cash",
+};
+
+export const bookingModeLabels: Record<BookingMode, string> = {
+  request: "Approve each request",
+  instant: "Instant Book",
+};
+
+// How long an owner has to answer a request before it expires
+export const RESPONSE_WINDOW_OPTIONS = [
+  { value: 4, label: "4 hours" },
+  { value: 12, label: "12 hours" },
+  { value: 24, label: "24 hours" },
+  { value: 48, label: "2 days" },
+  { value: 72, label: "3 days" },
+];
+
+export const formatResponseWindow = (hours: number) =>
+  RESPONSE_WINDOW_OPTIONS.find((option) => option.value === hours)?.label ?? `${hours} hours`;
+
+const toIsoString = (value: string) => {
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? "" : date.toISOString();
+};
+
+export const toBookingTimes = (data: BookingFormData) => ({
+  start_time: toIsoString(data.start_time),
+  end_time: toIsoString(data.end_time),
+});
+
+// Checks the form with the schema the server side shares
+export const bookingFormSchema: z.ZodType<BookingFormData> = z
+  .custom<BookingFormData>()
+  .superRefine((data, ctx) => {
+    const details = bookingDetailsSchema.safeParse({ ...data, ...toBookingTimes(data) });
+    if (!details.success) {
+      details.error.issues.forEach((issue) =>
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: issue.path, message: issue.message })
+      );
+    }
+  });
@@ -0,0 +1,55 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { BookingParty, BookingStatus } from "@/lib/bookings";
+import { buildCalendar, toEventUid } from "@shared/calendar";
+
+export type CalendarFeed = Tables<"calendar_feeds">;
+
+// Anyone with this URL can read the feed; resetting it issues a new token
+export const getCalendarFeedUrl = (feed: Pick<CalendarFeed, "token">) =>
+  `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/calendar-feed?token=${feed.token}`;
+
+interface CalendarBooking {
+  id: string;
+  start_time: string;
+  end_time: string;
+  resources: {
+    title: string;
+    location: string;
+    resource_locations?: { address: string } | null;
+  };
+}
+
+// Bookings still ahead of the user, worth putting in their calendar
+const CALENDAR_STATUSES: BookingStatus[] = ["pending", "confirmed", "picked_up"];
+
+export const canAddToCalendar = (status: BookingStatus) => CALENDAR_STATUSES.includes(status);
+
+// Download a single booking as an .ics file for the user's own calendar
+export const downloadBookingEvent = (booking: CalendarBooking, party: BookingParty) => {
+  const title = booking.resources.title;
+  const calendar = buildCalendar(title, [
+    {
+      uid: toEventUid(booking.id),
+      start: new Date(booking.start_time),
+      end: new Date(booking.end_time),
+      summary: party === "owner" ? `${title} rented out` : `Borrowing ${title}`,
+      location: booking.resources.resource_locations?.address ?? booking.resources.location,
+      url: `${window.location.origin}/dashboard`,
+    },
+  ]);
+
+  const url = URL.createObjectURL(new Blob([calendar], { type: "text/calendar;charset=utf-8" }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = `${title.replace(/[^\w-]+/g, "-").toLowerCase() || "booking"}.ics`;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+// Import the resource's external calendar now instead of waiting for the
+// scheduled sync; failures are recorded on the resource
+export const syncResourceCalendar = async (resourceId: string) => {
+  const { error } = await supabase.functions.invoke("sync-calendars", { body: { resource_id: resourceId } });
+  if (error) throw error;
+};
@@ -0,0 +1,84 @@
+import type { Tables } from "@/integrations/supabase/types";
+import { AttributeValue, CategoryAttribute, categoryAttributeListSchema } from "@shared/schemas";
+
+type CategoryRow = Tables<"categories">;
+
+export interface Category extends Omit<CategoryRow, "attribute_schema"> {
+  attribute_schema: CategoryAttribute[];
+}
+
+// A category as listed in a picker, indented under its parent
+export interface CategoryOption {
+  category: Category;
+  depth: number;
+}
+
+// Attribute values as held by the listing form; a blank field is ""
+export type AttributeValues = Record<string, AttributeValue>;
+
+export const toCategory = (row: CategoryRow): Category => ({
+  ...row,
+  attribute_schema: categoryAttributeListSchema.parse(row.attribute_schema),
+});
+
+// Depth-first, siblings in their configured order
+export const flattenCategoryTree = (categories: Category[]) => {
+  const children = new Map<string | null, Category[]>();
+  for (const category of categories) {
+    const siblings = children.get(category.parent_id) ?? [];
+    siblings.push(category);
+    children.set(category.parent_id, siblings);
+  }
+
+  const options: CategoryOption[] = [];
+  const visit = (parentId: string | null, depth: number) => {
+    const siblings = (children.get(parentId) ?? []).sort(
+      (a, b) => a.position - b.position || a.name.localeCompare(b.name)
+    );
+    for (const category of siblings) {
+      options.push({ category, depth });
+      visit(category.id, depth + 1);
+    }
+  };
+  visit(null, 0);
+  return options;
+};
+
+// The category and its ancestors, root first
+export const getCategoryPath = (categories: Category[], categoryId: string | null | undefined) => {
+  const byId = new Map(categories.map((c) => [c.id, c]));
+  const path: Category[] = [];
+  let current = categoryId ? byId.get(categoryId) : undefined;
+  while (current && !path.includes(current)) {
+    path.unshift(current);
+    current = current.parent_id ? byId.get(current.parent_id) : undefined;
+  }
+  return path;
+};
+
+// Subcategories inherit the attributes of their ancestors
+export const getCategoryAttributes = (categories: Category[], categoryId: string | null | undefined) =>
+  getCategoryPath(categories, categoryId).flatMap((category) => category.attribute_schema);
+
+// Attributes that can narrow a search on the browse page
+export const getFacetAttributes = (attributes: CategoryAttribute[]) =>
+  attributes.filter((attribute) => attribute.filterable && (attribute.type === "select" || attribute.type === "boolean"));
+
+// Keep only the values the category defines, dropping blanks, as saved on the listing
+export const toAttributePayload = (values: AttributeValues, attributes: CategoryAttribute[]) =>
+  Object.fromEntries(
+    attributes.flatMap((attribute) => {
+      const value = values[attribute.key];
+      return value === undefined || value === "" ? [] : [[attribute.key, value]];
+    })
+  ) as AttributeValues;
+
+export const formatAttributeValue = (attribute: CategoryAttribute, value: AttributeValue) => {
+  if (attribute.type === "boolean") return value ? "Yes" : "No";
+  return attribute.unit ? `${value} ${attribute.unit}` : String(value);
+};
+
+// Native <option>s cannot be styled, so nesting is shown with leading
+// non-breaking spaces (plain spaces are collapsed)
+export const getCategoryOptionLabel = ({ category, depth }: CategoryOption) =>
+  `${"\u00a0\u00a0\u00a0".repeat(depth)}${category.name}`;
@@ -0,0 +1,65 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { compressImage } from "@/lib/images";
+
+export const DAMAGE_CLAIMS_BUCKET = "damage-claims";
+
+export const MAX_CLAIM_PHOTOS = 6;
+
+export type BookingDeposit = Tables<"booking_deposits">;
+
+export type DamageClaim = Tables<"damage_claims">;
+
+export type DepositStatus = "held" | "released" | "partially_captured" | "captured";
+
+// Disputed claims are settled by an administrator, which marks them resolved
+export type DamageClaimStatus = "open" | "accepted" | "disputed" | "withdrawn" | "resolved";
+
+export const depositStatusLabels: Record<DepositStatus, string> = {
+  held: "Held",
+  released: "Released",
+  partially_captured: "Partially captured",
+  captured: "Captured",
+};
+
+export const damageClaimStatusLabels: Record<DamageClaimStatus, string> = {
+  open: "Awaiting renter",
+  accepted: "Accepted",
+  disputed: "Disputed",
+  withdrawn: "Withdrawn",
+  resolved: "Resolved by ShareHub",
+};
+
+export const describeDeposit = (deposit: BookingDeposit) => {
+  const label = depositStatusLabels[deposit.status as DepositStatus] ?? deposit.status;
+  return deposit.captured_amount > 0
+    ? `$${deposit.amount} deposit: ${label.toLowerCase()} ($${deposit.captured_amount} kept)`
+    : `$${deposit.amount} deposit: ${label.toLowerCase()}`;
+};
+
+// Claim photos live under the booking id so both parties can read them
+export const uploadClaimPhotos = async (bookingId: string, files: File[]) => {
+  const paths: string[] = [];
+  for (const file of files) {
+    const blob = await compressImage(file);
+    const path = `${bookingId}/${crypto.randomUUID()}.jpg`;
+    const { error } = await supabase.storage
+      .from(DAMAGE_CLAIMS_BUCKET)
+      .upload(path, blob, { contentType: "image/jpeg" });
+    if (error) throw error;
+    paths.push(path);
+  }
+  return paths;
+};
+
+// The bucket is private, so photos are shown through short-lived signed URLs
+export const getClaimPhotoUrls = async (paths: string[]) => {
+  if (paths.length === 0) return [];
+
+  const { data, error } = await supabase.storage
+    .from(DAMAGE_CLAIMS_BUCKET)
+    .createSignedUrls(paths, 60 * 60);
+
+  if (error) throw error;
+  return (data || []).flatMap((item) => (item.signedUrl ? [item.signedUrl] : []));
+};
@@ -0,0 +1,78 @@
+import { addDays, differenceInCalendarDays, format, startOfDay } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+
+type Functions = Database["public"]["Functions"];
+
+export type ResourceStats = Functions["get_owner_resource_stats"]["Returns"][number];
+
+export type EarningsSummary = Functions["get_owner_earnings_summary"]["Returns"][number];
+
+export type RevenuePoint = Functions["get_owner_revenue_series"]["Returns"][number];
+
+export type EarningsInterval = "day" | "week" | "month";
+
+export interface EarningsRange {
+  from: string;
+  to: string;
+}
+
+export const EARNINGS_PRESETS = [
+  { label: "30 days", days: 30 },
+  { label: "90 days", days: 90 },
+  { label: "12 months", days: 365 },
+];
+
+// Date inputs work in yyyy-MM-dd; the range ends on the last day inclusive
+export const getPresetRange = (days: number): EarningsRange => {
+  const today = startOfDay(new Date());
+  return {
+    from: format(addDays(today, -(days - 1)), "yyyy-MM-dd"),
+    to: format(today, "yyyy-MM-dd"),
+  };
+};
+
+// Keep charts readable: daily up to two months, then weekly, then monthly
+export const getSeriesInterval = (range: EarningsRange): EarningsInterval => {
+  const days = differenceInCalendarDays(new Date(range.to), new Date(range.from)) + 1;
+  if (days <= 62) return "day";
+  if (days <= 190) return "week";
+  return "month";
+};
+
+const toRpcRange = (range: EarningsRange) => ({
+  _from: startOfDay(new Date(`${range.from}T00:00`)).toISOString(),
+  _to: addDays(startOfDay(new Date(`${range.to}T00:00`)), 1).toISOString(),
+});
+
+export const formatPercent = (rate: number | null) =>
+  rate === null ? "—" : `${Math.round(rate * 1000) / 10}%`;
+
+export const fetchEarnings = async (range: EarningsRange, resourceId: string | null) => {
+  const rpcRange = toRpcRange(range);
+  const interval = getSeriesInterval(range);
+
+  const [stats, summary, series] = await Promise.all([
+    supabase.rpc("get_owner_resource_stats", rpcRange),
+    supabase.rpc("get_owner_earnings_summary", {
+      ...rpcRange,
+      _resource_id: resourceId ?? undefined,
+    }),
+    supabase.rpc("get_owner_revenue_series", {
+      ...rpcRange,
+      _interval: interval,
+      _resource_id: resourceId ?? undefined,
+    }),
+  ]);
+
+  if (stats.error) throw stats.error;
+  if (summary.error) throw summary.error;
+  if (series.error) throw series.error;
+
+  return {
+    stats: stats.data || [],
+    summary: summary.data?.[0] ?? null,
+    series: series.data || [],
+    interval,
+  };
+};
@@ -0,0 +1,91 @@
+export interface Coordinates {
+  latitude: number;
+  longitude: number;
+}
+
+export interface GeocodeResult extends Coordinates {
+  label: string;
+}
+
+// Anything that can turn a free-text address into coordinates. The app only
+// talks to this interface so the provider can be replaced, e.g. by the stub
+// below when there is no network.
+export interface Geocoder {
+  geocode: (query: string) => Promise<GeocodeResult | null>;
+}
+
+const normalizeQuery = (query: string) => query.trim().toLowerCase().replace(/\s+/g, " ");
+
+// OpenStreetMap's public Nominatim service
+export const createNominatimGeocoder = (baseUrl = "https://nominatim.openstreetmap.org"): Geocoder => ({
+  geocode: async (query) => {
+    const params = new URLSearchParams({ q: query, format: "json", limit: "1" });
+    const response = await fetch(`${baseUrl}/search?${params}`, {
+      headers: { Accept: "application/json" },
+    });
+    if (!response.ok) throw new Error(`Geocoding failed with status ${response.status}`);
+
+    const [match] = (await response.json()) as { lat: string; lon: string; display_name: string }[];
+    if (!match) return null;
+    return { latitude: Number(match.lat), longitude: Number(match.lon), label: match.display_name };
+  },
+});
+
+// Resolves only the places it is given; for tests and offline development
+export const createStubGeocoder = (places: Record<string, GeocodeResult>): Geocoder => {
+  const entries = new Map(Object.entries(places).map(([query, result]) => [normalizeQuery(query), result]));
+  return {
+    geocode: async (query) => entries.get(normalizeQuery(query)) ?? null,
+  };
+};
+
+// Remembers earlier answers in localStorage so repeated lookups work offline
+export const withGeocodeCache = (geocoder: Geocoder, storageKey = "geocode-cache"): Geocoder => {
+  const readCache = (): Record<string, GeocodeResult> => {
+    try {
+      return JSON.parse(localStorage.getItem(storageKey) ?? "{}");
+    } catch {
+      return {};
+    }
+  };
+
+  return {
+    geocode: async (query) => {
+      const key = normalizeQuery(query);
+      const cache = readCache();
+      if (cache[key]) return cache[key];
+
+      const result = await geocoder.geocode(query);
+      if (result) localStorage.setItem(storageKey, JSON.stringify({ ...cache, [key]: result }));
+      return result;
+    },
+  };
+};
+
+let activeGeocoder: Geocoder = withGeocodeCache(createNominatimGeocoder());
+
+export const getGeocoder = () => activeGeocoder;
+
+export const setGeocoder = (geocoder: Geocoder) => {
+  activeGeocoder = geocoder;
+};
+
+export const geocodeAddress = (query: string) => activeGeocoder.geocode(query);
+
+// The browser's position, if the member allows it
+export const getCurrentPosition = () =>
+  new Promise<Coordinates>((resolve, reject) => {
+    if (!("geolocation" in navigator)) {
+      reject(new Error("Location is not supported by this browser"));
+      return;
+    }
+    navigator.geolocation.getCurrentPosition(
+      (position) => resolve({ latitude: position.coords.latitude, longitude: position.coords.longitude }),
+      (error) => reject(new Error(error.message)),
+      { timeout: 10000, maximumAge: 5 * 60 * 1000 }
+    );
+  });
+
+// Public coordinates are approximate, so distances are rounded generously
+export const formatDistance = (distanceKm: number) =>
+  distanceKm < 1 ? "Under 1 km away" : `About ${Math.round(distanceKm)} km away`;
@@ -0,0 +1,132 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+
+export const RESOURCE_IMAGES_BUCKET = "resource-images";
+
+export const MAX_RESOURCE_IMAGES = 8;
+
+export type ResourceImage = Pick<Tables<"resource_images">, "storage_path" | "position" | "is_cover">;
+
+// A photo in the listing form: either already stored or a newly picked file
+export interface ResourceImageDraft {
+  key: string;
+  previewUrl: string;
+  isCover: boolean;
+  storagePath?: string;
+  file?: File;
+}
+
+export const getResourceImageUrl = (storagePath: string) =>
+  supabase.storage.from(RESOURCE_IMAGES_BUCKET).getPublicUrl(storagePath).data.publicUrl;
+
+export const sortResourceImages = <T extends ResourceImage>(images: T[] | null | undefined) =>
+  [...(images ?? [])].sort((a, b) => a.position - b.position);
+
+// The cover photo, falling back to the first photo and then to the legacy image_url column
+export const getCoverImageUrl = (resource: {
+  image_url?: string | null;
+  resource_images?: ResourceImage[] | null;
+}) => {
+  const images = sortResourceImages(resource.resource_images);
+  const cover = images.find((image) => image.is_cover) ?? images[0];
+  if (cover) return getResourceImageUrl(cover.storage_path);
+  return resource.image_url || undefined;
+};
+
+export const toResourceImageDrafts = (images: ResourceImage[] | null | undefined): ResourceImageDraft[] =>
+  sortResourceImages(images).map((image) => ({
+    key: image.storage_path,
+    previewUrl: getResourceImageUrl(image.storage_path),
+    isCover: image.is_cover,
+    storagePath: image.storage_path,
+  }));
+
+// Scale a photo down to fit maxDimension and re-encode it as JPEG
+export const compressImage = async (file: File, maxDimension = 1600, quality = 0.82): Promise<Blob> => {
+  const bitmap = await createImageBitmap(file);
+  const scale = Math.min(1, maxDimension / Math.max(bitmap.width, bitmap.height));
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.round(bitmap.width * scale);
+  canvas.height = Math.round(bitmap.height * scale);
+
+  const context = canvas.getContext("2d");
+  if (!context) throw new Error("Canvas is not supported");
+  context.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  bitmap.close();
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(
+      (blob) => (blob ? resolve(blob) : reject(new Error("Failed to compress image"))),
+      "image/jpeg",
+      quality
+    );
+  });
+};
+
+// Upload new photos, drop removed ones and store the order and cover choice
+export const saveResourceImages = async (
+  resourceId: string,
+  ownerId: string,
+  drafts: ResourceImageDraft[]
+) => {
+  const { data: existing, error: existingError } = await supabase
+    .from("resource_images")
+    .select("storage_path")
+    .eq("resource_id", resourceId);
+
+  if (existingError) throw existingError;
+
+  const storagePaths: string[] = [];
+  for (const draft of drafts) {
+    if (draft.storagePath) {
+      storagePaths.push(draft.storagePath);
+      continue;
+    }
+    if (!draft.file) continue;
+
+    const path = `${ownerId}/${resourceId}/${crypto.randomUUID()}.jpg`;
+    const blob = await compressImage(draft.file);
+    const { error: uploadError } = await supabase.storage
+      .from(RESOURCE_IMAGES_BUCKET)
+      .upload(path, blob, { contentType: "image/jpeg" });
+
+    if (uploadError) throw uploadError;
+    storagePaths.push(path);
+  }
+
+  const { error: deleteError } = await supabase
+    .from("resource_images")
+    .delete()
+    .eq("resource_id", resourceId);
+
+  if (deleteError) throw deleteError;
+
+  if (storagePaths.length > 0) {
+    const coverIndex = Math.max(0, drafts.findIndex((draft) => draft.isCover));
+    const { error: insertError } = await supabase.from("resource_images").insert(
+      storagePaths.map((storagePath, position) => ({
+        resource_id: resourceId,
+        storage_path: storagePath,
+        position,
+        is_cover: position === coverIndex,
+      }))
+    );
+
+    if (insertError) throw insertError;
+  }
+
+  const removedPaths = (existing ?? [])
+    .map((image) => image.storage_path)
+    .filter((path) => !storagePaths.includes(path));
+
+  if (removedPaths.length > 0) {
+    await removeResourceImageFiles(removedPaths);
+  }
+};
+
+export const removeResourceImageFiles = async (storagePaths: string[]) => {
+  const { error } = await supabase.storage.from(RESOURCE_IMAGES_BUCKET).remove(storagePaths);
+  if (error) {
+    console.error("Error removing resource images:", error);
+  }
+};
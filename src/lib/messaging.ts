@@ -0,0 +1,21 @@
+import { supabase } from "@/integrations/supabase/client";
+
+// Find or start the thread for a booking, or a question thread about a resource
+export const openConversation = async (resourceId: string, bookingId?: string) => {
+  const { data, error } = await supabase.rpc("get_or_create_conversation", {
+    _resource_id: resourceId,
+    _booking_id: bookingId,
+  });
+
+  if (error) throw error;
+  return data;
+};
+
+export const markConversationRead = async (conversationId: string) => {
+  const { error } = await supabase.rpc("mark_conversation_read", {
+    _conversation_id: conversationId,
+  });
+  if (error) {
+    console.error("Error marking conversation read:", error);
+  }
+};
@@ -0,0 +1,86 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+
+export type Notification = Tables<"notifications">;
+
+export type NotificationPreference = Tables<"notification_preferences">;
+
+export type NotificationType =
+  | "booking_requested"
+  | "booking_accepted"
+  | "booking_rejected"
+  | "booking_expired"
+  | "waitlist_offer"
+  | "pickup_reminder"
+  | "return_overdue";
+
+export const notificationTypeLabels: Record<NotificationType, { title: string; description: string }> = {
+  booking_requested: {
+    title: "Booking requests",
+    description: "Someone requests one of your resources",
+  },
+  booking_accepted: {
+    title: "Accepted bookings",
+    description: "An owner accepts your request",
+  },
+  booking_rejected: {
+    title: "Declined bookings",
+    description: "An owner declines your request",
+  },
+  booking_expired: {
+    title: "Expired requests",
+    description: "An owner does not answer your request in time",
+  },
+  waitlist_offer: {
+    title: "Waitlist openings",
+    description: "Dates you are waiting for become free",
+  },
+  pickup_reminder: {
+    title: "Pickup reminders",
+    description: "A day before a booking starts",
+  },
+  return_overdue: {
+    title: "Overdue returns",
+    description: "Something you borrowed is past its return time",
+  },
+};
+
+export const NOTIFICATION_TYPES = Object.keys(notificationTypeLabels) as NotificationType[];
+
+export type NotificationChannels = Pick<NotificationPreference, "in_app" | "email">;
+
+// Preferences for every event; events without a saved row default to both
+// channels on, matching the database
+export const fetchNotificationPreferences = async (userId: string) => {
+  const { data, error } = await supabase
+    .from("notification_preferences")
+    .select("*")
+    .eq("user_id", userId);
+
+  if (error) throw error;
+
+  const saved = Object.fromEntries((data || []).map((p) => [p.type, p]));
+  return Object.fromEntries(
+    NOTIFICATION_TYPES.map((type) => [
+      type,
+      { in_app: saved[type]?.in_app ?? true, email: saved[type]?.email ?? true },
+    ])
+  ) as Record<NotificationType, NotificationChannels>;
+};
+
+export const saveNotificationPreference = async (
+  userId: string,
+  type: NotificationType,
+  channels: NotificationChannels
+) => {
+  const { error } = await supabase
+    .from("notification_preferences")
+    .upsert({ user_id: userId, type, ...channels });
+
+  if (error) throw error;
+};
+
+export const markNotificationsRead = async (ids?: string[]) => {
+  const { error } = await supabase.rpc("mark_notifications_read", { _ids: ids });
+  if (error) throw error;
+};
@@ -0,0 +1,60 @@
+import { FunctionsHttpError } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { BookingStatus } from "@/lib/bookings";
+import { PAYMENT_TRANSITIONS, PaymentRequest, PaymentTransition, paymentRequestSchema } from "@shared/schemas";
+
+export type BookingPayment = Tables<"booking_payments">;
+
+export type PaymentStatus = "authorized" | "captured" | "voided" | "refunded" | "failed" | "offline";
+
+export const paymentStatusLabels: Record<PaymentStatus, string> = {
+  authorized: "Authorized",
+  captured: "Paid",
+  voided: "Released",
+  refunded: "Refunded",
+  failed: "Failed",
+  offline: "Pay in cash",
+};
+
+export const isPaymentTransition = (status: BookingStatus) =>
+  (PAYMENT_TRANSITIONS as readonly BookingStatus[]).includes(status);
+
+// A failure reported by the payments function, with a message for the user
+export class PaymentError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PaymentError";
+  }
+}
+
+// The body is checked with the same schema the function uses. The function
+// answers errors with { error }; surface that message.
+const invokePayments = async <T>(request: PaymentRequest) => {
+  const body = paymentRequestSchema.parse(request);
+  const { data, error } = await supabase.functions.invoke<T>("payments", { body });
+  if (error instanceof FunctionsHttpError) {
+    const { error: message } = await error.context.json().catch(() => ({ error: undefined }));
+    throw new PaymentError(message ?? "Payment request failed");
+  }
+  if (error) throw error;
+  return data as T;
+};
+
+// Place the hold for a new booking request; throws if the payment is declined
+// Instant bookings are confirmed once the hold is placed and come back with
+// their new status
+export const authorizeBookingPayment = (bookingId: string, paymentMethodToken?: string) =>
+  invokePayments<{ payment: BookingPayment; booking?: { status: BookingStatus } }>({
+    action: "authorize",
+    booking_id: bookingId,
+    payment_method_token: paymentMethodToken,
+  });
+
+// Only for statuses where isPaymentTransition holds; the schema rejects others
+export const transitionBookingWithPayment = (bookingId: string, status: BookingStatus) =>
+  invokePayments<{ payment: BookingPayment | null }>({
+    action: "transition",
+    booking_id: bookingId,
+    status: status as PaymentTransition,
+  });
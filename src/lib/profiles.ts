@@ -0,0 +1,37 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { compressImage } from "@/lib/images";
+
+export const AVATARS_BUCKET = "avatars";
+
+export type PublicProfile = Tables<"public_profiles">;
+
+export type PhoneVisibility = "private" | "counterparties" | "public";
+
+export const phoneVisibilityLabels: Record<PhoneVisibility, string> = {
+  private: "Only me",
+  counterparties: "People I have bookings with",
+  public: "Everyone",
+};
+
+export const getInitials = (name: string | null | undefined) =>
+  (name ?? "")
+    .split(" ")
+    .filter(Boolean)
+    .slice(0, 2)
+    .map((part) => part[0].toUpperCase())
+    .join("") || "?";
+
+// Upload a resized avatar and return its public URL
+export const uploadAvatar = async (userId: string, file: File) => {
+  const blob = await compressImage(file, 512);
+  const path = `${userId}/avatar-${crypto.randomUUID()}.jpg`;
+
+  const { error } = await supabase.storage
+    .from(AVATARS_BUCKET)
+    .upload(path, blob, { contentType: "image/jpeg" });
+
+  if (error) throw error;
+
+  return supabase.storage.from(AVATARS_BUCKET).getPublicUrl(path).data.publicUrl;
+};
@@ -0,0 +1,32 @@
+import { QueryCache, QueryClient } from "@tanstack/react-query";
+import { toast } from "@/hooks/use-toast";
+
+declare module "@tanstack/react-query" {
+  interface Register {
+    // Queries name the toast shown when they fail; those without one fail quietly
+    queryMeta: { errorMessage?: string };
+  }
+}
+
+export const queryClient = new QueryClient({
+  queryCache: new QueryCache({
+    onError: (error, query) => {
+      console.error(`Error fetching ${JSON.stringify(query.queryKey)}:`, error);
+      if (query.meta?.errorMessage) {
+        toast({
+          title: "Error",
+          description: query.meta.errorMessage,
+          variant: "destructive",
+        });
+      }
+    },
+  }),
+  defaultOptions: {
+    queries: {
+      // Serve cached data straight away and refresh it in the background
+      staleTime: 30 * 1000,
+      refetchOnWindowFocus: true,
+      retry: 1,
+    },
+  },
+});
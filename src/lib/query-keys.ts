@@ -0,0 +1,83 @@
+import type { EarningsRange } from "@/lib/earnings";
+import type { ResourceSearchFilters } from "@/lib/search";
+
+// Cache keys for every query. Keys nest so a prefix (e.g. queryKeys.bookings.all)
+// invalidates everything below it.
+export const queryKeys = {
+  resources: {
+    all: ["resources"] as const,
+    featured: () => [...queryKeys.resources.all, "featured"] as const,
+    search: (filters: ResourceSearchFilters) => [...queryKeys.resources.all, "search", filters] as const,
+    detail: (id: string) => [...queryKeys.resources.all, "detail", id] as const,
+    editable: (id: string) => [...queryKeys.resources.all, "editable", id] as const,
+    owned: (userId: string) => [...queryKeys.resources.all, "owned", userId] as const,
+    listedBy: (userId: string) => [...queryKeys.resources.all, "listed-by", userId] as const,
+    availability: (id: string) => [...queryKeys.resources.all, "availability", id] as const,
+  },
+  categories: {
+    all: ["categories"] as const,
+  },
+  bookings: {
+    all: ["bookings"] as const,
+    renter: (userId: string) => [...queryKeys.bookings.all, "renter", userId] as const,
+    owner: (userId: string) => [...queryKeys.bookings.all, "owner", userId] as const,
+    quote: (resourceId: string, start: string, end: string) =>
+      [...queryKeys.bookings.all, "quote", resourceId, start, end] as const,
+    instantBook: (resourceId: string, userId: string) =>
+      [...queryKeys.bookings.all, "instant-book", resourceId, userId] as const,
+  },
+  waitlist: {
+    all: ["waitlist"] as const,
+    renter: (userId: string) => [...queryKeys.waitlist.all, "renter", userId] as const,
+    owner: (userId: string) => [...queryKeys.waitlist.all, "owner", userId] as const,
+  },
+  damageClaims: {
+    all: ["damage-claims"] as const,
+    photos: (claimId: string, updatedAt: string) =>
+      [...queryKeys.damageClaims.all, "photos", claimId, updatedAt] as const,
+  },
+  reviews: {
+    all: ["reviews"] as const,
+    resource: (resourceId: string) => [...queryKeys.reviews.all, "resource", resourceId] as const,
+    user: (userId: string) => [...queryKeys.reviews.all, "user", userId] as const,
+    authored: (userId: string) => [...queryKeys.reviews.all, "authored", userId] as const,
+    ratingSummary: (userId: string) => [...queryKeys.reviews.all, "rating-summary", userId] as const,
+  },
+  profiles: {
+    all: ["profiles"] as const,
+    own: (userId: string) => [...queryKeys.profiles.all, "own", userId] as const,
+    public: (userId: string) => [...queryKeys.profiles.all, "public", userId] as const,
+    publicMany: (userIds: string[]) => [...queryKeys.profiles.all, "public-many", userIds] as const,
+  },
+  conversations: {
+    all: ["conversations"] as const,
+    list: (userId: string) => [...queryKeys.conversations.all, "list", userId] as const,
+    messages: (conversationId: string) => [...queryKeys.conversations.all, "messages", conversationId] as const,
+    unreadCount: (userId: string) => [...queryKeys.conversations.all, "unread-count", userId] as const,
+  },
+  notifications: {
+    all: ["notifications"] as const,
+    list: (userId: string) => [...queryKeys.notifications.all, "list", userId] as const,
+    unreadCount: (userId: string) => [...queryKeys.notifications.all, "unread-count", userId] as const,
+    preferences: (userId: string) => [...queryKeys.notifications.all, "preferences", userId] as const,
+  },
+  admin: {
+    all: ["admin"] as const,
+    role: (userId: string) => [...queryKeys.admin.all, "role", userId] as const,
+    users: (search: string) => [...queryKeys.admin.all, "users", search] as const,
+    resources: (search: string) => [...queryKeys.admin.all, "resources", search] as const,
+    bookings: (search: string, status: string) => [...queryKeys.admin.all, "bookings", search, status] as const,
+    disputes: () => [...queryKeys.admin.all, "disputes"] as const,
+    reports: () => [...queryKeys.admin.all, "reports"] as const,
+    auditLog: () => [...queryKeys.admin.all, "audit-log"] as const,
+  },
+  calendarFeeds: {
+    all: ["calendar-feeds"] as const,
+    list: (userId: string) => [...queryKeys.calendarFeeds.all, "list", userId] as const,
+  },
+  earnings: {
+    all: ["earnings"] as const,
+    detail: (range: EarningsRange, resourceId: string | null) =>
+      [...queryKeys.earnings.all, range, resourceId] as const,
+  },
+};
@@ -0,0 +1,43 @@
+import type { Tables } from "@/integrations/supabase/types";
+
+export type Report = Tables<"reports">;
+
+export type ReportTargetType = "resource" | "user";
+
+export type ReportReason = "prohibited" | "fraud" | "misleading" | "offensive" | "harassment" | "spam" | "other";
+
+export const reportReasonLabels: Record<ReportReason, string> = {
+  prohibited: "Prohibited or dangerous item",
+  fraud: "Scam or fraud",
+  misleading: "Misleading description or photos",
+  offensive: "Offensive content",
+  harassment: "Harassment or abuse",
+  spam: "Spam",
+  other: "Something else",
+};
+
+// Reasons that make sense for each kind of report
+export const REPORT_REASONS: Record<ReportTargetType, ReportReason[]> = {
+  resource: ["prohibited", "fraud", "misleading", "offensive", "spam", "other"],
+  user: ["fraud", "harassment", "offensive", "spam", "other"],
+};
+
+// Open reports about one listing or member, as shown in the moderation queue
+export interface ReportGroup {
+  targetType: ReportTargetType;
+  targetId: string;
+  reports: Report[];
+}
+
+// Oldest first, so the queue is worked through in the order reports came in
+export const groupReports = (reports: Report[]) => {
+  const groups = new Map<string, ReportGroup>();
+  for (const report of reports) {
+    const targetType: ReportTargetType = report.resource_id ? "resource" : "user";
+    const targetId = (report.resource_id ?? report.reported_user_id)!;
+    const key = `${targetType}:${targetId}`;
+    if (!groups.has(key)) groups.set(key, { targetType, targetId, reports: [] });
+    groups.get(key)!.reports.push(report);
+  }
+  return [...groups.values()];
+};
@@ -0,0 +1,192 @@
+import { format } from "date-fns";
+import { z } from "zod";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables, TablesInsert } from "@/integrations/supabase/types";
+import {
+  BlackoutDraft,
+  isWeeklyHoursDraftValid,
+  ResourceBlackout,
+  toBlackoutDrafts,
+  toWeeklyHoursDrafts,
+  WeeklyHours,
+  WeeklyHoursDraft,
+} from "@/lib/availability";
+import { AttributeValues, toAttributePayload } from "@/lib/categories";
+import { Coordinates } from "@/lib/geocoding";
+import { ResourceImage, ResourceImageDraft, toResourceImageDrafts } from "@/lib/images";
+import { attributeValuesSchema, BookingMode, CategoryAttribute, resourceSchema } from "@shared/schemas";
+
+export type Resource = Tables<"resources">;
+
+export type ResourceLocation = Pick<Tables<"resource_locations">, "address" | "latitude" | "longitude">;
+
+// Values held by the resource form; dates use the datetime-local input format
+export interface ResourceFormData {
+  title: string;
+  description: string;
+  category_id: string;
+  attributes: AttributeValues;
+  price: string;
+  hourly_price: string;
+  weekly_price: string;
+  weekend_price: string;
+  min_rental_hours: string;
+  deposit_amount: string;
+  location: string;
+  address: string;
+  coordinates: Coordinates | null;
+  images: ResourceImageDraft[];
+  availability_start: string;
+  availability_end: string;
+  buffer_minutes: string;
+  // IANA zone the weekly hours are entered in
+  timezone: string;
+  weekly_hours_enabled: boolean;
+  weekly_hours: WeeklyHoursDraft[];
+  blackouts: BlackoutDraft[];
+  is_available: boolean;
+  booking_mode: BookingMode;
+  instant_book_verified_email: boolean;
+  // "" when any rating is accepted
+  instant_book_min_rating: string;
+  request_expiry_hours: string;
+  ical_import_url: string;
+}
+
+const toOptionalPrice = (value: string) => (value.trim() === "" ? null : parseFloat(value));
+
+const toOptionalString = (value: number | null) => (value === null ? "" : String(value));
+
+// Blank or unparseable dates become "" so the schema reports them instead of throwing
+const toIsoString = (value: string) => {
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? "" : date.toISOString();
+};
+
+export const toDateTimeLocal = (value: string) => format(new Date(value), "yyyy-MM-dd'T'HH:mm");
+
+export const toResourceFormData = (
+  resource: Resource,
+  images: ResourceImage[] = [],
+  exactLocation: ResourceLocation | null = null,
+  weeklyHours: WeeklyHours[] = [],
+  blackouts: ResourceBlackout[] = []
+): ResourceFormData => ({
+  title: resource.title,
+  description: resource.description ?? "",
+  category_id: resource.category_id,
+  attributes: resource.attributes as AttributeValues,
+  price: String(resource.price),
+  hourly_price: toOptionalString(resource.hourly_price),
+  weekly_price: toOptionalString(resource.weekly_price),
+  weekend_price: toOptionalString(resource.weekend_price),
+  min_rental_hours: String(resource.min_rental_hours),
+  deposit_amount: resource.deposit_amount > 0 ? String(resource.deposit_amount) : "",
+  location: resource.location,
+  address: exactLocation?.address ?? "",
+  coordinates: exactLocation && { latitude: exactLocation.latitude, longitude: exactLocation.longitude },
+  images: toResourceImageDrafts(images),
+  availability_start: toDateTimeLocal(resource.availability_start),
+  availability_end: toDateTimeLocal(resource.availability_end),
+  buffer_minutes: String(resource.buffer_minutes),
+  timezone: resource.timezone,
+  weekly_hours_enabled: weeklyHours.length > 0,
+  weekly_hours: toWeeklyHoursDrafts(weeklyHours),
+  blackouts: toBlackoutDrafts(blackouts),
+  // While reports keep a listing hidden, this is whether it comes back after review
+  is_available: resource.unpublished_at ? resource.listed_before_reports : resource.is_available ?? true,
+  booking_mode: resource.booking_mode as BookingMode,
+  instant_book_verified_email: resource.instant_book_verified_email,
+  instant_book_min_rating: toOptionalString(resource.instant_book_min_rating),
+  request_expiry_hours: String(resource.request_expiry_hours),
+  ical_import_url: resource.ical_import_url ?? "",
+});
+
+export const toResourcePayload = (
+  data: ResourceFormData
+): Omit<TablesInsert<"resources">, "owner_id"> => ({
+  title: data.title.trim(),
+  description: data.description.trim() || null,
+  category_id: data.category_id,
+  attributes: data.attributes,
+  price: parseFloat(data.price),
+  hourly_price: toOptionalPrice(data.hourly_price),
+  weekly_price: toOptionalPrice(data.weekly_price),
+  weekend_price: toOptionalPrice(data.weekend_price),
+  min_rental_hours: parseInt(data.min_rental_hours, 10),
+  deposit_amount: toOptionalPrice(data.deposit_amount) ?? 0,
+  location: data.location.trim(),
+  availability_start: toIsoString(data.availability_start),
+  availability_end: toIsoString(data.availability_end),
+  buffer_minutes: parseInt(data.buffer_minutes, 10),
+  timezone: data.timezone,
+  is_available: data.is_available,
+  booking_mode: data.booking_mode,
+  instant_book_verified_email: data.instant_book_verified_email,
+  instant_book_min_rating: data.instant_book_min_rating === "" ? null : parseFloat(data.instant_book_min_rating),
+  request_expiry_hours: parseInt(data.request_expiry_hours, 10),
+  ical_import_url: data.ical_import_url.trim() || null,
+});
+
+// The form is valid when what it saves passes the shared resource schema;
+// weekly hours and blackouts are saved to their own tables and checked here
+export const resourceFormSchema: z.ZodType<ResourceFormData> = z
+  .custom<ResourceFormData>()
+  .superRefine((data, ctx) => {
+    const payload = resourceSchema.safeParse(toResourcePayload(data));
+    if (!payload.success) {
+      payload.error.issues.forEach((issue) =>
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: issue.path, message: issue.message })
+      );
+    }
+
+    if (data.weekly_hours_enabled) {
+      if (!data.weekly_hours.some((day) => day.enabled)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["weekly_hours"], message: "Choose at least one day" });
+      } else if (!data.weekly_hours.every(isWeeklyHoursDraftValid)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["weekly_hours"], message: "Each day must end after it starts" });
+      }
+    }
+
+    if (data.blackouts.some((blackout) => !blackout.start_date || !blackout.end_date)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["blackouts"], message: "Blackouts need a start and end date" });
+    } else if (data.blackouts.some((blackout) => blackout.end_date < blackout.start_date)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["blackouts"],
+        message: "Blackouts must end on or after their start date",
+      });
+    }
+  });
+
+// Adds the rules of the chosen category's attributes, and drops values left
+// over from a category the owner switched away from
+export const getResourceFormSchema = (attributes: CategoryAttribute[]): z.ZodType<ResourceFormData> =>
+  resourceFormSchema
+    .superRefine((data, ctx) => {
+      const values = attributeValuesSchema(attributes).safeParse(toAttributePayload(data.attributes, attributes));
+      if (!values.success) {
+        values.error.issues.forEach((issue) =>
+          ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["attributes", ...issue.path], message: issue.message })
+        );
+      }
+    })
+    .transform((data) => ({ ...data, attributes: toAttributePayload(data.attributes, attributes) }));
+
+// Store the private exact address; the trigger on resource_locations publishes
+// a rounded copy of the coordinates on the listing
+export const saveResourceLocation = async (resourceId: string, data: ResourceFormData) => {
+  if (!data.address.trim() || !data.coordinates) {
+    const { error } = await supabase.from("resource_locations").delete().eq("resource_id", resourceId);
+    if (error) throw error;
+    return;
+  }
+
+  const { error } = await supabase.from("resource_locations").upsert({
+    resource_id: resourceId,
+    address: data.address.trim(),
+    latitude: data.coordinates.latitude,
+    longitude: data.coordinates.longitude,
+  });
+  if (error) throw error;
+};
@@ -0,0 +1,30 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+
+export type Review = Tables<"reviews">;
+
+export interface RatingSummary {
+  average_rating: number;
+  review_count: number;
+}
+
+export type UserRatingSummary = Tables<"user_rating_summary">;
+
+// Rating summaries for a set of resources, keyed by resource id
+export const fetchResourceRatings = async (resourceIds: string[]) => {
+  if (resourceIds.length === 0) return {};
+
+  const { data, error } = await supabase
+    .from("resource_rating_summary")
+    .select("*")
+    .in("resource_id", resourceIds);
+
+  if (error) throw error;
+
+  return Object.fromEntries(
+    (data || []).map((summary) => [
+      summary.resource_id,
+      { average_rating: summary.average_rating ?? 0, review_count: summary.review_count ?? 0 },
+    ])
+  ) as Record<string, RatingSummary>;
+};
@@ -0,0 +1,139 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { supabase } from "@/integrations/supabase/client";
+import {
+  isResourceSort,
+  parseResourceSearchParams,
+  RESOURCE_PAGE_SIZE,
+  ResourceSearchFilters,
+  searchResources,
+  toResourceSearchParams,
+} from "./search";
+
+vi.mock("@/integrations/supabase/client", () => ({ supabase: { rpc: vi.fn() } }));
+
+const rpc = vi.mocked(supabase.rpc);
+
+const parse = (query: string) => parseResourceSearchParams(new URLSearchParams(query));
+
+describe("isResourceSort", () => {
+  it("accepts only the listed sorts", () => {
+    expect(isResourceSort("price_asc")).toBe(true);
+    expect(isResourceSort("distance")).toBe(true);
+    expect(isResourceSort("toString")).toBe(false);
+    expect(isResourceSort("__proto__")).toBe(false);
+    expect(isResourceSort("")).toBe(false);
+    expect(isResourceSort(null)).toBe(false);
+  });
+});
+
+describe("parseResourceSearchParams", () => {
+  it("defaults every filter when the query string is empty", () => {
+    expect(parse("")).toEqual({
+      query: "",
+      category: "",
+      attributes: {},
+      minPrice: "",
+      maxPrice: "",
+      from: "",
+      to: "",
+      near: "",
+      latitude: "",
+      longitude: "",
+      radius: "",
+      sort: "newest",
+    });
+  });
+
+  it("falls back to the newest first for unknown sorts", () => {
+    expect(parse("sort=cheapest").sort).toBe("newest");
+    expect(parse("sort=constructor").sort).toBe("newest");
+  });
+
+  it("sorts by distance only from an origin", () => {
+    expect(parse("sort=distance").sort).toBe("newest");
+    expect(parse("sort=distance&lat=51.5&lng=-0.12").sort).toBe("distance");
+  });
+
+  it("reads attribute facets only within a category", () => {
+    expect(parse("attr.size=large").attributes).toEqual({});
+    expect(parse("category=bikes&attr.size=large&attr.type=&other=x").attributes).toEqual({ size: "large" });
+  });
+});
+
+describe("toResourceSearchParams", () => {
+  const filters = parse("");
+
+  it("writes nothing for the default search", () => {
+    expect(toResourceSearchParams(filters).toString()).toBe("");
+  });
+
+  it("leaves out the origin's details unless both coordinates are set", () => {
+    const params = toResourceSearchParams({ ...filters, near: "Leeds", latitude: "53.8", radius: "10", sort: "distance" });
+    expect(params.toString()).toBe("");
+  });
+
+  it("survives a round trip through the URL", () => {
+    const search: ResourceSearchFilters = {
+      query: "drill",
+      category: "tools",
+      attributes: { power: "cordless", brand: "Bosch" },
+      minPrice: "5",
+      maxPrice: "40",
+      from: "2025-11-01",
+      to: "2025-11-03",
+      near: "Leeds",
+      latitude: "53.8",
+      longitude: "-1.55",
+      radius: "25",
+      sort: "distance",
+    };
+    const params = toResourceSearchParams({ ...search, query: "  drill " });
+    expect(params.toString()).toBe(
+      "q=drill&category=tools&attr.brand=Bosch&attr.power=cordless&min_price=5&max_price=40&from=2025-11-01&to=2025-11-03" +
+        "&near=Leeds&lat=53.8&lng=-1.55&radius=25&sort=distance"
+    );
+    expect(parseResourceSearchParams(params)).toEqual(search);
+  });
+});
+
+describe("searchResources", () => {
+  const filters = parse("q=tent&min_price=10");
+  const row = (id: string, sortKey: number) => ({ id, sort_key: sortKey });
+
+  beforeEach(() => rpc.mockReset());
+
+  it("passes the filters and cursor to search_resources", async () => {
+    rpc.mockResolvedValue({ data: [], error: null } as never);
+    await searchResources(filters, { sortKey: 42, id: "r-9" });
+    expect(rpc).toHaveBeenCalledWith(
+      "search_resources",
+      expect.objectContaining({
+        _query: "tent",
+        _min_price: 10,
+        _max_price: undefined,
+        _radius_km: undefined,
+        _sort: "newest",
+        _cursor_key: 42,
+        _cursor_id: "r-9",
+        _limit: RESOURCE_PAGE_SIZE,
+      })
+    );
+  });
+
+  it("continues from the last row of a full page", async () => {
+    const page = Array.from({ length: RESOURCE_PAGE_SIZE }, (_, i) => row(`r-${i}`, 100 - i));
+    rpc.mockResolvedValue({ data: page, error: null } as never);
+    const { results, nextCursor } = await searchResources(filters, null);
+    expect(results).toHaveLength(RESOURCE_PAGE_SIZE);
+    expect(nextCursor).toEqual({ sortKey: 100 - RESOURCE_PAGE_SIZE + 1, id: `r-${RESOURCE_PAGE_SIZE - 1}` });
+  });
+
+  it("stops after a short page and reports errors", async () => {
+    rpc.mockResolvedValue({ data: [row("r-1", 1)], error: null } as never);
+    expect((await searchResources(filters, null)).nextCursor).toBeNull();
+
+    const error = { message: "boom" };
+    rpc.mockResolvedValue({ data: null, error } as never);
+    await expect(searchResources(filters, null)).rejects.toBe(error);
+  });
+});
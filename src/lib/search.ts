@@ -0,0 +1,135 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+
+export const RESOURCE_PAGE_SIZE = 12;
+
+export type ResourceSort = "newest" | "price_asc" | "price_desc" | "rating" | "distance";
+
+export const resourceSortLabels: Record<ResourceSort, string> = {
+  newest: "Newest",
+  price_asc: "Price: low to high",
+  price_desc: "Price: high to low",
+  rating: "Top rated",
+  distance: "Nearest",
+};
+
+export const SEARCH_RADIUS_OPTIONS_KM = [5, 10, 25, 50, 100];
+
+export type ResourceSearchResult = Database["public"]["Functions"]["search_resources"]["Returns"][number];
+
+export interface ResourceSearchFilters {
+  query: string;
+  // A category slug; its subcategories match too
+  category: string;
+  // Facet values by attribute key, only applied within a category
+  attributes: Record<string, string>;
+  minPrice: string;
+  maxPrice: string;
+  from: string;
+  to: string;
+  near: string;
+  latitude: string;
+  longitude: string;
+  radius: string;
+  sort: ResourceSort;
+}
+
+export interface ResourceSearchCursor {
+  sortKey: number;
+  id: string;
+}
+
+// Own keys only, so "toString" and the like from the URL are not sorts.
+// (Object.hasOwn is ES2022, beyond the app's lib setting.)
+export const isResourceSort = (value: string | null): value is ResourceSort =>
+  value !== null && Object.prototype.hasOwnProperty.call(resourceSortLabels, value);
+
+const ATTRIBUTE_PARAM_PREFIX = "attr.";
+
+export const hasSearchOrigin = (filters: ResourceSearchFilters) =>
+  filters.latitude !== "" && filters.longitude !== "";
+
+// Filters are kept in the query string so a search can be shared as a link
+export const parseResourceSearchParams = (params: URLSearchParams): ResourceSearchFilters => {
+  const sort = params.get("sort");
+  const category = params.get("category") ?? "";
+  const attributes: Record<string, string> = {};
+  if (category) {
+    params.forEach((value, key) => {
+      if (key.startsWith(ATTRIBUTE_PARAM_PREFIX) && value) attributes[key.slice(ATTRIBUTE_PARAM_PREFIX.length)] = value;
+    });
+  }
+  const filters: ResourceSearchFilters = {
+    query: params.get("q") ?? "",
+    category,
+    attributes,
+    minPrice: params.get("min_price") ?? "",
+    maxPrice: params.get("max_price") ?? "",
+    from: params.get("from") ?? "",
+    to: params.get("to") ?? "",
+    near: params.get("near") ?? "",
+    latitude: params.get("lat") ?? "",
+    longitude: params.get("lng") ?? "",
+    radius: params.get("radius") ?? "",
+    sort: isResourceSort(sort) ? sort : "newest",
+  };
+  // Sorting by distance needs an origin
+  if (filters.sort === "distance" && !hasSearchOrigin(filters)) filters.sort = "newest";
+  return filters;
+};
+
+export const toResourceSearchParams = (filters: ResourceSearchFilters) => {
+  const params = new URLSearchParams();
+  if (filters.query.trim()) params.set("q", filters.query.trim());
+  if (filters.category) {
+    params.set("category", filters.category);
+    Object.entries(filters.attributes)
+      .sort(([a], [b]) => a.localeCompare(b))
+      .forEach(([key, value]) => value && params.set(`${ATTRIBUTE_PARAM_PREFIX}${key}`, value));
+  }
+  if (filters.minPrice) params.set("min_price", filters.minPrice);
+  if (filters.maxPrice) params.set("max_price", filters.maxPrice);
+  if (filters.from) params.set("from", filters.from);
+  if (filters.to) params.set("to", filters.to);
+  if (filters.latitude && filters.longitude) {
+    if (filters.near) params.set("near", filters.near);
+    params.set("lat", filters.latitude);
+    params.set("lng", filters.longitude);
+    if (filters.radius) params.set("radius", filters.radius);
+  }
+  if (filters.sort !== "newest" && (filters.sort !== "distance" || hasSearchOrigin(filters))) {
+    params.set("sort", filters.sort);
+  }
+  return params;
+};
+
+const toNumber = (value: string) => (value === "" ? undefined : Number(value));
+
+// Fetch one page of results; nextCursor is null once the last page is reached
+export const searchResources = async (filters: ResourceSearchFilters, cursor: ResourceSearchCursor | null) => {
+  const { data, error } = await supabase.rpc("search_resources", {
+    _query: filters.query.trim() || undefined,
+    _category: filters.category || undefined,
+    _attributes: Object.keys(filters.attributes).length > 0 ? filters.attributes : undefined,
+    _min_price: toNumber(filters.minPrice),
+    _max_price: toNumber(filters.maxPrice),
+    _available_from: filters.from ? new Date(`${filters.from}T00:00`).toISOString() : undefined,
+    _available_to: filters.to ? new Date(`${filters.to}T23:59`).toISOString() : undefined,
+    _latitude: toNumber(filters.latitude),
+    _longitude: toNumber(filters.longitude),
+    _radius_km: hasSearchOrigin(filters) ? toNumber(filters.radius) : undefined,
+    _sort: filters.sort,
+    _cursor_key: cursor?.sortKey,
+    _cursor_id: cursor?.id,
+    _limit: RESOURCE_PAGE_SIZE,
+  });
+
+  if (error) throw error;
+
+  const results = data || [];
+  const last = results[results.length - 1];
+  const nextCursor: ResourceSearchCursor | null =
+    results.length === RESOURCE_PAGE_SIZE && last ? { sortKey: last.sort_key, id: last.id } : null;
+
+  return { results, nextCursor };
+};
@@ -0,0 +1,36 @@
+import type { Tables } from "@/integrations/supabase/types";
+
+export type WaitlistEntry = Tables<"waitlist_entries">;
+
+// An entry is offered when the dates free up; the renter then has until
+// offer_expires_at to book them before they pass to the next in line
+export type WaitlistStatus = "waiting" | "offered" | "booked" | "expired" | "cancelled";
+
+export interface WaitlistEntryWithResource extends WaitlistEntry {
+  resources: { title: string } | null;
+}
+
+export const waitlistStatusLabels: Record<WaitlistStatus, string> = {
+  waiting: "Waiting",
+  offered: "Offered",
+  booked: "Booked",
+  expired: "Expired",
+  cancelled: "Left waitlist",
+};
+
+export const isOfferLive = (entry: WaitlistEntry) =>
+  entry.status === "offered" && !!entry.offer_expires_at && new Date(entry.offer_expires_at) > new Date();
+
+export const formatWaitlistDates = (entry: Pick<WaitlistEntry, "start_time" | "end_time">) =>
+  `${new Date(entry.start_time).toLocaleDateString()} - ${new Date(entry.end_time).toLocaleDateString()}`;
+
+// Open entries grouped by resource, in the order they will be offered
+export const groupWaitlistByResource = (entries: WaitlistEntryWithResource[]) => {
+  const groups = new Map<string, { title: string; entries: WaitlistEntryWithResource[] }>();
+  entries.forEach((entry) => {
+    const group = groups.get(entry.resource_id) ?? { title: entry.resources?.title ?? "Resource", entries: [] };
+    group.entries.push(entry);
+    groups.set(entry.resource_id, group);
+  });
+  return [...groups.entries()].map(([resourceId, group]) => ({ resourceId, ...group }));
+};
@@ -1,72 +1,43 @@
-import { useState } from "react";
 import { useNavigate } from "react-router-dom";
-import { supabase } from "@/integrations/supabase/client";
-import { Button } from "@/components/ui/button";
-import { Input } from "@/components/ui/input";
-import { Label } from "@/components/ui/label";
-import { Textarea } from "@/components/ui/textarea";
 import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card";
+import ResourceForm from "@/components/ResourceForm";
 import { useAuth } from "@/contexts/AuthContext";
+import { useSaveResource } from "@/hooks/use-resources";
 import { useToast } from "@/hooks/use-toast";
+import { ResourceFormData } from "@/lib/resources";
 
 const AddResource = () => {
   const { user } = useAuth();
   const navigate = useNavigate();
   const { toast } = useToast();
-  const [loading, setLoading] = useState(false);
-  const [formData, setFormData] = useState({
-    title: "",
-    description: "",
-    category: "",
-    price: "",
-    location: "",
-    image_url: "",
-    availability_start: "",
-    availability_end: "",
-  });
+  const saveResource = useSaveResource();
 
-  const categories = ["Electronics", "Tools", "Vehicles", "Equipment", "Books", "Sports", "Other"];
-
-  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>) => {
-    const { name, value } = e.target;
-    setFormData(prev => ({ ...prev, [name]: value }));
-  };
-
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
+  const handleSubmit = (formData: ResourceFormData) => {
     if (!user) {
       navigate("/auth");
       return;
     }
 
-    setLoading(true);
-    try {
-      const { error } = await supabase
-        .from("resources")
-        .insert({
-          ...formData,
-          price: parseFloat(formData.price),
-          owner_id: user.id,
-          is_available: true,
-        });
-
-      if (error) throw error;
-
-      toast({
-        title: "Success!",
-        description: "Resource added successfully",
-      });
-      navigate("/dashboard");
-    } catch (error) {
-      console.error("Error adding resource:", error);
-      toast({
-        title: "Error",
-        description: "Failed to add resource",
-        variant: "destructive",
-      });
-    } finally {
-      setLoading(false);
-    }
+    saveResource.mutate(
+      { ownerId: user.id, formData },
+      {
+        onSuccess: () => {
+          toast({
+            title: "Success!",
+            description: "Resource added successfully",
+          });
+          navigate("/dashboard");
+        },
+        onError: (error) => {
+          console.error("Error adding resource:", error);
+          toast({
+            title: "Error",
+            description: "Failed to add resource",
+            variant: "destructive",
+          });
+        },
+      }
+    );
   };
 
   if (!user) {
@@ -81,126 +52,17 @@ const AddResource = () => {
           <CardTitle>Add New Resource</CardTitle>
         </CardHeader>
         <CardContent>
-          <form onSubmit={handleSubmit} className="space-y-6">
-            <div className="space-y-2">
-              <Label htmlFor="title">Title</Label>
-              <Input
-                id="title"
-                name="title"
-                value={formData.title}
-                onChange={handleInputChange}
-                required
-              />
-            </div>
-
-            <div className="space-y-2">
-              <Label htmlFor="description">Description</Label>
-              <Textarea
-                id="description"
-                name="description"
-                value={formData.description}
-                onChange={handleInputChange}
-                rows={4}
-              />
-            </div>
-
-            <div className="space-y-2">
-              <Label htmlFor="category">Category</Label>
-              <select
-                id="category"
-                name="category"
-                value={formData.category}
-                onChange={handleInputChange}
-                required
-                className="w-full px-3 py-2 border border-input rounded-md bg-background"
-              >
-                <option value="">Select a category</option>
-                {categories.map((category) => (
-                  <option key={category} value={category}>
-                    {category}
-                  </option>
-                ))}
-              </select>
-            </div>
-
-            <div className="space-y-2">
-              <Label htmlFor="price">Price per day ($)</Label>
-              <Input
-                id="price"
-                name="price"
-                type="number"
-                step="0.01"
-                min="0"
-                value={formData.price}
-                onChange={handleInputChange}
-                required
-              />
-            </div>
-
-            <div className="space-y-2">
-              <Label htmlFor="location">Location</Label>
-              <Input
-                id="location"
-                name="location"
-                value={formData.location}
-                onChange={handleInputChange}
-                required
-              />
-            </div>
-
-            <div className="space-y-2">
-              <Label htmlFor="image_url">Image URL (optional)</Label>
-              <Input
-                id="image_url"
-                name="image_url"
-                type="url"
-                value={formData.image_url}
-                onChange={handleInputChange}
-              />
-            </div>
-
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-              <div className="space-y-2">
-                <Label htmlFor="availability_start">Available From</Label>
-                <Input
-                  id="availability_start"
-                  name="availability_start"
-                  type="datetime-local"
-                  value={formData.availability_start}
-                  onChange={handleInputChange}
-                  required
-                />
-              </div>
-              <div className="space-y-2">
-                <Label htmlFor="availability_end">Available Until</Label>
-                <Input
-                  id="availability_end"
-                  name="availability_end"
-                  type="datetime-local"
-                  value={formData.availability_end}
-                  onChange={handleInputChange}
-                  required
-                />
-              </div>
-            </div>
-
-            <div className="flex gap-4">
-              <Button type="submit" disabled={loading} className="flex-1">
-                {loading ? "Adding..." : "Add Resource"}
-              </Button>
-              <Button
-                type="button"
-                variant="outline"
-                onClick={() => navigate("/dashboard")}
-              >
-                Cancel
-              </Button>
-            </div>
-          </form>
+          <ResourceForm
+            submitLabel="Add Resource"
+            submittingLabel="Adding..."
+            loading={saveResource.isPending}
+            onSubmit={handleSubmit}
+            onCancel={() => navigate("/dashboard")}
+          />
         </CardContent>
       </Card>
     </div>
   );
 };
 
-export default AddResource;
\ No newline at end of file
+export default AddResource;
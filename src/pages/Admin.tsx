@@ -0,0 +1,571 @@
+import { useEffect, useState } from "react";
+import { Link, useNavigate } from "react-router-dom";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import ModerationReasonDialog from "@/components/ModerationReasonDialog";
+import ResolveDisputeDialog from "@/components/ResolveDisputeDialog";
+import { useAuth } from "@/contexts/AuthContext";
+import {
+  useAdminBookings,
+  useAdminDisputes,
+  useAdminResources,
+  useAdminUsers,
+  useAuditLog,
+  useIsAdmin,
+  useReportQueue,
+  useResolveReports,
+  useSetResourcePublished,
+  useSuspendUser,
+  useUnsuspendUser,
+} from "@/hooks/use-admin";
+import { useToast } from "@/hooks/use-toast";
+import {
+  AdminDispute,
+  AdminResource,
+  AdminUser,
+  AuditTargetType,
+  auditActionLabels,
+  auditTargetLabels,
+} from "@/lib/admin";
+import { ReportGroup, ReportReason, reportReasonLabels } from "@/lib/reports";
+import {
+  BookingStatus,
+  bookingStatusBadgeVariant,
+  bookingStatusLabels,
+  getBookingErrorMessage,
+} from "@/lib/bookings";
+import { Search } from "lucide-react";
+
+// Search box that only applies its text when submitted, so typing doesn't
+// fire a query per keystroke
+const SearchForm = ({ placeholder, onSearch }: { placeholder: string; onSearch: (search: string) => void }) => {
+  const [text, setText] = useState("");
+
+  return (
+    <form
+      className="flex gap-2 mb-4"
+      onSubmit={(e) => {
+        e.preventDefault();
+        onSearch(text.trim());
+      }}
+    >
+      <Input placeholder={placeholder} value={text} onChange={(e) => setText(e.target.value)} />
+      <Button type="submit" variant="outline">
+        <Search className="h-4 w-4 mr-2" />
+        Search
+      </Button>
+    </form>
+  );
+};
+
+const Admin = () => {
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const { data: isAdmin, isLoading: roleLoading } = useIsAdmin(user?.id);
+  const [userSearch, setUserSearch] = useState("");
+  const [resourceSearch, setResourceSearch] = useState("");
+  const [bookingSearch, setBookingSearch] = useState("");
+  const [bookingStatus, setBookingStatus] = useState<BookingStatus | "all">("all");
+  const [suspendTarget, setSuspendTarget] = useState<AdminUser | null>(null);
+  const [unpublishTarget, setUnpublishTarget] = useState<AdminResource | null>(null);
+  const [disputeTarget, setDisputeTarget] = useState<AdminDispute | null>(null);
+  const [takeDownTarget, setTakeDownTarget] = useState<ReportGroup | null>(null);
+  const enabled = isAdmin === true;
+
+  const users = useAdminUsers(userSearch, enabled);
+  const resources = useAdminResources(resourceSearch, enabled);
+  const bookings = useAdminBookings(bookingSearch, bookingStatus, enabled);
+  const disputes = useAdminDisputes(enabled);
+  const reports = useReportQueue(enabled);
+  const auditLog = useAuditLog(enabled);
+  const suspendUser = useSuspendUser();
+  const unsuspendUser = useUnsuspendUser();
+  const setResourcePublished = useSetResourcePublished();
+  const resolveReports = useResolveReports();
+
+  useEffect(() => {
+    if (!user) {
+      navigate("/auth");
+    }
+  }, [user, navigate]);
+
+  const mutationCallbacks = (successMessage: string, failureMessage: string, onDone?: () => void) => ({
+    onSuccess: () => {
+      toast({
+        title: "Success",
+        description: successMessage,
+      });
+      onDone?.();
+    },
+    onError: (error: Error) => {
+      console.error(`${failureMessage}:`, error);
+      toast({
+        title: "Error",
+        description: getBookingErrorMessage(error, failureMessage),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleSuspend = (reason: string) => {
+    if (!suspendTarget) return;
+    suspendUser.mutate(
+      { userId: suspendTarget.user_id, reason },
+      mutationCallbacks(`${suspendTarget.name} has been suspended`, "Failed to suspend member", () =>
+        setSuspendTarget(null)
+      )
+    );
+  };
+
+  const handleUnsuspend = (member: AdminUser) => {
+    unsuspendUser.mutate(
+      member.user_id,
+      mutationCallbacks(`${member.name}'s suspension has been lifted`, "Failed to lift suspension")
+    );
+  };
+
+  const handleUnpublish = (reason: string) => {
+    if (!unpublishTarget) return;
+    setResourcePublished.mutate(
+      { resourceId: unpublishTarget.id, published: false, reason },
+      mutationCallbacks("Listing unpublished", "Failed to unpublish listing", () => setUnpublishTarget(null))
+    );
+  };
+
+  const handleRepublish = (resource: AdminResource) => {
+    setResourcePublished.mutate(
+      { resourceId: resource.id, published: true },
+      mutationCallbacks("Listing restored; its owner can list it again", "Failed to restore listing")
+    );
+  };
+
+  const handleTakeDown = (reason: string) => {
+    if (!takeDownTarget) return;
+    resolveReports.mutate(
+      { targetType: takeDownTarget.targetType, targetId: takeDownTarget.targetId, action: "take_down", note: reason },
+      mutationCallbacks(
+        takeDownTarget.targetType === "resource" ? "Listing unpublished" : "Member suspended",
+        "Failed to act on reports",
+        () => setTakeDownTarget(null)
+      )
+    );
+  };
+
+  const handleDismissReports = (group: ReportGroup) => {
+    resolveReports.mutate(
+      { targetType: group.targetType, targetId: group.targetId, action: "dismiss" },
+      mutationCallbacks("Reports dismissed", "Failed to dismiss reports")
+    );
+  };
+
+  if (roleLoading) {
+    return (
+      <div className="container mx-auto px-4 py-8">
+        <div className="text-center">Loading admin console...</div>
+      </div>
+    );
+  }
+
+  if (!isAdmin) {
+    return (
+      <div className="container mx-auto px-4 py-8">
+        <Card>
+          <CardContent className="p-6 text-center text-muted-foreground">
+            You don't have access to this page.
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  const owners = resources.data?.owners ?? {};
+  const bookingMembers = bookings.data?.members ?? {};
+  const admins = auditLog.data?.admins ?? {};
+  const openDisputes = disputes.data?.disputes ?? [];
+  const reportGroups = reports.data?.groups ?? [];
+  const reportMembers = reports.data?.members ?? {};
+  const reportedResources = reports.data?.resources ?? {};
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <h1 className="text-3xl font-bold mb-8">Admin</h1>
+
+      <Tabs defaultValue="reports" className="space-y-6">
+        <TabsList>
+          <TabsTrigger value="reports">
+            Reports
+            {reportGroups.length > 0 && <Badge className="ml-2 px-1.5">{reportGroups.length}</Badge>}
+          </TabsTrigger>
+          <TabsTrigger value="users">Members</TabsTrigger>
+          <TabsTrigger value="resources">Listings</TabsTrigger>
+          <TabsTrigger value="bookings">Bookings</TabsTrigger>
+          <TabsTrigger value="disputes">
+            Disputes
+            {openDisputes.length > 0 && <Badge className="ml-2 px-1.5">{openDisputes.length}</Badge>}
+          </TabsTrigger>
+          <TabsTrigger value="audit">Audit Log</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="reports">
+          {reports.isLoading ? (
+            <p className="text-center text-muted-foreground">Loading reports...</p>
+          ) : reportGroups.length === 0 ? (
+            <p className="text-center text-muted-foreground">No open reports.</p>
+          ) : (
+            <div className="space-y-4">
+              {reportGroups.map((group) => {
+                const resource = group.targetType === "resource" ? reportedResources[group.targetId] : undefined;
+                return (
+                  <Card key={`${group.targetType}:${group.targetId}`}>
+                    <CardHeader>
+                      <div className="flex flex-col sm:flex-row justify-between items-start gap-4">
+                        <div className="space-y-1">
+                          <CardTitle className="text-lg flex items-center gap-2">
+                            {group.targetType === "resource" ? (
+                              <Link to={`/book/${group.targetId}`} className="hover:text-primary">
+                                {resource?.title ?? "Deleted listing"}
+                              </Link>
+                            ) : (
+                              <Link to={`/users/${group.targetId}`} className="hover:text-primary">
+                                {reportMembers[group.targetId]?.name ?? "Unknown member"}
+                              </Link>
+                            )}
+                            <Badge variant="outline">{group.targetType === "resource" ? "Listing" : "Member"}</Badge>
+                            {resource?.unpublished_at && <Badge variant="destructive">Hidden</Badge>}
+                          </CardTitle>
+                          <p className="text-sm text-muted-foreground">
+                            {group.reports.length} open report{group.reports.length === 1 ? "" : "s"}
+                            {resource && ` · listed by ${reportMembers[resource.owner_id]?.name ?? "unknown"}`}
+                          </p>
+                        </div>
+                        <div className="flex gap-2">
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => handleDismissReports(group)}
+                            disabled={resolveReports.isPending}
+                          >
+                            Dismiss
+                          </Button>
+                          <Button variant="destructive" size="sm" onClick={() => setTakeDownTarget(group)}>
+                            {group.targetType === "resource" ? "Unpublish Listing" : "Suspend Member"}
+                          </Button>
+                        </div>
+                      </div>
+                    </CardHeader>
+                    <CardContent className="space-y-3">
+                      {group.reports.map((report) => (
+                        <div key={report.id} className="p-3 bg-muted rounded-lg">
+                          <p className="text-sm font-medium">
+                            {reportReasonLabels[report.reason as ReportReason] ?? report.reason}
+                          </p>
+                          <p className="text-xs text-muted-foreground">
+                            {reportMembers[report.reporter_id]?.name ?? "Unknown"} ·{" "}
+                            {new Date(report.created_at).toLocaleString()}
+                          </p>
+                          {report.details && <p className="text-sm whitespace-pre-wrap mt-1">{report.details}</p>}
+                        </div>
+                      ))}
+                    </CardContent>
+                  </Card>
+                );
+              })}
+            </div>
+          )}
+        </TabsContent>
+
+        <TabsContent value="users">
+          <SearchForm placeholder="Search by name or email" onSearch={setUserSearch} />
+          <Card>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Member</TableHead>
+                  <TableHead>Joined</TableHead>
+                  <TableHead>Listings</TableHead>
+                  <TableHead>Bookings</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {(users.data ?? []).map((member) => (
+                  <TableRow key={member.user_id}>
+                    <TableCell>
+                      <Link to={`/users/${member.user_id}`} className="font-medium hover:text-primary">
+                        {member.name}
+                      </Link>
+                      <p className="text-sm text-muted-foreground">{member.email}</p>
+                    </TableCell>
+                    <TableCell>{new Date(member.created_at).toLocaleDateString()}</TableCell>
+                    <TableCell>{member.resource_count}</TableCell>
+                    <TableCell>{member.booking_count}</TableCell>
+                    <TableCell>
+                      {member.is_admin ? (
+                        <Badge>Admin</Badge>
+                      ) : member.suspended_at ? (
+                        <Badge variant="destructive" title={member.suspension_reason ?? undefined}>
+                          Suspended
+                        </Badge>
+                      ) : (
+                        <Badge variant="secondary">Active</Badge>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {!member.is_admin &&
+                        (member.suspended_at ? (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => handleUnsuspend(member)}
+                            disabled={unsuspendUser.isPending}
+                          >
+                            Lift Suspension
+                          </Button>
+                        ) : (
+                          <Button variant="destructive" size="sm" onClick={() => setSuspendTarget(member)}>
+                            Suspend
+                          </Button>
+                        ))}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+            {users.isLoading && <p className="text-center text-muted-foreground p-4">Loading members...</p>}
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="resources">
+          <SearchForm placeholder="Search by title" onSearch={setResourceSearch} />
+          <Card>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Listing</TableHead>
+                  <TableHead>Owner</TableHead>
+                  <TableHead>Listed</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {(resources.data?.resources ?? []).map((resource) => (
+                  <TableRow key={resource.id}>
+                    <TableCell>
+                      <Link to={`/book/${resource.id}`} className="font-medium hover:text-primary">
+                        {resource.title}
+                      </Link>
+                      <p className="text-sm text-muted-foreground">{resource.category}</p>
+                    </TableCell>
+                    <TableCell>{owners[resource.owner_id]?.name ?? "Unknown"}</TableCell>
+                    <TableCell>{new Date(resource.created_at).toLocaleDateString()}</TableCell>
+                    <TableCell>
+                      {resource.unpublished_at ? (
+                        <>
+                          <Badge variant="destructive">Unpublished</Badge>
+                          <p className="text-sm text-muted-foreground mt-1">{resource.unpublished_reason}</p>
+                        </>
+                      ) : (
+                        <Badge variant={resource.is_available ? "default" : "secondary"}>
+                          {resource.is_available ? "Available" : "Unavailable"}
+                        </Badge>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {resource.unpublished_at ? (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => handleRepublish(resource)}
+                          disabled={setResourcePublished.isPending}
+                        >
+                          Restore
+                        </Button>
+                      ) : (
+                        <Button variant="destructive" size="sm" onClick={() => setUnpublishTarget(resource)}>
+                          Unpublish
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+            {resources.isLoading && <p className="text-center text-muted-foreground p-4">Loading listings...</p>}
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="bookings">
+          <div className="flex flex-col md:flex-row gap-2 md:items-start">
+            <div className="flex-1">
+              <SearchForm placeholder="Search by listing title" onSearch={setBookingSearch} />
+            </div>
+            <select
+              value={bookingStatus}
+              onChange={(e) => setBookingStatus(e.target.value as BookingStatus | "all")}
+              className="md:w-48 px-3 py-2 border border-input rounded-md bg-background mb-4"
+              aria-label="Booking status"
+            >
+              <option value="all">All statuses</option>
+              {(Object.keys(bookingStatusLabels) as BookingStatus[]).map((status) => (
+                <option key={status} value={status}>
+                  {bookingStatusLabels[status]}
+                </option>
+              ))}
+            </select>
+          </div>
+          <Card>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Listing</TableHead>
+                  <TableHead>Renter</TableHead>
+                  <TableHead>Owner</TableHead>
+                  <TableHead>Dates</TableHead>
+                  <TableHead>Total</TableHead>
+                  <TableHead>Status</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {(bookings.data?.bookings ?? []).map((booking) => (
+                  <TableRow key={booking.id}>
+                    <TableCell className="font-medium">{booking.resources.title}</TableCell>
+                    <TableCell>{bookingMembers[booking.renter_id]?.name ?? "Unknown"}</TableCell>
+                    <TableCell>{bookingMembers[booking.owner_id]?.name ?? "Unknown"}</TableCell>
+                    <TableCell>
+                      {new Date(booking.start_time).toLocaleDateString()} -{" "}
+                      {new Date(booking.end_time).toLocaleDateString()}
+                    </TableCell>
+                    <TableCell>${booking.total_price}</TableCell>
+                    <TableCell>
+                      <Badge variant={bookingStatusBadgeVariant(booking.status)}>
+                        {bookingStatusLabels[booking.status]}
+                      </Badge>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+            {bookings.isLoading && <p className="text-center text-muted-foreground p-4">Loading bookings...</p>}
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="disputes">
+          {disputes.isLoading ? (
+            <p className="text-center text-muted-foreground">Loading disputes...</p>
+          ) : openDisputes.length === 0 ? (
+            <p className="text-center text-muted-foreground">No disputes waiting for a decision.</p>
+          ) : (
+            <div className="space-y-4">
+              {openDisputes.map((dispute) => (
+                <Card key={dispute.id}>
+                  <CardHeader>
+                    <div className="flex justify-between items-start gap-4">
+                      <CardTitle className="text-lg">
+                        ${dispute.amount} claimed on "{dispute.bookings.resources.title}"
+                      </CardTitle>
+                      <Button size="sm" onClick={() => setDisputeTarget(dispute)}>
+                        Review & Resolve
+                      </Button>
+                    </div>
+                  </CardHeader>
+                  <CardContent className="space-y-1 text-sm text-muted-foreground">
+                    <p>
+                      Owner {disputes.data?.members[dispute.owner_id]?.name ?? "unknown"} · renter{" "}
+                      {disputes.data?.members[dispute.renter_id]?.name ?? "unknown"} · $
+                      {dispute.bookings.deposit_amount} deposit
+                    </p>
+                    <p>Disputed {new Date(dispute.updated_at).toLocaleString()}</p>
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+          )}
+        </TabsContent>
+
+        <TabsContent value="audit">
+          <Card>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>When</TableHead>
+                  <TableHead>Admin</TableHead>
+                  <TableHead>Action</TableHead>
+                  <TableHead>Target</TableHead>
+                  <TableHead>Details</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {(auditLog.data?.entries ?? []).map((entry) => {
+                  const details = (entry.details ?? {}) as Record<string, unknown>;
+                  return (
+                    <TableRow key={entry.id}>
+                      <TableCell className="whitespace-nowrap">{new Date(entry.created_at).toLocaleString()}</TableCell>
+                      <TableCell>{entry.admin_id ? admins[entry.admin_id]?.name ?? "Unknown" : "Deleted account"}</TableCell>
+                      <TableCell>{auditActionLabels[entry.action] ?? entry.action}</TableCell>
+                      <TableCell>
+                        {auditTargetLabels[entry.target_type as AuditTargetType] ?? entry.target_type}
+                        {typeof details.title === "string" && `: ${details.title}`}
+                      </TableCell>
+                      <TableCell className="text-sm text-muted-foreground">
+                        {typeof details.reason === "string" && details.reason}
+                        {typeof details.note === "string" &&
+                          `$${details.awarded_amount} of $${details.claimed_amount} awarded: ${details.note}`}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+            {auditLog.isLoading && <p className="text-center text-muted-foreground p-4">Loading audit log...</p>}
+          </Card>
+        </TabsContent>
+      </Tabs>
+
+      <ModerationReasonDialog
+        open={suspendTarget !== null}
+        title={`Suspend ${suspendTarget?.name ?? "member"}`}
+        description="Suspended members can't list, book or send messages, and their listings are unpublished."
+        confirmLabel="Suspend"
+        submitting={suspendUser.isPending}
+        onOpenChange={(open) => !open && setSuspendTarget(null)}
+        onConfirm={handleSuspend}
+      />
+
+      <ModerationReasonDialog
+        open={unpublishTarget !== null}
+        title={`Unpublish "${unpublishTarget?.title ?? ""}"`}
+        description="The listing is hidden from search and its owner can't relist it until it is restored."
+        confirmLabel="Unpublish"
+        submitting={setResourcePublished.isPending}
+        onOpenChange={(open) => !open && setUnpublishTarget(null)}
+        onConfirm={handleUnpublish}
+      />
+
+      <ModerationReasonDialog
+        open={takeDownTarget !== null}
+        title={takeDownTarget?.targetType === "resource" ? "Unpublish reported listing" : "Suspend reported member"}
+        description="All open reports about it are closed as actioned. The reason is kept in the audit log."
+        confirmLabel={takeDownTarget?.targetType === "resource" ? "Unpublish" : "Suspend"}
+        submitting={resolveReports.isPending}
+        onOpenChange={(open) => !open && setTakeDownTarget(null)}
+        onConfirm={handleTakeDown}
+      />
+
+      <ResolveDisputeDialog
+        dispute={disputeTarget}
+        members={disputes.data?.members ?? {}}
+        onOpenChange={(open) => !open && setDisputeTarget(null)}
+        onResolved={() => setDisputeTarget(null)}
+      />
+    </div>
+  );
+};
+
+export default Admin;
@@ -1,84 +1,197 @@
 import { useState, useEffect } from "react";
-import { useParams, useNavigate } from "react-router-dom";
-import { supabase } from "@/integrations/supabase/client";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Link, useParams, useNavigate } from "react-router-dom";
+import { DateRange } from "react-day-picker";
+import { addDays, format, max, min } from "date-fns";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
 import { Label } from "@/components/ui/label";
 import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import {
+  Carousel,
+  CarouselContent,
+  CarouselItem,
+  CarouselNext,
+  CarouselPrevious,
+} from "@/components/ui/carousel";
+import AvailabilityCalendar from "@/components/AvailabilityCalendar";
+import CategoryIcon from "@/components/CategoryIcon";
+import RatingStars from "@/components/RatingStars";
+import ReviewList from "@/components/ReviewList";
+import ReportDialog from "@/components/ReportDialog";
 import { useAuth } from "@/contexts/AuthContext";
+import { useBookingQuote, useCreateBooking, useInstantBookEligibility } from "@/hooks/use-bookings";
+import { useCategories } from "@/hooks/use-categories";
+import { usePublicProfile } from "@/hooks/use-profiles";
+import { useResource, useResourceAvailability } from "@/hooks/use-resources";
+import { useResourceReviews } from "@/hooks/use-reviews";
 import { useToast } from "@/hooks/use-toast";
-import { MapPin, Calendar, DollarSign } from "lucide-react";
-
-interface Resource {
-  id: string;
-  title: string;
-  description: string;
-  category: string;
-  price: number;
-  location: string;
-  image_url?: string;
-  availability_start: string;
-  availability_end: string;
-  owner_id: string;
-}
+import { useJoinWaitlist, useMyWaitlist } from "@/hooks/use-waitlist";
+import { describeBuffer, describeWeeklyHours, findSlotForDays, isRangeBookable } from "@/lib/availability";
+import {
+  BookingFormData,
+  bookingFormSchema,
+  formatResponseWindow,
+  getBookingErrorMessage,
+  paymentMethodLabels,
+  toBookingTimes,
+} from "@/lib/bookings";
+import { AttributeValues, formatAttributeValue, getCategoryAttributes, getCategoryPath } from "@/lib/categories";
+import { getResourceImageUrl, sortResourceImages } from "@/lib/images";
+import { openConversation } from "@/lib/messaging";
+import { formatWaitlistDates, isOfferLive } from "@/lib/waitlist";
+import { PaymentError } from "@/lib/payments";
+import { getInitials } from "@/lib/profiles";
+import { PAYMENT_METHODS } from "@shared/schemas";
+import { MapPin, Calendar, Clock, DollarSign, MessageSquare, Flag, Zap } from "lucide-react";
+
+// Default pickup and return times used when dates are picked on the calendar
+const DEFAULT_START_TIME = "09:00";
+const DEFAULT_END_TIME = "17:00";
+
+const toDateTimeInputValue = (date: Date, time: string) => `${format(date, "yyyy-MM-dd")}T${time}`;
+
+const toIsoOrNull = (value: string) => (value ? new Date(value).toISOString() : null);
 
 const BookResource = () => {
   const { id } = useParams<{ id: string }>();
   const { user } = useAuth();
   const navigate = useNavigate();
   const { toast } = useToast();
-  const [resource, setResource] = useState<Resource | null>(null);
-  const [loading, setLoading] = useState(true);
-  const [booking, setBooking] = useState(false);
-  const [startDate, setStartDate] = useState("");
-  const [endDate, setEndDate] = useState("");
-  const [paymentMethod, setPaymentMethod] = useState("card");
+  const form = useForm<BookingFormData>({
+    resolver: zodResolver(bookingFormSchema),
+    defaultValues: { start_time: "", end_time: "", payment_method: "card" },
+  });
+  const startDate = form.watch("start_time");
+  const endDate = form.watch("end_time");
+  const paymentMethod = form.watch("payment_method");
+  const [reportOpen, setReportOpen] = useState(false);
+  const { data: resource, isLoading: loading, isError } = useResource(id);
+  const { data: owner } = usePublicProfile(resource?.owner_id);
+  const { data: reviews = [] } = useResourceReviews(id);
+  const { data: availability } = useResourceAvailability(id);
+  const { data: categories = [] } = useCategories();
+  const { data: quote, error: quoteError } = useBookingQuote(id, toIsoOrNull(startDate), toIsoOrNull(endDate));
+  const { data: canInstantBook = false } = useInstantBookEligibility(id, user?.id);
+  const { data: myWaitlist = [] } = useMyWaitlist(user?.id);
+  const createBooking = useCreateBooking();
+  const joinWaitlist = useJoinWaitlist();
+  const busyIntervals = availability?.busyIntervals ?? [];
+  const slots = availability?.slots ?? [];
 
   useEffect(() => {
     if (!user) {
       navigate("/auth");
-      return;
     }
-    fetchResource();
-  }, [id, user, navigate]);
+  }, [user, navigate]);
+
+  useEffect(() => {
+    if (isError) {
+      navigate("/resources");
+    }
+  }, [isError, navigate]);
 
-  const fetchResource = async () => {
-    if (!id) return;
+  const askQuestion = async () => {
+    if (!resource) return;
 
     try {
-      const { data, error } = await supabase
-        .from("resources")
-        .select("*")
-        .eq("id", id)
-        .eq("is_available", true)
-        .single();
-
-      if (error) throw error;
-      setResource(data);
+      const conversationId = await openConversation(resource.id);
+      navigate(`/inbox/${conversationId}`);
     } catch (error) {
-      console.error("Error fetching resource:", error);
+      console.error("Error opening conversation:", error);
       toast({
         title: "Error",
-        description: "Resource not found or unavailable",
+        description: "Failed to start a conversation",
         variant: "destructive",
       });
-      navigate("/resources");
-    } finally {
-      setLoading(false);
     }
   };
 
-  const calculateTotalPrice = () => {
-    if (!startDate || !endDate || !resource) return 0;
-    const start = new Date(startDate);
-    const end = new Date(endDate);
-    const days = Math.ceil((end.getTime() - start.getTime()) / (1000 * 60 * 60 * 24));
-    return Math.max(1, days) * resource.price;
+  const selectedRange: DateRange | undefined = startDate
+    ? { from: new Date(startDate), to: endDate ? new Date(endDate) : undefined }
+    : undefined;
+
+  const handleRangeSelect = (range: DateRange | undefined) => {
+    const startTime = startDate.split("T")[1] || DEFAULT_START_TIME;
+    const endTime = endDate.split("T")[1] || DEFAULT_END_TIME;
+    const options = { shouldValidate: form.formState.isSubmitted };
+    if (!range?.from) {
+      form.setValue("start_time", "", options);
+      form.setValue("end_time", "", options);
+      return;
+    }
+
+    // Keep the preferred times, moved inside the slot the days belong to
+    const slot = findSlotForDays(slots, range.from, range.to ?? range.from);
+    let start = new Date(toDateTimeInputValue(range.from, startTime));
+    let end = range.to ? new Date(toDateTimeInputValue(range.to, endTime)) : null;
+    if (slot) {
+      const slotStart = new Date(slot.start_time);
+      const slotEnd = new Date(slot.end_time);
+      start = min([max([start, slotStart]), slotEnd]);
+      if (end) {
+        end = min([end, slotEnd]);
+        if (end <= start) end = min([slotEnd, addDays(start, 1)]);
+      }
+    }
+    form.setValue("start_time", format(start, "yyyy-MM-dd'T'HH:mm"), options);
+    form.setValue("end_time", end ? format(end, "yyyy-MM-dd'T'HH:mm") : "", options);
+  };
+
+  const isOutsideSlots =
+    startDate !== "" && endDate !== "" && !isRangeBookable(slots, new Date(startDate), new Date(endDate));
+
+  const waitlistEntries = myWaitlist.filter((entry) => entry.resource_id === id);
+  const heldOffer = waitlistEntries.find(isOfferLive);
+
+  const applyHeldDates = () => {
+    if (!heldOffer) return;
+    const options = { shouldValidate: form.formState.isSubmitted };
+    form.setValue("start_time", format(new Date(heldOffer.start_time), "yyyy-MM-dd'T'HH:mm"), options);
+    form.setValue("end_time", format(new Date(heldOffer.end_time), "yyyy-MM-dd'T'HH:mm"), options);
+  };
+
+  const handleJoinWaitlist = () => {
+    if (!resource) return;
+
+    joinWaitlist.mutate(
+      {
+        resourceId: resource.id,
+        startTime: new Date(startDate).toISOString(),
+        endTime: new Date(endDate).toISOString(),
+      },
+      {
+        onSuccess: () => {
+          toast({
+            title: "You're on the waitlist",
+            description: "We'll let you know if these dates free up.",
+          });
+        },
+        onError: (error) => {
+          console.error("Error joining waitlist:", error);
+          toast({
+            title: "Error",
+            description: getBookingErrorMessage(error, "Failed to join the waitlist"),
+            variant: "destructive",
+          });
+        },
+      }
+    );
   };
 
-  const handleBooking = async (e: React.FormEvent) => {
-    e.preventDefault();
+  const handleBooking = form.handleSubmit((data) => {
     if (!user || !resource) return;
 
     if (resource.owner_id === user.id) {
@@ -90,41 +203,45 @@ const BookResource = () => {
       return;
     }
 
-    setBooking(true);
-    try {
-      const totalPrice = calculateTotalPrice();
-      
-      const { error } = await supabase
-        .from("bookings")
-        .insert({
-          resource_id: resource.id,
-          renter_id: user.id,
-          owner_id: resource.owner_id,
-          start_time: startDate,
-          end_time: endDate,
-          payment_method: paymentMethod,
-          total_price: totalPrice,
-          status: "pending",
-        });
-
-      if (error) throw error;
-
-      toast({
-        title: "Success!",
-        description: "Booking request submitted successfully",
-      });
-      navigate("/dashboard");
-    } catch (error) {
-      console.error("Error creating booking:", error);
-      toast({
-        title: "Error",
-        description: "Failed to create booking",
-        variant: "destructive",
-      });
-    } finally {
-      setBooking(false);
-    }
-  };
+    const times = toBookingTimes(data);
+    createBooking.mutate(
+      {
+        resourceId: resource.id,
+        startTime: times.start_time,
+        endTime: times.end_time,
+        paymentMethod: data.payment_method,
+      },
+      {
+        onSuccess: (booking) => {
+          toast({
+            title: "Success!",
+            description:
+              booking.status === "confirmed"
+                ? "Booking confirmed"
+                : "Booking request submitted successfully",
+          });
+          navigate("/dashboard");
+        },
+        onError: (error) => {
+          // A declined payment cancels the request on the server
+          if (error instanceof PaymentError) {
+            toast({
+              title: "Payment failed",
+              description: error.message,
+              variant: "destructive",
+            });
+            return;
+          }
+          console.error("Error creating booking:", error);
+          toast({
+            title: "Error",
+            description: getBookingErrorMessage(error, "Failed to create booking"),
+            variant: "destructive",
+          });
+        },
+      }
+    );
+  });
 
   if (loading) {
     return (
@@ -142,14 +259,48 @@ const BookResource = () => {
     );
   }
 
+  const categoryPath = getCategoryPath(categories, resource.category_id);
+  const category = categoryPath[categoryPath.length - 1];
+  const attributeValues = resource.attributes as AttributeValues;
+  const attributeDetails = getCategoryAttributes(categories, resource.category_id).filter(
+    (attribute) => attributeValues[attribute.key] !== undefined
+  );
+
+  const averageRating = reviews.length > 0
+    ? reviews.reduce((sum, review) => sum + review.rating, 0) / reviews.length
+    : 0;
+
+  // Cover photo first, then the rest in the owner's order
+  const images = sortResourceImages(resource.resource_images);
+  const galleryUrls = images.length > 0
+    ? [...images.filter(image => image.is_cover), ...images.filter(image => !image.is_cover)]
+        .map(image => getResourceImageUrl(image.storage_path))
+    : resource.image_url ? [resource.image_url] : [];
+
   return (
     <div className="container mx-auto px-4 py-8">
       <div className="max-w-4xl mx-auto grid grid-cols-1 lg:grid-cols-2 gap-8">
         {/* Resource Details */}
         <div>
-          {resource.image_url && (
+          {galleryUrls.length > 1 ? (
+            <Carousel className="mb-6">
+              <CarouselContent>
+                {galleryUrls.map((url, index) => (
+                  <CarouselItem key={url}>
+                    <img
+                      src={url}
+                      alt={`${resource.title} photo ${index + 1}`}
+                      className="w-full h-64 object-cover rounded-lg"
+                    />
+                  </CarouselItem>
+                ))}
+              </CarouselContent>
+              <CarouselPrevious className="left-2" />
+              <CarouselNext className="right-2" />
+            </Carousel>
+          ) : galleryUrls.length === 1 && (
             <img
-              src={resource.image_url}
+              src={galleryUrls[0]}
               alt={resource.title}
               className="w-full h-64 object-cover rounded-lg mb-6"
             />
@@ -157,10 +308,44 @@ const BookResource = () => {
           <div className="space-y-4">
             <div className="flex justify-between items-start">
               <h1 className="text-3xl font-bold">{resource.title}</h1>
-              <Badge variant="secondary">{resource.category}</Badge>
+              <Badge variant="secondary" className="shrink-0">
+                <CategoryIcon icon={category?.icon ?? null} className="h-3 w-3 mr-1" />
+                {categoryPath.length > 0 ? categoryPath.map((c) => c.name).join(" › ") : resource.category}
+              </Badge>
             </div>
+
+            <RatingStars rating={averageRating} reviewCount={reviews.length} />
             
             <p className="text-muted-foreground">{resource.description}</p>
+
+            {owner && (
+              <Link
+                to={`/users/${resource.owner_id}`}
+                className="flex items-center gap-3 rounded-lg border p-3 hover:bg-muted"
+              >
+                <Avatar>
+                  {owner.avatar_url && <AvatarImage src={owner.avatar_url} alt={owner.name ?? ""} />}
+                  <AvatarFallback>{getInitials(owner.name)}</AvatarFallback>
+                </Avatar>
+                <div>
+                  <p className="text-sm text-muted-foreground">Listed by</p>
+                  <p className="font-medium">{owner.name}</p>
+                </div>
+              </Link>
+            )}
+
+            {user && resource.owner_id !== user.id && (
+              <div className="flex flex-wrap gap-2">
+                <Button variant="outline" onClick={askQuestion}>
+                  <MessageSquare className="h-4 w-4 mr-2" />
+                  Ask the Owner a Question
+                </Button>
+                <Button variant="ghost" onClick={() => setReportOpen(true)}>
+                  <Flag className="h-4 w-4 mr-2" />
+                  Report Listing
+                </Button>
+              </div>
+            )}
             
             <div className="space-y-3">
               <div className="flex items-center">
@@ -169,7 +354,19 @@ const BookResource = () => {
               </div>
               <div className="flex items-center">
                 <DollarSign className="h-5 w-5 mr-3 text-muted-foreground" />
-                <span className="text-lg font-semibold">${resource.price}/day</span>
+                <div>
+                  <span className="text-lg font-semibold">${resource.price}/day</span>
+                  <div className="text-sm text-muted-foreground space-x-3">
+                    {resource.hourly_price !== null && <span>${resource.hourly_price}/hour</span>}
+                    {resource.weekly_price !== null && <span>${resource.weekly_price}/week</span>}
+                    {resource.weekend_price !== null && <span>${resource.weekend_price}/weekend day</span>}
+                  </div>
+                  {resource.min_rental_hours > 1 && (
+                    <p className="text-sm text-muted-foreground">
+                      Minimum rental: {resource.min_rental_hours} hours
+                    </p>
+                  )}
+                </div>
               </div>
               <div className="flex items-center">
                 <Calendar className="h-5 w-5 mr-3 text-muted-foreground" />
@@ -177,73 +374,213 @@ const BookResource = () => {
                   Available: {new Date(resource.availability_start).toLocaleDateString()} - {new Date(resource.availability_end).toLocaleDateString()}
                 </span>
               </div>
+              {resource.resource_weekly_hours.length > 0 && (
+                <div className="flex items-center">
+                  <Clock className="h-5 w-5 mr-3 text-muted-foreground" />
+                  <span>{describeWeeklyHours(resource.resource_weekly_hours)}</span>
+                </div>
+              )}
+              {resource.buffer_minutes > 0 && (
+                <p className="text-sm text-muted-foreground ml-8">
+                  The owner keeps {describeBuffer(resource.buffer_minutes)} free between rentals.
+                </p>
+              )}
             </div>
+
+            {attributeDetails.length > 0 && (
+              <dl className="grid grid-cols-2 gap-x-4 gap-y-2 rounded-lg border p-4 text-sm">
+                {attributeDetails.map((attribute) => (
+                  <div key={attribute.key}>
+                    <dt className="text-muted-foreground">{attribute.label}</dt>
+                    <dd className="font-medium">{formatAttributeValue(attribute, attributeValues[attribute.key])}</dd>
+                  </div>
+                ))}
+              </dl>
+            )}
           </div>
         </div>
 
         {/* Booking Form */}
         <Card>
           <CardHeader>
-            <CardTitle>Book This Resource</CardTitle>
+            <div className="flex items-center justify-between gap-2">
+              <CardTitle>Book This Resource</CardTitle>
+              {canInstantBook && (
+                <Badge className="shrink-0">
+                  <Zap className="h-3 w-3 mr-1" />
+                  Instant Book
+                </Badge>
+              )}
+            </div>
+            <p className="text-sm text-muted-foreground">
+              {canInstantBook
+                ? "Your booking is confirmed as soon as the payment hold is placed."
+                : `The owner has ${formatResponseWindow(resource.request_expiry_hours)} to accept your request.`}
+            </p>
           </CardHeader>
           <CardContent>
-            <form onSubmit={handleBooking} className="space-y-4">
-              <div className="space-y-2">
-                <Label htmlFor="start_date">Start Date & Time</Label>
-                <Input
-                  id="start_date"
-                  type="datetime-local"
-                  value={startDate}
-                  onChange={(e) => setStartDate(e.target.value)}
-                  min={resource.availability_start}
-                  max={resource.availability_end}
-                  required
+            <Form {...form}>
+              <form onSubmit={handleBooking} className="space-y-4" noValidate>
+                {heldOffer && (
+                  <div className="rounded-lg border border-primary p-4 space-y-2">
+                    <p className="text-sm">
+                      {formatWaitlistDates(heldOffer)} opened up and is held for you until{" "}
+                      {new Date(heldOffer.offer_expires_at!).toLocaleString()}.
+                    </p>
+                    <Button type="button" size="sm" onClick={applyHeldDates}>
+                      Use these dates
+                    </Button>
+                  </div>
+                )}
+                {waitlistEntries
+                  .filter((entry) => entry.status === "waiting")
+                  .map((entry) => (
+                    <p key={entry.id} className="text-sm text-muted-foreground">
+                      You're on the waitlist for {formatWaitlistDates(entry)}.
+                    </p>
+                  ))}
+                <div className="space-y-2">
+                  <Label>Select Dates</Label>
+                  <AvailabilityCalendar
+                    availabilityStart={resource.availability_start}
+                    availabilityEnd={resource.availability_end}
+                    busyIntervals={busyIntervals}
+                    slots={slots}
+                    selected={selectedRange}
+                    onSelect={handleRangeSelect}
+                  />
+                </div>
+
+                <FormField
+                  control={form.control}
+                  name="start_time"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Start Date & Time</FormLabel>
+                      <FormControl>
+                        <Input
+                          type="datetime-local"
+                          min={resource.availability_start}
+                          max={resource.availability_end}
+                          {...field}
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
                 />
-              </div>
 
-              <div className="space-y-2">
-                <Label htmlFor="end_date">End Date & Time</Label>
-                <Input
-                  id="end_date"
-                  type="datetime-local"
-                  value={endDate}
-                  onChange={(e) => setEndDate(e.target.value)}
-                  min={startDate || resource.availability_start}
-                  max={resource.availability_end}
-                  required
+                <FormField
+                  control={form.control}
+                  name="end_time"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>End Date & Time</FormLabel>
+                      <FormControl>
+                        <Input
+                          type="datetime-local"
+                          min={startDate || resource.availability_start}
+                          max={resource.availability_end}
+                          {...field}
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
                 />
-              </div>
 
-              <div className="space-y-2">
-                <Label htmlFor="payment_method">Payment Method</Label>
-                <select
-                  id="payment_method"
-                  value={paymentMethod}
-                  onChange={(e) => setPaymentMethod(e.target.value)}
-                  className="w-full px-3 py-2 border border-input rounded-md bg-background"
-                >
-                  <option value="card">Credit/Debit Card</option>
-                  <option value="paypal">PayPal</option>
-                  <option value="cash">Cash</option>
-                </select>
-              </div>
+                <FormField
+                  control={form.control}
+                  name="payment_method"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Payment Method</FormLabel>
+                      <FormControl>
+                        <select {...field} className="w-full px-3 py-2 border border-input rounded-md bg-background">
+                          {PAYMENT_METHODS.map((method) => (
+                            <option key={method} value={method}>
+                              {paymentMethodLabels[method]}
+                            </option>
+                          ))}
+                        </select>
+                      </FormControl>
+                      <FormDescription>
+                        {paymentMethod === "cash"
+                          ? "Pay the owner in cash at pickup."
+                          : "Your payment is authorized now and only charged once the owner accepts."}
+                      </FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
 
-              {startDate && endDate && (
-                <div className="p-4 bg-muted rounded-lg">
-                  <div className="flex justify-between items-center">
-                    <span>Total Price:</span>
-                    <span className="text-lg font-bold">${calculateTotalPrice()}</span>
+                {startDate && endDate && (
+                  <div className="p-4 bg-muted rounded-lg space-y-2">
+                    {isOutsideSlots ? (
+                      <>
+                        <p className="text-sm text-destructive">
+                          These times are outside the owner's available hours or too close to another booking.
+                        </p>
+                        <Button
+                          type="button"
+                          variant="outline"
+                          size="sm"
+                          disabled={joinWaitlist.isPending}
+                          onClick={handleJoinWaitlist}
+                        >
+                          <Clock className="h-4 w-4 mr-2" />
+                          Join the waitlist for these dates
+                        </Button>
+                      </>
+                    ) : quoteError ? (
+                      <p className="text-sm text-destructive">{quoteError.message}</p>
+                    ) : quote ? (
+                      <>
+                        {quote.lines.map((line) => (
+                          <div key={line.label} className="flex justify-between text-sm">
+                            <span>
+                              {line.label}: {line.quantity} {line.unit}{line.quantity === 1 ? "" : "s"} × ${line.unit_price}
+                            </span>
+                            <span>${line.amount}</span>
+                          </div>
+                        ))}
+                        <div className="flex justify-between items-center border-t pt-2">
+                          <span>Total Price:</span>
+                          <span className="text-lg font-bold">${quote.total}</span>
+                        </div>
+                        {resource.deposit_amount > 0 && (
+                          <p className="text-sm text-muted-foreground">
+                            Plus a ${resource.deposit_amount} refundable deposit, held until the item is returned.
+                          </p>
+                        )}
+                      </>
+                    ) : (
+                      <p className="text-sm text-muted-foreground">Calculating price...</p>
+                    )}
                   </div>
-                </div>
-              )}
+                )}
 
-              <Button type="submit" className="w-full" disabled={booking}>
-                {booking ? "Booking..." : "Submit Booking Request"}
-              </Button>
-            </form>
+                <Button type="submit" className="w-full" disabled={createBooking.isPending || !quote || isOutsideSlots}>
+                  {createBooking.isPending ? "Booking..." : canInstantBook ? "Book Now" : "Submit Booking Request"}
+                </Button>
+              </form>
+            </Form>
           </CardContent>
         </Card>
       </div>
+
+      <div className="max-w-4xl mx-auto mt-12">
+        <h2 className="text-2xl font-bold mb-6">Reviews</h2>
+        <ReviewList reviews={reviews} emptyMessage="No one has reviewed this resource yet." />
+      </div>
+
+      <ReportDialog
+        open={reportOpen}
+        targetType="resource"
+        targetId={resource.id}
+        targetName={resource.title}
+        onOpenChange={setReportOpen}
+      />
     </div>
   );
 };
@@ -1,166 +1,132 @@
 import { useState, useEffect } from "react";
-import { supabase } from "@/integrations/supabase/client";
 import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { useAuth } from "@/contexts/AuthContext";
 import { useNavigate } from "react-router-dom";
+import { useBookingRequests, useMyBookings, useUpdateBookingStatus } from "@/hooks/use-bookings";
+import { useBookingUpdates } from "@/hooks/use-booking-updates";
+import { useDeleteResource, useOwnedResources } from "@/hooks/use-resources";
+import { useReviewedBookingIds } from "@/hooks/use-reviews";
 import { useToast } from "@/hooks/use-toast";
-import { Edit, Trash2, Plus } from "lucide-react";
-
-interface Resource {
-  id: string;
-  title: string;
-  description?: string;
-  category: string;
-  price: number;
-  location: string;
-  image_url?: string;
-  is_available?: boolean;
-}
-
-interface Booking {
-  id: string;
-  start_time: string;
-  end_time: string;
-  total_price: number;
-  status: string;
-  resource_id: string;
-  resources: Resource;
-}
+import { useLeaveWaitlist, useMyWaitlist } from "@/hooks/use-waitlist";
+import { CalendarDays, Edit, Trash2, Plus } from "lucide-react";
+import BookingCard, { DashboardBooking } from "@/components/BookingCard";
+import CalendarFeedsDialog from "@/components/CalendarFeedsDialog";
+import ReviewDialog from "@/components/ReviewDialog";
+import DamageClaimDialog from "@/components/DamageClaimDialog";
+import DamageClaimDetailsDialog from "@/components/DamageClaimDetailsDialog";
+import EarningsTab from "@/components/EarningsTab";
+import WaitlistTab from "@/components/WaitlistTab";
+import { BookingParty, BookingStatus, bookingStatusLabels, getBookingErrorMessage } from "@/lib/bookings";
+import { PaymentError } from "@/lib/payments";
+import { openConversation } from "@/lib/messaging";
+import { getCoverImageUrl } from "@/lib/images";
+import { formatWaitlistDates, isOfferLive, WaitlistStatus, waitlistStatusLabels } from "@/lib/waitlist";
 
 const Dashboard = () => {
   const { user } = useAuth();
   const navigate = useNavigate();
   const { toast } = useToast();
-  const [myResources, setMyResources] = useState<Resource[]>([]);
-  const [myBookings, setMyBookings] = useState<Booking[]>([]);
-  const [resourceBookings, setResourceBookings] = useState<Booking[]>([]);
-  const [loading, setLoading] = useState(true);
+  const { data: myResources = [], isLoading: resourcesLoading } = useOwnedResources(user?.id);
+  const { data: myBookings = [], isLoading: bookingsLoading } = useMyBookings(user?.id);
+  const { data: resourceBookings = [], isLoading: requestsLoading } = useBookingRequests(user?.id);
+  const { data: reviewedBookingIds = [] } = useReviewedBookingIds(user?.id);
+  const { data: myWaitlist = [] } = useMyWaitlist(user?.id);
+  const deleteResource = useDeleteResource(user?.id);
+  const updateBookingStatus = useUpdateBookingStatus();
+  const leaveWaitlist = useLeaveWaitlist();
+  const [reviewTarget, setReviewTarget] = useState<{ booking: DashboardBooking; party: "owner" | "renter" } | null>(null);
+  const [claimFormBooking, setClaimFormBooking] = useState<DashboardBooking | null>(null);
+  const [claimDetailsTarget, setClaimDetailsTarget] = useState<{ booking: DashboardBooking; party: BookingParty } | null>(null);
+  const [calendarFeedsOpen, setCalendarFeedsOpen] = useState(false);
+  const loading = resourcesLoading || bookingsLoading || requestsLoading;
+
+  useBookingUpdates();
 
   useEffect(() => {
     if (!user) {
       navigate("/auth");
-      return;
     }
-    fetchDashboardData();
   }, [user, navigate]);
 
-  const fetchDashboardData = async () => {
-    if (!user) return;
-
-    try {
-      // Fetch user's resources
-      const { data: resources, error: resourcesError } = await supabase
-        .from("resources")
-        .select("*")
-        .eq("owner_id", user.id)
-        .order("created_at", { ascending: false });
-
-      if (resourcesError) throw resourcesError;
-      setMyResources(resources || []);
-
-      // Fetch user's bookings (as renter)
-      const { data: bookings, error: bookingsError } = await supabase
-        .from("bookings")
-        .select(`
-          *,
-          resources (
-            id,
-            title,
-            category,
-            price,
-            location,
-            image_url
-          )
-        `)
-        .eq("renter_id", user.id)
-        .order("created_at", { ascending: false });
-
-      if (bookingsError) throw bookingsError;
-      setMyBookings(bookings || []);
-
-      // Fetch bookings for user's resources (as owner)
-      const { data: resourceBookingsData, error: resourceBookingsError } = await supabase
-        .from("bookings")
-        .select(`
-          *,
-          resources (
-            id,
-            title,
-            category,
-            price,
-            location,
-            image_url
-          )
-        `)
-        .eq("owner_id", user.id)
-        .order("created_at", { ascending: false });
-
-      if (resourceBookingsError) throw resourceBookingsError;
-      setResourceBookings(resourceBookingsData || []);
-
-    } catch (error) {
-      console.error("Error fetching dashboard data:", error);
-      toast({
-        title: "Error",
-        description: "Failed to load dashboard data",
-        variant: "destructive",
-      });
-    } finally {
-      setLoading(false);
-    }
+  const handleDeleteResource = (resourceId: string) => {
+    deleteResource.mutate(resourceId, {
+      onSuccess: () => {
+        toast({
+          title: "Success",
+          description: "Resource deleted successfully",
+        });
+      },
+      onError: (error) => {
+        console.error("Error deleting resource:", error);
+        toast({
+          title: "Error",
+          description: "Failed to delete resource",
+          variant: "destructive",
+        });
+      },
+    });
   };
 
-  const deleteResource = async (resourceId: string) => {
-    try {
-      const { error } = await supabase
-        .from("resources")
-        .delete()
-        .eq("id", resourceId);
+  const handleClaimChanged = () => {
+    setClaimFormBooking(null);
+    setClaimDetailsTarget(null);
+  };
 
-      if (error) throw error;
+  const handleStatusChange = (bookingId: string, status: BookingStatus) => {
+    updateBookingStatus.mutate(
+      { bookingId, status },
+      {
+        onSuccess: () => {
+          toast({
+            title: "Success",
+            description: `Booking marked as ${bookingStatusLabels[status].toLowerCase()}`,
+          });
+        },
+        onError: (error) => {
+          console.error("Error updating booking:", error);
+          toast({
+            title: "Error",
+            description: error instanceof PaymentError
+              ? error.message
+              : getBookingErrorMessage(error, "Failed to update booking"),
+            variant: "destructive",
+          });
+        },
+      }
+    );
+  };
 
-      setMyResources(prev => prev.filter(r => r.id !== resourceId));
-      toast({
-        title: "Success",
-        description: "Resource deleted successfully",
-      });
-    } catch (error) {
-      console.error("Error deleting resource:", error);
-      toast({
-        title: "Error",
-        description: "Failed to delete resource",
-        variant: "destructive",
-      });
-    }
+  const handleLeaveWaitlist = (entryId: string) => {
+    leaveWaitlist.mutate(entryId, {
+      onSuccess: () => {
+        toast({
+          title: "Success",
+          description: "You left the waitlist",
+        });
+      },
+      onError: (error) => {
+        console.error("Error leaving waitlist:", error);
+        toast({
+          title: "Error",
+          description: getBookingErrorMessage(error, "Failed to leave the waitlist"),
+          variant: "destructive",
+        });
+      },
+    });
   };
 
-  const updateBookingStatus = async (bookingId: string, status: string) => {
+  const messageCounterpart = async (booking: DashboardBooking) => {
     try {
-      const { error } = await supabase
-        .from("bookings")
-        .update({ status })
-        .eq("id", bookingId);
-
-      if (error) throw error;
-
-      setResourceBookings(prev => 
-        prev.map(booking => 
-          booking.id === bookingId ? { ...booking, status } : booking
-        )
-      );
-
-      toast({
-        title: "Success",
-        description: `Booking ${status} successfully`,
-      });
+      const conversationId = await openConversation(booking.resource_id, booking.id);
+      navigate(`/inbox/${conversationId}`);
     } catch (error) {
-      console.error("Error updating booking:", error);
+      console.error("Error opening conversation:", error);
       toast({
         title: "Error",
-        description: "Failed to update booking",
+        description: "Failed to open conversation",
         variant: "destructive",
       });
     }
@@ -178,10 +144,16 @@ const Dashboard = () => {
     <div className="container mx-auto px-4 py-8">
       <div className="flex justify-between items-center mb-8">
         <h1 className="text-3xl font-bold">Dashboard</h1>
-        <Button onClick={() => navigate("/add-resource")}>
-          <Plus className="h-4 w-4 mr-2" />
-          Add Resource
-        </Button>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={() => setCalendarFeedsOpen(true)}>
+            <CalendarDays className="h-4 w-4 mr-2" />
+            Calendar sync
+          </Button>
+          <Button onClick={() => navigate("/add-resource")}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add Resource
+          </Button>
+        </div>
       </div>
 
       <Tabs defaultValue="resources" className="space-y-6">
@@ -189,15 +161,17 @@ const Dashboard = () => {
           <TabsTrigger value="resources">My Resources</TabsTrigger>
           <TabsTrigger value="bookings">My Bookings</TabsTrigger>
           <TabsTrigger value="requests">Booking Requests</TabsTrigger>
+          <TabsTrigger value="waitlists">Waitlists</TabsTrigger>
+          <TabsTrigger value="earnings">Earnings</TabsTrigger>
         </TabsList>
 
         <TabsContent value="resources">
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
             {myResources.map((resource) => (
               <Card key={resource.id}>
-                {resource.image_url && (
+                {getCoverImageUrl(resource) && (
                   <img
-                    src={resource.image_url}
+                    src={getCoverImageUrl(resource)}
                     alt={resource.title}
                     className="w-full h-48 object-cover"
                   />
@@ -205,12 +179,21 @@ const Dashboard = () => {
                 <CardHeader>
                   <div className="flex justify-between items-start">
                     <CardTitle className="text-lg">{resource.title}</CardTitle>
-                    <Badge variant={resource.is_available ? "default" : "secondary"}>
-                      {resource.is_available ? "Available" : "Unavailable"}
-                    </Badge>
+                    {resource.unpublished_at ? (
+                      <Badge variant="destructive">Unpublished</Badge>
+                    ) : (
+                      <Badge variant={resource.is_available ? "default" : "secondary"}>
+                        {resource.is_available ? "Available" : "Unavailable"}
+                      </Badge>
+                    )}
                   </div>
                 </CardHeader>
                 <CardContent>
+                  {resource.unpublished_at && (
+                    <p className="text-sm text-destructive mb-2">
+                      Unpublished by a moderator: {resource.unpublished_reason}
+                    </p>
+                  )}
                   <p className="text-muted-foreground mb-4 line-clamp-2">
                     {resource.description}
                   </p>
@@ -227,7 +210,7 @@ const Dashboard = () => {
                     <Button
                       variant="destructive"
                       size="sm"
-                      onClick={() => deleteResource(resource.id)}
+                      onClick={() => handleDeleteResource(resource.id)}
                     >
                       <Trash2 className="h-4 w-4 mr-2" />
                       Delete
@@ -241,26 +224,55 @@ const Dashboard = () => {
 
         <TabsContent value="bookings">
           <div className="space-y-4">
-            {myBookings.map((booking) => (
-              <Card key={booking.id}>
-                <CardContent className="p-6">
-                  <div className="flex justify-between items-start">
-                    <div>
-                      <h3 className="font-semibold">{booking.resources.title}</h3>
-                      <p className="text-muted-foreground">
-                        {new Date(booking.start_time).toLocaleDateString()} - {new Date(booking.end_time).toLocaleDateString()}
-                      </p>
-                      <p className="font-semibold">${booking.total_price}</p>
+            {myWaitlist.length > 0 && (
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-lg">Waitlist</CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-3">
+                  {myWaitlist.map((entry) => (
+                    <div key={entry.id} className="flex items-center justify-between gap-4">
+                      <div>
+                        <p className="font-medium">{entry.resources?.title}</p>
+                        <p className="text-sm text-muted-foreground">
+                          {formatWaitlistDates(entry)}
+                          {" · "}
+                          {isOfferLive(entry)
+                            ? `Held for you until ${new Date(entry.offer_expires_at!).toLocaleString()}`
+                            : waitlistStatusLabels[entry.status as WaitlistStatus] ?? entry.status}
+                        </p>
+                      </div>
+                      <div className="flex gap-2">
+                        {isOfferLive(entry) && (
+                          <Button size="sm" onClick={() => navigate(`/book/${entry.resource_id}`)}>
+                            Book
+                          </Button>
+                        )}
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          disabled={leaveWaitlist.isPending}
+                          onClick={() => handleLeaveWaitlist(entry.id)}
+                        >
+                          Leave
+                        </Button>
+                      </div>
                     </div>
-                    <Badge variant={
-                      booking.status === "confirmed" ? "default" :
-                      booking.status === "pending" ? "secondary" : "destructive"
-                    }>
-                      {booking.status}
-                    </Badge>
-                  </div>
+                  ))}
                 </CardContent>
               </Card>
+            )}
+            {myBookings.map((booking) => (
+              <BookingCard
+                key={booking.id}
+                booking={booking}
+                party="renter"
+                onStatusChange={handleStatusChange}
+                onMessage={messageCounterpart}
+                canReview={booking.status === "completed" && !reviewedBookingIds.includes(booking.id)}
+                onReview={(b) => setReviewTarget({ booking: b, party: "renter" })}
+                onViewClaim={(b) => setClaimDetailsTarget({ booking: b, party: "renter" })}
+              />
             ))}
           </div>
         </TabsContent>
@@ -268,48 +280,65 @@ const Dashboard = () => {
         <TabsContent value="requests">
           <div className="space-y-4">
             {resourceBookings.map((booking) => (
-              <Card key={booking.id}>
-                <CardContent className="p-6">
-                  <div className="flex justify-between items-start">
-                    <div>
-                      <h3 className="font-semibold">{booking.resources.title}</h3>
-                      <p className="text-muted-foreground">
-                        {new Date(booking.start_time).toLocaleDateString()} - {new Date(booking.end_time).toLocaleDateString()}
-                      </p>
-                      <p className="font-semibold">${booking.total_price}</p>
-                    </div>
-                    <div className="flex items-center gap-2">
-                      <Badge variant={
-                        booking.status === "confirmed" ? "default" :
-                        booking.status === "pending" ? "secondary" : "destructive"
-                      }>
-                        {booking.status}
-                      </Badge>
-                      {booking.status === "pending" && (
-                        <div className="flex gap-2">
-                          <Button
-                            size="sm"
-                            onClick={() => updateBookingStatus(booking.id, "confirmed")}
-                          >
-                            Accept
-                          </Button>
-                          <Button
-                            size="sm"
-                            variant="destructive"
-                            onClick={() => updateBookingStatus(booking.id, "rejected")}
-                          >
-                            Reject
-                          </Button>
-                        </div>
-                      )}
-                    </div>
-                  </div>
-                </CardContent>
-              </Card>
+              <BookingCard
+                key={booking.id}
+                booking={booking}
+                party="owner"
+                onStatusChange={handleStatusChange}
+                onMessage={messageCounterpart}
+                canReview={booking.status === "completed" && !reviewedBookingIds.includes(booking.id)}
+                onReview={(b) => setReviewTarget({ booking: b, party: "owner" })}
+                onFileClaim={setClaimFormBooking}
+                onViewClaim={(b) => setClaimDetailsTarget({ booking: b, party: "owner" })}
+              />
             ))}
           </div>
         </TabsContent>
+
+        <TabsContent value="waitlists">
+          <WaitlistTab userId={user?.id} />
+        </TabsContent>
+
+        <TabsContent value="earnings">
+          <EarningsTab resources={myResources} />
+        </TabsContent>
       </Tabs>
+
+      <ReviewDialog
+        bookingId={reviewTarget?.booking.id ?? null}
+        title={reviewTarget?.party === "owner" ? "Review the renter" : "Review this rental"}
+        description={
+          reviewTarget?.party === "owner"
+            ? "How did the renter treat your item and communicate?"
+            : `How was renting "${reviewTarget?.booking.resources.title}" and dealing with its owner?`
+        }
+        onOpenChange={(open) => !open && setReviewTarget(null)}
+        onSubmitted={() => setReviewTarget(null)}
+      />
+
+      <DamageClaimDialog
+        booking={claimFormBooking}
+        onOpenChange={(open) => !open && setClaimFormBooking(null)}
+        onSubmitted={handleClaimChanged}
+      />
+
+      <DamageClaimDetailsDialog
+        booking={claimDetailsTarget?.booking ?? null}
+        party={claimDetailsTarget?.party ?? "renter"}
+        onOpenChange={(open) => !open && setClaimDetailsTarget(null)}
+        onChanged={handleClaimChanged}
+        onRevise={(booking) => {
+          setClaimDetailsTarget(null);
+          setClaimFormBooking(booking);
+        }}
+      />
+
+      <CalendarFeedsDialog
+        open={calendarFeedsOpen}
+        userId={user?.id}
+        resources={myResources}
+        onOpenChange={setCalendarFeedsOpen}
+      />
     </div>
   );
 };
@@ -0,0 +1,207 @@
+import { useState, useEffect } from "react";
+import { useParams, useNavigate } from "react-router-dom";
+import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import ResourceForm from "@/components/ResourceForm";
+import { useAuth } from "@/contexts/AuthContext";
+import { useEditableResource, useSaveResource } from "@/hooks/use-resources";
+import { useToast } from "@/hooks/use-toast";
+import { BookingStatus, bookingStatusLabels, getBookingErrorMessage } from "@/lib/bookings";
+import { Resource, ResourceFormData, toResourceFormData, toResourcePayload } from "@/lib/resources";
+
+interface ActiveBooking {
+  id: string;
+  start_time: string;
+  end_time: string;
+  status: BookingStatus;
+}
+
+const formatBookingDates = (booking: ActiveBooking) =>
+  `${new Date(booking.start_time).toLocaleDateString()} - ${new Date(booking.end_time).toLocaleDateString()}`;
+
+// Describe how the pending edit would clash with bookings that are still active
+const findBookingConflicts = (
+  resource: Resource,
+  formData: ResourceFormData,
+  activeBookings: ActiveBooking[]
+) => {
+  const payload = toResourcePayload(formData);
+  const windowStart = new Date(payload.availability_start);
+  const windowEnd = new Date(payload.availability_end);
+  const conflicts: string[] = [];
+
+  activeBookings
+    .filter(
+      (booking) =>
+        new Date(booking.start_time) < windowStart || new Date(booking.end_time) > windowEnd
+    )
+    .forEach((booking) => {
+      conflicts.push(
+        `The ${bookingStatusLabels[booking.status].toLowerCase()} booking for ${formatBookingDates(booking)} falls outside the new availability window.`
+      );
+    });
+
+  activeBookings
+    .filter((booking) =>
+      formData.blackouts.some(
+        (blackout) =>
+          new Date(booking.start_time) < new Date(`${blackout.end_date}T23:59`) &&
+          new Date(booking.end_time) > new Date(`${blackout.start_date}T00:00`)
+      )
+    )
+    .forEach((booking) => {
+      conflicts.push(
+        `The ${bookingStatusLabels[booking.status].toLowerCase()} booking for ${formatBookingDates(booking)} overlaps a blackout and will not be cancelled.`
+      );
+    });
+
+  if (payload.price !== Number(resource.price) && activeBookings.length > 0) {
+    conflicts.push(
+      `${activeBookings.length} active booking(s) were made at $${resource.price}/day and will keep that price.`
+    );
+  }
+
+  if (!payload.is_available && activeBookings.length > 0) {
+    conflicts.push(
+      `Unlisting the resource does not cancel its ${activeBookings.length} active booking(s).`
+    );
+  }
+
+  return conflicts;
+};
+
+const EditResource = () => {
+  const { id } = useParams<{ id: string }>();
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const { data, isLoading: loading, isError } = useEditableResource(id, user?.id);
+  const saveResource = useSaveResource();
+  const [pendingUpdate, setPendingUpdate] = useState<ResourceFormData | null>(null);
+  const [conflicts, setConflicts] = useState<string[]>([]);
+  const resource = data?.resource;
+
+  useEffect(() => {
+    if (!user) {
+      navigate("/auth");
+    }
+  }, [user, navigate]);
+
+  useEffect(() => {
+    if (isError) {
+      navigate("/dashboard");
+    }
+  }, [isError, navigate]);
+
+  const submitUpdate = (formData: ResourceFormData) => {
+    if (!resource) return;
+
+    saveResource.mutate(
+      { resourceId: resource.id, ownerId: resource.owner_id, formData },
+      {
+        onSuccess: () => {
+          toast({
+            title: "Success!",
+            description: "Resource updated successfully",
+          });
+          navigate("/dashboard");
+        },
+        onError: (error) => {
+          console.error("Error updating resource:", error);
+          toast({
+            title: "Error",
+            description: getBookingErrorMessage(error, "Failed to update resource"),
+            variant: "destructive",
+          });
+        },
+      }
+    );
+  };
+
+  const handleSubmit = (formData: ResourceFormData) => {
+    if (!data || !resource) return;
+
+    const bookingConflicts = findBookingConflicts(resource, formData, data.activeBookings);
+    if (bookingConflicts.length > 0) {
+      setConflicts(bookingConflicts);
+      setPendingUpdate(formData);
+      return;
+    }
+    submitUpdate(formData);
+  };
+
+  const confirmPendingUpdate = () => {
+    if (pendingUpdate) {
+      submitUpdate(pendingUpdate);
+    }
+    setPendingUpdate(null);
+  };
+
+  if (loading) {
+    return (
+      <div className="container mx-auto px-4 py-8">
+        <div className="text-center">Loading resource...</div>
+      </div>
+    );
+  }
+
+  if (!data || !resource) {
+    return (
+      <div className="container mx-auto px-4 py-8">
+        <div className="text-center">Resource not found</div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <Card className="max-w-2xl mx-auto">
+        <CardHeader>
+          <CardTitle>Edit Resource</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <ResourceForm
+            initialData={toResourceFormData(resource, data.images, data.exactLocation, data.weeklyHours, data.blackouts)}
+            submitLabel="Save Changes"
+            submittingLabel="Saving..."
+            loading={saveResource.isPending}
+            showAvailabilityToggle
+            calendarImport={resource}
+            onSubmit={handleSubmit}
+            onCancel={() => navigate("/dashboard")}
+          />
+        </CardContent>
+      </Card>
+
+      <AlertDialog open={pendingUpdate !== null} onOpenChange={(open) => !open && setPendingUpdate(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>This change affects active bookings</AlertDialogTitle>
+            <AlertDialogDescription asChild>
+              <ul className="list-disc pl-5 space-y-1">
+                {conflicts.map((conflict) => (
+                  <li key={conflict}>{conflict}</li>
+                ))}
+              </ul>
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Keep Editing</AlertDialogCancel>
+            <AlertDialogAction onClick={confirmPendingUpdate}>Save Anyway</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default EditResource;
@@ -0,0 +1,106 @@
+import { useEffect } from "react";
+import { Link, useNavigate, useParams } from "react-router-dom";
+import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import ConversationThread from "@/components/ConversationThread";
+import { useAuth } from "@/contexts/AuthContext";
+import { Conversation, useConversations } from "@/hooks/use-conversations";
+import { getInitials } from "@/lib/profiles";
+import { cn } from "@/lib/utils";
+
+const Inbox = () => {
+  const { conversationId } = useParams<{ conversationId: string }>();
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const { data, isLoading: loading } = useConversations(user?.id);
+  const conversations = data?.conversations ?? [];
+  const profiles = data?.profiles ?? {};
+  const unreadCounts = data?.unreadCounts ?? {};
+
+  useEffect(() => {
+    if (!user) {
+      navigate("/auth");
+    }
+  }, [user, navigate]);
+
+  if (loading) {
+    return (
+      <div className="container mx-auto px-4 py-8">
+        <div className="text-center">Loading messages...</div>
+      </div>
+    );
+  }
+
+  const selected = conversations.find(c => c.id === conversationId);
+  const counterpartOf = (conversation: Conversation) =>
+    profiles[conversation.renter_id === user?.id ? conversation.owner_id : conversation.renter_id];
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <h1 className="text-3xl font-bold mb-8">Messages</h1>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        <Card className="md:col-span-1">
+          <CardContent className="p-2">
+            {conversations.length === 0 ? (
+              <p className="text-muted-foreground p-4 text-center">No conversations yet.</p>
+            ) : (
+              <div className="space-y-1">
+                {conversations.map((conversation) => {
+                  const counterpart = counterpartOf(conversation);
+                  const unread = unreadCounts[conversation.id] ?? 0;
+                  return (
+                    <Link
+                      key={conversation.id}
+                      to={`/inbox/${conversation.id}`}
+                      className={cn(
+                        "flex items-center gap-3 rounded-md p-3 hover:bg-muted",
+                        conversation.id === conversationId && "bg-muted"
+                      )}
+                    >
+                      <Avatar>
+                        {counterpart?.avatar_url && <AvatarImage src={counterpart.avatar_url} alt="" />}
+                        <AvatarFallback>{getInitials(counterpart?.name)}</AvatarFallback>
+                      </Avatar>
+                      <div className="flex-1 min-w-0">
+                        <p className="font-medium truncate">{counterpart?.name ?? "Member"}</p>
+                        <p className="text-sm text-muted-foreground truncate">
+                          {conversation.resources?.title}
+                          {conversation.booking_id ? "" : " · Question"}
+                        </p>
+                      </div>
+                      {unread > 0 && <Badge>{unread}</Badge>}
+                    </Link>
+                  );
+                })}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card className="md:col-span-2">
+          {selected && user ? (
+            <>
+              <CardHeader>
+                <CardTitle className="text-lg">
+                  {counterpartOf(selected)?.name ?? "Member"}
+                  <span className="text-muted-foreground font-normal"> · {selected.resources?.title}</span>
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <ConversationThread conversationId={selected.id} userId={user.id} />
+              </CardContent>
+            </>
+          ) : (
+            <CardContent className="p-6 text-center text-muted-foreground">
+              Select a conversation to read it.
+            </CardContent>
+          )}
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default Inbox;
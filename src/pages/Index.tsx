@@ -1,44 +1,18 @@
-import { useEffect, useState } from "react";
 import { Link } from "react-router-dom";
 import { Button } from "@/components/ui/button";
 import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import { supabase } from "@/integrations/supabase/client";
 import { useAuth } from "@/contexts/AuthContext";
+import { useFeaturedResources } from "@/hooks/use-resources";
 import { Search, Share2, Shield, Users } from "lucide-react";
-
-interface Resource {
-  id: string;
-  title: string;
-  description: string;
-  category: string;
-  price: number;
-  location: string;
-  image_url?: string;
-}
+import RatingStars from "@/components/RatingStars";
+import { getCoverImageUrl } from "@/lib/images";
 
 const Index = () => {
   const { user } = useAuth();
-  const [featuredResources, setFeaturedResources] = useState<Resource[]>([]);
-
-  useEffect(() => {
-    fetchFeaturedResources();
-  }, []);
-
-  const fetchFeaturedResources = async () => {
-    try {
-      const { data } = await supabase
-        .from("resources")
-        .select("*")
-        .eq("is_available", true)
-        .order("created_at", { ascending: false })
-        .limit(6);
-      
-      setFeaturedResources(data || []);
-    } catch (error) {
-      console.error("Error fetching featured resources:", error);
-    }
-  };
+  const { data } = useFeaturedResources();
+  const featuredResources = data?.resources ?? [];
+  const ratings = data?.ratings ?? {};
 
   return (
     <div className="min-h-screen bg-background">
@@ -124,9 +98,9 @@ const Index = () => {
             <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
               {featuredResources.map((resource) => (
                 <Card key={resource.id} className="overflow-hidden">
-                  {resource.image_url && (
+                  {getCoverImageUrl(resource) && (
                     <img
-                      src={resource.image_url}
+                      src={getCoverImageUrl(resource)}
                       alt={resource.title}
                       className="w-full h-48 object-cover"
                     />
@@ -136,6 +110,10 @@ const Index = () => {
                       <CardTitle className="text-lg">{resource.title}</CardTitle>
                       <Badge variant="secondary">{resource.category}</Badge>
                     </div>
+                    <RatingStars
+                      rating={ratings[resource.id]?.average_rating ?? 0}
+                      reviewCount={ratings[resource.id]?.review_count ?? 0}
+                    />
                   </CardHeader>
                   <CardContent>
                     <p className="text-muted-foreground mb-4 line-clamp-2">
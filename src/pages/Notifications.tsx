@@ -0,0 +1,101 @@
+import { useEffect } from "react";
+import { useNavigate } from "react-router-dom";
+import { formatDistanceToNow } from "date-fns";
+import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import NotificationPreferences from "@/components/NotificationPreferences";
+import { useAuth } from "@/contexts/AuthContext";
+import { useMarkNotificationsRead, useNotifications } from "@/hooks/use-notifications";
+import { useToast } from "@/hooks/use-toast";
+import { Notification } from "@/lib/notifications";
+import { cn } from "@/lib/utils";
+
+const Notifications = () => {
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const { data: notifications = [], isLoading: loading } = useNotifications(user?.id);
+  const markNotificationsRead = useMarkNotificationsRead(user?.id);
+
+  useEffect(() => {
+    if (!user) {
+      navigate("/auth");
+    }
+  }, [user, navigate]);
+
+  const markRead = (ids?: string[]) => {
+    markNotificationsRead.mutate(ids, {
+      onError: (error) => {
+        console.error("Error marking notifications read:", error);
+        toast({
+          title: "Error",
+          description: "Failed to update notifications",
+          variant: "destructive",
+        });
+      },
+    });
+  };
+
+  const openNotification = (notification: Notification) => {
+    if (!notification.read_at) markRead([notification.id]);
+    if (notification.link) navigate(notification.link);
+  };
+
+  if (loading) {
+    return (
+      <div className="container mx-auto px-4 py-8">
+        <div className="text-center">Loading notifications...</div>
+      </div>
+    );
+  }
+
+  const hasUnread = notifications.some(n => !n.read_at);
+
+  return (
+    <div className="container mx-auto px-4 py-8 max-w-3xl space-y-6">
+      <Card>
+        <CardHeader>
+          <div className="flex justify-between items-center">
+            <CardTitle>Notifications</CardTitle>
+            <Button variant="outline" size="sm" onClick={() => markRead()} disabled={!hasUnread}>
+              Mark all as read
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {notifications.length === 0 ? (
+            <p className="text-center text-muted-foreground py-8">You have no notifications yet.</p>
+          ) : (
+            <div className="divide-y">
+              {notifications.map(notification => (
+                <button
+                  key={notification.id}
+                  type="button"
+                  onClick={() => openNotification(notification)}
+                  className={cn(
+                    "w-full text-left py-3 px-2 rounded-md hover:bg-muted",
+                    !notification.read_at && "bg-muted/50"
+                  )}
+                >
+                  <div className="flex justify-between items-start gap-4">
+                    <p className={cn("text-sm", !notification.read_at && "font-semibold")}>
+                      {notification.title}
+                    </p>
+                    <span className="text-xs text-muted-foreground whitespace-nowrap">
+                      {formatDistanceToNow(new Date(notification.created_at), { addSuffix: true })}
+                    </span>
+                  </div>
+                  <p className="text-sm text-muted-foreground">{notification.body}</p>
+                </button>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {user && <NotificationPreferences userId={user.id} />}
+    </div>
+  );
+};
+
+export default Notifications;
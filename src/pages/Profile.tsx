@@ -0,0 +1,242 @@
+import { useState, useEffect, useRef } from "react";
+import { Link, useNavigate } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { useAuth } from "@/contexts/AuthContext";
+import { useOwnProfile, useUpdateProfile } from "@/hooks/use-profiles";
+import { useToast } from "@/hooks/use-toast";
+import { getInitials, PhoneVisibility, phoneVisibilityLabels, uploadAvatar } from "@/lib/profiles";
+import { Camera } from "lucide-react";
+
+interface ProfileFormData {
+  name: string;
+  location: string;
+  show_location: boolean;
+  phone: string;
+  phone_visibility: PhoneVisibility;
+  avatar_url: string | null;
+}
+
+const Profile = () => {
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { data: profile, isLoading: loading } = useOwnProfile(user?.id);
+  const updateProfile = useUpdateProfile(user?.id);
+  const [uploading, setUploading] = useState(false);
+  const [formData, setFormData] = useState<ProfileFormData>({
+    name: "",
+    location: "",
+    show_location: true,
+    phone: "",
+    phone_visibility: "counterparties",
+    avatar_url: null,
+  });
+
+  useEffect(() => {
+    if (!user) {
+      navigate("/auth");
+    }
+  }, [user, navigate]);
+
+  useEffect(() => {
+    if (!profile) return;
+    setFormData({
+      name: profile.name,
+      location: profile.location ?? "",
+      show_location: profile.show_location,
+      phone: profile.phone ?? "",
+      phone_visibility: profile.phone_visibility as PhoneVisibility,
+      avatar_url: profile.avatar_url,
+    });
+  }, [profile]);
+
+  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+    const { name, value } = e.target;
+    setFormData(prev => ({ ...prev, [name]: value }));
+  };
+
+  const handleAvatarChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file || !user) return;
+
+    setUploading(true);
+    try {
+      const avatarUrl = await uploadAvatar(user.id, file);
+      setFormData(prev => ({ ...prev, avatar_url: avatarUrl }));
+    } catch (error) {
+      console.error("Error uploading avatar:", error);
+      toast({
+        title: "Error",
+        description: "Failed to upload photo",
+        variant: "destructive",
+      });
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user) return;
+
+    if (!formData.name.trim()) {
+      toast({
+        title: "Error",
+        description: "Name is required",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    updateProfile.mutate(
+      {
+        name: formData.name.trim(),
+        location: formData.location.trim() || null,
+        show_location: formData.show_location,
+        phone: formData.phone.trim() || null,
+        phone_visibility: formData.phone_visibility,
+        avatar_url: formData.avatar_url,
+      },
+      {
+        onSuccess: () => {
+          toast({
+            title: "Success!",
+            description: "Profile updated successfully",
+          });
+        },
+        onError: (error) => {
+          console.error("Error updating profile:", error);
+          toast({
+            title: "Error",
+            description: "Failed to update profile",
+            variant: "destructive",
+          });
+        },
+      }
+    );
+  };
+
+  if (loading) {
+    return (
+      <div className="container mx-auto px-4 py-8">
+        <div className="text-center">Loading profile...</div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <Card className="max-w-2xl mx-auto">
+        <CardHeader>
+          <div className="flex justify-between items-center">
+            <CardTitle>Profile Settings</CardTitle>
+            {user && (
+              <Link to={`/users/${user.id}`} className="text-sm text-primary hover:underline">
+                View public profile
+              </Link>
+            )}
+          </div>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSubmit} className="space-y-6">
+            <div className="flex items-center gap-4">
+              <Avatar className="h-20 w-20">
+                {formData.avatar_url && <AvatarImage src={formData.avatar_url} alt={formData.name} />}
+                <AvatarFallback className="text-xl">{getInitials(formData.name)}</AvatarFallback>
+              </Avatar>
+              <Button
+                type="button"
+                variant="outline"
+                disabled={uploading}
+                onClick={() => fileInputRef.current?.click()}
+              >
+                <Camera className="h-4 w-4 mr-2" />
+                {uploading ? "Uploading..." : "Change Photo"}
+              </Button>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept="image/*"
+                className="hidden"
+                onChange={handleAvatarChange}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="name">Name</Label>
+              <Input
+                id="name"
+                name="name"
+                value={formData.name}
+                onChange={handleInputChange}
+                required
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="location">Location</Label>
+              <Input
+                id="location"
+                name="location"
+                value={formData.location}
+                onChange={handleInputChange}
+              />
+              <div className="flex items-center gap-2">
+                <Switch
+                  id="show_location"
+                  checked={formData.show_location}
+                  onCheckedChange={(checked) => setFormData(prev => ({ ...prev, show_location: checked }))}
+                />
+                <Label htmlFor="show_location" className="font-normal">
+                  Show my location on my public profile
+                </Label>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="phone">Phone</Label>
+                <Input
+                  id="phone"
+                  name="phone"
+                  type="tel"
+                  value={formData.phone}
+                  onChange={handleInputChange}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="phone_visibility">Who can see my phone</Label>
+                <select
+                  id="phone_visibility"
+                  name="phone_visibility"
+                  value={formData.phone_visibility}
+                  onChange={handleInputChange}
+                  className="w-full px-3 py-2 border border-input rounded-md bg-background"
+                >
+                  {(Object.keys(phoneVisibilityLabels) as PhoneVisibility[]).map((visibility) => (
+                    <option key={visibility} value={visibility}>
+                      {phoneVisibilityLabels[visibility]}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            </div>
+
+            <Button type="submit" className="w-full" disabled={updateProfile.isPending || uploading}>
+              {updateProfile.isPending ? "Saving..." : "Save Profile"}
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default Profile;
@@ -1,124 +1,383 @@
-import { useState, useEffect } from "react";
-import { supabase } from "@/integrations/supabase/client";
+import { useState, useEffect, useMemo, useRef, useCallback } from "react";
 import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Badge } from "@/components/ui/badge";
-import { MapPin, Calendar, DollarSign, Search } from "lucide-react";
-import { useNavigate } from "react-router-dom";
+import { MapPin, Calendar, DollarSign, Search, LocateFixed, List, Map as MapIcon, Navigation } from "lucide-react";
+import { useNavigate, useSearchParams } from "react-router-dom";
+import { useCategories } from "@/hooks/use-categories";
+import { useResources } from "@/hooks/use-resources";
 import { useToast } from "@/hooks/use-toast";
-
-interface Resource {
-  id: string;
-  title: string;
-  description: string;
-  category: string;
-  price: number;
-  location: string;
-  image_url?: string;
-  availability_start: string;
-  availability_end: string;
-  is_available: boolean;
-}
+import CategoryIcon from "@/components/CategoryIcon";
+import RatingStars from "@/components/RatingStars";
+import ResourceMap, { MapListing } from "@/components/ResourceMap";
+import { getResourceImageUrl } from "@/lib/images";
+import { getBookingErrorMessage } from "@/lib/bookings";
+import { flattenCategoryTree, getCategoryAttributes, getCategoryOptionLabel, getFacetAttributes } from "@/lib/categories";
+import { formatDistance, geocodeAddress, getCurrentPosition } from "@/lib/geocoding";
+import {
+  hasSearchOrigin,
+  isResourceSort,
+  parseResourceSearchParams,
+  ResourceSearchFilters,
+  resourceSortLabels,
+  SEARCH_RADIUS_OPTIONS_KM,
+  toResourceSearchParams,
+} from "@/lib/search";
 
 const Resources = () => {
-  const [resources, setResources] = useState<Resource[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [searchTerm, setSearchTerm] = useState("");
-  const [selectedCategory, setSelectedCategory] = useState("");
+  const [searchParams, setSearchParams] = useSearchParams();
+  // Keyed on the normalized filters so toggling the view does not refetch
+  const filterKey = toResourceSearchParams(parseResourceSearchParams(searchParams)).toString();
+  const filters = useMemo(() => parseResourceSearchParams(new URLSearchParams(filterKey)), [filterKey]);
+  const [searchTerm, setSearchTerm] = useState(filters.query);
+  const [minPrice, setMinPrice] = useState(filters.minPrice);
+  const [maxPrice, setMaxPrice] = useState(filters.maxPrice);
+  const [near, setNear] = useState(filters.near);
+  const [locating, setLocating] = useState(false);
+  const search = useResources(filters);
+  const { data: categories = [] } = useCategories();
+  const { fetchNextPage, isFetchingNextPage } = search;
+  const sentinelRef = useRef<HTMLDivElement>(null);
   const navigate = useNavigate();
   const { toast } = useToast();
 
-  const categories = ["Electronics", "Tools", "Vehicles", "Equipment", "Books", "Sports", "Other"];
+  const categoryOptions = useMemo(() => flattenCategoryTree(categories), [categories]);
+  const topLevelCategories = categoryOptions.filter((option) => option.depth === 0).map((option) => option.category);
+  const selectedCategory = categories.find((category) => category.slug === filters.category);
+  const facets = getFacetAttributes(getCategoryAttributes(categories, selectedCategory?.id));
+
+  useEffect(() => {
+    setSearchTerm(filters.query);
+    setMinPrice(filters.minPrice);
+    setMaxPrice(filters.maxPrice);
+    setNear(filters.near);
+  }, [filters]);
 
+  // Search errors carry messages written for the user, such as an invalid date range
   useEffect(() => {
-    fetchResources();
-  }, []);
+    if (!search.error) return;
+    console.error("Error fetching resources:", search.error);
+    toast({
+      title: "Error",
+      description: getBookingErrorMessage(search.error, "Failed to load resources"),
+      variant: "destructive",
+    });
+  }, [search.error, toast]);
+
+  const resources = useMemo(() => search.data?.pages.flatMap((page) => page.results) ?? [], [search.data]);
+  const loading = search.isLoading;
+  const hasMore = search.hasNextPage && !search.isError;
+  const loadMore = useCallback(() => {
+    if (!isFetchingNextPage) fetchNextPage();
+  }, [isFetchingNextPage, fetchNextPage]);
+
+  // Load the next page when the end of the list scrolls into view
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !hasMore) return;
+
+    const observer = new IntersectionObserver((entries) => {
+      if (entries[0].isIntersecting) loadMore();
+    }, { rootMargin: "200px" });
+
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasMore, loadMore]);
+
+  const view = searchParams.get("view") === "map" ? "map" : "list";
+
+  const updateFilters = (changes: Partial<ResourceSearchFilters>, nextView = view) => {
+    const params = toResourceSearchParams({ ...filters, ...changes });
+    if (nextView === "map") params.set("view", "map");
+    setSearchParams(params);
+  };
+
+  // Facets belong to a category, so they are reset when it changes
+  const selectCategory = (category: string) => updateFilters({ category, attributes: {} });
+
+  const updateFacet = (key: string, value: string) => {
+    const { [key]: _previous, ...attributes } = filters.attributes;
+    updateFilters({ attributes: value ? { ...attributes, [key]: value } : attributes });
+  };
 
-  const fetchResources = async () => {
+  const clearOrigin = { near: "", latitude: "", longitude: "", radius: "" };
+
+  // Resolve the "near" text to coordinates before applying it
+  const resolveNear = async (): Promise<Partial<ResourceSearchFilters>> => {
+    const place = near.trim();
+    if (!place) return clearOrigin;
+    if (place === filters.near && hasSearchOrigin(filters)) return {};
+
+    const result = await geocodeAddress(place);
+    if (!result) throw new Error(`Could not find "${place}"`);
+    return { near: place, latitude: String(result.latitude), longitude: String(result.longitude) };
+  };
+
+  const handleSearch = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLocating(true);
     try {
-      const { data, error } = await supabase
-        .from("resources")
-        .select("*")
-        .eq("is_available", true)
-        .order("created_at", { ascending: false });
-
-      if (error) throw error;
-      setResources(data || []);
+      updateFilters({ query: searchTerm, minPrice, maxPrice, ...(await resolveNear()) });
     } catch (error) {
-      console.error("Error fetching resources:", error);
+      console.error("Error geocoding location:", error);
       toast({
         title: "Error",
-        description: "Failed to load resources",
+        description: error instanceof Error ? error.message : "Failed to find that location",
         variant: "destructive",
       });
     } finally {
-      setLoading(false);
+      setLocating(false);
     }
   };
 
-  const filteredResources = resources.filter((resource) => {
-    const matchesSearch = resource.title.toLowerCase().includes(searchTerm.toLowerCase()) ||
-                         resource.description?.toLowerCase().includes(searchTerm.toLowerCase()) ||
-                         resource.location.toLowerCase().includes(searchTerm.toLowerCase());
-    const matchesCategory = !selectedCategory || resource.category === selectedCategory;
-    return matchesSearch && matchesCategory;
-  });
+  const handleUseMyLocation = async () => {
+    setLocating(true);
+    try {
+      const position = await getCurrentPosition();
+      updateFilters({
+        near: "My location",
+        latitude: position.latitude.toFixed(4),
+        longitude: position.longitude.toFixed(4),
+        sort: filters.sort === "newest" ? "distance" : filters.sort,
+      });
+    } catch (error) {
+      console.error("Error getting current position:", error);
+      toast({
+        title: "Error",
+        description: "Could not get your location",
+        variant: "destructive",
+      });
+    } finally {
+      setLocating(false);
+    }
+  };
+
+  const hasFilters = toResourceSearchParams(filters).toString() !== "";
+  const hasOrigin = hasSearchOrigin(filters);
+
+  const mapListings: MapListing[] = resources.flatMap((resource) =>
+    resource.latitude !== null && resource.longitude !== null
+      ? [{ id: resource.id, title: resource.title, price: resource.price, latitude: resource.latitude, longitude: resource.longitude }]
+      : []
+  );
 
   const handleBookResource = (resourceId: string) => {
     navigate(`/book/${resourceId}`);
   };
 
-  if (loading) {
-    return (
-      <div className="container mx-auto px-4 py-8">
-        <div className="text-center">Loading resources...</div>
-      </div>
-    );
-  }
-
   return (
     <div className="container mx-auto px-4 py-8">
       <div className="mb-8">
         <h1 className="text-3xl font-bold mb-6">Browse Resources</h1>
         
         {/* Search and Filter */}
-        <div className="flex flex-col md:flex-row gap-4 mb-6">
-          <div className="relative flex-1">
-            <Search className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
-            <Input
-              placeholder="Search resources..."
-              value={searchTerm}
-              onChange={(e) => setSearchTerm(e.target.value)}
-              className="pl-10"
-            />
+        <form onSubmit={handleSearch} className="space-y-4 mb-6">
+          <div className="flex flex-col md:flex-row gap-4">
+            <div className="relative flex-1">
+              <Search className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
+              <Input
+                placeholder="Search resources..."
+                value={searchTerm}
+                onChange={(e) => setSearchTerm(e.target.value)}
+                className="pl-10"
+              />
+            </div>
+            <select
+              value={filters.category}
+              onChange={(e) => selectCategory(e.target.value)}
+              className="px-3 py-2 border border-input rounded-md bg-background"
+              aria-label="Category"
+            >
+              <option value="">All Categories</option>
+              {categoryOptions.map((option) => (
+                <option key={option.category.id} value={option.category.slug}>
+                  {getCategoryOptionLabel(option)}
+                </option>
+              ))}
+            </select>
+            <select
+              value={filters.sort}
+              onChange={(e) => isResourceSort(e.target.value) && updateFilters({ sort: e.target.value })}
+              className="px-3 py-2 border border-input rounded-md bg-background"
+              aria-label="Sort by"
+            >
+              {Object.entries(resourceSortLabels).map(([value, label]) => (
+                <option key={value} value={value} disabled={value === "distance" && !hasOrigin}>
+                  {label}
+                </option>
+              ))}
+            </select>
           </div>
-          <select
-            value={selectedCategory}
-            onChange={(e) => setSelectedCategory(e.target.value)}
-            className="px-3 py-2 border border-input rounded-md bg-background"
-          >
-            <option value="">All Categories</option>
-            {categories.map((category) => (
-              <option key={category} value={category}>
-                {category}
-              </option>
+          <div className="flex flex-wrap gap-2">
+            {topLevelCategories.map((category) => (
+              <Button
+                key={category.id}
+                type="button"
+                size="sm"
+                variant={category.slug === filters.category ? "secondary" : "outline"}
+                onClick={() => selectCategory(category.slug === filters.category ? "" : category.slug)}
+              >
+                <CategoryIcon icon={category.icon} className="h-4 w-4 mr-2" />
+                {category.name}
+              </Button>
             ))}
-          </select>
-        </div>
+          </div>
+          {facets.length > 0 && (
+            <div className="flex flex-col md:flex-row md:flex-wrap gap-4">
+              {facets.map((facet) => (
+                <select
+                  key={facet.key}
+                  value={filters.attributes[facet.key] ?? ""}
+                  onChange={(e) => updateFacet(facet.key, e.target.value)}
+                  className="px-3 py-2 border border-input rounded-md bg-background"
+                  aria-label={facet.label}
+                >
+                  <option value="">{facet.label}: Any</option>
+                  {facet.type === "boolean" ? (
+                    <>
+                      <option value="true">{facet.label}: Yes</option>
+                      <option value="false">{facet.label}: No</option>
+                    </>
+                  ) : (
+                    (facet.options ?? []).map((option) => (
+                      <option key={option} value={option}>
+                        {facet.label}: {option}
+                      </option>
+                    ))
+                  )}
+                </select>
+              ))}
+            </div>
+          )}
+          <div className="flex flex-col md:flex-row md:items-center gap-4">
+            <div className="relative flex-1">
+              <Navigation className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
+              <Input
+                placeholder="Near (city, neighborhood or address)"
+                value={near}
+                onChange={(e) => setNear(e.target.value)}
+                className="pl-10"
+              />
+            </div>
+            <Button type="button" variant="outline" onClick={handleUseMyLocation} disabled={locating}>
+              <LocateFixed className="h-4 w-4 mr-2" />
+              Use my location
+            </Button>
+            <select
+              value={filters.radius}
+              onChange={(e) => updateFilters({ radius: e.target.value })}
+              disabled={!hasOrigin}
+              className="px-3 py-2 border border-input rounded-md bg-background disabled:opacity-50"
+              aria-label="Distance"
+            >
+              <option value="">Any distance</option>
+              {SEARCH_RADIUS_OPTIONS_KM.map((radius) => (
+                <option key={radius} value={radius}>
+                  Within {radius} km
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="flex flex-col md:flex-row md:items-center gap-4">
+            <div className="flex items-center gap-2">
+              <Input
+                type="number"
+                min="0"
+                step="0.01"
+                placeholder="Min $/day"
+                value={minPrice}
+                onChange={(e) => setMinPrice(e.target.value)}
+                className="md:w-32"
+              />
+              <span className="text-muted-foreground">-</span>
+              <Input
+                type="number"
+                min="0"
+                step="0.01"
+                placeholder="Max $/day"
+                value={maxPrice}
+                onChange={(e) => setMaxPrice(e.target.value)}
+                className="md:w-32"
+              />
+            </div>
+            <div className="flex items-center gap-2">
+              <Input
+                type="date"
+                value={filters.from}
+                onChange={(e) => updateFilters({ from: e.target.value })}
+                aria-label="Available from"
+                className="md:w-44"
+              />
+              <span className="text-muted-foreground">to</span>
+              <Input
+                type="date"
+                value={filters.to}
+                min={filters.from || undefined}
+                onChange={(e) => updateFilters({ to: e.target.value })}
+                aria-label="Available until"
+                className="md:w-44"
+              />
+            </div>
+            <div className="flex gap-2 md:ml-auto">
+              <Button type="submit" disabled={locating}>Search</Button>
+              {hasFilters && (
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() => setSearchParams(view === "map" ? { view: "map" } : {})}
+                >
+                  Clear
+                </Button>
+              )}
+              <div className="flex border rounded-md">
+                <Button
+                  type="button"
+                  variant={view === "list" ? "secondary" : "ghost"}
+                  size="icon"
+                  onClick={() => updateFilters({}, "list")}
+                  aria-label="List view"
+                >
+                  <List className="h-4 w-4" />
+                </Button>
+                <Button
+                  type="button"
+                  variant={view === "map" ? "secondary" : "ghost"}
+                  size="icon"
+                  onClick={() => updateFilters({}, "map")}
+                  aria-label="Map view"
+                >
+                  <MapIcon className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          </div>
+        </form>
       </div>
 
-      {filteredResources.length === 0 ? (
+      {loading ? (
+        <div className="text-center py-8">Loading resources...</div>
+      ) : resources.length === 0 ? (
         <div className="text-center py-8">
           <p className="text-muted-foreground">No resources found matching your criteria.</p>
         </div>
+      ) : view === "map" ? (
+        <div className="space-y-2">
+          <ResourceMap
+            listings={mapListings}
+            origin={hasOrigin ? { latitude: Number(filters.latitude), longitude: Number(filters.longitude) } : null}
+          />
+          <p className="text-sm text-muted-foreground">
+            Pins show approximate locations. The exact address is shared once a booking is accepted.
+          </p>
+        </div>
       ) : (
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-          {filteredResources.map((resource) => (
+          {resources.map((resource) => (
             <Card key={resource.id} className="overflow-hidden">
-              {resource.image_url && (
+              {(resource.cover_image_path || resource.image_url) && (
                 <img
-                  src={resource.image_url}
+                  src={resource.cover_image_path ? getResourceImageUrl(resource.cover_image_path) : resource.image_url}
                   alt={resource.title}
                   className="w-full h-48 object-cover"
                 />
@@ -128,6 +387,10 @@ const Resources = () => {
                   <CardTitle className="text-lg">{resource.title}</CardTitle>
                   <Badge variant="secondary">{resource.category}</Badge>
                 </div>
+                <RatingStars
+                  rating={resource.average_rating ?? 0}
+                  reviewCount={resource.review_count}
+                />
               </CardHeader>
               <CardContent>
                 <p className="text-muted-foreground mb-4 line-clamp-2">
@@ -138,6 +401,9 @@ const Resources = () => {
                   <div className="flex items-center text-sm text-muted-foreground">
                     <MapPin className="h-4 w-4 mr-2" />
                     {resource.location}
+                    {resource.distance_km !== null && (
+                      <span className="ml-auto">{formatDistance(resource.distance_km)}</span>
+                    )}
                   </div>
                   <div className="flex items-center text-sm text-muted-foreground">
                     <DollarSign className="h-4 w-4 mr-2" />
@@ -160,6 +426,14 @@ const Resources = () => {
           ))}
         </div>
       )}
+
+      {!loading && hasMore && (
+        <div ref={sentinelRef} className="text-center py-8">
+          <Button variant="outline" onClick={loadMore} disabled={isFetchingNextPage}>
+            {isFetchingNextPage ? "Loading..." : "Load more"}
+          </Button>
+        </div>
+      )}
     </div>
   );
 };
@@ -0,0 +1,159 @@
+import { useState } from "react";
+import { Link, useParams } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import RatingStars from "@/components/RatingStars";
+import ReviewList from "@/components/ReviewList";
+import ReportDialog from "@/components/ReportDialog";
+import { useAuth } from "@/contexts/AuthContext";
+import { usePublicProfile } from "@/hooks/use-profiles";
+import { useListedResources } from "@/hooks/use-resources";
+import { useUserRatingSummary, useUserReviews } from "@/hooks/use-reviews";
+import { getCoverImageUrl } from "@/lib/images";
+import { getInitials } from "@/lib/profiles";
+import { CalendarDays, Flag, Mail, MapPin, Phone } from "lucide-react";
+
+const UserProfile = () => {
+  const { id } = useParams<{ id: string }>();
+  const { user } = useAuth();
+  const [reportOpen, setReportOpen] = useState(false);
+  const { data: profile, isLoading: loading } = usePublicProfile(id);
+  const { data: resources = [] } = useListedResources(id);
+  const { data: reputation } = useUserRatingSummary(id);
+  const { data: reviews = [] } = useUserReviews(id);
+
+  if (loading) {
+    return (
+      <div className="container mx-auto px-4 py-8">
+        <div className="text-center">Loading profile...</div>
+      </div>
+    );
+  }
+
+  if (!profile) {
+    return (
+      <div className="container mx-auto px-4 py-8">
+        <div className="text-center">Member not found</div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <Card className="mb-8">
+        <CardContent className="p-6 flex flex-col sm:flex-row items-center sm:items-start gap-6">
+          <Avatar className="h-24 w-24">
+            {profile.avatar_url && <AvatarImage src={profile.avatar_url} alt={profile.name ?? ""} />}
+            <AvatarFallback className="text-2xl">{getInitials(profile.name)}</AvatarFallback>
+          </Avatar>
+          <div className="flex-1 space-y-2 text-center sm:text-left">
+            <h1 className="text-3xl font-bold">{profile.name}</h1>
+            <RatingStars
+              rating={reputation?.average_rating ?? 0}
+              reviewCount={reputation?.review_count ?? 0}
+            />
+            {reputation && (
+              <div className="flex flex-wrap gap-2 justify-center sm:justify-start">
+                {(reputation.review_count_as_owner ?? 0) > 0 && (
+                  <Badge variant="outline">
+                    As owner: {reputation.average_as_owner?.toFixed(1)} ({reputation.review_count_as_owner})
+                  </Badge>
+                )}
+                {(reputation.review_count_as_renter ?? 0) > 0 && (
+                  <Badge variant="outline">
+                    As renter: {reputation.average_as_renter?.toFixed(1)} ({reputation.review_count_as_renter})
+                  </Badge>
+                )}
+              </div>
+            )}
+            <div className="space-y-1 text-muted-foreground">
+              {profile.created_at && (
+                <div className="flex items-center justify-center sm:justify-start">
+                  <CalendarDays className="h-4 w-4 mr-2" />
+                  Member since {new Date(profile.created_at).toLocaleDateString(undefined, { month: "long", year: "numeric" })}
+                </div>
+              )}
+              {profile.location && (
+                <div className="flex items-center justify-center sm:justify-start">
+                  <MapPin className="h-4 w-4 mr-2" />
+                  {profile.location}
+                </div>
+              )}
+              {profile.email && (
+                <div className="flex items-center justify-center sm:justify-start">
+                  <Mail className="h-4 w-4 mr-2" />
+                  {profile.email}
+                </div>
+              )}
+              {profile.phone && (
+                <div className="flex items-center justify-center sm:justify-start">
+                  <Phone className="h-4 w-4 mr-2" />
+                  {profile.phone}
+                </div>
+              )}
+            </div>
+          </div>
+          {user && user.id !== profile.user_id && (
+            <Button variant="ghost" size="sm" onClick={() => setReportOpen(true)}>
+              <Flag className="h-4 w-4 mr-2" />
+              Report Member
+            </Button>
+          )}
+        </CardContent>
+      </Card>
+
+      <h2 className="text-2xl font-bold mb-6">Listings</h2>
+      {resources.length === 0 ? (
+        <p className="text-muted-foreground">No active listings.</p>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+          {resources.map((resource) => (
+            <Card key={resource.id} className="overflow-hidden">
+              {getCoverImageUrl(resource) && (
+                <img
+                  src={getCoverImageUrl(resource)}
+                  alt={resource.title}
+                  className="w-full h-48 object-cover"
+                />
+              )}
+              <CardHeader>
+                <div className="flex justify-between items-start">
+                  <CardTitle className="text-lg">{resource.title}</CardTitle>
+                  <Badge variant="secondary">{resource.category}</Badge>
+                </div>
+              </CardHeader>
+              <CardContent>
+                <p className="text-muted-foreground mb-4 line-clamp-2">
+                  {resource.description}
+                </p>
+                <div className="flex justify-between items-center">
+                  <span className="font-semibold">${resource.price}/day</span>
+                  <Link to={`/book/${resource.id}`}>
+                    <Button size="sm">Book Now</Button>
+                  </Link>
+                </div>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+
+      <h2 className="text-2xl font-bold mt-12 mb-6">Reviews</h2>
+      <ReviewList reviews={reviews} emptyMessage="This member has not been reviewed yet." />
+
+      {profile.user_id && (
+        <ReportDialog
+          open={reportOpen}
+          targetType="user"
+          targetId={profile.user_id}
+          targetName={profile.name ?? "this member"}
+          onOpenChange={setReportOpen}
+        />
+      )}
+    </div>
+  );
+};
+
+export default UserProfile;
@@ -0,0 +1,163 @@
+import { describe, expect, it } from "vitest";
+import { buildCalendar, parseCalendarBlocks, toEventUid } from "./ics.ts";
+
+const calendar = (...events: string[][]) =>
+  ["BEGIN:VCALENDAR", "VERSION:2.0", ...events.flatMap((lines) => ["BEGIN:VEVENT", ...lines, "END:VEVENT"]), "END:VCALENDAR"]
+    .join("\r\n");
+
+const iso = (date: Date) => date.toISOString();
+
+// The UTC start of an event at the given wall-clock time in timeZone
+const startIn = (timeZone: string, local: string) =>
+  iso(parseCalendarBlocks(calendar(["UID:a", `DTSTART;TZID=${timeZone}:${local}`, "DURATION:PT1H"]))[0].start);
+
+describe("zoned times", () => {
+  it("applies standard and daylight saving offsets", () => {
+    expect(startIn("America/New_York", "20250115T120000")).toBe("2025-01-15T17:00:00.000Z");
+    expect(startIn("America/New_York", "20250715T120000")).toBe("2025-07-15T16:00:00.000Z");
+    expect(startIn("Europe/Berlin", "20250701T120000")).toBe("2025-07-01T10:00:00.000Z");
+  });
+
+  it("uses the offset in force on each side of a DST change", () => {
+    // Europe/London moves to BST at 01:00 UTC on 30 March 2025
+    expect(startIn("Europe/London", "20250330T003000")).toBe("2025-03-30T00:30:00.000Z");
+    expect(startIn("Europe/London", "20250330T023000")).toBe("2025-03-30T01:30:00.000Z");
+    // and back to GMT at 01:00 UTC on 26 October 2025
+    expect(startIn("Europe/London", "20251026T003000")).toBe("2025-10-25T23:30:00.000Z");
+    expect(startIn("Europe/London", "20251026T023000")).toBe("2025-10-26T02:30:00.000Z");
+  });
+
+  it("resolves times skipped or repeated by a DST change to a nearby instant", () => {
+    // 02:30 does not exist in New York on 9 March 2025; 01:30 happens twice on 2 November
+    expect(["2025-03-09T06:30:00.000Z", "2025-03-09T07:30:00.000Z"]).toContain(
+      startIn("America/New_York", "20250309T023000")
+    );
+    expect(["2025-11-02T05:30:00.000Z", "2025-11-02T06:30:00.000Z"]).toContain(
+      startIn("America/New_York", "20251102T013000")
+    );
+  });
+});
+
+describe("parseCalendarBlocks", () => {
+  it("reads UTC events", () => {
+    const blocks = parseCalendarBlocks(
+      calendar(["UID:stay-1@example.com", "DTSTART:20251101T150000Z", "DTEND:20251103T100000Z", "SUMMARY:Reserved"])
+    );
+    expect(blocks).toEqual([
+      {
+        uid: "stay-1@example.com",
+        start: new Date("2025-11-01T15:00:00Z"),
+        end: new Date("2025-11-03T10:00:00Z"),
+        summary: "Reserved",
+      },
+    ]);
+  });
+
+  it("reads times in the event's TZID, falling back to the default zone", () => {
+    const [zoned, unknownZone, floating] = parseCalendarBlocks(
+      calendar(
+        ["UID:a", "DTSTART;TZID=Europe/Paris:20250710T140000", "DTEND;TZID=Europe/Paris:20250710T160000"],
+        ["UID:b", 'DTSTART;TZID="Not/AZone":20250710T140000', "DTEND:20250710T160000"],
+        ["UID:c", "DTSTART:20250110T090000", "DTEND:20250110T100000"]
+      ),
+      "America/New_York"
+    );
+    expect(iso(zoned.start)).toBe("2025-07-10T12:00:00.000Z");
+    expect(iso(zoned.end)).toBe("2025-07-10T14:00:00.000Z");
+    expect(iso(unknownZone.start)).toBe("2025-07-10T18:00:00.000Z");
+    expect(iso(floating.start)).toBe("2025-01-10T14:00:00.000Z");
+  });
+
+  it("blocks whole days for all-day events", () => {
+    const [single, range] = parseCalendarBlocks(
+      calendar(
+        ["UID:a", "DTSTART;VALUE=DATE:20251224"],
+        ["UID:b", "DTSTART;VALUE=DATE:20251224", "DTEND;VALUE=DATE:20251227"]
+      ),
+      "Europe/London"
+    );
+    expect([iso(single.start), iso(single.end)]).toEqual(["2025-12-24T00:00:00.000Z", "2025-12-25T00:00:00.000Z"]);
+    expect([iso(range.start), iso(range.end)]).toEqual(["2025-12-24T00:00:00.000Z", "2025-12-27T00:00:00.000Z"]);
+  });
+
+  it("reads the end from DURATION", () => {
+    const [hours, weeks] = parseCalendarBlocks(
+      calendar(
+        ["UID:a", "DTSTART:20251001T090000Z", "DURATION:PT2H30M"],
+        ["UID:b", "DTSTART;VALUE=DATE:20251001", "DURATION:P1W"]
+      )
+    );
+    expect(iso(hours.end)).toBe("2025-10-01T11:30:00.000Z");
+    expect(iso(weeks.end)).toBe("2025-10-08T00:00:00.000Z");
+  });
+
+  it("skips cancelled, free, unreadable and our own events", () => {
+    const blocks = parseCalendarBlocks(
+      calendar(
+        ["UID:cancelled", "STATUS:CANCELLED", "DTSTART:20251001T090000Z", "DTEND:20251001T100000Z"],
+        ["UID:free", "TRANSP:TRANSPARENT", "DTSTART:20251001T090000Z", "DTEND:20251001T100000Z"],
+        ["UID:no-end", "DTSTART:20251001T090000Z"],
+        ["UID:backwards", "DTSTART:20251001T100000Z", "DTEND:20251001T090000Z"],
+        ["UID:bad-date", "DTSTART:tomorrow", "DTEND:20251001T090000Z"],
+        [`UID:${toEventUid("booking-1")}`, "DTSTART:20251001T090000Z", "DTEND:20251001T100000Z"]
+      )
+    );
+    expect(blocks).toEqual([]);
+  });
+
+  it("unfolds lines, unescapes text and ignores nested components", () => {
+    const text = [
+      "BEGIN:VCALENDAR",
+      "BEGIN:VEVENT",
+      "UID:folded",
+      "DTSTART:20251001T090000Z",
+      "DTEND:20251001T100000Z",
+      "SUMMARY:Guest\\, party of 4\\; late",
+      "  arrival",
+      "BEGIN:VALARM",
+      "SUMMARY:Alarm",
+      "END:VALARM",
+      "END:VEVENT",
+      "END:VCALENDAR",
+    ].join("\n");
+    expect(parseCalendarBlocks(text)[0].summary).toBe("Guest, party of 4; late arrival");
+  });
+
+  it("makes up a UID for events without one", () => {
+    const [block] = parseCalendarBlocks(calendar(["DTSTART:20251001T090000Z", "DTEND:20251001T100000Z"]));
+    expect(block.uid).toBe("2025-10-01T09:00:00.000Z/2025-10-01T10:00:00.000Z");
+    expect(block.summary).toBeNull();
+  });
+});
+
+describe("buildCalendar", () => {
+  const event = {
+    uid: toEventUid("booking-1"),
+    start: new Date("2025-10-01T09:00:00Z"),
+    end: new Date("2025-10-03T09:00:00Z"),
+    summary: "Borrowing Ladder, 3m",
+    description: "Pick up at the side gate.\nRing twice.",
+  };
+
+  it("writes escaped events with UTC times", () => {
+    const text = buildCalendar("My bookings", [event], new Date("2025-09-01T00:00:00Z"));
+    expect(text).toContain("DTSTAMP:20250901T000000Z\r\n");
+    expect(text).toContain("DTSTART:20251001T090000Z\r\n");
+    expect(text).toContain("SUMMARY:Borrowing Ladder\\, 3m\r\n");
+    expect(text).toContain("DESCRIPTION:Pick up at the side gate.\\nRing twice.\r\n");
+    expect(text.endsWith("END:VCALENDAR\r\n")).toBe(true);
+  });
+
+  it("folds lines at 75 octets without splitting characters", () => {
+    const text = buildCalendar("Bookings", [{ ...event, summary: "Fahrräder für die ganze Familie ".repeat(5) }]);
+    const encoder = new TextEncoder();
+    const lines = text.split("\r\n");
+    expect(lines.every((line) => encoder.encode(line).length <= 75)).toBe(true);
+    const unfolded = text.replace(/\r\n /g, "");
+    expect(unfolded).toContain(`SUMMARY:${"Fahrräder für die ganze Familie ".repeat(5)}`);
+  });
+
+  it("is not imported back as blocked time", () => {
+    expect(parseCalendarBlocks(buildCalendar("My bookings", [event]))).toEqual([]);
+  });
+});
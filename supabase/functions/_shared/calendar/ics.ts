@@ -0,0 +1,221 @@
+// Just enough of iCalendar (RFC 5545) to publish bookings and to read the
+// busy times out of calendars exported by other platforms.
+
+export interface CalendarEvent {
+  uid: string;
+  start: Date;
+  end: Date;
+  summary: string;
+  description?: string;
+  location?: string;
+  url?: string;
+}
+
+// A busy stretch read from an imported calendar
+export interface CalendarBlock {
+  uid: string;
+  start: Date;
+  end: Date;
+  summary: string | null;
+}
+
+// Bookings published by ShareHub carry this UID suffix, so a calendar that
+// re-exports our own feed is not imported back as blocked time
+export const EVENT_UID_DOMAIN = "sharehub";
+
+export const toEventUid = (id: string) => `${id}@${EVENT_UID_DOMAIN}`;
+
+const escapeText = (value: string) =>
+  value.replace(/\\/g, "\\\\").replace(/;/g, "\\;").replace(/,/g, "\\,").replace(/\r?\n/g, "\\n");
+
+// e.g. 20251020T090000Z
+const formatDateTime = (date: Date) => date.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+
+const encoder = new TextEncoder();
+
+// Content lines are limited to 75 octets; longer ones continue on lines
+// starting with a space
+const foldLine = (line: string) => {
+  const lines: string[] = [];
+  let current = "";
+  let size = 0;
+  for (const char of line) {
+    const charSize = encoder.encode(char).length;
+    if (size + charSize > 75) {
+      lines.push(current);
+      current = " ";
+      size = 1;
+    }
+    current += char;
+    size += charSize;
+  }
+  lines.push(current);
+  return lines.join("\r\n");
+};
+
+export const buildCalendar = (name: string, events: CalendarEvent[], now = new Date()) => {
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//ShareHub//Bookings//EN",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeText(name)}`,
+  ];
+
+  events.forEach((event) => {
+    lines.push(
+      "BEGIN:VEVENT",
+      `UID:${event.uid}`,
+      `DTSTAMP:${formatDateTime(now)}`,
+      `DTSTART:${formatDateTime(event.start)}`,
+      `DTEND:${formatDateTime(event.end)}`,
+      `SUMMARY:${escapeText(event.summary)}`
+    );
+    if (event.description) lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+    if (event.location) lines.push(`LOCATION:${escapeText(event.location)}`);
+    if (event.url) lines.push(`URL:${event.url}`);
+    lines.push("STATUS:CONFIRMED", "END:VEVENT");
+  });
+
+  lines.push("END:VCALENDAR");
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+};
+
+interface Property {
+  params: Record<string, string>;
+  value: string;
+}
+
+// NAME;PARAM=VALUE:value
+const parseProperty = (line: string): [string, Property] | null => {
+  const match = /^([A-Za-z0-9-]+)((?:;[^:]*)?):(.*)$/.exec(line);
+  if (!match) return null;
+
+  const params: Record<string, string> = {};
+  match[2]
+    .split(";")
+    .filter(Boolean)
+    .forEach((param) => {
+      const [key, ...value] = param.split("=");
+      params[key.toUpperCase()] = value.join("=").replace(/^"|"$/g, "");
+    });
+  return [match[1].toUpperCase(), { params, value: match[3] }];
+};
+
+const unescapeText = (value: string) =>
+  value.replace(/\\n/gi, "\n").replace(/\\([\\;,])/g, "$1");
+
+// The UTC instant at which the wall clock in timeZone shows the given time
+const zonedTimeToUtc = (fields: number[], timeZone: string) => {
+  const [year, month, day, hour, minute, second] = fields;
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute, second);
+  const format = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  });
+  const offsetAt = (time: number) => {
+    const parts = format.formatToParts(new Date(time));
+    const part = (type: string) => Number(parts.find((p) => p.type === type)?.value);
+    return Date.UTC(part("year"), part("month") - 1, part("day"), part("hour"), part("minute"), part("second")) - time;
+  };
+  // Twice, so times next to a DST change use the offset in force at the result
+  const guess = wallClock - offsetAt(wallClock);
+  return new Date(wallClock - offsetAt(guess));
+};
+
+const isValidTimeZone = (timeZone: string) => {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// All-day dates and times without a zone are read in defaultTimeZone
+const parseDate = (property: Property, defaultTimeZone: string) => {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/.exec(property.value.trim());
+  if (!match) return null;
+
+  const fields = match.slice(1, 7).map((field) => Number(field ?? 0));
+  const allDay = match[4] === undefined;
+  if (match[7]) {
+    return { date: new Date(Date.UTC(fields[0], fields[1] - 1, fields[2], fields[3], fields[4], fields[5])), allDay };
+  }
+  const tzid = property.params.TZID;
+  const timeZone = tzid && isValidTimeZone(tzid) ? tzid : defaultTimeZone;
+  return { date: zonedTimeToUtc(fields, timeZone), allDay };
+};
+
+// e.g. P1D, PT2H30M
+const parseDuration = (value: string) => {
+  const match = /^P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/.exec(value.trim());
+  if (!match) return null;
+  const [weeks, days, hours, minutes, seconds] = match.slice(1).map((part) => Number(part ?? 0));
+  return ((((weeks * 7 + days) * 24 + hours) * 60 + minutes) * 60 + seconds) * 1000;
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const toBlock = (event: Map<string, Property>, defaultTimeZone: string): CalendarBlock | null => {
+  if (event.get("STATUS")?.value.toUpperCase() === "CANCELLED") return null;
+  if (event.get("TRANSP")?.value.toUpperCase() === "TRANSPARENT") return null;
+
+  const uid = event.get("UID")?.value.trim();
+  if (uid?.toLowerCase().endsWith(`@${EVENT_UID_DOMAIN}`)) return null;
+
+  const startProperty = event.get("DTSTART");
+  const start = startProperty && parseDate(startProperty, defaultTimeZone);
+  if (!start) return null;
+
+  const endProperty = event.get("DTEND");
+  const duration = event.get("DURATION");
+  let end = endProperty ? parseDate(endProperty, defaultTimeZone)?.date : undefined;
+  if (!end && duration) {
+    const length = parseDuration(duration.value);
+    if (length !== null) end = new Date(start.date.getTime() + length);
+  }
+  if (!end && start.allDay) end = new Date(start.date.getTime() + DAY_MS);
+  if (!end || end <= start.date) return null;
+
+  const summary = event.get("SUMMARY");
+  return {
+    uid: uid || `${start.date.toISOString()}/${end.toISOString()}`,
+    start: start.date,
+    end,
+    summary: summary ? unescapeText(summary.value) : null,
+  };
+};
+
+// Busy events of a calendar. Cancelled and free (transparent) events are
+// skipped, as are events we published ourselves. Recurring events only block
+// their first occurrence; booking platforms export each stay separately.
+export const parseCalendarBlocks = (text: string, defaultTimeZone = "UTC"): CalendarBlock[] => {
+  const lines = text.replace(/\r?\n[ \t]/g, "").split(/\r?\n/);
+  const blocks: CalendarBlock[] = [];
+  let event: Map<string, Property> | null = null;
+
+  for (const line of lines) {
+    if (line === "BEGIN:VEVENT") {
+      event = new Map();
+      continue;
+    }
+    if (line === "END:VEVENT" && event) {
+      const block = toBlock(event, defaultTimeZone);
+      if (block) blocks.push(block);
+      event = null;
+      continue;
+    }
+    const property = event && parseProperty(line);
+    // Only the first of each property; nested components like VALARM come later
+    if (event && property && !event.has(property[0])) event.set(property[0], property[1]);
+  }
+  return blocks;
+};
@@ -0,0 +1,18 @@
+import { MailMessage, MailTransport } from "./transport.ts";
+
+// Development sink: writes each message to its own JSON file instead of
+// sending it, so emails can be inspected without a mail provider
+export class FileTransport implements MailTransport {
+  readonly name = "file";
+
+  constructor(private readonly directory: string) {}
+
+  async send(message: MailMessage) {
+    await Deno.mkdir(this.directory, { recursive: true });
+    const fileName = `${new Date().toISOString().replace(/[:.]/g, "-")}-${crypto.randomUUID()}.json`;
+    await Deno.writeTextFile(
+      `${this.directory}/${fileName}`,
+      JSON.stringify({ ...message, sent_at: new Date().toISOString() }, null, 2)
+    );
+  }
+}
@@ -0,0 +1,17 @@
+import { FileTransport } from "./file.ts";
+import { ResendTransport } from "./resend.ts";
+import { MailTransport } from "./transport.ts";
+
+export * from "./transport.ts";
+
+// MAIL_TRANSPORT picks the transport; anything but "resend" writes messages
+// to MAIL_SINK_DIR so local development never sends real email
+export const getMailTransport = (): MailTransport => {
+  if (Deno.env.get("MAIL_TRANSPORT") === "resend") {
+    const apiKey = Deno.env.get("RESEND_API_KEY");
+    const from = Deno.env.get("MAIL_FROM");
+    if (!apiKey || !from) throw new Error("RESEND_API_KEY and MAIL_FROM must be set");
+    return new ResendTransport(apiKey, from);
+  }
+  return new FileTransport(Deno.env.get("MAIL_SINK_DIR") ?? "/tmp/mail");
+};
@@ -0,0 +1,33 @@
+import { MailMessage, MailTransport, MailTransportError } from "./transport.ts";
+
+// Sends through the Resend HTTP API
+export class ResendTransport implements MailTransport {
+  readonly name = "resend";
+
+  constructor(
+    private readonly apiKey: string,
+    private readonly from: string
+  ) {}
+
+  async send(message: MailMessage) {
+    const response = await fetch("https://api.resend.com/emails", {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${this.apiKey}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        from: this.from,
+        to: [message.to],
+        subject: message.subject,
+        text: message.text,
+        html: message.html,
+      }),
+    });
+
+    if (!response.ok) {
+      const body = await response.text();
+      throw new MailTransportError(`Resend rejected the message (${response.status}): ${body}`);
+    }
+  }
+}
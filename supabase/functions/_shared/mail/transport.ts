@@ -0,0 +1,19 @@
+// A rendered email, ready for whichever transport is configured
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html: string;
+}
+
+export interface MailTransport {
+  readonly name: string;
+  send(message: MailMessage): Promise<void>;
+}
+
+export class MailTransportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "MailTransportError";
+  }
+}
@@ -0,0 +1,95 @@
+import { describe, expect, it } from "vitest";
+import { isIpAddress, isPublicIpAddress, readHttpResponse } from "./net.ts";
+
+describe("isPublicIpAddress", () => {
+  it.each(["8.8.8.8", "151.101.1.69", "2606:4700::1111", "2001:4860:4860::8888", "2002:808:808::1"])(
+    "accepts %s",
+    (address) => expect(isPublicIpAddress(address)).toBe(true)
+  );
+
+  it.each([
+    "127.0.0.1",
+    "10.0.0.5",
+    "172.16.0.1",
+    "192.168.1.1",
+    "169.254.169.254",
+    "100.64.0.1",
+    "0.0.0.0",
+    "224.0.0.1",
+    "::1",
+    "::",
+    "fe80::1",
+    "fd00::1",
+    "[::1]",
+    "::ffff:127.0.0.1",
+    "::ffff:8.8.8.8",
+    "64:ff9b::7f00:1",
+    "2002:a00:1::1",
+    "2001:db8::1",
+  ])("refuses %s", (address) => expect(isPublicIpAddress(address)).toBe(false));
+
+  it("refuses anything that is not an address", () => {
+    expect(isPublicIpAddress("localhost")).toBe(false);
+    expect(isPublicIpAddress("256.1.1.1")).toBe(false);
+    expect(isPublicIpAddress("1:2:3:4:5:6:7:8:9")).toBe(false);
+    expect(isIpAddress("example.com")).toBe(false);
+  });
+});
+
+// Sends the response in pieces of the given sizes, as a socket might
+async function* stream(text: string, ...sizes: number[]) {
+  const bytes = new TextEncoder().encode(text);
+  let offset = 0;
+  for (const size of [...sizes, bytes.length]) {
+    if (offset >= bytes.length) return;
+    yield bytes.subarray(offset, offset + size);
+    offset += size;
+  }
+}
+
+const read = async (text: string, maxBodyBytes = 100, ...sizes: number[]) => {
+  const response = await readHttpResponse(stream(text, ...sizes), maxBodyBytes);
+  return { ...response, text: new TextDecoder().decode(response.body) };
+};
+
+describe("readHttpResponse", () => {
+  it("reads a response with a Content-Length, even split across reads", async () => {
+    const text = "HTTP/1.1 200 OK\r\nContent-Type: text/calendar\r\nContent-Length: 5\r\n\r\nhello";
+    const response = await read(text, 100, 3, 20);
+    expect(response.status).toBe(200);
+    expect(response.headers.get("content-type")).toBe("text/calendar");
+    expect(response.text).toBe("hello");
+  });
+
+  it("reads chunked and close-delimited bodies", async () => {
+    const chunked = await read(
+      "HTTP/1.1 200 OK\r\nTransfer-Encoding: chunked\r\n\r\n5;ext\r\nhello\r\n6\r\n world\r\n0\r\n\r\n"
+    );
+    expect(chunked.text).toBe("hello world");
+    const closed = await read("HTTP/1.0 200 OK\r\n\r\nuntil the end");
+    expect(closed.text).toBe("until the end");
+  });
+
+  it("returns redirects with their location", async () => {
+    const response = await read(
+      "HTTP/1.1 301 Moved Permanently\r\nLocation: https://example.com/a.ics\r\nContent-Length: 0\r\n\r\n"
+    );
+    expect(response.status).toBe(301);
+    expect(response.headers.get("location")).toBe("https://example.com/a.ics");
+  });
+
+  it("refuses bodies over the limit", async () => {
+    await expect(read("HTTP/1.1 200 OK\r\nContent-Length: 500\r\n\r\n", 100)).rejects.toThrow(/too large/);
+    await expect(read(`HTTP/1.1 200 OK\r\n\r\n${"x".repeat(101)}`, 100)).rejects.toThrow(/too large/);
+    await expect(
+      read(`HTTP/1.1 200 OK\r\nTransfer-Encoding: chunked\r\n\r\n${"1\r\nx\r\n".repeat(40)}0\r\n\r\n`, 30)
+    ).rejects.toThrow(/too large/);
+  });
+
+  it("refuses incomplete and malformed responses", async () => {
+    await expect(read("HTTP/1.1 200 OK\r\nContent-Length: 10\r\n\r\nshort")).rejects.toThrow(/before the response/);
+    await expect(read("HTTP/1.1 200 OK\r\nContent-Le")).rejects.toThrow(/before the response/);
+    await expect(read("SSH-2.0-OpenSSH_9.6\r\n\r\n")).rejects.toThrow(/valid HTTP/);
+    await expect(read("HTTP/1.1 200 OK\r\nContent-Encoding: gzip\r\n\r\nxx")).rejects.toThrow(/valid HTTP/);
+  });
+});
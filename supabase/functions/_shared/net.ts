@@ -0,0 +1,268 @@
+// Fetching URLs that users supply, so the functions cannot be pointed at
+// loopback, link-local (cloud metadata) or private network services.
+
+const parseIpv4 = (address: string) => {
+  const parts = address.split(".");
+  if (parts.length !== 4 || !parts.every((part) => /^\d{1,3}$/.test(part))) return null;
+  const octets = parts.map(Number);
+  return octets.every((octet) => octet <= 255) ? octets : null;
+};
+
+// The eight 16-bit groups of an IPv6 address, or null if it is not one
+const parseIpv6 = (address: string) => {
+  let text = address.toLowerCase().replace(/^\[|\]$/g, "").replace(/%.*$/, "");
+  // A trailing IPv4 part, as in ::ffff:10.0.0.1, becomes two groups
+  const ipv4 = /(?:^|:)(\d+\.\d+\.\d+\.\d+)$/.exec(text);
+  if (ipv4) {
+    const octets = parseIpv4(ipv4[1]);
+    if (!octets) return null;
+    const tail = [(octets[0] << 8) | octets[1], (octets[2] << 8) | octets[3]].map((group) => group.toString(16));
+    text = text.slice(0, text.length - ipv4[1].length) + tail.join(":");
+  }
+
+  const halves = text.split("::");
+  if (halves.length > 2) return null;
+  const toGroups = (half: string) => (half === "" ? [] : half.split(":"));
+  const head = toGroups(halves[0]);
+  const tail = halves.length === 2 ? toGroups(halves[1]) : [];
+  const missing = 8 - head.length - tail.length;
+  if (halves.length === 2 ? missing < 1 : missing !== 0) return null;
+
+  const groups = [...head, ...Array(halves.length === 2 ? missing : 0).fill("0"), ...tail];
+  if (!groups.every((group) => /^[0-9a-f]{1,4}$/.test(group))) return null;
+  return groups.map((group) => parseInt(group, 16));
+};
+
+const isPublicIpv4 = ([a, b, c]: number[]) =>
+  !(
+    a === 0 ||
+    a === 10 ||
+    a === 127 ||
+    a >= 224 ||
+    (a === 100 && b >= 64 && b <= 127) ||
+    (a === 169 && b === 254) ||
+    (a === 172 && b >= 16 && b <= 31) ||
+    (a === 192 && b === 0 && c === 0) ||
+    (a === 192 && b === 168) ||
+    (a === 198 && (b === 18 || b === 19))
+  );
+
+// Only global unicast (2000::/3) is public. Addresses that carry an IPv4
+// address (6to4) are judged by it, and Teredo and documentation prefixes are
+// refused.
+const isPublicIpv6 = (groups: number[]) => {
+  if ((groups[0] & 0xe000) !== 0x2000) return false;
+  if (groups[0] === 0x2001 && (groups[1] === 0 || groups[1] === 0xdb8)) return false;
+  if (groups[0] === 0x2002) {
+    return isPublicIpv4([groups[1] >> 8, groups[1] & 0xff, groups[2] >> 8, groups[2] & 0xff]);
+  }
+  return true;
+};
+
+// Whether an IP address is reachable on the public internet. Anything that
+// is not a valid address counts as not public.
+export const isPublicIpAddress = (address: string) => {
+  const ipv4 = parseIpv4(address);
+  if (ipv4) return isPublicIpv4(ipv4);
+  const ipv6 = parseIpv6(address);
+  return ipv6 !== null && isPublicIpv6(ipv6);
+};
+
+export const isIpAddress = (address: string) => parseIpv4(address) !== null || parseIpv6(address) !== null;
+
+// Resolves the URL's host and returns the address to connect to. The URL
+// must use http or https on the standard ports, and a host that resolves to
+// a private address anywhere is refused.
+export const resolvePublicAddress = async (url: URL) => {
+  if (!["http:", "https:"].includes(url.protocol) || !["", "80", "443"].includes(url.port)) {
+    throw new Error("URLs must use http or https on the standard ports");
+  }
+
+  const hostname = url.hostname.replace(/^\[|\]$/g, "");
+  let addresses = [hostname];
+  if (!isIpAddress(hostname)) {
+    const results = await Promise.allSettled([Deno.resolveDns(hostname, "A"), Deno.resolveDns(hostname, "AAAA")]);
+    addresses = results.flatMap((result) => (result.status === "fulfilled" ? result.value : []));
+    if (addresses.length === 0) throw new Error("The host could not be found");
+  }
+  if (!addresses.every(isPublicIpAddress)) {
+    throw new Error("The URL must point to a public website");
+  }
+  return addresses[0];
+};
+
+export interface PublicResponse {
+  status: number;
+  headers: Headers;
+  body: Uint8Array;
+}
+
+const MAX_HEAD_BYTES = 16 * 1024;
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+const HEAD_END = encoder.encode("\r\n\r\n");
+const LINE_END = encoder.encode("\r\n");
+
+const indexOf = (bytes: Uint8Array, pattern: Uint8Array, from = 0) => {
+  for (let i = from; i <= bytes.length - pattern.length; i++) {
+    if (pattern.every((byte, j) => bytes[i + j] === byte)) return i;
+  }
+  return -1;
+};
+
+const concat = (chunks: Uint8Array[]) => {
+  const bytes = new Uint8Array(chunks.reduce((size, chunk) => size + chunk.length, 0));
+  let offset = 0;
+  chunks.forEach((chunk) => {
+    bytes.set(chunk, offset);
+    offset += chunk.length;
+  });
+  return bytes;
+};
+
+const invalidResponse = () => new Error("The server did not send a valid HTTP response");
+const incompleteResponse = () => new Error("The server closed the connection before the response was complete");
+const tooLarge = () => new Error("The response is too large");
+
+const parseHead = (bytes: Uint8Array) => {
+  const end = indexOf(bytes, HEAD_END);
+  if (end < 0) return null;
+
+  const [statusLine, ...lines] = decoder.decode(bytes.subarray(0, end)).split("\r\n");
+  const status = /^HTTP\/1\.[01] (\d{3})(?: |$)/.exec(statusLine);
+  if (!status) throw invalidResponse();
+  const headers = new Headers();
+  lines.forEach((line) => {
+    const colon = line.indexOf(":");
+    if (colon <= 0) throw invalidResponse();
+    headers.append(line.slice(0, colon).trim(), line.slice(colon + 1).trim());
+  });
+  return { status: Number(status[1]), headers, bodyStart: end + HEAD_END.length };
+};
+
+const decodeChunked = (bytes: Uint8Array) => {
+  const chunks: Uint8Array[] = [];
+  for (let offset = 0; ; ) {
+    const lineEnd = indexOf(bytes, LINE_END, offset);
+    if (lineEnd < 0) throw incompleteResponse();
+    const size = decoder.decode(bytes.subarray(offset, lineEnd)).split(";")[0].trim();
+    if (!/^[0-9a-f]{1,8}$/i.test(size)) throw invalidResponse();
+    const start = lineEnd + LINE_END.length;
+    const end = start + parseInt(size, 16);
+    if (end === start) return concat(chunks);
+    if (end > bytes.length) throw incompleteResponse();
+    chunks.push(bytes.subarray(start, end));
+    offset = end + LINE_END.length;
+  }
+};
+
+// Reads an HTTP/1.1 response sent with "Connection: close", keeping at most
+// maxBodyBytes of body (and as much again of chunk framing) in memory
+export const readHttpResponse = async (
+  source: AsyncIterable<Uint8Array>,
+  maxBodyBytes: number
+): Promise<PublicResponse> => {
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  let head: ReturnType<typeof parseHead> = null;
+
+  for await (const chunk of source) {
+    chunks.push(chunk);
+    size += chunk.length;
+    if (!head) {
+      head = parseHead(concat(chunks));
+      if (!head && size > MAX_HEAD_BYTES) throw invalidResponse();
+      if (head && Number(head.headers.get("content-length")) > maxBodyBytes) throw tooLarge();
+    }
+    if (head) {
+      const received = size - head.bodyStart;
+      if (received > maxBodyBytes * 2) throw tooLarge();
+      const length = head.headers.get("content-length");
+      if (!head.headers.has("transfer-encoding") && length !== null && received >= Number(length)) break;
+    }
+  }
+  if (!head) throw incompleteResponse();
+
+  const encoding = head.headers.get("content-encoding");
+  if (encoding && encoding.toLowerCase() !== "identity") throw invalidResponse();
+
+  let body = concat(chunks).subarray(head.bodyStart);
+  const transferEncoding = head.headers.get("transfer-encoding");
+  const length = head.headers.get("content-length");
+  if (transferEncoding) {
+    if (transferEncoding.toLowerCase() !== "chunked") throw invalidResponse();
+    body = decodeChunked(body);
+  } else if (length !== null) {
+    if (!/^\d+$/.test(length)) throw invalidResponse();
+    if (body.length < Number(length)) throw incompleteResponse();
+    body = body.subarray(0, Number(length));
+  }
+  if (body.length > maxBodyBytes) throw tooLarge();
+  return { status: head.status, headers: head.headers, body };
+};
+
+const abortable = <T>(promise: Promise<T>, signal: AbortSignal) =>
+  new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(new Error("The server took too long to respond"));
+    if (signal.aborted) return onAbort();
+    signal.addEventListener("abort", onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => signal.removeEventListener("abort", onAbort));
+  });
+
+interface PublicRequestOptions {
+  accept: string;
+  maxBodyBytes: number;
+  signal: AbortSignal;
+}
+
+// GETs a URL from a public host without following redirects. fetch() would
+// look the host up again after resolvePublicAddress, and a name that
+// changes its answer in between could send it somewhere private, so this
+// connects to the address that was checked and verifies TLS against the
+// URL's host name.
+export const fetchFromPublicHost = async (
+  url: URL,
+  { accept, maxBodyBytes, signal }: PublicRequestOptions
+): Promise<PublicResponse> => {
+  const address = await abortable(resolvePublicAddress(url), signal);
+  const port = Number(url.port) || (url.protocol === "https:" ? 443 : 80);
+
+  let conn: Deno.Conn = await abortable(Deno.connect({ hostname: address, port }), signal);
+  const close = () => {
+    try {
+      conn.close();
+    } catch {
+      // Already closed once the response was read to the end
+    }
+  };
+  signal.addEventListener("abort", close, { once: true });
+
+  try {
+    if (url.protocol === "https:") {
+      conn = await abortable(Deno.startTls(conn, { hostname: url.hostname.replace(/^\[|\]$/g, "") }), signal);
+    }
+
+    const request = encoder.encode(
+      [
+        `GET ${url.pathname}${url.search} HTTP/1.1`,
+        `Host: ${url.host}`,
+        `Accept: ${accept}`,
+        "Accept-Encoding: identity",
+        "Connection: close",
+        "User-Agent: ShareHub",
+        "",
+        "",
+      ].join("\r\n")
+    );
+    for (let written = 0; written < request.length; ) {
+      written += await conn.write(request.subarray(written));
+    }
+
+    return await abortable(readHttpResponse(conn.readable, maxBodyBytes), signal);
+  } finally {
+    signal.removeEventListener("abort", close);
+    close();
+  }
+};
@@ -0,0 +1,34 @@
+// The operations the app needs from a payment provider. Amounts are in the
+// smallest currency unit (cents).
+export interface AuthorizeRequest {
+  amount: number;
+  currency: string;
+  // Caller-chosen id (the booking id) so retries do not double charge
+  reference: string;
+  // Provider token for the payment method, e.g. a Stripe PaymentMethod id
+  paymentMethodToken?: string;
+}
+
+export interface GatewayResult {
+  id: string;
+  status: "authorized" | "captured" | "voided" | "refunded" | "failed";
+  failureReason?: string;
+}
+
+export interface PaymentGateway {
+  readonly name: string;
+  authorize(request: AuthorizeRequest): Promise<GatewayResult>;
+  capture(paymentId: string): Promise<GatewayResult>;
+  // Release an authorization that was never captured
+  void(paymentId: string): Promise<GatewayResult>;
+  refund(paymentId: string): Promise<GatewayResult>;
+}
+
+export class PaymentGatewayError extends Error {
+  constructor(message: string, readonly status = 502) {
+    super(message);
+    this.name = "PaymentGatewayError";
+  }
+}
+
+export const toMinorUnits = (amount: number) => Math.round(amount * 100);
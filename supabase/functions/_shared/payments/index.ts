@@ -0,0 +1,17 @@
+import { PaymentGateway } from "./gateway.ts";
+import { MockGateway } from "./mock.ts";
+import { StripeGateway } from "./stripe.ts";
+
+export * from "./gateway.ts";
+export * from "./settlement.ts";
+
+// PAYMENT_GATEWAY picks the provider; anything but "stripe" uses the mock so
+// local development never needs provider credentials
+export const getPaymentGateway = (): PaymentGateway => {
+  if (Deno.env.get("PAYMENT_GATEWAY") === "stripe") {
+    const secretKey = Deno.env.get("STRIPE_SECRET_KEY");
+    if (!secretKey) throw new Error("STRIPE_SECRET_KEY is not set");
+    return new StripeGateway(secretKey, Deno.env.get("STRIPE_API_BASE") ?? undefined);
+  }
+  return new MockGateway();
+};
@@ -0,0 +1,50 @@
+import { AuthorizeRequest, GatewayResult, PaymentGateway } from "./gateway.ts";
+
+// Mirrors Stripe's test token for a declined card
+export const MOCK_DECLINED_TOKEN = "pm_card_chargeDeclined";
+
+// Deterministic gateway for local development and tests: no network, ids
+// derived from the reference, and a decline only for MOCK_DECLINED_TOKEN.
+// Like a real gateway it rejects operations that make no sense for the
+// current state of a payment.
+export class MockGateway implements PaymentGateway {
+  readonly name = "mock";
+  private payments = new Map<string, GatewayResult["status"]>();
+
+  async authorize(request: AuthorizeRequest): Promise<GatewayResult> {
+    const id = `mock_pi_${request.reference}`;
+    if (request.paymentMethodToken === MOCK_DECLINED_TOKEN) {
+      this.payments.set(id, "failed");
+      return { id, status: "failed", failureReason: "Your card was declined." };
+    }
+    this.payments.set(id, "authorized");
+    return { id, status: "authorized" };
+  }
+
+  capture(paymentId: string) {
+    return this.transition(paymentId, "authorized", "captured");
+  }
+
+  void(paymentId: string) {
+    return this.transition(paymentId, "authorized", "voided");
+  }
+
+  refund(paymentId: string) {
+    return this.transition(paymentId, "captured", "refunded");
+  }
+
+  // Edge function instances are short-lived, so a payment the mock has not
+  // seen is assumed to be in the expected state
+  private async transition(
+    paymentId: string,
+    from: GatewayResult["status"],
+    to: GatewayResult["status"]
+  ): Promise<GatewayResult> {
+    const current = this.payments.get(paymentId) ?? from;
+    if (current !== from) {
+      return { id: paymentId, status: current, failureReason: `Payment is ${current}, not ${from}` };
+    }
+    this.payments.set(paymentId, to);
+    return { id: paymentId, status: to };
+  }
+}
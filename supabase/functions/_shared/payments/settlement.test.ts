@@ -0,0 +1,113 @@
+import { describe, expect, it } from "vitest";
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { GatewayResult, PaymentGateway, PaymentGatewayError } from "./gateway.ts";
+import { BookingPayment, getSettlementAction, isPaymentComplete, settlePayment } from "./settlement.ts";
+
+const payment = (status: string, providerPaymentId: string | null = "pi_1"): BookingPayment => ({
+  booking_id: "booking-1",
+  provider: providerPaymentId ? "mock" : "offline",
+  provider_payment_id: providerPaymentId,
+  amount: 40,
+  status,
+});
+
+// Records gateway calls and answers each with the given status
+const fakeGateway = (status: GatewayResult["status"] = "captured") => {
+  const calls: string[] = [];
+  const answer = (operation: string) => async (id: string) => {
+    calls.push(`${operation} ${id}`);
+    return { id, status, failureReason: status === "failed" ? "Declined" : undefined };
+  };
+  const gateway: PaymentGateway = {
+    name: "fake",
+    authorize: async () => ({ id: "pi_1", status: "authorized" }),
+    capture: answer("capture"),
+    void: answer("void"),
+    refund: answer("refund"),
+  };
+  return { gateway, calls };
+};
+
+// Just enough of the client for savePayment: echoes the upserted row
+const fakeAdmin = () => {
+  const saved: Record<string, unknown>[] = [];
+  const admin = {
+    from: () => ({
+      upsert: (values: Record<string, unknown>) => {
+        saved.push(values);
+        return { select: () => ({ single: async () => ({ data: values, error: null }) }) };
+      },
+    }),
+  } as unknown as SupabaseClient;
+  return { admin, saved };
+};
+
+describe("getSettlementAction", () => {
+  it.each([
+    ["authorized", true, "capture"],
+    ["authorized", false, "void"],
+    ["captured", false, "refund"],
+    ["captured", true, null],
+    ["voided", true, null],
+    ["voided", false, null],
+    ["refunded", false, null],
+    ["failed", true, null],
+  ])("settles a %s payment that goes ahead=%s with %s", (status, goesAhead, action) => {
+    expect(getSettlementAction(payment(status), goesAhead)).toBe(action);
+  });
+
+  it("leaves cash and missing payments alone", () => {
+    expect(getSettlementAction(payment("offline", null), true)).toBeNull();
+    expect(getSettlementAction(payment("offline", null), false)).toBeNull();
+    expect(getSettlementAction(null, true)).toBeNull();
+  });
+});
+
+describe("isPaymentComplete", () => {
+  it("needs a captured payment for card and PayPal bookings", () => {
+    expect(isPaymentComplete("card", payment("captured"))).toBe(true);
+    expect(isPaymentComplete("paypal", payment("captured"))).toBe(true);
+    expect(isPaymentComplete("card", payment("authorized"))).toBe(false);
+    expect(isPaymentComplete("card", payment("voided"))).toBe(false);
+    expect(isPaymentComplete("card", payment("offline", null))).toBe(false);
+    expect(isPaymentComplete("card", null)).toBe(false);
+    expect(isPaymentComplete(null, null)).toBe(false);
+  });
+
+  it("needs the offline record for cash bookings", () => {
+    expect(isPaymentComplete("cash", payment("offline", null))).toBe(true);
+    expect(isPaymentComplete("cash", null)).toBe(false);
+  });
+});
+
+describe("settlePayment", () => {
+  it("captures an authorized payment and saves the result", async () => {
+    const { gateway, calls } = fakeGateway("captured");
+    const { admin, saved } = fakeAdmin();
+    const settled = await settlePayment(admin, gateway, "booking-1", payment("authorized"), true);
+    expect(calls).toEqual(["capture pi_1"]);
+    expect(saved).toEqual([
+      { booking_id: "booking-1", currency: "usd", status: "captured", failure_reason: null },
+    ]);
+    expect(settled.status).toBe("captured");
+  });
+
+  it("returns payments that need nothing without calling the gateway", async () => {
+    const { gateway, calls } = fakeGateway();
+    const { admin, saved } = fakeAdmin();
+    const voided = payment("voided");
+    expect(await settlePayment(admin, gateway, "booking-1", voided, true)).toBe(voided);
+    expect(await settlePayment(admin, gateway, "booking-1", null, true)).toBeNull();
+    expect(calls).toEqual([]);
+    expect(saved).toEqual([]);
+  });
+
+  it("records and reports a failed settlement", async () => {
+    const { gateway } = fakeGateway("failed");
+    const { admin, saved } = fakeAdmin();
+    await expect(settlePayment(admin, gateway, "booking-1", payment("captured"), false)).rejects.toThrow(
+      PaymentGatewayError
+    );
+    expect(saved[0]).toMatchObject({ status: "failed", failure_reason: "Declined" });
+  });
+});
@@ -0,0 +1,65 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import type { BookingPayment } from "../schemas/index.ts";
+import { GatewayResult, PaymentGateway, PaymentGatewayError } from "./gateway.ts";
+
+export type { BookingPayment };
+
+export const CURRENCY = "usd";
+
+export const savePayment = async (
+  admin: SupabaseClient,
+  bookingId: string,
+  values: Partial<BookingPayment> & { failure_reason?: string | null }
+) => {
+  const { data, error } = await admin
+    .from("booking_payments")
+    .upsert({ booking_id: bookingId, currency: CURRENCY, ...values })
+    .select()
+    .single();
+  if (error) throw error;
+  return data as BookingPayment;
+};
+
+export type SettlementAction = "capture" | "void" | "refund";
+
+// What the gateway must do with the payment of a booking that goes ahead
+// (capture) or does not (void or refund). Cash and missing payments need
+// nothing.
+export const getSettlementAction = (
+  payment: Pick<BookingPayment, "provider_payment_id" | "status"> | null,
+  goesAhead: boolean
+): SettlementAction | null => {
+  if (!payment?.provider_payment_id) return null;
+  if (payment.status === "authorized") return goesAhead ? "capture" : "void";
+  if (payment.status === "captured" && !goesAhead) return "refund";
+  return null;
+};
+
+// A booking may only be confirmed once it is paid for: cash bookings are
+// recorded as offline and every other method must have been captured
+export const isPaymentComplete = (
+  paymentMethod: string | null,
+  payment: Pick<BookingPayment, "status"> | null
+) => (paymentMethod === "cash" ? payment?.status === "offline" : payment?.status === "captured");
+
+// Capture, void or refund the payment as getSettlementAction decides
+export const settlePayment = async (
+  admin: SupabaseClient,
+  gateway: PaymentGateway,
+  bookingId: string,
+  payment: BookingPayment | null,
+  goesAhead: boolean
+) => {
+  const action = getSettlementAction(payment, goesAhead);
+  if (!action) return payment;
+
+  const result: GatewayResult = await gateway[action](payment!.provider_payment_id!);
+  const settled = await savePayment(admin, bookingId, {
+    status: result.status,
+    failure_reason: result.failureReason ?? null,
+  });
+  if (result.status === "failed") {
+    throw new PaymentGatewayError(result.failureReason ?? "Payment could not be settled", 402);
+  }
+  return settled;
+};
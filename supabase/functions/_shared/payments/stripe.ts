@@ -0,0 +1,109 @@
+import { AuthorizeRequest, GatewayResult, PaymentGateway, PaymentGatewayError } from "./gateway.ts";
+
+interface StripePaymentIntent {
+  id: string;
+  status: string;
+  last_payment_error?: { message?: string };
+}
+
+interface StripeErrorBody {
+  error?: { message?: string; code?: string; payment_intent?: StripePaymentIntent };
+}
+
+// Talks to the Stripe REST API, or any server that speaks it (e.g.
+// stripe-mock) when baseUrl is overridden. Authorizations are PaymentIntents
+// with manual capture.
+export class StripeGateway implements PaymentGateway {
+  readonly name = "stripe";
+
+  constructor(
+    private readonly secretKey: string,
+    private readonly baseUrl = "https://api.stripe.com"
+  ) {}
+
+  async authorize(request: AuthorizeRequest): Promise<GatewayResult> {
+    const params: Record<string, string> = {
+      amount: String(request.amount),
+      currency: request.currency,
+      capture_method: "manual",
+      confirm: "true",
+      "metadata[booking_id]": request.reference,
+      "automatic_payment_methods[enabled]": "true",
+      "automatic_payment_methods[allow_redirects]": "never",
+    };
+    if (request.paymentMethodToken) params.payment_method = request.paymentMethodToken;
+
+    return this.send("/v1/payment_intents", params, `authorize-${request.reference}`);
+  }
+
+  capture(paymentId: string) {
+    return this.send(`/v1/payment_intents/${paymentId}/capture`, {}, `capture-${paymentId}`);
+  }
+
+  void(paymentId: string) {
+    return this.send(`/v1/payment_intents/${paymentId}/cancel`, {}, `cancel-${paymentId}`);
+  }
+
+  async refund(paymentId: string): Promise<GatewayResult> {
+    await this.request("/v1/refunds", { payment_intent: paymentId }, `refund-${paymentId}`);
+    return { id: paymentId, status: "refunded" };
+  }
+
+  private async send(path: string, params: Record<string, string>, idempotencyKey: string) {
+    try {
+      return toResult(await this.request(path, params, idempotencyKey));
+    } catch (error) {
+      // Card declines come back as errors that still describe the intent
+      if (error instanceof StripeDeclineError) {
+        return { id: error.intent.id, status: "failed" as const, failureReason: error.message };
+      }
+      throw error;
+    }
+  }
+
+  private async request(path: string, params: Record<string, string>, idempotencyKey: string) {
+    const response = await fetch(`${this.baseUrl}${path}`, {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${this.secretKey}`,
+        "Content-Type": "application/x-www-form-urlencoded",
+        "Idempotency-Key": idempotencyKey,
+      },
+      body: new URLSearchParams(params),
+    });
+    const body = await response.json();
+
+    if (!response.ok) {
+      const { error } = body as StripeErrorBody;
+      if (error?.code === "card_declined" && error.payment_intent) {
+        throw new StripeDeclineError(error.message ?? "Your card was declined.", error.payment_intent);
+      }
+      throw new PaymentGatewayError(error?.message ?? `Stripe request failed with status ${response.status}`);
+    }
+
+    return body as StripePaymentIntent;
+  }
+}
+
+class StripeDeclineError extends Error {
+  constructor(message: string, readonly intent: StripePaymentIntent) {
+    super(message);
+  }
+}
+
+const toResult = (intent: StripePaymentIntent): GatewayResult => {
+  switch (intent.status) {
+    case "requires_capture":
+      return { id: intent.id, status: "authorized" };
+    case "succeeded":
+      return { id: intent.id, status: "captured" };
+    case "canceled":
+      return { id: intent.id, status: "voided" };
+    default:
+      return {
+        id: intent.id,
+        status: "failed",
+        failureReason: intent.last_payment_error?.message ?? `Payment is ${intent.status}`,
+      };
+  }
+};
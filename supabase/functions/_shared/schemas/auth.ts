@@ -0,0 +1,17 @@
+import { z } from "zod";
+
+// Supabase Auth's default minimum
+export const MIN_PASSWORD_LENGTH = 6;
+
+export const signInSchema = z.object({
+  email: z.string().trim().email("Enter a valid email address"),
+  password: z.string().min(MIN_PASSWORD_LENGTH, `Password must be at least ${MIN_PASSWORD_LENGTH} characters`),
+});
+
+export const signUpSchema = signInSchema.extend({
+  name: z.string().trim().min(1, "Name is required").max(100, "Name must be 100 characters or fewer"),
+});
+
+export type SignInInput = z.infer<typeof signInSchema>;
+
+export type SignUpInput = z.infer<typeof signUpSchema>;
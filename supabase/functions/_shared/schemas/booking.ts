@@ -0,0 +1,26 @@
+import { z } from "zod";
+import { endsAfterStart, isoDateTime } from "./dates.ts";
+
+export const PAYMENT_METHODS = ["card", "paypal", "cash"] as const;
+
+export type PaymentMethod = (typeof PAYMENT_METHODS)[number];
+
+const bookingTimesShape = {
+  start_time: isoDateTime("Choose when the booking starts"),
+  end_time: isoDateTime("Choose when the booking ends"),
+  payment_method: z.enum(PAYMENT_METHODS),
+};
+
+const END_AFTER_START_MESSAGE = "End date must be after the start date";
+
+// What the renter picks on the booking form
+export const bookingDetailsSchema = z
+  .object(bookingTimesShape)
+  .superRefine(endsAfterStart("start_time", "end_time", END_AFTER_START_MESSAGE));
+
+// Arguments for create_booking, which checks availability and overlaps itself
+export const bookingRequestSchema = z
+  .object({ resource_id: z.string().uuid(), ...bookingTimesShape })
+  .superRefine(endsAfterStart("start_time", "end_time", END_AFTER_START_MESSAGE));
+
+export type BookingRequest = z.infer<typeof bookingRequestSchema>;
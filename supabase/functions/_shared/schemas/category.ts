@@ -0,0 +1,72 @@
+import { z } from "zod";
+
+export const ATTRIBUTE_TYPES = ["text", "number", "select", "boolean"] as const;
+
+export type AttributeType = (typeof ATTRIBUTE_TYPES)[number];
+
+export const MAX_TEXT_ATTRIBUTE_LENGTH = 200;
+
+// One entry of categories.attribute_schema
+export const categoryAttributeSchema = z.object({
+  key: z.string().regex(/^[a-z][a-z0-9_]*$/),
+  label: z.string().min(1),
+  type: z.enum(ATTRIBUTE_TYPES),
+  required: z.boolean().optional(),
+  filterable: z.boolean().optional(),
+  options: z.array(z.string()).optional(),
+  unit: z.string().optional(),
+  min: z.number().optional(),
+  max: z.number().optional(),
+});
+
+export const categoryAttributeListSchema = z.array(categoryAttributeSchema);
+
+export type CategoryAttribute = z.infer<typeof categoryAttributeSchema>;
+
+export const attributeValueSchema = z.union([z.string(), z.number(), z.boolean()]);
+
+export type AttributeValue = z.infer<typeof attributeValueSchema>;
+
+// Why a value does not fit its definition, or null when it does. The
+// validate_resource_attributes trigger applies the same rules.
+const checkAttributeValue = (attribute: CategoryAttribute, value: AttributeValue | undefined) => {
+  if (value === undefined || value === "") {
+    return attribute.required ? `${attribute.label} is required` : null;
+  }
+
+  switch (attribute.type) {
+    case "number":
+      if (typeof value !== "number" || !Number.isFinite(value)) return `${attribute.label} must be a number`;
+      if (attribute.min !== undefined && value < attribute.min) {
+        return `${attribute.label} must be at least ${attribute.min}`;
+      }
+      if (attribute.max !== undefined && value > attribute.max) {
+        return `${attribute.label} must be at most ${attribute.max}`;
+      }
+      return null;
+    case "boolean":
+      return typeof value === "boolean" ? null : `${attribute.label} must be yes or no`;
+    case "select":
+      return typeof value === "string" && (attribute.options ?? []).includes(value)
+        ? null
+        : `${attribute.label} must be one of the listed options`;
+    default:
+      return typeof value === "string" && value.length <= MAX_TEXT_ATTRIBUTE_LENGTH
+        ? null
+        : `${attribute.label} must be text of at most ${MAX_TEXT_ATTRIBUTE_LENGTH} characters`;
+  }
+};
+
+// The attributes of a listing in a category whose (inherited) definitions are given
+export const attributeValuesSchema = (attributes: CategoryAttribute[]) =>
+  z.record(attributeValueSchema).superRefine((values, ctx) => {
+    Object.keys(values).forEach((key) => {
+      if (!attributes.some((attribute) => attribute.key === key)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: [key], message: `"${key}" is not an attribute of this category` });
+      }
+    });
+    attributes.forEach((attribute) => {
+      const message = checkAttributeValue(attribute, values[attribute.key]);
+      if (message) ctx.addIssue({ code: z.ZodIssueCode.custom, path: [attribute.key], message });
+    });
+  });
@@ -0,0 +1,15 @@
+import { z } from "zod";
+
+export const isoDateTime = (message: string) => z.string().datetime({ offset: true, message });
+
+// Adds an issue on `endKey` unless it falls after `startKey`; skipped while
+// either time is still missing so only one error shows per field
+export const endsAfterStart =
+  <K extends string>(startKey: K, endKey: K, message: string) =>
+  (value: Record<K, string>, ctx: z.RefinementCtx) => {
+    const start = Date.parse(value[startKey]);
+    const end = Date.parse(value[endKey]);
+    if (!Number.isNaN(start) && !Number.isNaN(end) && end <= start) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: [endKey], message });
+    }
+  };
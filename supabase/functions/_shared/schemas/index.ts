@@ -0,0 +1,8 @@
+// Validation shared by the web app and the edge functions, so both apply
+// the same rules. The app imports these through the @shared alias.
+export * from "./auth.ts";
+export * from "./booking.ts";
+export * from "./category.ts";
+export * from "./dates.ts";
+export * from "./payments.ts";
+export * from "./resource.ts";
@@ -0,0 +1,36 @@
+import { z } from "zod";
+
+// Booking statuses whose transitions move money and so go through the
+// payments function
+export const PAYMENT_TRANSITIONS = ["confirmed", "rejected", "cancelled"] as const;
+
+export type PaymentTransition = (typeof PAYMENT_TRANSITIONS)[number];
+
+export const BOOKING_PAYMENT_COLUMNS = "booking_id, provider, provider_payment_id, amount, status";
+
+// A booking_payments row as the payment functions read it
+export const bookingPaymentSchema = z.object({
+  booking_id: z.string().uuid(),
+  provider: z.string(),
+  provider_payment_id: z.string().nullable(),
+  amount: z.number(),
+  status: z.string(),
+});
+
+export type BookingPayment = z.infer<typeof bookingPaymentSchema>;
+
+// Body of a request to the payments function
+export const paymentRequestSchema = z.discriminatedUnion("action", [
+  z.object({
+    action: z.literal("authorize"),
+    booking_id: z.string().uuid(),
+    payment_method_token: z.string().optional(),
+  }),
+  z.object({
+    action: z.literal("transition"),
+    booking_id: z.string().uuid(),
+    status: z.enum(PAYMENT_TRANSITIONS),
+  }),
+]);
+
+export type PaymentRequest = z.infer<typeof paymentRequestSchema>;
@@ -0,0 +1,53 @@
+import { z } from "zod";
+import { attributeValueSchema } from "./category.ts";
+import { endsAfterStart, isoDateTime } from "./dates.ts";
+
+const PRICE_MESSAGE = "Price must be zero or more";
+
+const price = () => z.number({ invalid_type_error: PRICE_MESSAGE }).min(0, PRICE_MESSAGE);
+
+export const BOOKING_MODES = ["request", "instant"] as const;
+
+export type BookingMode = (typeof BOOKING_MODES)[number];
+
+const MIN_RENTAL_MESSAGE = "Minimum rental must be at least 1 hour";
+
+// A resource as written to the resources table; CHECK constraints on the
+// table hold the same number and date limits for writes that skip the form
+export const resourceSchema = z
+  .object({
+    title: z.string().trim().min(1, "Title is required"),
+    description: z.string().nullable(),
+    category_id: z.string({ invalid_type_error: "Category is required" }).uuid("Category is required"),
+    // Checked against the category's definitions with attributeValuesSchema
+    attributes: z.record(attributeValueSchema),
+    price: price(),
+    hourly_price: price().nullable(),
+    weekly_price: price().nullable(),
+    weekend_price: price().nullable(),
+    min_rental_hours: z
+      .number({ invalid_type_error: MIN_RENTAL_MESSAGE })
+      .int(MIN_RENTAL_MESSAGE)
+      .min(1, MIN_RENTAL_MESSAGE),
+    deposit_amount: price(),
+    location: z.string().trim().min(1, "Location is required"),
+    availability_start: isoDateTime("Start of availability is required"),
+    availability_end: isoDateTime("End of availability is required"),
+    buffer_minutes: z.number().int().min(0).max(10080),
+    timezone: z.string().min(1),
+    is_available: z.boolean(),
+    booking_mode: z.enum(BOOKING_MODES),
+    // Who may skip the owner's approval when booking_mode is "instant"
+    instant_book_verified_email: z.boolean(),
+    instant_book_min_rating: z.number().min(1).max(5).nullable(),
+    request_expiry_hours: z.number().int().min(1, "Choose a response window").max(168, "Choose a response window"),
+    // .ics feed of another platform the resource is listed on
+    ical_import_url: z
+      .string()
+      .trim()
+      .regex(/^(https?|webcal):\/\/\S+$/i, "Enter an https:// or webcal:// calendar URL")
+      .nullable(),
+  })
+  .superRefine(endsAfterStart("availability_start", "availability_end", "Availability must end after it starts"));
+
+export type ResourceInput = z.infer<typeof resourceSchema>;
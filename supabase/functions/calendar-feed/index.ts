@@ -0,0 +1,92 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { corsHeaders, jsonResponse } from "../_shared/cors.ts";
+import { buildCalendar, CalendarEvent, toEventUid } from "../_shared/calendar/index.ts";
+
+// Serves a member's secret iCalendar feed: GET /calendar-feed?token=...
+// Calendar apps cannot send an Authorization header, so the token in the
+// URL is the only credential and JWT verification is off for this function.
+
+interface FeedBooking {
+  id: string;
+  renter_id: string;
+  owner_id: string;
+  start_time: string;
+  end_time: string;
+  resources: {
+    title: string;
+    location: string;
+    resource_locations: { address: string } | null;
+  } | null;
+}
+
+// Accepted bookings, including finished ones so the calendar keeps its history
+const FEED_STATUSES = ["confirmed", "picked_up", "returned", "completed"];
+
+const HISTORY_DAYS = 90;
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const token = new URL(req.url).searchParams.get("token");
+    if (!token) return jsonResponse({ error: "Feed not found" }, 404);
+
+    const admin = createClient(Deno.env.get("SUPABASE_URL")!, Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!);
+    const appUrl = Deno.env.get("APP_URL") ?? "http://localhost:8080";
+
+    const { data: feed, error: feedError } = await admin
+      .from("calendar_feeds")
+      .select("user_id, resource_id, resources(title, owner_id)")
+      .eq("token", token)
+      .maybeSingle();
+    if (feedError) throw feedError;
+    // A resource feed stops working if the resource changes hands
+    if (!feed || (feed.resource_id && feed.resources?.owner_id !== feed.user_id)) {
+      return jsonResponse({ error: "Feed not found" }, 404);
+    }
+
+    let query = admin
+      .from("bookings")
+      .select("id, renter_id, owner_id, start_time, end_time, resources(title, location, resource_locations(address))")
+      .in("status", FEED_STATUSES)
+      .gte("end_time", new Date(Date.now() - HISTORY_DAYS * 24 * 60 * 60 * 1000).toISOString())
+      .order("start_time");
+    query = feed.resource_id
+      ? query.eq("resource_id", feed.resource_id)
+      : query.or(`renter_id.eq.${feed.user_id},owner_id.eq.${feed.user_id}`);
+
+    const { data: bookings, error: bookingsError } = await query;
+    if (bookingsError) throw bookingsError;
+
+    const events: CalendarEvent[] = ((bookings ?? []) as FeedBooking[]).map((booking) => {
+      const title = booking.resources?.title ?? "Booking";
+      const lending = booking.owner_id === feed.user_id;
+      return {
+        uid: toEventUid(booking.id),
+        start: new Date(booking.start_time),
+        end: new Date(booking.end_time),
+        summary: lending ? `${title} rented out` : `Borrowing ${title}`,
+        description: lending
+          ? "Hand the item over at the start and take it back at the end."
+          : "Pick the item up at the start and return it by the end.",
+        location: booking.resources?.resource_locations?.address ?? booking.resources?.location,
+        url: new URL("/dashboard", appUrl).toString(),
+      };
+    });
+
+    const name = feed.resource_id ? `ShareHub: ${feed.resources?.title}` : "ShareHub bookings";
+    return new Response(buildCalendar(name, events), {
+      headers: {
+        ...corsHeaders,
+        "Content-Type": "text/calendar; charset=utf-8",
+        "Cache-Control": "private, max-age=300",
+      },
+    });
+  } catch (error) {
+    console.error("Calendar feed error:", error);
+    return jsonResponse({ error: "Calendar feed failed" }, 500);
+  }
+});
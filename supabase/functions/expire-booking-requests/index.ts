@@ -0,0 +1,77 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { corsHeaders, jsonResponse } from "../_shared/cors.ts";
+import { getPaymentGateway, settlePayment } from "../_shared/payments/index.ts";
+import { BOOKING_PAYMENT_COLUMNS, bookingPaymentSchema } from "../_shared/schemas/index.ts";
+
+// Cancels booking requests the owner did not answer before they expired and
+// releases their payment holds, then passes lapsed waitlist offers on to the
+// next renter in line. Meant to run on a schedule (e.g. every few
+// minutes from pg_cron or an external scheduler) with the service role key.
+
+const BATCH_SIZE = 50;
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+  if (req.headers.get("Authorization") !== `Bearer ${serviceRoleKey}`) {
+    return jsonResponse({ error: "Not allowed" }, 403);
+  }
+
+  try {
+    const admin = createClient(Deno.env.get("SUPABASE_URL")!, serviceRoleKey);
+    const gateway = getPaymentGateway();
+
+    const { data: due, error: dueError } = await admin
+      .from("bookings")
+      .select("id")
+      .eq("status", "pending")
+      .lte("expires_at", new Date().toISOString())
+      .order("expires_at")
+      .limit(BATCH_SIZE);
+    if (dueError) throw dueError;
+
+    let expired = 0;
+    let failed = 0;
+    for (const booking of due ?? []) {
+      try {
+        // Only if the owner has not answered in the meantime. The status
+        // changes first so an accept racing this cannot end up confirmed
+        // with its hold released.
+        const { data: cancelled, error } = await admin
+          .from("bookings")
+          .update({ status: "cancelled", expired_at: new Date().toISOString() })
+          .eq("id", booking.id)
+          .eq("status", "pending")
+          .select("id");
+        if (error) throw error;
+        if (!cancelled?.length) continue;
+
+        // Read again: a racing accept may have captured it, which is refunded
+        const { data: payment, error: paymentError } = await admin
+          .from("booking_payments")
+          .select(BOOKING_PAYMENT_COLUMNS)
+          .eq("booking_id", booking.id)
+          .maybeSingle();
+        if (paymentError) throw paymentError;
+        await settlePayment(admin, gateway, booking.id, bookingPaymentSchema.nullable().parse(payment), false);
+        expired++;
+      } catch (error) {
+        console.error(`Error expiring booking ${booking.id}:`, error);
+        failed++;
+      }
+    }
+
+    const { data: expiredOffers, error: offersError } = await admin.rpc("expire_waitlist_offers");
+    if (offersError) throw offersError;
+
+    return jsonResponse({ expired, failed, expiredOffers });
+  } catch (error) {
+    console.error("Booking expiry error:", error);
+    const message = error instanceof Error ? error.message : "Booking expiry failed";
+    return jsonResponse({ error: message }, 500);
+  }
+});
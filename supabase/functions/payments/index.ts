@@ -0,0 +1,198 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient, SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { corsHeaders, jsonResponse } from "../_shared/cors.ts";
+import {
+  BookingPayment,
+  CURRENCY,
+  getPaymentGateway,
+  isPaymentComplete,
+  PaymentGateway,
+  PaymentGatewayError,
+  savePayment,
+  settlePayment,
+  toMinorUnits,
+} from "../_shared/payments/index.ts";
+import { PaymentTransition, paymentRequestSchema } from "../_shared/schemas/index.ts";
+
+interface Booking {
+  id: string;
+  renter_id: string;
+  owner_id: string;
+  status: string;
+  total_price: number;
+  payment_method: string | null;
+  instant_book: boolean;
+  expires_at: string | null;
+}
+
+class HttpError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+  }
+}
+
+// Place the hold for a newly requested booking. A declined payment cancels
+// the booking so the dates are freed straight away. Renters who met the
+// owner's instant booking criteria are then confirmed without waiting.
+const authorize = async (
+  admin: SupabaseClient,
+  gateway: PaymentGateway,
+  booking: Booking,
+  existing: BookingPayment | null,
+  paymentMethodToken?: string
+) => {
+  if (existing && existing.status !== "failed") return { payment: existing };
+
+  if (booking.status !== "pending") {
+    throw new HttpError("Only requested bookings can be authorized", 409);
+  }
+
+  let payment: Omit<BookingPayment, "booking_id"> & { failure_reason?: string | null };
+  if (booking.payment_method === "cash") {
+    payment = {
+      provider: "offline",
+      provider_payment_id: null,
+      amount: booking.total_price,
+      status: "offline",
+    };
+  } else {
+    const result = await gateway.authorize({
+      amount: toMinorUnits(booking.total_price),
+      currency: CURRENCY,
+      reference: booking.id,
+      paymentMethodToken,
+    });
+    payment = {
+      provider: gateway.name,
+      provider_payment_id: result.id,
+      amount: booking.total_price,
+      status: result.status,
+      failure_reason: result.failureReason ?? null,
+    };
+  }
+
+  const saved = await savePayment(admin, booking.id, payment);
+
+  if (saved.status === "failed") {
+    await updateBookingStatus(admin, booking.id, "cancelled");
+    throw new HttpError(payment.failure_reason ?? "Payment was declined", 402);
+  }
+
+  if (booking.instant_book) {
+    try {
+      return await transition(admin, gateway, booking, saved, "owner", "confirmed");
+    } catch (error) {
+      await updateBookingStatus(admin, booking.id, "cancelled");
+      throw error;
+    }
+  }
+
+  return { payment: saved };
+};
+
+// Settle the payment for an accept, reject or cancel, then apply the status
+const transition = async (
+  admin: SupabaseClient,
+  gateway: PaymentGateway,
+  booking: Booking,
+  payment: BookingPayment | null,
+  actor: "owner" | "renter",
+  status: PaymentTransition
+) => {
+  const { data: allowed, error } = await admin.rpc("is_booking_transition_allowed", {
+    _from: booking.status,
+    _to: status,
+    _actor: actor,
+  });
+  if (error) throw error;
+  if (!allowed) {
+    throw new HttpError(`Invalid booking status transition from ${booking.status} to ${status}`, 409);
+  }
+
+  // The expire-booking-requests function cancels it on its next run
+  if (booking.status === "pending" && booking.expires_at && new Date(booking.expires_at) <= new Date()) {
+    throw new HttpError("This request has expired", 409);
+  }
+
+  // Bookings whose authorization never went through (or was voided) have
+  // nothing to capture and cannot be accepted
+  const settled = await settlePayment(admin, gateway, booking.id, payment, status === "confirmed");
+
+  if (status === "confirmed" && !isPaymentComplete(booking.payment_method, settled)) {
+    throw new HttpError("The payment for this booking has not been completed", 402);
+  }
+
+  return { booking: await updateBookingStatus(admin, booking.id, status), payment: settled };
+};
+
+const updateBookingStatus = async (admin: SupabaseClient, bookingId: string, status: string) => {
+  const { data, error } = await admin
+    .from("bookings")
+    .update({ status })
+    .eq("id", bookingId)
+    .select()
+    .single();
+  if (error) throw error;
+  return data as Booking;
+};
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader) throw new HttpError("You must be signed in", 401);
+
+    const userClient = createClient(supabaseUrl, Deno.env.get("SUPABASE_ANON_KEY")!, {
+      global: { headers: { Authorization: authHeader } },
+    });
+    const { data: { user } } = await userClient.auth.getUser();
+    if (!user) throw new HttpError("You must be signed in", 401);
+
+    const admin = createClient(supabaseUrl, Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!);
+    const parsed = paymentRequestSchema.safeParse(await req.json().catch(() => null));
+    if (!parsed.success) {
+      throw new HttpError(parsed.error.issues[0]?.message ?? "Invalid request", 400);
+    }
+    const request = parsed.data;
+
+    const { data: booking, error: bookingError } = await admin
+      .from("bookings")
+      .select("id, renter_id, owner_id, status, total_price, payment_method, instant_book, expires_at")
+      .eq("id", request.booking_id)
+      .maybeSingle();
+    if (bookingError) throw bookingError;
+    if (!booking || ![booking.renter_id, booking.owner_id].includes(user.id)) {
+      throw new HttpError("Booking not found", 404);
+    }
+
+    const { data: payment, error: paymentError } = await admin
+      .from("booking_payments")
+      .select("*")
+      .eq("booking_id", booking.id)
+      .maybeSingle();
+    if (paymentError) throw paymentError;
+
+    const gateway = getPaymentGateway();
+    const actor = user.id === booking.owner_id ? "owner" : "renter";
+
+    switch (request.action) {
+      case "authorize":
+        if (actor !== "renter") throw new HttpError("Only the renter can pay for a booking", 403);
+        return jsonResponse(await authorize(admin, gateway, booking, payment, request.payment_method_token));
+      case "transition":
+        return jsonResponse(await transition(admin, gateway, booking, payment, actor, request.status));
+      default:
+        throw new HttpError("Unknown action", 400);
+    }
+  } catch (error) {
+    console.error("Payments error:", error);
+    const status =
+      error instanceof HttpError || error instanceof PaymentGatewayError ? error.status : 500;
+    const message = error instanceof Error ? error.message : "Payment request failed";
+    return jsonResponse({ error: message }, status);
+  }
+});
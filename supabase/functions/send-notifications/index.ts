@@ -0,0 +1,139 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient, SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { corsHeaders, jsonResponse } from "../_shared/cors.ts";
+import { getMailTransport, MailTransport } from "../_shared/mail/index.ts";
+import { isNotificationType, renderNotificationEmail } from "./templates.ts";
+
+// Emails queued notifications. Meant to run on a schedule (e.g. every few
+// minutes from pg_cron or an external scheduler) with the service role key;
+// each run also queues pickup reminders and overdue notices that have come due.
+
+interface PendingNotification {
+  id: string;
+  user_id: string;
+  type: string;
+  link: string | null;
+  email_attempts: number;
+  bookings: {
+    start_time: string;
+    end_time: string;
+    instant_book: boolean;
+    resources: { title: string } | null;
+  } | null;
+  waitlist_entries: {
+    start_time: string;
+    end_time: string;
+    offer_expires_at: string | null;
+    resources: { title: string } | null;
+  } | null;
+}
+
+const BATCH_SIZE = 50;
+
+// Sending is tried on this many runs before an email is marked failed
+const MAX_EMAIL_ATTEMPTS = 5;
+
+const sendNotification = async (
+  admin: SupabaseClient,
+  transport: MailTransport,
+  appUrl: string,
+  notification: PendingNotification
+) => {
+  // Waitlist offers are about an entry rather than a booking
+  const subject = notification.bookings ?? notification.waitlist_entries;
+  if (!isNotificationType(notification.type) || !subject) {
+    throw new Error(`Cannot render notification of type ${notification.type}`);
+  }
+
+  const { data: { user }, error: userError } = await admin.auth.admin.getUserById(notification.user_id);
+  if (userError) throw userError;
+  if (!user?.email) throw new Error("Recipient has no email address");
+
+  const { data: profile } = await admin
+    .from("profiles")
+    .select("name")
+    .eq("user_id", notification.user_id)
+    .maybeSingle();
+
+  await transport.send(
+    renderNotificationEmail(notification.type, user.email, {
+      recipientName: profile?.name || "there",
+      resourceTitle: subject.resources?.title ?? "your booking",
+      startTime: new Date(subject.start_time),
+      endTime: new Date(subject.end_time),
+      instantBook: notification.bookings?.instant_book ?? false,
+      offerExpiresAt: notification.waitlist_entries?.offer_expires_at
+        ? new Date(notification.waitlist_entries.offer_expires_at)
+        : null,
+      actionUrl: new URL(notification.link ?? "/", appUrl).toString(),
+    })
+  );
+};
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+  if (req.headers.get("Authorization") !== `Bearer ${serviceRoleKey}`) {
+    return jsonResponse({ error: "Not allowed" }, 403);
+  }
+
+  try {
+    const admin = createClient(Deno.env.get("SUPABASE_URL")!, serviceRoleKey);
+    const transport = getMailTransport();
+    const appUrl = Deno.env.get("APP_URL") ?? "http://localhost:8080";
+
+    const { data: queued, error: queueError } = await admin.rpc("queue_booking_reminders");
+    if (queueError) throw queueError;
+
+    const { data: pending, error: pendingError } = await admin
+      .from("notifications")
+      .select(
+        "id, user_id, type, link, email_attempts, bookings(start_time, end_time, instant_book, resources(title)), " +
+          "waitlist_entries(start_time, end_time, offer_expires_at, resources(title))"
+      )
+      .eq("email_status", "pending")
+      .order("created_at")
+      .limit(BATCH_SIZE);
+    if (pendingError) throw pendingError;
+
+    let sent = 0;
+    let failed = 0;
+    for (const notification of (pending ?? []) as PendingNotification[]) {
+      try {
+        await sendNotification(admin, transport, appUrl, notification);
+        await admin
+          .from("notifications")
+          .update({
+            email_status: "sent",
+            email_attempts: notification.email_attempts + 1,
+            emailed_at: new Date().toISOString(),
+            email_error: null,
+          })
+          .eq("id", notification.id);
+        sent++;
+      } catch (error) {
+        console.error(`Error emailing notification ${notification.id}:`, error);
+        // Left pending for the next run until it runs out of attempts
+        const attempts = notification.email_attempts + 1;
+        await admin
+          .from("notifications")
+          .update({
+            email_status: attempts >= MAX_EMAIL_ATTEMPTS ? "failed" : "pending",
+            email_attempts: attempts,
+            email_error: error instanceof Error ? error.message : String(error),
+          })
+          .eq("id", notification.id);
+        failed++;
+      }
+    }
+
+    return jsonResponse({ queued, sent, failed, transport: transport.name });
+  } catch (error) {
+    console.error("Notification dispatch error:", error);
+    const message = error instanceof Error ? error.message : "Notification dispatch failed";
+    return jsonResponse({ error: message }, 500);
+  }
+});
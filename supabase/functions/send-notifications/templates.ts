@@ -0,0 +1,143 @@
+import { MailMessage } from "../_shared/mail/index.ts";
+
+export type NotificationType =
+  | "booking_requested"
+  | "booking_accepted"
+  | "booking_rejected"
+  | "booking_expired"
+  | "waitlist_offer"
+  | "pickup_reminder"
+  | "return_overdue";
+
+export interface TemplateContext {
+  recipientName: string;
+  resourceTitle: string;
+  startTime: Date;
+  endTime: Date;
+  // Booked without waiting for the owner
+  instantBook: boolean;
+  // When a waitlist hold lapses
+  offerExpiresAt: Date | null;
+  // Absolute URL of the page the notification points to
+  actionUrl: string;
+}
+
+interface Template {
+  subject: (context: TemplateContext) => string;
+  // Paragraphs of the message body
+  lines: (context: TemplateContext) => string[];
+  action: string;
+}
+
+const formatDate = (date: Date) =>
+  date.toLocaleString("en-US", {
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+    timeZone: "UTC",
+    timeZoneName: "short",
+  });
+
+const formatRange = (context: TemplateContext) =>
+  `${formatDate(context.startTime)} to ${formatDate(context.endTime)}`;
+
+const templates: Record<NotificationType, Template> = {
+  booking_requested: {
+    subject: (c) =>
+      c.instantBook ? `${c.resourceTitle} was booked` : `New booking request for ${c.resourceTitle}`,
+    lines: (c) =>
+      c.instantBook
+        ? [
+            `"${c.resourceTitle}" was instantly booked from ${formatRange(c)}.`,
+            "Message the renter to arrange the pickup.",
+          ]
+        : [
+            `Someone would like to borrow "${c.resourceTitle}" from ${formatRange(c)}.`,
+            "Accept or decline the request from your dashboard.",
+          ],
+    action: "View dashboard",
+  },
+  booking_accepted: {
+    subject: (c) =>
+      c.instantBook ? `Your booking of ${c.resourceTitle} is confirmed` : `Your booking of ${c.resourceTitle} was accepted`,
+    lines: (c) => [
+      c.instantBook
+        ? `Your booking of "${c.resourceTitle}" from ${formatRange(c)} is confirmed.`
+        : `Good news: your request for "${c.resourceTitle}" from ${formatRange(c)} was accepted.`,
+      "Message the owner to arrange the pickup.",
+    ],
+    action: "View booking",
+  },
+  booking_rejected: {
+    subject: (c) => `Your booking of ${c.resourceTitle} was declined`,
+    lines: (c) => [
+      `The owner declined your request for "${c.resourceTitle}" from ${formatRange(c)}.`,
+      "Any payment hold has been released. Browse for something similar.",
+    ],
+    action: "View booking",
+  },
+  booking_expired: {
+    subject: (c) => `Your request for ${c.resourceTitle} expired`,
+    lines: (c) => [
+      `The owner did not answer your request for "${c.resourceTitle}" from ${formatRange(c)} in time, so it was cancelled.`,
+      "Any payment hold has been released. Browse for something similar.",
+    ],
+    action: "View booking",
+  },
+  waitlist_offer: {
+    subject: (c) => `A spot opened up for ${c.resourceTitle}`,
+    lines: (c) => [
+      `"${c.resourceTitle}" is now free from ${formatRange(c)}` +
+        (c.offerExpiresAt ? `, and it is held for you until ${formatDate(c.offerExpiresAt)}.` : "."),
+      "Book it before then, or the spot goes to the next renter on the waitlist.",
+    ],
+    action: "Book now",
+  },
+  pickup_reminder: {
+    subject: (c) => `Reminder: pick up ${c.resourceTitle} soon`,
+    lines: (c) => [
+      `Your booking of "${c.resourceTitle}" starts ${formatDate(c.startTime)}.`,
+      "Check with the owner that the pickup time still works.",
+    ],
+    action: "View booking",
+  },
+  return_overdue: {
+    subject: (c) => `${c.resourceTitle} is overdue`,
+    lines: (c) => [
+      `"${c.resourceTitle}" was due back ${formatDate(c.endTime)}.`,
+      "Please return it as soon as you can, or message the owner if you need more time.",
+    ],
+    action: "View booking",
+  },
+};
+
+const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+export const isNotificationType = (value: string): value is NotificationType => value in templates;
+
+export const renderNotificationEmail = (
+  type: NotificationType,
+  to: string,
+  context: TemplateContext
+): MailMessage => {
+  const template = templates[type];
+  const greeting = `Hi ${context.recipientName},`;
+  const lines = template.lines(context);
+
+  return {
+    to,
+    subject: template.subject(context),
+    text: [greeting, ...lines, `${template.action}: ${context.actionUrl}`].join("\n\n"),
+    html: [
+      `<p>${escapeHtml(greeting)}</p>`,
+      ...lines.map((line) => `<p>${escapeHtml(line)}</p>`),
+      `<p><a href="${escapeHtml(context.actionUrl)}">${escapeHtml(template.action)}</a></p>`,
+    ].join("\n"),
+  };
+};
@@ -0,0 +1,164 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient, SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { corsHeaders, jsonResponse } from "../_shared/cors.ts";
+import { parseCalendarBlocks } from "../_shared/calendar/index.ts";
+import { fetchFromPublicHost } from "../_shared/net.ts";
+
+// Imports the external calendars owners attached to their resources, so time
+// booked on other platforms cannot be booked here. Meant to run on a schedule
+// (e.g. hourly from pg_cron or an external scheduler) with the service role
+// key, which syncs every resource. An owner can also sync one of their own
+// resources by posting { resource_id } with their session.
+
+interface ImportedResource {
+  id: string;
+  owner_id: string;
+  timezone: string;
+  ical_import_url: string;
+}
+
+class HttpError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+  }
+}
+
+const BATCH_SIZE = 50;
+
+const FETCH_TIMEOUT_MS = 10_000;
+
+const MAX_CALENDAR_BYTES = 2 * 1024 * 1024;
+
+// Events further ahead than this are not imported
+const LOOKAHEAD_DAYS = 730;
+
+const MAX_REDIRECTS = 5;
+
+// The URL comes from the owner, so every hop must be a public host;
+// otherwise it could reach the metadata service, the database or anything
+// else on the private network
+const fetchCalendar = async (importUrl: string) => {
+  // webcal:// is how many platforms advertise their feeds; it is plain HTTP(S)
+  let url = new URL(importUrl.replace(/^webcal:\/\//i, "https://"));
+  const signal = AbortSignal.timeout(FETCH_TIMEOUT_MS);
+
+  // Redirects are followed by hand so each target is checked too
+  for (let redirects = 0; ; redirects++) {
+    const response = await fetchFromPublicHost(url, {
+      accept: "text/calendar",
+      maxBodyBytes: MAX_CALENDAR_BYTES,
+      signal,
+    });
+
+    const location = response.headers.get("location");
+    if (response.status >= 300 && response.status < 400 && location) {
+      if (redirects >= MAX_REDIRECTS) throw new Error("The calendar URL redirects too many times");
+      url = new URL(location, url);
+      continue;
+    }
+    if (response.status < 200 || response.status >= 300) {
+      throw new Error(`The calendar could not be downloaded (HTTP ${response.status})`);
+    }
+
+    const text = new TextDecoder().decode(response.body);
+    if (!text.includes("BEGIN:VCALENDAR")) throw new Error("The URL did not return an iCalendar file");
+    return text;
+  }
+};
+
+// Replaces the resource's imported blocks with the calendar's current events
+// and records the outcome on the resource for the owner to see
+const syncResource = async (admin: SupabaseClient, resource: ImportedResource) => {
+  try {
+    const now = Date.now();
+    const horizon = now + LOOKAHEAD_DAYS * 24 * 60 * 60 * 1000;
+    const blocks = parseCalendarBlocks(await fetchCalendar(resource.ical_import_url), resource.timezone).filter(
+      (block) => block.end.getTime() > now && block.start.getTime() < horizon
+    );
+
+    const { error: deleteError } = await admin
+      .from("resource_calendar_blocks")
+      .delete()
+      .eq("resource_id", resource.id);
+    if (deleteError) throw deleteError;
+
+    if (blocks.length > 0) {
+      const { error: insertError } = await admin.from("resource_calendar_blocks").insert(
+        blocks.map((block) => ({
+          resource_id: resource.id,
+          uid: block.uid,
+          summary: block.summary,
+          starts_at: block.start.toISOString(),
+          ends_at: block.end.toISOString(),
+        }))
+      );
+      if (insertError) throw insertError;
+    }
+
+    await admin
+      .from("resources")
+      .update({ ical_synced_at: new Date().toISOString(), ical_sync_error: null })
+      .eq("id", resource.id);
+    return true;
+  } catch (error) {
+    console.error(`Error importing calendar for resource ${resource.id}:`, error);
+    await admin
+      .from("resources")
+      .update({ ical_sync_error: error instanceof Error ? error.message : String(error) })
+      .eq("id", resource.id);
+    return false;
+  }
+};
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader) throw new HttpError("You must be signed in", 401);
+
+    const admin = createClient(supabaseUrl, serviceRoleKey);
+    let query = admin
+      .from("resources")
+      .select("id, owner_id, timezone, ical_import_url")
+      .not("ical_import_url", "is", null)
+      .order("ical_synced_at", { ascending: true, nullsFirst: true })
+      .limit(BATCH_SIZE);
+
+    if (authHeader !== `Bearer ${serviceRoleKey}`) {
+      const userClient = createClient(supabaseUrl, Deno.env.get("SUPABASE_ANON_KEY")!, {
+        global: { headers: { Authorization: authHeader } },
+      });
+      const { data: { user } } = await userClient.auth.getUser();
+      if (!user) throw new HttpError("You must be signed in", 401);
+
+      const body = await req.json().catch(() => null);
+      if (typeof body?.resource_id !== "string") throw new HttpError("resource_id is required", 400);
+      query = query.eq("id", body.resource_id).eq("owner_id", user.id);
+    }
+
+    const { data: resources, error: resourcesError } = await query;
+    if (resourcesError) throw resourcesError;
+
+    let synced = 0;
+    let failed = 0;
+    for (const resource of (resources ?? []) as ImportedResource[]) {
+      if (await syncResource(admin, resource)) {
+        synced++;
+      } else {
+        failed++;
+      }
+    }
+
+    return jsonResponse({ synced, failed });
+  } catch (error) {
+    console.error("Calendar sync error:", error);
+    const status = error instanceof HttpError ? error.status : 500;
+    const message = error instanceof Error ? error.message : "Calendar sync failed";
+    return jsonResponse({ error: message }, status);
+  }
+});
@@ -0,0 +1,17 @@
+-- Prevent overlapping reservations for the same resource
+CREATE EXTENSION IF NOT EXISTS btree_gist WITH SCHEMA extensions;
+
+-- A booking must end after it starts
+ALTER TABLE public.bookings
+  ADD CONSTRAINT bookings_time_range_check CHECK (end_time > start_time);
+
+-- Reject any pending or confirmed booking whose time range overlaps another
+-- pending or confirmed booking of the same resource. Ranges are half-open so
+-- back-to-back bookings (one ending when the next starts) are allowed.
+ALTER TABLE public.bookings
+  ADD CONSTRAINT bookings_no_overlap
+  EXCLUDE USING gist (
+    resource_id WITH =,
+    tstzrange(start_time, end_time, '[)') WITH &&
+  )
+  WHERE (status IN ('pending', 'confirmed'));
@@ -0,0 +1,21 @@
+-- Expose the busy intervals of a resource without revealing who booked it.
+-- Bookings RLS only lets renters and owners see their own rows, so this runs
+-- as SECURITY DEFINER and returns nothing but the time ranges.
+CREATE OR REPLACE FUNCTION public.get_resource_busy_intervals(_resource_id UUID)
+RETURNS TABLE (start_time TIMESTAMP WITH TIME ZONE, end_time TIMESTAMP WITH TIME ZONE)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT b.start_time, b.end_time
+  FROM public.bookings b
+  JOIN public.resources r ON r.id = b.resource_id
+  WHERE b.resource_id = _resource_id
+    AND b.status IN ('pending', 'confirmed')
+    AND b.end_time > now()
+    AND (r.is_available = true OR r.owner_id = auth.uid())
+  ORDER BY b.start_time;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_resource_busy_intervals(UUID) TO anon, authenticated;
@@ -0,0 +1,123 @@
+-- Booking lifecycle:
+--   pending (requested) -> confirmed (accepted) | rejected | cancelled
+--   confirmed           -> picked_up | cancelled
+--   picked_up           -> returned
+--   returned            -> completed
+CREATE TYPE public.booking_status AS ENUM (
+  'pending',
+  'confirmed',
+  'rejected',
+  'picked_up',
+  'returned',
+  'completed',
+  'cancelled'
+);
+
+-- The overlap constraint and status CHECK reference the text column, so drop
+-- them before changing its type
+ALTER TABLE public.bookings DROP CONSTRAINT IF EXISTS bookings_no_overlap;
+ALTER TABLE public.bookings DROP CONSTRAINT IF EXISTS bookings_status_check;
+
+UPDATE public.bookings SET status = 'pending' WHERE status IS NULL;
+
+ALTER TABLE public.bookings
+  ALTER COLUMN status DROP DEFAULT,
+  ALTER COLUMN status TYPE public.booking_status USING status::public.booking_status,
+  ALTER COLUMN status SET DEFAULT 'pending',
+  ALTER COLUMN status SET NOT NULL;
+
+-- Requested, accepted and in-progress bookings all hold the resource
+ALTER TABLE public.bookings
+  ADD CONSTRAINT bookings_no_overlap
+  EXCLUDE USING gist (
+    resource_id WITH =,
+    tstzrange(start_time, end_time, '[)') WITH &&
+  )
+  WHERE (status IN ('pending', 'confirmed', 'picked_up'));
+
+CREATE OR REPLACE FUNCTION public.get_resource_busy_intervals(_resource_id UUID)
+RETURNS TABLE (start_time TIMESTAMP WITH TIME ZONE, end_time TIMESTAMP WITH TIME ZONE)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT b.start_time, b.end_time
+  FROM public.bookings b
+  JOIN public.resources r ON r.id = b.resource_id
+  WHERE b.resource_id = _resource_id
+    AND b.status IN ('pending', 'confirmed', 'picked_up')
+    AND b.end_time > now()
+    AND (r.is_available = true OR r.owner_id = auth.uid())
+  ORDER BY b.start_time;
+$$;
+
+-- Whether the given party may move a booking from one status to another.
+-- _actor is 'owner' or 'renter'.
+CREATE OR REPLACE FUNCTION public.is_booking_transition_allowed(
+  _from public.booking_status,
+  _to public.booking_status,
+  _actor TEXT
+)
+RETURNS BOOLEAN
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN _from = 'pending' AND _to IN ('confirmed', 'rejected') THEN _actor = 'owner'
+    WHEN _from = 'pending' AND _to = 'cancelled' THEN _actor = 'renter'
+    WHEN _from = 'confirmed' AND _to = 'picked_up' THEN _actor = 'owner'
+    WHEN _from = 'confirmed' AND _to = 'cancelled' THEN _actor IN ('owner', 'renter')
+    WHEN _from = 'picked_up' AND _to = 'returned' THEN _actor IN ('owner', 'renter')
+    WHEN _from = 'returned' AND _to = 'completed' THEN _actor = 'owner'
+    ELSE false
+  END;
+$$;
+
+-- Enforce the lifecycle on every status change. Requests made without a user
+-- (service role, scheduled jobs) may perform any transition the lifecycle
+-- allows for either party.
+CREATE OR REPLACE FUNCTION public.enforce_booking_status_transition()
+RETURNS TRIGGER AS $$
+DECLARE
+  actor TEXT;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.status <> 'pending' AND auth.uid() IS NOT NULL THEN
+      RAISE EXCEPTION 'New bookings must start as pending'
+        USING ERRCODE = 'check_violation';
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  IF auth.uid() IS NULL THEN
+    IF NOT (public.is_booking_transition_allowed(OLD.status, NEW.status, 'owner')
+        OR public.is_booking_transition_allowed(OLD.status, NEW.status, 'renter')) THEN
+      RAISE EXCEPTION 'Invalid booking status transition from % to %', OLD.status, NEW.status
+        USING ERRCODE = 'check_violation';
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  actor := CASE
+    WHEN auth.uid() = OLD.owner_id THEN 'owner'
+    WHEN auth.uid() = OLD.renter_id THEN 'renter'
+  END;
+
+  IF actor IS NULL OR NOT public.is_booking_transition_allowed(OLD.status, NEW.status, actor) THEN
+    RAISE EXCEPTION 'Invalid booking status transition from % to %', OLD.status, NEW.status
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER enforce_booking_status_transition
+  BEFORE INSERT OR UPDATE OF status ON public.bookings
+  FOR EACH ROW
+  EXECUTE FUNCTION public.enforce_booking_status_transition();
@@ -0,0 +1,231 @@
+-- Pricing options on resources. price stays the daily rate.
+ALTER TABLE public.resources
+  ADD COLUMN hourly_price NUMERIC CHECK (hourly_price >= 0),
+  ADD COLUMN weekly_price NUMERIC CHECK (weekly_price >= 0),
+  ADD COLUMN weekend_price NUMERIC CHECK (weekend_price >= 0),
+  ADD COLUMN min_rental_hours INTEGER NOT NULL DEFAULT 1 CHECK (min_rental_hours >= 1);
+
+-- Itemized quote the booking total was computed from
+ALTER TABLE public.bookings
+  ADD COLUMN price_breakdown JSONB;
+
+-- Compute an itemized price for renting a resource over a time range.
+--
+-- Rentals shorter than a day use the hourly price when the resource has one
+-- and it is cheaper than a full day. Longer rentals are charged per started
+-- day: whole weeks at the weekly price when set, the remaining days at the
+-- weekend price on Saturdays and Sundays when set, otherwise the daily price.
+CREATE OR REPLACE FUNCTION public.quote_booking(
+  _resource_id UUID,
+  _start_time TIMESTAMP WITH TIME ZONE,
+  _end_time TIMESTAMP WITH TIME ZONE
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  r public.resources%ROWTYPE;
+  duration_hours NUMERIC;
+  hours INTEGER;
+  days INTEGER;
+  weeks INTEGER := 0;
+  weekday_count INTEGER := 0;
+  weekend_count INTEGER := 0;
+  day_start TIMESTAMP WITH TIME ZONE;
+  lines JSONB := '[]'::JSONB;
+  total NUMERIC := 0;
+BEGIN
+  SELECT * INTO r FROM public.resources
+  WHERE id = _resource_id AND (is_available = true OR owner_id = auth.uid());
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Resource not found or unavailable'
+      USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF _end_time <= _start_time THEN
+    RAISE EXCEPTION 'End time must be after start time'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  duration_hours := EXTRACT(EPOCH FROM (_end_time - _start_time)) / 3600;
+
+  IF duration_hours < r.min_rental_hours THEN
+    RAISE EXCEPTION 'Minimum rental duration is % hour(s)', r.min_rental_hours
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  hours := CEIL(duration_hours);
+
+  IF duration_hours < 24 AND r.hourly_price IS NOT NULL AND hours * r.hourly_price < r.price THEN
+    lines := lines || jsonb_build_object(
+      'label', 'Hourly rate',
+      'quantity', hours,
+      'unit', 'hour',
+      'unit_price', r.hourly_price,
+      'amount', hours * r.hourly_price
+    );
+    total := hours * r.hourly_price;
+  ELSE
+    days := CEIL(duration_hours / 24);
+
+    IF r.weekly_price IS NOT NULL THEN
+      weeks := days / 7;
+    END IF;
+
+    FOR i IN (weeks * 7)..(days - 1) LOOP
+      day_start := _start_time + make_interval(days => i);
+      IF r.weekend_price IS NOT NULL AND EXTRACT(ISODOW FROM day_start) IN (6, 7) THEN
+        weekend_count := weekend_count + 1;
+      ELSE
+        weekday_count := weekday_count + 1;
+      END IF;
+    END LOOP;
+
+    IF weeks > 0 THEN
+      lines := lines || jsonb_build_object(
+        'label', 'Weekly rate',
+        'quantity', weeks,
+        'unit', 'week',
+        'unit_price', r.weekly_price,
+        'amount', weeks * r.weekly_price
+      );
+      total := total + weeks * r.weekly_price;
+    END IF;
+
+    IF weekday_count > 0 THEN
+      lines := lines || jsonb_build_object(
+        'label', 'Daily rate',
+        'quantity', weekday_count,
+        'unit', 'day',
+        'unit_price', r.price,
+        'amount', weekday_count * r.price
+      );
+      total := total + weekday_count * r.price;
+    END IF;
+
+    IF weekend_count > 0 THEN
+      lines := lines || jsonb_build_object(
+        'label', 'Weekend rate',
+        'quantity', weekend_count,
+        'unit', 'day',
+        'unit_price', r.weekend_price,
+        'amount', weekend_count * r.weekend_price
+      );
+      total := total + weekend_count * r.weekend_price;
+    END IF;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'lines', lines,
+    'total', total,
+    'duration_hours', duration_hours
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.quote_booking(UUID, TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE) TO anon, authenticated;
+
+-- The only way to create a booking: the price is always computed here
+CREATE OR REPLACE FUNCTION public.create_booking(
+  _resource_id UUID,
+  _start_time TIMESTAMP WITH TIME ZONE,
+  _end_time TIMESTAMP WITH TIME ZONE,
+  _payment_method TEXT
+)
+RETURNS public.bookings
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  r public.resources%ROWTYPE;
+  quote JSONB;
+  new_booking public.bookings%ROWTYPE;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'You must be signed in to book a resource'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  SELECT * INTO r FROM public.resources
+  WHERE id = _resource_id AND is_available = true;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Resource not found or unavailable'
+      USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF r.owner_id = auth.uid() THEN
+    RAISE EXCEPTION 'You cannot book your own resource'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF _start_time < r.availability_start OR _end_time > r.availability_end THEN
+    RAISE EXCEPTION 'Requested dates are outside the resource''s availability'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  quote := public.quote_booking(_resource_id, _start_time, _end_time);
+
+  INSERT INTO public.bookings (
+    resource_id,
+    renter_id,
+    owner_id,
+    start_time,
+    end_time,
+    total_price,
+    price_breakdown,
+    payment_method,
+    status
+  )
+  VALUES (
+    _resource_id,
+    auth.uid(),
+    r.owner_id,
+    _start_time,
+    _end_time,
+    (quote ->> 'total')::NUMERIC,
+    quote,
+    _payment_method,
+    'pending'
+  )
+  RETURNING * INTO new_booking;
+
+  RETURN new_booking;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.create_booking(UUID, TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE, TEXT) TO authenticated;
+
+-- Clients can no longer insert bookings (and pick their own price) directly
+DROP POLICY IF EXISTS "Users can insert bookings as renter" ON public.bookings;
+
+-- Renters and owners may only change a booking's status; the parties, dates
+-- and price are fixed once the booking exists
+CREATE OR REPLACE FUNCTION public.protect_booking_terms()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF auth.uid() IS NOT NULL AND (
+    NEW.resource_id IS DISTINCT FROM OLD.resource_id
+    OR NEW.renter_id IS DISTINCT FROM OLD.renter_id
+    OR NEW.owner_id IS DISTINCT FROM OLD.owner_id
+    OR NEW.start_time IS DISTINCT FROM OLD.start_time
+    OR NEW.end_time IS DISTINCT FROM OLD.end_time
+    OR NEW.total_price IS DISTINCT FROM OLD.total_price
+    OR NEW.price_breakdown IS DISTINCT FROM OLD.price_breakdown
+  ) THEN
+    RAISE EXCEPTION 'Booking terms cannot be changed'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER protect_booking_terms
+  BEFORE UPDATE ON public.bookings
+  FOR EACH ROW
+  EXECUTE FUNCTION public.protect_booking_terms();
@@ -0,0 +1,65 @@
+-- Public bucket for resource photos. Objects are stored under
+-- <owner id>/<resource id>/<file name> so policies can scope writes to the owner.
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('resource-images', 'resource-images', true)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Anyone can view resource images" ON storage.objects
+  FOR SELECT USING (bucket_id = 'resource-images');
+
+CREATE POLICY "Owners can upload resource images" ON storage.objects
+  FOR INSERT WITH CHECK (
+    bucket_id = 'resource-images'
+    AND (storage.foldername(name))[1] = auth.uid()::text
+  );
+
+CREATE POLICY "Owners can update resource images" ON storage.objects
+  FOR UPDATE USING (
+    bucket_id = 'resource-images'
+    AND (storage.foldername(name))[1] = auth.uid()::text
+  );
+
+CREATE POLICY "Owners can delete resource images" ON storage.objects
+  FOR DELETE USING (
+    bucket_id = 'resource-images'
+    AND (storage.foldername(name))[1] = auth.uid()::text
+  );
+
+-- Photos of a resource, in display order
+CREATE TABLE IF NOT EXISTS public.resource_images (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  resource_id UUID NOT NULL REFERENCES public.resources(id) ON DELETE CASCADE,
+  storage_path TEXT NOT NULL,
+  position INTEGER NOT NULL DEFAULT 0,
+  is_cover BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX resource_images_resource_id_idx ON public.resource_images (resource_id, position);
+
+-- At most one cover photo per resource
+CREATE UNIQUE INDEX resource_images_one_cover_idx ON public.resource_images (resource_id)
+  WHERE is_cover;
+
+ALTER TABLE public.resource_images ENABLE ROW LEVEL SECURITY;
+
+-- Visibility follows the resource's own policies
+CREATE POLICY "Anyone can view images of visible resources" ON public.resource_images
+  FOR SELECT USING (
+    EXISTS (SELECT 1 FROM public.resources r WHERE r.id = resource_id)
+  );
+
+CREATE POLICY "Owners can insert images of their resources" ON public.resource_images
+  FOR INSERT WITH CHECK (
+    EXISTS (SELECT 1 FROM public.resources r WHERE r.id = resource_id AND r.owner_id = auth.uid())
+  );
+
+CREATE POLICY "Owners can update images of their resources" ON public.resource_images
+  FOR UPDATE USING (
+    EXISTS (SELECT 1 FROM public.resources r WHERE r.id = resource_id AND r.owner_id = auth.uid())
+  );
+
+CREATE POLICY "Owners can delete images of their resources" ON public.resource_images
+  FOR DELETE USING (
+    EXISTS (SELECT 1 FROM public.resources r WHERE r.id = resource_id AND r.owner_id = auth.uid())
+  );
@@ -0,0 +1,75 @@
+-- Profile privacy settings
+ALTER TABLE public.profiles
+  ADD COLUMN phone_visibility TEXT NOT NULL DEFAULT 'counterparties'
+    CHECK (phone_visibility IN ('private', 'counterparties', 'public')),
+  ADD COLUMN show_location BOOLEAN NOT NULL DEFAULT true;
+
+-- Whether two users are the renter and owner of a booking that went ahead
+-- or is still being considered
+CREATE OR REPLACE FUNCTION public.are_booking_counterparties(_user_a UUID, _user_b UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.bookings
+    WHERE status NOT IN ('rejected', 'cancelled')
+      AND (
+        (renter_id = _user_a AND owner_id = _user_b)
+        OR (renter_id = _user_b AND owner_id = _user_a)
+      )
+  );
+$$;
+
+-- Public-safe view of profiles. Runs with the view owner's rights so anyone
+-- can read it, and only reveals contact details to the member themselves and
+-- to their booking counterparties.
+CREATE OR REPLACE VIEW public.public_profiles AS
+SELECT
+  p.user_id,
+  p.name,
+  p.avatar_url,
+  CASE WHEN p.show_location OR p.user_id = auth.uid() THEN p.location END AS location,
+  CASE
+    WHEN p.user_id = auth.uid()
+      OR public.are_booking_counterparties(p.user_id, auth.uid())
+    THEN p.email
+  END AS email,
+  CASE
+    WHEN p.user_id = auth.uid()
+      OR p.phone_visibility = 'public'
+      OR (p.phone_visibility = 'counterparties' AND public.are_booking_counterparties(p.user_id, auth.uid()))
+    THEN p.phone
+  END AS phone,
+  p.created_at
+FROM public.profiles p;
+
+GRANT SELECT ON public.public_profiles TO anon, authenticated;
+
+-- Public bucket for profile pictures, stored under <user id>/<file name>
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('avatars', 'avatars', true)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Anyone can view avatars" ON storage.objects
+  FOR SELECT USING (bucket_id = 'avatars');
+
+CREATE POLICY "Users can upload their own avatar" ON storage.objects
+  FOR INSERT WITH CHECK (
+    bucket_id = 'avatars'
+    AND (storage.foldername(name))[1] = auth.uid()::text
+  );
+
+CREATE POLICY "Users can update their own avatar" ON storage.objects
+  FOR UPDATE USING (
+    bucket_id = 'avatars'
+    AND (storage.foldername(name))[1] = auth.uid()::text
+  );
+
+CREATE POLICY "Users can delete their own avatar" ON storage.objects
+  FOR DELETE USING (
+    bucket_id = 'avatars'
+    AND (storage.foldername(name))[1] = auth.uid()::text
+  );
@@ -0,0 +1,180 @@
+-- Message threads between a renter and an owner. A thread belongs either to a
+-- booking, or to a resource when a renter asks a question before booking.
+CREATE TABLE IF NOT EXISTS public.conversations (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  resource_id UUID NOT NULL REFERENCES public.resources(id) ON DELETE CASCADE,
+  booking_id UUID UNIQUE REFERENCES public.bookings(id) ON DELETE CASCADE,
+  renter_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  owner_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  last_message_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (renter_id <> owner_id)
+);
+
+-- One pre-booking thread per renter and resource
+CREATE UNIQUE INDEX conversations_resource_question_idx
+  ON public.conversations (resource_id, renter_id)
+  WHERE booking_id IS NULL;
+
+CREATE INDEX conversations_renter_id_idx ON public.conversations (renter_id);
+CREATE INDEX conversations_owner_id_idx ON public.conversations (owner_id);
+
+CREATE TABLE IF NOT EXISTS public.messages (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  conversation_id UUID NOT NULL REFERENCES public.conversations(id) ON DELETE CASCADE,
+  sender_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  body TEXT NOT NULL CHECK (char_length(body) BETWEEN 1 AND 4000),
+  read_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX messages_conversation_id_idx ON public.messages (conversation_id, created_at);
+
+ALTER TABLE public.conversations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.messages ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION public.is_conversation_participant(_conversation_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.conversations
+    WHERE id = _conversation_id
+      AND auth.uid() IN (renter_id, owner_id)
+  );
+$$;
+
+-- Conversations are created through get_or_create_conversation only
+CREATE POLICY "Participants can view their conversations" ON public.conversations
+  FOR SELECT USING (auth.uid() IN (renter_id, owner_id));
+
+CREATE POLICY "Participants can view messages" ON public.messages
+  FOR SELECT USING (public.is_conversation_participant(conversation_id));
+
+CREATE POLICY "Participants can send messages" ON public.messages
+  FOR INSERT WITH CHECK (
+    sender_id = auth.uid()
+    AND public.is_conversation_participant(conversation_id)
+  );
+
+CREATE OR REPLACE FUNCTION public.touch_conversation_last_message()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE public.conversations
+  SET last_message_at = NEW.created_at
+  WHERE id = NEW.conversation_id;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER touch_conversation_last_message
+  AFTER INSERT ON public.messages
+  FOR EACH ROW
+  EXECUTE FUNCTION public.touch_conversation_last_message();
+
+-- Find or start the thread for a booking, or the caller's question thread
+-- about a resource when no booking is given. Returns the conversation id.
+CREATE OR REPLACE FUNCTION public.get_or_create_conversation(
+  _resource_id UUID,
+  _booking_id UUID DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  b public.bookings%ROWTYPE;
+  r public.resources%ROWTYPE;
+  conversation_id UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'You must be signed in to send messages'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF _booking_id IS NOT NULL THEN
+    SELECT * INTO b FROM public.bookings
+    WHERE id = _booking_id AND auth.uid() IN (renter_id, owner_id);
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Booking not found'
+        USING ERRCODE = 'no_data_found';
+    END IF;
+
+    SELECT id INTO conversation_id FROM public.conversations WHERE booking_id = _booking_id;
+
+    IF conversation_id IS NULL THEN
+      INSERT INTO public.conversations (resource_id, booking_id, renter_id, owner_id)
+      VALUES (b.resource_id, b.id, b.renter_id, b.owner_id)
+      RETURNING id INTO conversation_id;
+    END IF;
+
+    RETURN conversation_id;
+  END IF;
+
+  SELECT * INTO r FROM public.resources WHERE id = _resource_id AND is_available = true;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Resource not found or unavailable'
+      USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF r.owner_id = auth.uid() THEN
+    RAISE EXCEPTION 'You cannot message yourself about your own resource'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  SELECT id INTO conversation_id FROM public.conversations
+  WHERE resource_id = _resource_id AND renter_id = auth.uid() AND booking_id IS NULL;
+
+  IF conversation_id IS NULL THEN
+    INSERT INTO public.conversations (resource_id, renter_id, owner_id)
+    VALUES (r.id, auth.uid(), r.owner_id)
+    RETURNING id INTO conversation_id;
+  END IF;
+
+  RETURN conversation_id;
+END;
+$$;
+
+-- Mark every message the caller received in a conversation as read
+CREATE OR REPLACE FUNCTION public.mark_conversation_read(_conversation_id UUID)
+RETURNS VOID
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE public.messages
+  SET read_at = now()
+  WHERE conversation_id = _conversation_id
+    AND sender_id <> auth.uid()
+    AND read_at IS NULL
+    AND public.is_conversation_participant(_conversation_id);
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_unread_message_count()
+RETURNS INTEGER
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COUNT(*)::INTEGER
+  FROM public.messages m
+  JOIN public.conversations c ON c.id = m.conversation_id
+  WHERE auth.uid() IN (c.renter_id, c.owner_id)
+    AND m.sender_id <> auth.uid()
+    AND m.read_at IS NULL;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_or_create_conversation(UUID, UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.mark_conversation_read(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_unread_message_count() TO authenticated;
+
+-- Stream new and read messages to participants
+ALTER TABLE public.messages REPLICA IDENTITY FULL;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.messages;
@@ -0,0 +1,100 @@
+-- Reviews left once a booking is completed. The renter reviews the resource
+-- and its owner; the owner reviews the renter.
+CREATE TABLE IF NOT EXISTS public.reviews (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  booking_id UUID NOT NULL REFERENCES public.bookings(id) ON DELETE CASCADE,
+  resource_id UUID NOT NULL REFERENCES public.resources(id) ON DELETE CASCADE,
+  reviewer_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  reviewee_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  direction TEXT NOT NULL CHECK (direction IN ('renter_to_owner', 'owner_to_renter')),
+  rating SMALLINT NOT NULL CHECK (rating BETWEEN 1 AND 5),
+  comment TEXT CHECK (char_length(comment) <= 2000),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (booking_id, direction)
+);
+
+CREATE INDEX reviews_resource_id_idx ON public.reviews (resource_id);
+CREATE INDEX reviews_reviewee_id_idx ON public.reviews (reviewee_id);
+
+ALTER TABLE public.reviews ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view reviews" ON public.reviews
+  FOR SELECT USING (true);
+
+-- Reviews are written through submit_review only
+CREATE OR REPLACE FUNCTION public.submit_review(
+  _booking_id UUID,
+  _rating INTEGER,
+  _comment TEXT DEFAULT NULL
+)
+RETURNS public.reviews
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  b public.bookings%ROWTYPE;
+  review_direction TEXT;
+  reviewee UUID;
+  new_review public.reviews%ROWTYPE;
+BEGIN
+  SELECT * INTO b FROM public.bookings
+  WHERE id = _booking_id AND auth.uid() IN (renter_id, owner_id);
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Booking not found'
+      USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF b.status <> 'completed' THEN
+    RAISE EXCEPTION 'Only completed bookings can be reviewed'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF auth.uid() = b.renter_id THEN
+    review_direction := 'renter_to_owner';
+    reviewee := b.owner_id;
+  ELSE
+    review_direction := 'owner_to_renter';
+    reviewee := b.renter_id;
+  END IF;
+
+  INSERT INTO public.reviews (booking_id, resource_id, reviewer_id, reviewee_id, direction, rating, comment)
+  VALUES (b.id, b.resource_id, auth.uid(), reviewee, review_direction, _rating, NULLIF(trim(_comment), ''))
+  RETURNING * INTO new_review;
+
+  RETURN new_review;
+EXCEPTION
+  WHEN unique_violation THEN
+    RAISE EXCEPTION 'You have already reviewed this booking'
+      USING ERRCODE = 'check_violation';
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.submit_review(UUID, INTEGER, TEXT) TO authenticated;
+
+-- Average renter rating per resource
+CREATE OR REPLACE VIEW public.resource_rating_summary AS
+SELECT
+  resource_id,
+  ROUND(AVG(rating), 2) AS average_rating,
+  COUNT(*)::INTEGER AS review_count
+FROM public.reviews
+WHERE direction = 'renter_to_owner'
+GROUP BY resource_id;
+
+-- Reputation of a member across both sides of their bookings
+CREATE OR REPLACE VIEW public.user_rating_summary AS
+SELECT
+  reviewee_id AS user_id,
+  ROUND(AVG(rating), 2) AS average_rating,
+  COUNT(*)::INTEGER AS review_count,
+  ROUND(AVG(rating) FILTER (WHERE direction = 'renter_to_owner'), 2) AS average_as_owner,
+  (COUNT(*) FILTER (WHERE direction = 'renter_to_owner'))::INTEGER AS review_count_as_owner,
+  ROUND(AVG(rating) FILTER (WHERE direction = 'owner_to_renter'), 2) AS average_as_renter,
+  (COUNT(*) FILTER (WHERE direction = 'owner_to_renter'))::INTEGER AS review_count_as_renter
+FROM public.reviews
+GROUP BY reviewee_id;
+
+GRANT SELECT ON public.resource_rating_summary TO anon, authenticated;
+GRANT SELECT ON public.user_rating_summary TO anon, authenticated;
@@ -0,0 +1,125 @@
+-- Full-text search over listings. Title matches rank above category,
+-- description and location.
+ALTER TABLE public.resources
+  ADD COLUMN search_vector TSVECTOR GENERATED ALWAYS AS (
+    setweight(to_tsvector('english', coalesce(title, '')), 'A') ||
+    setweight(to_tsvector('english', coalesce(category, '')), 'B') ||
+    setweight(to_tsvector('english', coalesce(description, '')), 'C') ||
+    setweight(to_tsvector('english', coalesce(location, '')), 'C')
+  ) STORED;
+
+CREATE INDEX resources_search_vector_idx ON public.resources USING GIN (search_vector);
+CREATE INDEX resources_available_created_at_idx ON public.resources (created_at DESC, id DESC)
+  WHERE is_available = true;
+
+-- Search available listings with keyset pagination.
+--
+-- Every sort is expressed as a single descending sort_key (price ascending
+-- uses the negated price) so the cursor is always the (sort_key, id) of the
+-- last row of the previous page. Date filters need the booking table, which
+-- RLS hides from other members, so this runs as SECURITY DEFINER and only
+-- returns public listing fields.
+CREATE OR REPLACE FUNCTION public.search_resources(
+  _query TEXT DEFAULT NULL,
+  _category TEXT DEFAULT NULL,
+  _min_price NUMERIC DEFAULT NULL,
+  _max_price NUMERIC DEFAULT NULL,
+  _available_from TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  _available_to TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  _sort TEXT DEFAULT 'newest',
+  _cursor_key NUMERIC DEFAULT NULL,
+  _cursor_id UUID DEFAULT NULL,
+  _limit INTEGER DEFAULT 12
+)
+RETURNS TABLE (
+  id UUID,
+  owner_id UUID,
+  title TEXT,
+  description TEXT,
+  category TEXT,
+  price NUMERIC,
+  location TEXT,
+  image_url TEXT,
+  cover_image_path TEXT,
+  availability_start TIMESTAMP WITH TIME ZONE,
+  availability_end TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE,
+  average_rating NUMERIC,
+  review_count INTEGER,
+  sort_key NUMERIC
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  search_query tsquery := NULLIF(websearch_to_tsquery('english', coalesce(_query, '')), ''::tsquery);
+BEGIN
+  IF _sort NOT IN ('newest', 'price_asc', 'price_desc', 'rating') THEN
+    RAISE EXCEPTION 'Unknown sort option %', _sort
+      USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  IF _available_from IS NOT NULL AND _available_to IS NOT NULL AND _available_to <= _available_from THEN
+    RAISE EXCEPTION 'End date must be after start date'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN QUERY
+  SELECT *
+  FROM (
+    SELECT
+      r.id,
+      r.owner_id,
+      r.title,
+      r.description,
+      r.category,
+      r.price,
+      r.location,
+      r.image_url,
+      (
+        SELECT ri.storage_path
+        FROM public.resource_images ri
+        WHERE ri.resource_id = r.id
+        ORDER BY ri.is_cover DESC, ri.position
+        LIMIT 1
+      ) AS cover_image_path,
+      r.availability_start,
+      r.availability_end,
+      r.created_at,
+      rs.average_rating,
+      coalesce(rs.review_count, 0) AS review_count,
+      CASE _sort
+        WHEN 'price_asc' THEN -r.price
+        WHEN 'price_desc' THEN r.price
+        WHEN 'rating' THEN coalesce(rs.average_rating, 0)
+        ELSE round(extract(epoch FROM r.created_at) * 1000000)
+      END AS sort_key
+    FROM public.resources r
+    LEFT JOIN public.resource_rating_summary rs ON rs.resource_id = r.id
+    WHERE r.is_available = true
+      AND (search_query IS NULL OR r.search_vector @@ search_query)
+      AND (_category IS NULL OR r.category = _category)
+      AND (_min_price IS NULL OR r.price >= _min_price)
+      AND (_max_price IS NULL OR r.price <= _max_price)
+      AND (_available_from IS NULL OR r.availability_start <= _available_from)
+      AND (_available_to IS NULL OR r.availability_end >= _available_to)
+      AND (
+        _available_from IS NULL OR _available_to IS NULL OR NOT EXISTS (
+          SELECT 1
+          FROM public.bookings b
+          WHERE b.resource_id = r.id
+            AND b.status IN ('pending', 'confirmed', 'picked_up')
+            AND tstzrange(b.start_time, b.end_time, '[)') && tstzrange(_available_from, _available_to, '[)')
+        )
+      )
+  ) results
+  WHERE _cursor_key IS NULL OR _cursor_id IS NULL
+    OR (results.sort_key, results.id) < (_cursor_key, _cursor_id)
+  ORDER BY results.sort_key DESC, results.id DESC
+  LIMIT least(greatest(coalesce(_limit, 12), 1), 50);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.search_resources(TEXT, TEXT, NUMERIC, NUMERIC, TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE, TEXT, NUMERIC, UUID, INTEGER) TO anon, authenticated;
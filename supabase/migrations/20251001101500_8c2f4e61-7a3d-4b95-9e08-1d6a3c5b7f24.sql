@@ -0,0 +1,259 @@
+-- Coordinates for distance-based discovery.
+--
+-- The exact address and position of a listing live in resource_locations and
+-- are only readable by the owner and by renters with an accepted booking.
+-- resources.latitude/longitude hold a copy snapped to a ~1 km grid, which is
+-- what search and the map use. Snapping (rather than random jitter) keeps the
+-- public position stable so it cannot be averaged back to the real one.
+ALTER TABLE public.resources
+  ADD COLUMN latitude DOUBLE PRECISION CHECK (latitude BETWEEN -90 AND 90),
+  ADD COLUMN longitude DOUBLE PRECISION CHECK (longitude BETWEEN -180 AND 180);
+
+CREATE INDEX resources_coordinates_idx ON public.resources (latitude, longitude)
+  WHERE is_available = true AND latitude IS NOT NULL;
+
+CREATE TABLE public.resource_locations (
+  resource_id UUID NOT NULL PRIMARY KEY REFERENCES public.resources(id) ON DELETE CASCADE,
+  address TEXT NOT NULL,
+  latitude DOUBLE PRECISION NOT NULL CHECK (latitude BETWEEN -90 AND 90),
+  longitude DOUBLE PRECISION NOT NULL CHECK (longitude BETWEEN -180 AND 180),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.resource_locations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Owners can view their resource locations" ON public.resource_locations
+  FOR SELECT USING (
+    EXISTS (SELECT 1 FROM public.resources r WHERE r.id = resource_id AND r.owner_id = auth.uid())
+  );
+
+CREATE POLICY "Renters can view locations of accepted bookings" ON public.resource_locations
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.bookings b
+      WHERE b.resource_id = resource_locations.resource_id
+        AND b.renter_id = auth.uid()
+        AND b.status IN ('confirmed', 'picked_up', 'returned', 'completed')
+    )
+  );
+
+CREATE POLICY "Owners can insert their resource locations" ON public.resource_locations
+  FOR INSERT WITH CHECK (
+    EXISTS (SELECT 1 FROM public.resources r WHERE r.id = resource_id AND r.owner_id = auth.uid())
+  );
+
+CREATE POLICY "Owners can update their resource locations" ON public.resource_locations
+  FOR UPDATE USING (
+    EXISTS (SELECT 1 FROM public.resources r WHERE r.id = resource_id AND r.owner_id = auth.uid())
+  );
+
+CREATE POLICY "Owners can delete their resource locations" ON public.resource_locations
+  FOR DELETE USING (
+    EXISTS (SELECT 1 FROM public.resources r WHERE r.id = resource_id AND r.owner_id = auth.uid())
+  );
+
+CREATE TRIGGER update_resource_locations_updated_at
+  BEFORE UPDATE ON public.resource_locations
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Publish the snapped position on the listing whenever the exact one changes
+CREATE OR REPLACE FUNCTION public.sync_resource_public_coordinates()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    UPDATE public.resources
+    SET latitude = NULL, longitude = NULL
+    WHERE id = OLD.resource_id;
+    RETURN OLD;
+  END IF;
+
+  UPDATE public.resources
+  SET latitude = round(NEW.latitude::NUMERIC, 2)::DOUBLE PRECISION,
+      longitude = round(NEW.longitude::NUMERIC, 2)::DOUBLE PRECISION
+  WHERE id = NEW.resource_id;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER sync_resource_public_coordinates
+  AFTER INSERT OR UPDATE OR DELETE ON public.resource_locations
+  FOR EACH ROW
+  EXECUTE FUNCTION public.sync_resource_public_coordinates();
+
+-- Owners may not set public coordinates directly; they always come from the
+-- trigger above
+CREATE OR REPLACE FUNCTION public.protect_resource_coordinates()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF pg_trigger_depth() = 1 AND (
+    NEW.latitude IS DISTINCT FROM (CASE WHEN TG_OP = 'UPDATE' THEN OLD.latitude END) OR
+    NEW.longitude IS DISTINCT FROM (CASE WHEN TG_OP = 'UPDATE' THEN OLD.longitude END)
+  ) THEN
+    RAISE EXCEPTION 'Resource coordinates are derived from the resource location'
+      USING ERRCODE = 'check_violation';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER protect_resource_coordinates
+  BEFORE INSERT OR UPDATE OF latitude, longitude ON public.resources
+  FOR EACH ROW
+  EXECUTE FUNCTION public.protect_resource_coordinates();
+
+-- Great-circle distance in kilometres
+CREATE OR REPLACE FUNCTION public.distance_km(
+  _lat1 DOUBLE PRECISION,
+  _lng1 DOUBLE PRECISION,
+  _lat2 DOUBLE PRECISION,
+  _lng2 DOUBLE PRECISION
+)
+RETURNS DOUBLE PRECISION
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT 2 * 6371 * asin(sqrt(
+    power(sin(radians(_lat2 - _lat1) / 2), 2) +
+    cos(radians(_lat1)) * cos(radians(_lat2)) * power(sin(radians(_lng2 - _lng1) / 2), 2)
+  ));
+$$;
+
+-- search_resources gains an origin point, a radius and a distance sort. The
+-- return type changes, so the old signature is dropped rather than replaced.
+DROP FUNCTION public.search_resources(TEXT, TEXT, NUMERIC, NUMERIC, TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE, TEXT, NUMERIC, UUID, INTEGER);
+
+CREATE OR REPLACE FUNCTION public.search_resources(
+  _query TEXT DEFAULT NULL,
+  _category TEXT DEFAULT NULL,
+  _min_price NUMERIC DEFAULT NULL,
+  _max_price NUMERIC DEFAULT NULL,
+  _available_from TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  _available_to TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  _latitude DOUBLE PRECISION DEFAULT NULL,
+  _longitude DOUBLE PRECISION DEFAULT NULL,
+  _radius_km DOUBLE PRECISION DEFAULT NULL,
+  _sort TEXT DEFAULT 'newest',
+  _cursor_key NUMERIC DEFAULT NULL,
+  _cursor_id UUID DEFAULT NULL,
+  _limit INTEGER DEFAULT 12
+)
+RETURNS TABLE (
+  id UUID,
+  owner_id UUID,
+  title TEXT,
+  description TEXT,
+  category TEXT,
+  price NUMERIC,
+  location TEXT,
+  image_url TEXT,
+  cover_image_path TEXT,
+  availability_start TIMESTAMP WITH TIME ZONE,
+  availability_end TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE,
+  latitude DOUBLE PRECISION,
+  longitude DOUBLE PRECISION,
+  distance_km NUMERIC,
+  average_rating NUMERIC,
+  review_count INTEGER,
+  sort_key NUMERIC
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  search_query tsquery := NULLIF(websearch_to_tsquery('english', coalesce(_query, '')), ''::tsquery);
+  has_origin BOOLEAN := _latitude IS NOT NULL AND _longitude IS NOT NULL;
+BEGIN
+  IF _sort NOT IN ('newest', 'price_asc', 'price_desc', 'rating', 'distance') THEN
+    RAISE EXCEPTION 'Unknown sort option %', _sort
+      USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  IF (_sort = 'distance' OR _radius_km IS NOT NULL) AND NOT has_origin THEN
+    RAISE EXCEPTION 'A location is required to search by distance'
+      USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  IF _available_from IS NOT NULL AND _available_to IS NOT NULL AND _available_to <= _available_from THEN
+    RAISE EXCEPTION 'End date must be after start date'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN QUERY
+  SELECT *
+  FROM (
+    SELECT
+      r.id,
+      r.owner_id,
+      r.title,
+      r.description,
+      r.category,
+      r.price,
+      r.location,
+      r.image_url,
+      (
+        SELECT ri.storage_path
+        FROM public.resource_images ri
+        WHERE ri.resource_id = r.id
+        ORDER BY ri.is_cover DESC, ri.position
+        LIMIT 1
+      ) AS cover_image_path,
+      r.availability_start,
+      r.availability_end,
+      r.created_at,
+      r.latitude,
+      r.longitude,
+      d.distance_km,
+      rs.average_rating,
+      coalesce(rs.review_count, 0) AS review_count,
+      CASE _sort
+        WHEN 'price_asc' THEN -r.price
+        WHEN 'price_desc' THEN r.price
+        WHEN 'rating' THEN coalesce(rs.average_rating, 0)
+        WHEN 'distance' THEN -coalesce(d.distance_km, 100000)
+        ELSE round(extract(epoch FROM r.created_at) * 1000000)
+      END AS sort_key
+    FROM public.resources r
+    LEFT JOIN public.resource_rating_summary rs ON rs.resource_id = r.id
+    CROSS JOIN LATERAL (
+      SELECT CASE WHEN has_origin AND r.latitude IS NOT NULL
+        THEN round(public.distance_km(_latitude, _longitude, r.latitude, r.longitude)::NUMERIC, 3)
+      END AS distance_km
+    ) d
+    WHERE r.is_available = true
+      AND (search_query IS NULL OR r.search_vector @@ search_query)
+      AND (_category IS NULL OR r.category = _category)
+      AND (_min_price IS NULL OR r.price >= _min_price)
+      AND (_max_price IS NULL OR r.price <= _max_price)
+      AND (_available_from IS NULL OR r.availability_start <= _available_from)
+      AND (_available_to IS NULL OR r.availability_end >= _available_to)
+      AND (_radius_km IS NULL OR d.distance_km <= _radius_km)
+      AND (
+        _available_from IS NULL OR _available_to IS NULL OR NOT EXISTS (
+          SELECT 1
+          FROM public.bookings b
+          WHERE b.resource_id = r.id
+            AND b.status IN ('pending', 'confirmed', 'picked_up')
+            AND tstzrange(b.start_time, b.end_time, '[)') && tstzrange(_available_from, _available_to, '[)')
+        )
+      )
+  ) results
+  WHERE _cursor_key IS NULL OR _cursor_id IS NULL
+    OR (results.sort_key, results.id) < (_cursor_key, _cursor_id)
+  ORDER BY results.sort_key DESC, results.id DESC
+  LIMIT least(greatest(coalesce(_limit, 12), 1), 50);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.search_resources(TEXT, TEXT, NUMERIC, NUMERIC, TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE, DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION, TEXT, NUMERIC, UUID, INTEGER) TO anon, authenticated;
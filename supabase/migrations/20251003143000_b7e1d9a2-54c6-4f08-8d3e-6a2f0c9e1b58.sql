@@ -0,0 +1,394 @@
+-- Refundable security deposits and damage claims.
+--
+-- Owners set a deposit on a resource; create_booking copies it onto the
+-- booking as one of the fixed booking terms. The state of the hold lives in
+-- booking_deposits and claims in damage_claims. Neither table has write
+-- policies: they change only through the functions and triggers below.
+ALTER TABLE public.resources
+  ADD COLUMN deposit_amount NUMERIC NOT NULL DEFAULT 0 CHECK (deposit_amount >= 0);
+
+ALTER TABLE public.bookings
+  ADD COLUMN deposit_amount NUMERIC NOT NULL DEFAULT 0 CHECK (deposit_amount >= 0);
+
+CREATE TABLE public.booking_deposits (
+  booking_id UUID NOT NULL PRIMARY KEY REFERENCES public.bookings(id) ON DELETE CASCADE,
+  amount NUMERIC NOT NULL CHECK (amount > 0),
+  status TEXT NOT NULL DEFAULT 'held' CHECK (status IN ('held', 'released', 'partially_captured', 'captured')),
+  captured_amount NUMERIC NOT NULL DEFAULT 0 CHECK (captured_amount >= 0 AND captured_amount <= amount),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  settled_at TIMESTAMP WITH TIME ZONE
+);
+
+ALTER TABLE public.booking_deposits ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Participants can view booking deposits" ON public.booking_deposits
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.bookings b
+      WHERE b.id = booking_id AND auth.uid() IN (b.renter_id, b.owner_id)
+    )
+  );
+
+CREATE TABLE public.damage_claims (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  booking_id UUID NOT NULL UNIQUE REFERENCES public.bookings(id) ON DELETE CASCADE,
+  owner_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  renter_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  amount NUMERIC NOT NULL CHECK (amount > 0),
+  description TEXT NOT NULL CHECK (char_length(description) BETWEEN 1 AND 2000),
+  photo_paths TEXT[] NOT NULL DEFAULT '{}',
+  status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'accepted', 'disputed', 'withdrawn')),
+  renter_response TEXT CHECK (char_length(renter_response) <= 2000),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  resolved_at TIMESTAMP WITH TIME ZONE
+);
+
+ALTER TABLE public.damage_claims ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Participants can view damage claims" ON public.damage_claims
+  FOR SELECT USING (auth.uid() IN (renter_id, owner_id));
+
+CREATE TRIGGER update_damage_claims_updated_at
+  BEFORE UPDATE ON public.damage_claims
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Claim photos, stored under the booking id and visible to both parties
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('damage-claims', 'damage-claims', false)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Booking participants can view claim photos" ON storage.objects
+  FOR SELECT USING (
+    bucket_id = 'damage-claims'
+    AND EXISTS (
+      SELECT 1 FROM public.bookings b
+      WHERE b.id::text = (storage.foldername(name))[1]
+        AND auth.uid() IN (b.renter_id, b.owner_id)
+    )
+  );
+
+CREATE POLICY "Owners can upload claim photos" ON storage.objects
+  FOR INSERT WITH CHECK (
+    bucket_id = 'damage-claims'
+    AND EXISTS (
+      SELECT 1 FROM public.bookings b
+      WHERE b.id::text = (storage.foldername(name))[1]
+        AND b.owner_id = auth.uid()
+    )
+  );
+
+-- create_booking now records the resource's deposit on the booking
+CREATE OR REPLACE FUNCTION public.create_booking(
+  _resource_id UUID,
+  _start_time TIMESTAMP WITH TIME ZONE,
+  _end_time TIMESTAMP WITH TIME ZONE,
+  _payment_method TEXT
+)
+RETURNS public.bookings
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  r public.resources%ROWTYPE;
+  quote JSONB;
+  new_booking public.bookings%ROWTYPE;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'You must be signed in to book a resource'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  SELECT * INTO r FROM public.resources
+  WHERE id = _resource_id AND is_available = true;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Resource not found or unavailable'
+      USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF r.owner_id = auth.uid() THEN
+    RAISE EXCEPTION 'You cannot book your own resource'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF _start_time < r.availability_start OR _end_time > r.availability_end THEN
+    RAISE EXCEPTION 'Requested dates are outside the resource''s availability'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  quote := public.quote_booking(_resource_id, _start_time, _end_time);
+
+  INSERT INTO public.bookings (
+    resource_id,
+    renter_id,
+    owner_id,
+    start_time,
+    end_time,
+    total_price,
+    price_breakdown,
+    deposit_amount,
+    payment_method,
+    status
+  )
+  VALUES (
+    _resource_id,
+    auth.uid(),
+    r.owner_id,
+    _start_time,
+    _end_time,
+    (quote ->> 'total')::NUMERIC,
+    quote,
+    r.deposit_amount,
+    _payment_method,
+    'pending'
+  )
+  RETURNING * INTO new_booking;
+
+  RETURN new_booking;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.protect_booking_terms()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF auth.uid() IS NOT NULL AND (
+    NEW.resource_id IS DISTINCT FROM OLD.resource_id
+    OR NEW.renter_id IS DISTINCT FROM OLD.renter_id
+    OR NEW.owner_id IS DISTINCT FROM OLD.owner_id
+    OR NEW.start_time IS DISTINCT FROM OLD.start_time
+    OR NEW.end_time IS DISTINCT FROM OLD.end_time
+    OR NEW.total_price IS DISTINCT FROM OLD.total_price
+    OR NEW.price_breakdown IS DISTINCT FROM OLD.price_breakdown
+    OR NEW.deposit_amount IS DISTINCT FROM OLD.deposit_amount
+  ) THEN
+    RAISE EXCEPTION 'Booking terms cannot be changed'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+-- Place the hold when a booking with a deposit is created
+CREATE OR REPLACE FUNCTION public.hold_booking_deposit()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.deposit_amount > 0 THEN
+    INSERT INTO public.booking_deposits (booking_id, amount)
+    VALUES (NEW.id, NEW.deposit_amount);
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER hold_booking_deposit
+  AFTER INSERT ON public.bookings
+  FOR EACH ROW
+  EXECUTE FUNCTION public.hold_booking_deposit();
+
+-- Release the hold when a booking ends without a claim being captured.
+-- A booking cannot be completed while a claim is still open or disputed.
+CREATE OR REPLACE FUNCTION public.settle_booking_deposit()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status = 'completed' AND EXISTS (
+    SELECT 1 FROM public.damage_claims c
+    WHERE c.booking_id = NEW.id AND c.status IN ('open', 'disputed')
+  ) THEN
+    RAISE EXCEPTION 'Resolve the damage claim before completing this booking'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF NEW.status IN ('rejected', 'cancelled', 'completed') THEN
+    UPDATE public.booking_deposits
+    SET status = 'released', settled_at = now()
+    WHERE booking_id = NEW.id AND status = 'held';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER settle_booking_deposit
+  AFTER UPDATE OF status ON public.bookings
+  FOR EACH ROW
+  WHEN (OLD.status IS DISTINCT FROM NEW.status)
+  EXECUTE FUNCTION public.settle_booking_deposit();
+
+-- File a claim against the deposit once the item is back, or revise an open
+-- or disputed claim
+CREATE OR REPLACE FUNCTION public.file_damage_claim(
+  _booking_id UUID,
+  _amount NUMERIC,
+  _description TEXT,
+  _photo_paths TEXT[] DEFAULT '{}'
+)
+RETURNS public.damage_claims
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  b public.bookings%ROWTYPE;
+  d public.booking_deposits%ROWTYPE;
+  existing public.damage_claims%ROWTYPE;
+  claim public.damage_claims%ROWTYPE;
+BEGIN
+  SELECT * INTO b FROM public.bookings WHERE id = _booking_id AND owner_id = auth.uid();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Booking not found'
+      USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF b.status <> 'returned' THEN
+    RAISE EXCEPTION 'Damage claims can only be filed after the item is returned and before the booking is completed'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  SELECT * INTO d FROM public.booking_deposits WHERE booking_id = _booking_id;
+
+  IF NOT FOUND OR d.status <> 'held' THEN
+    RAISE EXCEPTION 'This booking has no deposit held'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF _amount IS NULL OR _amount <= 0 OR _amount > d.amount THEN
+    RAISE EXCEPTION 'Claim amount must be between 0 and the deposit of %', d.amount
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF _photo_paths IS NOT NULL AND EXISTS (
+    SELECT 1 FROM unnest(_photo_paths) p WHERE p NOT LIKE _booking_id::text || '/%'
+  ) THEN
+    RAISE EXCEPTION 'Claim photos must be uploaded for this booking'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  SELECT * INTO existing FROM public.damage_claims WHERE booking_id = _booking_id;
+
+  IF FOUND THEN
+    IF existing.status NOT IN ('open', 'disputed') THEN
+      RAISE EXCEPTION 'This claim has already been %', existing.status
+        USING ERRCODE = 'check_violation';
+    END IF;
+
+    UPDATE public.damage_claims
+    SET amount = _amount,
+        description = trim(_description),
+        photo_paths = coalesce(_photo_paths, '{}'),
+        status = 'open',
+        renter_response = NULL
+    WHERE id = existing.id
+    RETURNING * INTO claim;
+  ELSE
+    INSERT INTO public.damage_claims (booking_id, owner_id, renter_id, amount, description, photo_paths)
+    VALUES (b.id, b.owner_id, b.renter_id, _amount, trim(_description), coalesce(_photo_paths, '{}'))
+    RETURNING * INTO claim;
+  END IF;
+
+  RETURN claim;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.file_damage_claim(UUID, NUMERIC, TEXT, TEXT[]) TO authenticated;
+
+-- The renter accepts a claim, capturing that much of the deposit, or
+-- disputes it, leaving the deposit held until the owner revises or
+-- withdraws the claim
+CREATE OR REPLACE FUNCTION public.respond_to_damage_claim(
+  _claim_id UUID,
+  _accept BOOLEAN,
+  _response TEXT DEFAULT NULL
+)
+RETURNS public.damage_claims
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  claim public.damage_claims%ROWTYPE;
+BEGIN
+  SELECT * INTO claim FROM public.damage_claims
+  WHERE id = _claim_id AND renter_id = auth.uid()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Damage claim not found'
+      USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF claim.status <> 'open' THEN
+    RAISE EXCEPTION 'This claim is no longer awaiting your response'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF _accept THEN
+    UPDATE public.booking_deposits
+    SET captured_amount = claim.amount,
+        status = CASE WHEN claim.amount >= amount THEN 'captured' ELSE 'partially_captured' END,
+        settled_at = now()
+    WHERE booking_id = claim.booking_id AND status = 'held';
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'The deposit for this booking is no longer held'
+        USING ERRCODE = 'check_violation';
+    END IF;
+
+    UPDATE public.damage_claims
+    SET status = 'accepted', renter_response = NULLIF(trim(_response), ''), resolved_at = now()
+    WHERE id = claim.id
+    RETURNING * INTO claim;
+  ELSE
+    IF NULLIF(trim(_response), '') IS NULL THEN
+      RAISE EXCEPTION 'Please explain why you dispute this claim'
+        USING ERRCODE = 'check_violation';
+    END IF;
+
+    UPDATE public.damage_claims
+    SET status = 'disputed', renter_response = trim(_response)
+    WHERE id = claim.id
+    RETURNING * INTO claim;
+  END IF;
+
+  RETURN claim;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.respond_to_damage_claim(UUID, BOOLEAN, TEXT) TO authenticated;
+
+-- The owner drops a claim; the deposit is released when the booking completes
+CREATE OR REPLACE FUNCTION public.withdraw_damage_claim(_claim_id UUID)
+RETURNS public.damage_claims
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  claim public.damage_claims%ROWTYPE;
+BEGIN
+  UPDATE public.damage_claims
+  SET status = 'withdrawn', resolved_at = now()
+  WHERE id = _claim_id AND owner_id = auth.uid() AND status IN ('open', 'disputed')
+  RETURNING * INTO claim;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Damage claim not found or already resolved'
+      USING ERRCODE = 'no_data_found';
+  END IF;
+
+  RETURN claim;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.withdraw_damage_claim(UUID) TO authenticated;
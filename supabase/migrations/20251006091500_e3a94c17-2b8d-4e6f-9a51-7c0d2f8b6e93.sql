@@ -0,0 +1,62 @@
+-- Payment state of each booking, written only by the payments edge function
+-- (with the service role). The gateway authorizes when a booking is
+-- requested, captures when the owner accepts and voids or refunds when the
+-- booking is rejected or cancelled. Cash bookings are recorded as offline.
+CREATE TABLE public.booking_payments (
+  booking_id UUID NOT NULL PRIMARY KEY REFERENCES public.bookings(id) ON DELETE CASCADE,
+  provider TEXT NOT NULL,
+  provider_payment_id TEXT,
+  amount NUMERIC NOT NULL CHECK (amount >= 0),
+  currency TEXT NOT NULL DEFAULT 'usd',
+  status TEXT NOT NULL CHECK (status IN ('authorized', 'captured', 'voided', 'refunded', 'failed', 'offline')),
+  failure_reason TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.booking_payments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Participants can view booking payments" ON public.booking_payments
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.bookings b
+      WHERE b.id = booking_id AND auth.uid() IN (b.renter_id, b.owner_id)
+    )
+  );
+
+CREATE TRIGGER update_booking_payments_updated_at
+  BEFORE UPDATE ON public.booking_payments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Accepting, rejecting and cancelling move money, so while a payment is
+-- authorized or captured those transitions must go through the payments
+-- function, which settles the payment and then updates the booking as the
+-- service role
+CREATE OR REPLACE FUNCTION public.enforce_booking_payment_state()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NOT NULL
+    AND NEW.status IN ('confirmed', 'rejected', 'cancelled')
+    AND EXISTS (
+      SELECT 1 FROM public.booking_payments p
+      WHERE p.booking_id = NEW.id AND p.status IN ('authorized', 'captured')
+    )
+  THEN
+    RAISE EXCEPTION 'This booking has a payment that must be settled through the payments service'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER enforce_booking_payment_state
+  BEFORE UPDATE OF status ON public.bookings
+  FOR EACH ROW
+  WHEN (OLD.status IS DISTINCT FROM NEW.status)
+  EXECUTE FUNCTION public.enforce_booking_payment_state();
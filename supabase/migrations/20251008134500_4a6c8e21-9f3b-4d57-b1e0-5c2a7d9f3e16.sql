@@ -0,0 +1,172 @@
+-- Earnings analytics for owners. Everything is aggregated here so the
+-- dashboard never has to download and sum individual bookings.
+--
+-- Bookings count towards a date range by their start time. Revenue, booking
+-- length and booked days only include bookings that went ahead (accepted
+-- through completed). Utilization compares the hours booked inside the range
+-- with the hours the resource was listed as available inside it.
+CREATE OR REPLACE FUNCTION public.get_owner_resource_stats(
+  _from TIMESTAMP WITH TIME ZONE,
+  _to TIMESTAMP WITH TIME ZONE
+)
+RETURNS TABLE (
+  resource_id UUID,
+  title TEXT,
+  booking_count INTEGER,
+  active_booking_count INTEGER,
+  cancelled_count INTEGER,
+  revenue NUMERIC,
+  booked_days NUMERIC,
+  available_days NUMERIC,
+  utilization_rate NUMERIC,
+  cancellation_rate NUMERIC,
+  average_booking_hours NUMERIC
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH requests AS (
+    SELECT
+      b.resource_id,
+      count(*) AS booking_count,
+      count(*) FILTER (WHERE b.status IN ('confirmed', 'picked_up', 'returned', 'completed')) AS active_count,
+      count(*) FILTER (WHERE b.status = 'cancelled') AS cancelled_count,
+      coalesce(sum(b.total_price) FILTER (WHERE b.status IN ('confirmed', 'picked_up', 'returned', 'completed')), 0) AS revenue,
+      avg(EXTRACT(EPOCH FROM (b.end_time - b.start_time)) / 3600)
+        FILTER (WHERE b.status IN ('confirmed', 'picked_up', 'returned', 'completed')) AS average_hours
+    FROM public.bookings b
+    WHERE b.owner_id = auth.uid()
+      AND b.start_time >= _from
+      AND b.start_time < _to
+    GROUP BY b.resource_id
+  ),
+  occupancy AS (
+    SELECT
+      b.resource_id,
+      sum(EXTRACT(EPOCH FROM (least(b.end_time, _to) - greatest(b.start_time, _from)))) / 86400 AS booked_days
+    FROM public.bookings b
+    WHERE b.owner_id = auth.uid()
+      AND b.status IN ('confirmed', 'picked_up', 'returned', 'completed')
+      AND b.start_time < _to
+      AND b.end_time > _from
+    GROUP BY b.resource_id
+  )
+  SELECT
+    r.id,
+    r.title,
+    coalesce(q.booking_count, 0)::INTEGER,
+    coalesce(q.active_count, 0)::INTEGER,
+    coalesce(q.cancelled_count, 0)::INTEGER,
+    coalesce(q.revenue, 0),
+    round(coalesce(o.booked_days, 0), 2),
+    round(a.available_days, 2),
+    round(coalesce(o.booked_days, 0) / NULLIF(a.available_days, 0), 4),
+    round(coalesce(q.cancelled_count, 0)::NUMERIC / NULLIF(q.booking_count, 0), 4),
+    round(q.average_hours, 1)
+  FROM public.resources r
+  CROSS JOIN LATERAL (
+    SELECT greatest(
+      EXTRACT(EPOCH FROM (least(r.availability_end, _to) - greatest(r.availability_start, _from))) / 86400,
+      0
+    ) AS available_days
+  ) a
+  LEFT JOIN requests q ON q.resource_id = r.id
+  LEFT JOIN occupancy o ON o.resource_id = r.id
+  WHERE r.owner_id = auth.uid()
+  ORDER BY coalesce(q.revenue, 0) DESC, r.title;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_owner_resource_stats(TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE) TO authenticated;
+
+-- Totals across all of the owner's resources, or a single one
+CREATE OR REPLACE FUNCTION public.get_owner_earnings_summary(
+  _from TIMESTAMP WITH TIME ZONE,
+  _to TIMESTAMP WITH TIME ZONE,
+  _resource_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+  revenue NUMERIC,
+  booking_count INTEGER,
+  active_booking_count INTEGER,
+  cancelled_count INTEGER,
+  booked_days NUMERIC,
+  available_days NUMERIC,
+  utilization_rate NUMERIC,
+  cancellation_rate NUMERIC,
+  average_booking_hours NUMERIC
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    coalesce(sum(s.revenue), 0),
+    coalesce(sum(s.booking_count), 0)::INTEGER,
+    coalesce(sum(s.active_booking_count), 0)::INTEGER,
+    coalesce(sum(s.cancelled_count), 0)::INTEGER,
+    coalesce(sum(s.booked_days), 0),
+    coalesce(sum(s.available_days), 0),
+    round(sum(s.booked_days) / NULLIF(sum(s.available_days), 0), 4),
+    round(sum(s.cancelled_count)::NUMERIC / NULLIF(sum(s.booking_count), 0), 4),
+    round(
+      sum(s.average_booking_hours * s.active_booking_count) / NULLIF(sum(s.active_booking_count), 0),
+      1
+    )
+  FROM public.get_owner_resource_stats(_from, _to) s
+  WHERE _resource_id IS NULL OR s.resource_id = _resource_id;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_owner_earnings_summary(TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE, UUID) TO authenticated;
+
+-- Revenue and accepted bookings per day, week or month, including empty
+-- periods so charts have a continuous axis
+CREATE OR REPLACE FUNCTION public.get_owner_revenue_series(
+  _from TIMESTAMP WITH TIME ZONE,
+  _to TIMESTAMP WITH TIME ZONE,
+  _interval TEXT DEFAULT 'day',
+  _resource_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+  period_start TIMESTAMP WITH TIME ZONE,
+  revenue NUMERIC,
+  booking_count INTEGER
+)
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+BEGIN
+  IF _interval NOT IN ('day', 'week', 'month') THEN
+    RAISE EXCEPTION 'Interval must be day, week or month'
+      USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  IF _to <= _from THEN
+    RAISE EXCEPTION 'End date must be after start date'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    p.period_start,
+    coalesce(sum(b.total_price), 0),
+    count(b.id)::INTEGER
+  FROM generate_series(
+    date_trunc(_interval, _from),
+    _to - INTERVAL '1 microsecond',
+    ('1 ' || _interval)::INTERVAL
+  ) AS p(period_start)
+  LEFT JOIN public.bookings b
+    ON b.owner_id = auth.uid()
+    AND (_resource_id IS NULL OR b.resource_id = _resource_id)
+    AND b.status IN ('confirmed', 'picked_up', 'returned', 'completed')
+    AND b.start_time >= _from
+    AND b.start_time < _to
+    AND date_trunc(_interval, b.start_time) = p.period_start
+  GROUP BY p.period_start
+  ORDER BY p.period_start;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_owner_revenue_series(TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE, TEXT, UUID) TO authenticated;
@@ -0,0 +1,249 @@
+-- Notifications for booking events.
+--
+-- Triggers on bookings write one row per recipient and event. A row is shown
+-- in the app when the recipient wants in-app notices for that event, and is
+-- queued for the send-notifications function when they want email. Missing
+-- preference rows mean both channels are on.
+CREATE TABLE public.notification_preferences (
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  type TEXT NOT NULL CHECK (type IN ('booking_requested', 'booking_accepted', 'booking_rejected', 'pickup_reminder', 'return_overdue')),
+  in_app BOOLEAN NOT NULL DEFAULT true,
+  email BOOLEAN NOT NULL DEFAULT true,
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (user_id, type)
+);
+
+ALTER TABLE public.notification_preferences ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their notification preferences" ON public.notification_preferences
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their notification preferences" ON public.notification_preferences
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their notification preferences" ON public.notification_preferences
+  FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_notification_preferences_updated_at
+  BEFORE UPDATE ON public.notification_preferences
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TABLE public.notifications (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  type TEXT NOT NULL CHECK (type IN ('booking_requested', 'booking_accepted', 'booking_rejected', 'pickup_reminder', 'return_overdue')),
+  booking_id UUID REFERENCES public.bookings(id) ON DELETE CASCADE,
+  title TEXT NOT NULL,
+  body TEXT NOT NULL,
+  link TEXT,
+  in_app BOOLEAN NOT NULL DEFAULT true,
+  email_status TEXT NOT NULL DEFAULT 'skipped' CHECK (email_status IN ('pending', 'sent', 'failed', 'skipped')),
+  email_error TEXT,
+  emailed_at TIMESTAMP WITH TIME ZONE,
+  read_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_notifications_user ON public.notifications (user_id, created_at DESC);
+CREATE INDEX idx_notifications_email_pending ON public.notifications (created_at) WHERE email_status = 'pending';
+
+-- Reminders go out once per booking
+CREATE UNIQUE INDEX idx_notifications_reminder_once ON public.notifications (booking_id, type)
+  WHERE type IN ('pickup_reminder', 'return_overdue');
+
+ALTER TABLE public.notifications ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their notifications" ON public.notifications
+  FOR SELECT USING (auth.uid() = user_id AND in_app);
+
+-- Record a notification, respecting the recipient's preferences. Returns
+-- nothing when both channels are off for this event.
+CREATE OR REPLACE FUNCTION public.notify_user(
+  _user_id UUID,
+  _type TEXT,
+  _booking_id UUID,
+  _title TEXT,
+  _body TEXT,
+  _link TEXT
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _in_app BOOLEAN := true;
+  _email BOOLEAN := true;
+BEGIN
+  SELECT p.in_app, p.email INTO _in_app, _email
+  FROM public.notification_preferences p
+  WHERE p.user_id = _user_id AND p.type = _type;
+
+  _in_app := coalesce(_in_app, true);
+  _email := coalesce(_email, true);
+
+  IF NOT _in_app AND NOT _email THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO public.notifications (user_id, type, booking_id, title, body, link, in_app, email_status)
+  VALUES (_user_id, _type, _booking_id, _title, _body, _link, _in_app, CASE WHEN _email THEN 'pending' ELSE 'skipped' END)
+  ON CONFLICT DO NOTHING;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.notify_user(UUID, TEXT, UUID, TEXT, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.format_booking_dates(_start TIMESTAMP WITH TIME ZONE, _end TIMESTAMP WITH TIME ZONE)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT to_char(_start, 'Mon FMDD') || ' – ' || to_char(_end, 'Mon FMDD');
+$$;
+
+CREATE OR REPLACE FUNCTION public.notify_booking_event()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _title TEXT;
+  _dates TEXT := public.format_booking_dates(NEW.start_time, NEW.end_time);
+BEGIN
+  SELECT r.title INTO _title FROM public.resources r WHERE r.id = NEW.resource_id;
+
+  IF TG_OP = 'INSERT' THEN
+    PERFORM public.notify_user(
+      NEW.owner_id, 'booking_requested', NEW.id,
+      'New booking request',
+      format('"%s" was requested for %s.', _title, _dates),
+      '/dashboard'
+    );
+  ELSIF NEW.status = 'confirmed' THEN
+    PERFORM public.notify_user(
+      NEW.renter_id, 'booking_accepted', NEW.id,
+      'Booking accepted',
+      format('Your request for "%s" (%s) was accepted.', _title, _dates),
+      '/dashboard'
+    );
+  ELSIF NEW.status = 'rejected' THEN
+    PERFORM public.notify_user(
+      NEW.renter_id, 'booking_rejected', NEW.id,
+      'Booking declined',
+      format('Your request for "%s" (%s) was declined.', _title, _dates),
+      '/dashboard'
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER notify_booking_requested
+  AFTER INSERT ON public.bookings
+  FOR EACH ROW
+  EXECUTE FUNCTION public.notify_booking_event();
+
+CREATE TRIGGER notify_booking_status_changed
+  AFTER UPDATE OF status ON public.bookings
+  FOR EACH ROW
+  WHEN (OLD.status IS DISTINCT FROM NEW.status)
+  EXECUTE FUNCTION public.notify_booking_event();
+
+-- Time-based notices, queued by the send-notifications function on each run:
+-- a pickup reminder for confirmed bookings starting within a day, and an
+-- overdue notice to the renter once a picked-up item is past its end time
+CREATE OR REPLACE FUNCTION public.queue_booking_reminders()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _booking RECORD;
+  _count INTEGER := 0;
+BEGIN
+  FOR _booking IN
+    SELECT b.*, r.title
+    FROM public.bookings b
+    JOIN public.resources r ON r.id = b.resource_id
+    WHERE b.status = 'confirmed'
+      AND b.start_time > now()
+      AND b.start_time <= now() + INTERVAL '24 hours'
+      AND NOT EXISTS (
+        SELECT 1 FROM public.notifications n
+        WHERE n.booking_id = b.id AND n.type = 'pickup_reminder'
+      )
+  LOOP
+    PERFORM public.notify_user(
+      _booking.renter_id, 'pickup_reminder', _booking.id,
+      'Pickup coming up',
+      format('Your booking of "%s" starts %s.', _booking.title, to_char(_booking.start_time, 'Mon FMDD "at" HH24:MI')),
+      '/dashboard'
+    );
+    _count := _count + 1;
+  END LOOP;
+
+  FOR _booking IN
+    SELECT b.*, r.title
+    FROM public.bookings b
+    JOIN public.resources r ON r.id = b.resource_id
+    WHERE b.status = 'picked_up'
+      AND b.end_time < now()
+      AND NOT EXISTS (
+        SELECT 1 FROM public.notifications n
+        WHERE n.booking_id = b.id AND n.type = 'return_overdue'
+      )
+  LOOP
+    PERFORM public.notify_user(
+      _booking.renter_id, 'return_overdue', _booking.id,
+      'Return overdue',
+      format('"%s" was due back %s. Please return it or message the owner.', _booking.title, to_char(_booking.end_time, 'Mon FMDD "at" HH24:MI')),
+      '/dashboard'
+    );
+    _count := _count + 1;
+  END LOOP;
+
+  RETURN _count;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.queue_booking_reminders() FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.get_unread_notification_count()
+RETURNS INTEGER
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COUNT(*)::INTEGER
+  FROM public.notifications
+  WHERE user_id = auth.uid()
+    AND in_app
+    AND read_at IS NULL;
+$$;
+
+-- Mark the given notifications, or all of them when no ids are passed, as read
+CREATE OR REPLACE FUNCTION public.mark_notifications_read(_ids UUID[] DEFAULT NULL)
+RETURNS VOID
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE public.notifications
+  SET read_at = now()
+  WHERE user_id = auth.uid()
+    AND read_at IS NULL
+    AND (_ids IS NULL OR id = ANY(_ids));
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_unread_notification_count() TO authenticated;
+GRANT EXECUTE ON FUNCTION public.mark_notifications_read(UUID[]) TO authenticated;
+
+-- Stream new and read notifications to their recipient
+ALTER TABLE public.notifications REPLICA IDENTITY FULL;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.notifications;
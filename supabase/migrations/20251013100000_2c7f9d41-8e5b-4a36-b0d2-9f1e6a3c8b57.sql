@@ -0,0 +1,433 @@
+-- Recurring availability, blackout dates and buffer time.
+--
+-- availability_start/availability_end stay as the outer window. Inside it an
+-- owner can limit bookings to weekly hours (one range per weekday, in the
+-- resource's time zone; no rows means any time), block out date ranges, and
+-- ask for buffer time around every booking. The open hours are computed here
+-- so booking, the booking calendar and search all apply the same rules.
+ALTER TABLE public.resources
+  ADD COLUMN buffer_minutes INTEGER NOT NULL DEFAULT 0 CHECK (buffer_minutes BETWEEN 0 AND 10080),
+  ADD COLUMN timezone TEXT NOT NULL DEFAULT 'UTC';
+
+CREATE OR REPLACE FUNCTION public.validate_resource_timezone()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_timezone_names WHERE name = NEW.timezone) THEN
+    RAISE EXCEPTION 'Unknown time zone %', NEW.timezone
+      USING ERRCODE = 'check_violation';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER validate_resource_timezone
+  BEFORE INSERT OR UPDATE OF timezone ON public.resources
+  FOR EACH ROW
+  EXECUTE FUNCTION public.validate_resource_timezone();
+
+CREATE TABLE public.resource_weekly_hours (
+  resource_id UUID NOT NULL REFERENCES public.resources(id) ON DELETE CASCADE,
+  -- 0 = Sunday, as in EXTRACT(DOW) and Date.getDay()
+  weekday SMALLINT NOT NULL CHECK (weekday BETWEEN 0 AND 6),
+  start_time TIME NOT NULL,
+  end_time TIME NOT NULL,
+  PRIMARY KEY (resource_id, weekday),
+  CHECK (end_time > start_time)
+);
+
+ALTER TABLE public.resource_weekly_hours ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view hours of visible resources" ON public.resource_weekly_hours
+  FOR SELECT USING (
+    EXISTS (SELECT 1 FROM public.resources r WHERE r.id = resource_id)
+  );
+
+CREATE POLICY "Owners can insert hours of their resources" ON public.resource_weekly_hours
+  FOR INSERT WITH CHECK (
+    EXISTS (SELECT 1 FROM public.resources r WHERE r.id = resource_id AND r.owner_id = auth.uid())
+  );
+
+CREATE POLICY "Owners can update hours of their resources" ON public.resource_weekly_hours
+  FOR UPDATE USING (
+    EXISTS (SELECT 1 FROM public.resources r WHERE r.id = resource_id AND r.owner_id = auth.uid())
+  );
+
+CREATE POLICY "Owners can delete hours of their resources" ON public.resource_weekly_hours
+  FOR DELETE USING (
+    EXISTS (SELECT 1 FROM public.resources r WHERE r.id = resource_id AND r.owner_id = auth.uid())
+  );
+
+-- Blackouts are private to the owner (the reason is a note to themselves);
+-- renters only see the resulting gaps in the bookable slots
+CREATE TABLE public.resource_blackouts (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  resource_id UUID NOT NULL REFERENCES public.resources(id) ON DELETE CASCADE,
+  starts_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  ends_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  reason TEXT CHECK (char_length(reason) <= 200),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (ends_at > starts_at)
+);
+
+CREATE INDEX resource_blackouts_resource_id_idx ON public.resource_blackouts (resource_id, starts_at);
+
+ALTER TABLE public.resource_blackouts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Owners can view blackouts of their resources" ON public.resource_blackouts
+  FOR SELECT USING (
+    EXISTS (SELECT 1 FROM public.resources r WHERE r.id = resource_id AND r.owner_id = auth.uid())
+  );
+
+CREATE POLICY "Owners can insert blackouts of their resources" ON public.resource_blackouts
+  FOR INSERT WITH CHECK (
+    EXISTS (SELECT 1 FROM public.resources r WHERE r.id = resource_id AND r.owner_id = auth.uid())
+  );
+
+CREATE POLICY "Owners can delete blackouts of their resources" ON public.resource_blackouts
+  FOR DELETE USING (
+    EXISTS (SELECT 1 FROM public.resources r WHERE r.id = resource_id AND r.owner_id = auth.uid())
+  );
+
+-- The owner's schedule between _from and _to: the availability window,
+-- narrowed to the weekly hours when there are any, minus blackouts.
+-- Consecutive weekly ranges (e.g. all of Saturday and Sunday) merge.
+CREATE OR REPLACE FUNCTION public.get_resource_open_hours(
+  _resource_id UUID,
+  _from TIMESTAMP WITH TIME ZONE,
+  _to TIMESTAMP WITH TIME ZONE
+)
+RETURNS tstzmultirange
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH res AS (
+    SELECT
+      r.id,
+      r.timezone,
+      CASE WHEN greatest(r.availability_start, _from) < least(r.availability_end, _to)
+        THEN tstzmultirange(tstzrange(greatest(r.availability_start, _from), least(r.availability_end, _to)))
+        ELSE '{}'::tstzmultirange
+      END AS availability_window,
+      EXISTS (SELECT 1 FROM public.resource_weekly_hours w WHERE w.resource_id = r.id) AS has_weekly_hours
+    FROM public.resources r
+    WHERE r.id = _resource_id
+  ),
+  weekly AS (
+    SELECT range_agg(tstzrange(
+      (d::date + w.start_time) AT TIME ZONE res.timezone,
+      (d::date + w.end_time) AT TIME ZONE res.timezone
+    )) AS hours
+    FROM res
+    CROSS JOIN generate_series(
+      ((_from AT TIME ZONE res.timezone)::date - 1)::timestamp,
+      (_to AT TIME ZONE res.timezone)::date::timestamp,
+      INTERVAL '1 day'
+    ) AS d
+    JOIN public.resource_weekly_hours w
+      ON w.resource_id = res.id AND w.weekday = EXTRACT(DOW FROM d)
+  ),
+  blackouts AS (
+    SELECT range_agg(tstzrange(b.starts_at, b.ends_at)) AS hours
+    FROM public.resource_blackouts b
+    WHERE b.resource_id = _resource_id
+      AND b.starts_at < _to
+      AND b.ends_at > _from
+  )
+  SELECT
+    CASE WHEN res.has_weekly_hours
+      THEN res.availability_window * coalesce(weekly.hours, '{}'::tstzmultirange)
+      ELSE res.availability_window
+    END - coalesce(blackouts.hours, '{}'::tstzmultirange)
+  FROM res, weekly, blackouts;
+$$;
+
+-- Time already taken by requested, accepted and in-progress bookings,
+-- widened by the resource's buffer on both sides
+CREATE OR REPLACE FUNCTION public.get_resource_blocked_hours(
+  _resource_id UUID,
+  _from TIMESTAMP WITH TIME ZONE,
+  _to TIMESTAMP WITH TIME ZONE
+)
+RETURNS tstzmultirange
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT coalesce(range_agg(padded.hours), '{}'::tstzmultirange)
+  FROM public.bookings b
+  JOIN public.resources r ON r.id = b.resource_id
+  CROSS JOIN LATERAL (
+    SELECT tstzrange(
+      b.start_time - make_interval(mins => r.buffer_minutes),
+      b.end_time + make_interval(mins => r.buffer_minutes)
+    ) AS hours
+  ) padded
+  WHERE b.resource_id = _resource_id
+    AND b.status IN ('pending', 'confirmed', 'picked_up')
+    AND padded.hours && tstzrange(_from, _to);
+$$;
+
+-- Whether a resource is open at some point between _from and _to and none of
+-- that open time is taken. Used by the browse date filter.
+CREATE OR REPLACE FUNCTION public.is_resource_open_during(
+  _resource_id UUID,
+  _from TIMESTAMP WITH TIME ZONE,
+  _to TIMESTAMP WITH TIME ZONE
+)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT NOT isempty(open_hours)
+    AND NOT (open_hours && public.get_resource_blocked_hours(_resource_id, _from, _to))
+  FROM (SELECT public.get_resource_open_hours(_resource_id, _from, _to) AS open_hours) o;
+$$;
+
+-- The stretches of time a renter could book between _from and _to, leaving
+-- out any too short for the minimum rental
+CREATE OR REPLACE FUNCTION public.get_resource_bookable_slots(
+  _resource_id UUID,
+  _from TIMESTAMP WITH TIME ZONE,
+  _to TIMESTAMP WITH TIME ZONE
+)
+RETURNS TABLE (start_time TIMESTAMP WITH TIME ZONE, end_time TIMESTAMP WITH TIME ZONE)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT lower(slot), upper(slot)
+  FROM public.resources r
+  CROSS JOIN LATERAL unnest(
+    public.get_resource_open_hours(r.id, greatest(_from, now()), _to)
+      - public.get_resource_blocked_hours(r.id, greatest(_from, now()), _to)
+  ) AS slot
+  WHERE r.id = _resource_id
+    AND (r.is_available = true OR r.owner_id = auth.uid())
+    AND upper(slot) - lower(slot) >= make_interval(hours => r.min_rental_hours)
+  ORDER BY lower(slot);
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_resource_bookable_slots(UUID, TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE) TO anon, authenticated;
+
+-- create_booking checks the schedule and buffer instead of only the window.
+-- The resource row is locked so two requests cannot both claim a buffer gap.
+CREATE OR REPLACE FUNCTION public.create_booking(
+  _resource_id UUID,
+  _start_time TIMESTAMP WITH TIME ZONE,
+  _end_time TIMESTAMP WITH TIME ZONE,
+  _payment_method TEXT
+)
+RETURNS public.bookings
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  r public.resources%ROWTYPE;
+  quote JSONB;
+  new_booking public.bookings%ROWTYPE;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'You must be signed in to book a resource'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  SELECT * INTO r FROM public.resources
+  WHERE id = _resource_id AND is_available = true
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Resource not found or unavailable'
+      USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF r.owner_id = auth.uid() THEN
+    RAISE EXCEPTION 'You cannot book your own resource'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF _end_time <= _start_time
+    OR NOT public.get_resource_open_hours(_resource_id, _start_time, _end_time) @> tstzrange(_start_time, _end_time)
+  THEN
+    RAISE EXCEPTION 'Requested times are outside the resource''s availability'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  -- Direct overlaps are left to bookings_no_overlap so they keep reporting
+  -- as conflicts; this only catches bookings that fall inside the buffer
+  IF r.buffer_minutes > 0 AND EXISTS (
+    SELECT 1
+    FROM public.bookings b
+    WHERE b.resource_id = _resource_id
+      AND b.status IN ('pending', 'confirmed', 'picked_up')
+      AND tstzrange(
+        b.start_time - make_interval(mins => r.buffer_minutes),
+        b.end_time + make_interval(mins => r.buffer_minutes)
+      ) && tstzrange(_start_time, _end_time)
+      AND NOT (tstzrange(b.start_time, b.end_time) && tstzrange(_start_time, _end_time))
+  ) THEN
+    RAISE EXCEPTION 'The owner needs % minutes between rentals; choose a later start or an earlier end', r.buffer_minutes
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  quote := public.quote_booking(_resource_id, _start_time, _end_time);
+
+  INSERT INTO public.bookings (
+    resource_id,
+    renter_id,
+    owner_id,
+    start_time,
+    end_time,
+    total_price,
+    price_breakdown,
+    deposit_amount,
+    payment_method,
+    status
+  )
+  VALUES (
+    _resource_id,
+    auth.uid(),
+    r.owner_id,
+    _start_time,
+    _end_time,
+    (quote ->> 'total')::NUMERIC,
+    quote,
+    r.deposit_amount,
+    _payment_method,
+    'pending'
+  )
+  RETURNING * INTO new_booking;
+
+  RETURN new_booking;
+END;
+$$;
+
+-- search_resources: a date range now matches resources that are open at some
+-- point in it with none of that open time taken, so part-time resources show
+-- up for the days they can actually be borrowed
+CREATE OR REPLACE FUNCTION public.search_resources(
+  _query TEXT DEFAULT NULL,
+  _category TEXT DEFAULT NULL,
+  _min_price NUMERIC DEFAULT NULL,
+  _max_price NUMERIC DEFAULT NULL,
+  _available_from TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  _available_to TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  _latitude DOUBLE PRECISION DEFAULT NULL,
+  _longitude DOUBLE PRECISION DEFAULT NULL,
+  _radius_km DOUBLE PRECISION DEFAULT NULL,
+  _sort TEXT DEFAULT 'newest',
+  _cursor_key NUMERIC DEFAULT NULL,
+  _cursor_id UUID DEFAULT NULL,
+  _limit INTEGER DEFAULT 12
+)
+RETURNS TABLE (
+  id UUID,
+  owner_id UUID,
+  title TEXT,
+  description TEXT,
+  category TEXT,
+  price NUMERIC,
+  location TEXT,
+  image_url TEXT,
+  cover_image_path TEXT,
+  availability_start TIMESTAMP WITH TIME ZONE,
+  availability_end TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE,
+  latitude DOUBLE PRECISION,
+  longitude DOUBLE PRECISION,
+  distance_km NUMERIC,
+  average_rating NUMERIC,
+  review_count INTEGER,
+  sort_key NUMERIC
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  search_query tsquery := NULLIF(websearch_to_tsquery('english', coalesce(_query, '')), ''::tsquery);
+  has_origin BOOLEAN := _latitude IS NOT NULL AND _longitude IS NOT NULL;
+BEGIN
+  IF _sort NOT IN ('newest', 'price_asc', 'price_desc', 'rating', 'distance') THEN
+    RAISE EXCEPTION 'Unknown sort option %', _sort
+      USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  IF (_sort = 'distance' OR _radius_km IS NOT NULL) AND NOT has_origin THEN
+    RAISE EXCEPTION 'A location is required to search by distance'
+      USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  IF _available_from IS NOT NULL AND _available_to IS NOT NULL AND _available_to <= _available_from THEN
+    RAISE EXCEPTION 'End date must be after start date'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN QUERY
+  SELECT *
+  FROM (
+    SELECT
+      r.id,
+      r.owner_id,
+      r.title,
+      r.description,
+      r.category,
+      r.price,
+      r.location,
+      r.image_url,
+      (
+        SELECT ri.storage_path
+        FROM public.resource_images ri
+        WHERE ri.resource_id = r.id
+        ORDER BY ri.is_cover DESC, ri.position
+        LIMIT 1
+      ) AS cover_image_path,
+      r.availability_start,
+      r.availability_end,
+      r.created_at,
+      r.latitude,
+      r.longitude,
+      d.distance_km,
+      rs.average_rating,
+      coalesce(rs.review_count, 0) AS review_count,
+      CASE _sort
+        WHEN 'price_asc' THEN -r.price
+        WHEN 'price_desc' THEN r.price
+        WHEN 'rating' THEN coalesce(rs.average_rating, 0)
+        WHEN 'distance' THEN -coalesce(d.distance_km, 100000)
+        ELSE round(extract(epoch FROM r.created_at) * 1000000)
+      END AS sort_key
+    FROM public.resources r
+    LEFT JOIN public.resource_rating_summary rs ON rs.resource_id = r.id
+    CROSS JOIN LATERAL (
+      SELECT CASE WHEN has_origin AND r.latitude IS NOT NULL
+        THEN round(public.distance_km(_latitude, _longitude, r.latitude, r.longitude)::NUMERIC, 3)
+      END AS distance_km
+    ) d
+    WHERE r.is_available = true
+      AND (search_query IS NULL OR r.search_vector @@ search_query)
+      AND (_category IS NULL OR r.category = _category)
+      AND (_min_price IS NULL OR r.price >= _min_price)
+      AND (_max_price IS NULL OR r.price <= _max_price)
+      AND (_available_from IS NULL OR r.availability_start <= _available_from)
+      AND (_available_to IS NULL OR r.availability_end >= _available_to)
+      AND (_radius_km IS NULL OR d.distance_km <= _radius_km)
+      AND (
+        _available_from IS NULL OR _available_to IS NULL
+        OR public.is_resource_open_during(r.id, _available_from, _available_to)
+      )
+  ) results
+  WHERE _cursor_key IS NULL OR _cursor_id IS NULL
+    OR (results.sort_key, results.id) < (_cursor_key, _cursor_id)
+  ORDER BY results.sort_key DESC, results.id DESC
+  LIMIT least(greatest(coalesce(_limit, 12), 1), 50);
+END;
+$$;
+
@@ -0,0 +1,5 @@
+-- Stream booking changes to the renter and owner so their dashboards update
+-- live. RLS on bookings limits each subscriber to their own bookings, and
+-- full replica identity lets clients compare the old and new status.
+ALTER TABLE public.bookings REPLICA IDENTITY FULL;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.bookings;
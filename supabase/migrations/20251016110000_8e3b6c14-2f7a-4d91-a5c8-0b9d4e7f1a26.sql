@@ -0,0 +1,464 @@
+-- Administrators and moderation.
+--
+-- Roles live in their own table with no write policies, so they can only be
+-- granted from the SQL editor or with the service role, e.g.
+--   INSERT INTO public.user_roles (user_id, role) VALUES ('<user id>', 'admin');
+-- Nothing a user can update (profile, auth metadata) grants a role.
+-- Moderation actions go through the admin_* functions below, each of which
+-- records what was done in admin_audit_log.
+CREATE TYPE public.app_role AS ENUM ('admin');
+
+CREATE TABLE public.user_roles (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  role public.app_role NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (user_id, role)
+);
+
+ALTER TABLE public.user_roles ENABLE ROW LEVEL SECURITY;
+
+-- Runs with the owner's rights so policies can call it without recursing
+-- into user_roles' own policies
+CREATE OR REPLACE FUNCTION public.has_role(_user_id UUID, _role public.app_role)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.user_roles
+    WHERE user_id = _user_id AND role = _role
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION public.is_admin()
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT auth.uid() IS NOT NULL AND public.has_role(auth.uid(), 'admin');
+$$;
+
+GRANT EXECUTE ON FUNCTION public.has_role(UUID, public.app_role) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.is_admin() TO anon, authenticated;
+
+CREATE POLICY "Users can view their own roles" ON public.user_roles
+  FOR SELECT USING (user_id = auth.uid());
+
+CREATE POLICY "Admins can view all roles" ON public.user_roles
+  FOR SELECT USING (public.is_admin());
+
+-- Suspended users keep read access but cannot list, book or message
+CREATE TABLE public.user_suspensions (
+  user_id UUID NOT NULL PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  reason TEXT NOT NULL CHECK (char_length(reason) BETWEEN 1 AND 500),
+  suspended_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.user_suspensions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own suspension" ON public.user_suspensions
+  FOR SELECT USING (user_id = auth.uid());
+
+CREATE POLICY "Admins can view all suspensions" ON public.user_suspensions
+  FOR SELECT USING (public.is_admin());
+
+CREATE OR REPLACE FUNCTION public.is_suspended(_user_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (SELECT 1 FROM public.user_suspensions WHERE user_id = _user_id);
+$$;
+
+CREATE POLICY "Suspended users cannot add resources" ON public.resources
+  AS RESTRICTIVE FOR INSERT TO authenticated
+  WITH CHECK (NOT public.is_suspended(auth.uid()));
+
+CREATE POLICY "Suspended users cannot change resources" ON public.resources
+  AS RESTRICTIVE FOR UPDATE TO authenticated
+  USING (NOT public.is_suspended(auth.uid()));
+
+CREATE POLICY "Suspended users cannot send messages" ON public.messages
+  AS RESTRICTIVE FOR INSERT TO authenticated
+  WITH CHECK (NOT public.is_suspended(auth.uid()));
+
+-- Bookings are created by create_booking, which bypasses RLS, so check the
+-- renter in a trigger instead
+CREATE OR REPLACE FUNCTION public.prevent_suspended_booking()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF public.is_suspended(NEW.renter_id) THEN
+    RAISE EXCEPTION 'Your account is suspended and cannot make bookings'
+      USING ERRCODE = 'check_violation';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER prevent_suspended_booking
+  BEFORE INSERT ON public.bookings
+  FOR EACH ROW
+  EXECUTE FUNCTION public.prevent_suspended_booking();
+
+-- Listings taken down by a moderator. Owners cannot clear the flag or relist
+-- the resource while it is set.
+ALTER TABLE public.resources
+  ADD COLUMN unpublished_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN unpublished_reason TEXT CHECK (char_length(unpublished_reason) <= 500);
+
+CREATE OR REPLACE FUNCTION public.protect_resource_moderation()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF public.is_admin() OR auth.uid() IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.unpublished_at IS DISTINCT FROM OLD.unpublished_at
+    OR NEW.unpublished_reason IS DISTINCT FROM OLD.unpublished_reason THEN
+    RAISE EXCEPTION 'Only moderators can change whether a listing is unpublished'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF NEW.unpublished_at IS NOT NULL AND NEW.is_available THEN
+    RAISE EXCEPTION 'This listing was unpublished by a moderator and cannot be relisted'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER protect_resource_moderation
+  BEFORE UPDATE ON public.resources
+  FOR EACH ROW
+  EXECUTE FUNCTION public.protect_resource_moderation();
+
+-- Disputed claims can be settled by an admin, who decides how much of the
+-- deposit the owner keeps
+ALTER TABLE public.damage_claims
+  DROP CONSTRAINT damage_claims_status_check,
+  ADD CONSTRAINT damage_claims_status_check
+    CHECK (status IN ('open', 'accepted', 'disputed', 'withdrawn', 'resolved')),
+  ADD COLUMN awarded_amount NUMERIC CHECK (awarded_amount >= 0),
+  ADD COLUMN resolution_note TEXT CHECK (char_length(resolution_note) <= 2000),
+  ADD COLUMN resolved_by UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+
+-- What admins did, to whom and why. Written only by the admin_* functions.
+CREATE TABLE public.admin_audit_log (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  admin_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  action TEXT NOT NULL,
+  target_type TEXT NOT NULL CHECK (target_type IN ('user', 'resource', 'booking', 'damage_claim')),
+  target_id UUID NOT NULL,
+  details JSONB NOT NULL DEFAULT '{}',
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX admin_audit_log_created_at_idx ON public.admin_audit_log (created_at DESC);
+CREATE INDEX admin_audit_log_target_idx ON public.admin_audit_log (target_type, target_id);
+
+ALTER TABLE public.admin_audit_log ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view the audit log" ON public.admin_audit_log
+  FOR SELECT USING (public.is_admin());
+
+-- Read access for moderation
+CREATE POLICY "Admins can view all profiles" ON public.profiles
+  FOR SELECT USING (public.is_admin());
+
+CREATE POLICY "Admins can view all resources" ON public.resources
+  FOR SELECT USING (public.is_admin());
+
+CREATE POLICY "Admins can view all bookings" ON public.bookings
+  FOR SELECT USING (public.is_admin());
+
+CREATE POLICY "Admins can view all booking deposits" ON public.booking_deposits
+  FOR SELECT USING (public.is_admin());
+
+CREATE POLICY "Admins can view all booking payments" ON public.booking_payments
+  FOR SELECT USING (public.is_admin());
+
+CREATE POLICY "Admins can view all damage claims" ON public.damage_claims
+  FOR SELECT USING (public.is_admin());
+
+CREATE POLICY "Admins can view claim photos" ON storage.objects
+  FOR SELECT USING (bucket_id = 'damage-claims' AND public.is_admin());
+
+CREATE OR REPLACE FUNCTION public.require_admin()
+RETURNS VOID
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Only administrators can do this'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.log_admin_action(
+  _action TEXT,
+  _target_type TEXT,
+  _target_id UUID,
+  _details JSONB DEFAULT '{}'
+)
+RETURNS VOID
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  INSERT INTO public.admin_audit_log (admin_id, action, target_type, target_id, details)
+  VALUES (auth.uid(), _action, _target_type, _target_id, coalesce(_details, '{}'));
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.require_admin() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.log_admin_action(TEXT, TEXT, UUID, JSONB) FROM PUBLIC, anon, authenticated;
+
+-- Members with their role, suspension and activity, for the admin console
+CREATE OR REPLACE FUNCTION public.admin_list_users(_search TEXT DEFAULT NULL, _limit INTEGER DEFAULT 100)
+RETURNS TABLE (
+  user_id UUID,
+  name TEXT,
+  email TEXT,
+  created_at TIMESTAMP WITH TIME ZONE,
+  is_admin BOOLEAN,
+  suspended_at TIMESTAMP WITH TIME ZONE,
+  suspension_reason TEXT,
+  resource_count BIGINT,
+  booking_count BIGINT
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.require_admin();
+
+  RETURN QUERY
+  SELECT
+    p.user_id,
+    p.name,
+    p.email,
+    p.created_at,
+    public.has_role(p.user_id, 'admin'),
+    s.created_at,
+    s.reason,
+    (SELECT count(*) FROM public.resources r WHERE r.owner_id = p.user_id),
+    (SELECT count(*) FROM public.bookings b WHERE b.renter_id = p.user_id)
+  FROM public.profiles p
+  LEFT JOIN public.user_suspensions s ON s.user_id = p.user_id
+  WHERE NULLIF(trim(_search), '') IS NULL
+    OR p.name ILIKE '%' || trim(_search) || '%'
+    OR p.email ILIKE '%' || trim(_search) || '%'
+  ORDER BY p.created_at DESC
+  LIMIT LEAST(greatest(coalesce(_limit, 100), 1), 500);
+END;
+$$;
+
+-- Suspending a member also takes their listings down
+CREATE OR REPLACE FUNCTION public.admin_suspend_user(_user_id UUID, _reason TEXT)
+RETURNS public.user_suspensions
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  suspension public.user_suspensions%ROWTYPE;
+  unpublished_count INTEGER;
+BEGIN
+  PERFORM public.require_admin();
+
+  IF _user_id = auth.uid() OR public.has_role(_user_id, 'admin') THEN
+    RAISE EXCEPTION 'Administrators cannot be suspended'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF NULLIF(trim(_reason), '') IS NULL THEN
+    RAISE EXCEPTION 'Please give a reason for the suspension'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  INSERT INTO public.user_suspensions (user_id, reason, suspended_by)
+  VALUES (_user_id, trim(_reason), auth.uid())
+  ON CONFLICT (user_id) DO UPDATE
+    SET reason = EXCLUDED.reason, suspended_by = EXCLUDED.suspended_by
+  RETURNING * INTO suspension;
+
+  UPDATE public.resources
+  SET is_available = false,
+      unpublished_at = now(),
+      unpublished_reason = 'Owner suspended: ' || trim(_reason)
+  WHERE owner_id = _user_id AND unpublished_at IS NULL;
+  GET DIAGNOSTICS unpublished_count = ROW_COUNT;
+
+  PERFORM public.log_admin_action(
+    'suspend_user', 'user', _user_id,
+    jsonb_build_object('reason', trim(_reason), 'unpublished_resources', unpublished_count)
+  );
+
+  RETURN suspension;
+END;
+$$;
+
+-- Lifting a suspension leaves listings unpublished; they are restored one by one
+CREATE OR REPLACE FUNCTION public.admin_unsuspend_user(_user_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.require_admin();
+
+  DELETE FROM public.user_suspensions WHERE user_id = _user_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'This member is not suspended'
+      USING ERRCODE = 'no_data_found';
+  END IF;
+
+  PERFORM public.log_admin_action('unsuspend_user', 'user', _user_id);
+END;
+$$;
+
+-- Take a listing down, or restore it; a restored listing stays unlisted
+-- until its owner lists it again
+CREATE OR REPLACE FUNCTION public.admin_set_resource_published(
+  _resource_id UUID,
+  _published BOOLEAN,
+  _reason TEXT DEFAULT NULL
+)
+RETURNS public.resources
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  r public.resources%ROWTYPE;
+BEGIN
+  PERFORM public.require_admin();
+
+  IF NOT _published AND NULLIF(trim(_reason), '') IS NULL THEN
+    RAISE EXCEPTION 'Please give a reason for unpublishing this listing'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF _published THEN
+    UPDATE public.resources
+    SET unpublished_at = NULL, unpublished_reason = NULL
+    WHERE id = _resource_id
+    RETURNING * INTO r;
+  ELSE
+    UPDATE public.resources
+    SET is_available = false, unpublished_at = now(), unpublished_reason = trim(_reason)
+    WHERE id = _resource_id
+    RETURNING * INTO r;
+  END IF;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Resource not found'
+      USING ERRCODE = 'no_data_found';
+  END IF;
+
+  PERFORM public.log_admin_action(
+    CASE WHEN _published THEN 'republish_resource' ELSE 'unpublish_resource' END,
+    'resource', _resource_id,
+    jsonb_strip_nulls(jsonb_build_object('title', r.title, 'reason', NULLIF(trim(_reason), '')))
+  );
+
+  RETURN r;
+END;
+$$;
+
+-- Settle a disputed claim: the owner keeps _awarded_amount of the deposit
+-- (up to the amount claimed) and the rest is released when the booking completes
+CREATE OR REPLACE FUNCTION public.admin_resolve_damage_claim(
+  _claim_id UUID,
+  _awarded_amount NUMERIC,
+  _note TEXT
+)
+RETURNS public.damage_claims
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  claim public.damage_claims%ROWTYPE;
+BEGIN
+  PERFORM public.require_admin();
+
+  SELECT * INTO claim FROM public.damage_claims WHERE id = _claim_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Damage claim not found'
+      USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF claim.status <> 'disputed' THEN
+    RAISE EXCEPTION 'Only disputed claims can be resolved by an administrator'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF _awarded_amount IS NULL OR _awarded_amount < 0 OR _awarded_amount > claim.amount THEN
+    RAISE EXCEPTION 'The awarded amount must be between 0 and the % claimed', claim.amount
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF NULLIF(trim(_note), '') IS NULL THEN
+    RAISE EXCEPTION 'Please explain the decision'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF _awarded_amount > 0 THEN
+    UPDATE public.booking_deposits
+    SET captured_amount = _awarded_amount,
+        status = CASE WHEN _awarded_amount >= amount THEN 'captured' ELSE 'partially_captured' END,
+        settled_at = now()
+    WHERE booking_id = claim.booking_id AND status = 'held';
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'The deposit for this booking is no longer held'
+        USING ERRCODE = 'check_violation';
+    END IF;
+  END IF;
+
+  UPDATE public.damage_claims
+  SET status = 'resolved',
+      awarded_amount = _awarded_amount,
+      resolution_note = trim(_note),
+      resolved_by = auth.uid(),
+      resolved_at = now()
+  WHERE id = claim.id
+  RETURNING * INTO claim;
+
+  PERFORM public.log_admin_action(
+    'resolve_damage_claim', 'damage_claim', claim.id,
+    jsonb_build_object(
+      'booking_id', claim.booking_id,
+      'claimed_amount', claim.amount,
+      'awarded_amount', _awarded_amount,
+      'note', trim(_note)
+    )
+  );
+
+  RETURN claim;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.admin_list_users(TEXT, INTEGER) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.admin_suspend_user(UUID, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.admin_unsuspend_user(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.admin_set_resource_published(UUID, BOOLEAN, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.admin_resolve_damage_claim(UUID, NUMERIC, TEXT) TO authenticated;
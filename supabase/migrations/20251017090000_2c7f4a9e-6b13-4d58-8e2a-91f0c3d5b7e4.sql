@@ -0,0 +1,221 @@
+-- Members can report listings and other members. Reports wait in a queue
+-- until an admin acts on them or dismisses them; a listing reported by
+-- enough different members is hidden in the meantime.
+CREATE TABLE public.reports (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  reporter_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  resource_id UUID REFERENCES public.resources(id) ON DELETE CASCADE,
+  reported_user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+  reason TEXT NOT NULL CHECK (reason IN ('prohibited', 'fraud', 'misleading', 'offensive', 'harassment', 'spam', 'other')),
+  details TEXT CHECK (char_length(details) <= 1000),
+  status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'actioned', 'dismissed')),
+  resolution_note TEXT CHECK (char_length(resolution_note) <= 500),
+  reviewed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  reviewed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  -- Each report is about either a listing or a member
+  CHECK (num_nonnulls(resource_id, reported_user_id) = 1)
+);
+
+-- One open report per member and target
+CREATE UNIQUE INDEX reports_open_resource_idx ON public.reports (reporter_id, resource_id)
+  WHERE status = 'open' AND resource_id IS NOT NULL;
+CREATE UNIQUE INDEX reports_open_user_idx ON public.reports (reporter_id, reported_user_id)
+  WHERE status = 'open' AND reported_user_id IS NOT NULL;
+CREATE INDEX reports_status_created_at_idx ON public.reports (status, created_at);
+
+ALTER TABLE public.reports ENABLE ROW LEVEL SECURITY;
+
+-- Reports are filed through report_resource and report_user
+CREATE POLICY "Users can view their own reports" ON public.reports
+  FOR SELECT USING (reporter_id = auth.uid());
+
+CREATE POLICY "Admins can view all reports" ON public.reports
+  FOR SELECT USING (public.is_admin());
+
+-- Listings are hidden by report_resource on behalf of the reporter, so trust
+-- changes made inside SECURITY DEFINER functions (which run as their owner)
+-- and only police updates made directly by clients
+CREATE OR REPLACE FUNCTION public.protect_resource_moderation()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF current_user NOT IN ('anon', 'authenticated') OR public.is_admin() THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.unpublished_at IS DISTINCT FROM OLD.unpublished_at
+    OR NEW.unpublished_reason IS DISTINCT FROM OLD.unpublished_reason THEN
+    RAISE EXCEPTION 'Only moderators can change whether a listing is unpublished'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF NEW.unpublished_at IS NOT NULL AND NEW.is_available THEN
+    RAISE EXCEPTION 'This listing was unpublished by a moderator and cannot be relisted'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.report_resource(_resource_id UUID, _reason TEXT, _details TEXT DEFAULT NULL)
+RETURNS public.reports
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  -- Distinct members with an open report before a listing is hidden
+  hide_threshold CONSTANT INTEGER := 3;
+  r public.resources%ROWTYPE;
+  report public.reports%ROWTYPE;
+  reporter_count INTEGER;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'You must be signed in to report a listing'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  SELECT * INTO r FROM public.resources WHERE id = _resource_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Resource not found'
+      USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF r.owner_id = auth.uid() THEN
+    RAISE EXCEPTION 'You cannot report your own listing'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.reports
+    WHERE reporter_id = auth.uid() AND resource_id = _resource_id AND status = 'open'
+  ) THEN
+    RAISE EXCEPTION 'You have already reported this listing'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  INSERT INTO public.reports (reporter_id, resource_id, reason, details)
+  VALUES (auth.uid(), _resource_id, _reason, NULLIF(trim(_details), ''))
+  RETURNING * INTO report;
+
+  SELECT count(DISTINCT reporter_id) INTO reporter_count
+  FROM public.reports
+  WHERE resource_id = _resource_id AND status = 'open';
+
+  -- The reason text is how admin_resolve_reports recognises listings to restore
+  IF reporter_count >= hide_threshold AND r.unpublished_at IS NULL THEN
+    UPDATE public.resources
+    SET is_available = false,
+        unpublished_at = now(),
+        unpublished_reason = 'Hidden pending review after reports from other members'
+    WHERE id = _resource_id;
+  END IF;
+
+  RETURN report;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.report_user(_user_id UUID, _reason TEXT, _details TEXT DEFAULT NULL)
+RETURNS public.reports
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  report public.reports%ROWTYPE;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'You must be signed in to report a member'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF _user_id = auth.uid() THEN
+    RAISE EXCEPTION 'You cannot report yourself'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.profiles WHERE user_id = _user_id) THEN
+    RAISE EXCEPTION 'Member not found'
+      USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.reports
+    WHERE reporter_id = auth.uid() AND reported_user_id = _user_id AND status = 'open'
+  ) THEN
+    RAISE EXCEPTION 'You have already reported this member'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  INSERT INTO public.reports (reporter_id, reported_user_id, reason, details)
+  VALUES (auth.uid(), _user_id, _reason, NULLIF(trim(_details), ''))
+  RETURNING * INTO report;
+
+  RETURN report;
+END;
+$$;
+
+-- Close every open report about a listing or member. 'take_down' unpublishes
+-- the listing or suspends the member; 'dismiss' relists a listing that was
+-- only hidden because of the reports.
+CREATE OR REPLACE FUNCTION public.admin_resolve_reports(
+  _target_type TEXT,
+  _target_id UUID,
+  _action TEXT,
+  _note TEXT DEFAULT NULL
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  resolved_count INTEGER;
+BEGIN
+  PERFORM public.require_admin();
+
+  IF _target_type NOT IN ('resource', 'user') OR _action NOT IN ('take_down', 'dismiss') THEN
+    RAISE EXCEPTION 'Unknown report target or action'
+      USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  UPDATE public.reports
+  SET status = CASE WHEN _action = 'take_down' THEN 'actioned' ELSE 'dismissed' END,
+      resolution_note = NULLIF(trim(_note), ''),
+      reviewed_by = auth.uid(),
+      reviewed_at = now()
+  WHERE status = 'open'
+    AND CASE WHEN _target_type = 'resource' THEN resource_id ELSE reported_user_id END = _target_id;
+  GET DIAGNOSTICS resolved_count = ROW_COUNT;
+
+  IF resolved_count = 0 THEN
+    RAISE EXCEPTION 'There are no open reports to resolve'
+      USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF _action = 'take_down' AND _target_type = 'resource' THEN
+    PERFORM public.admin_set_resource_published(_target_id, false, _note);
+  ELSIF _action = 'take_down' THEN
+    PERFORM public.admin_suspend_user(_target_id, _note);
+  ELSIF _target_type = 'resource' THEN
+    UPDATE public.resources
+    SET is_available = true, unpublished_at = NULL, unpublished_reason = NULL
+    WHERE id = _target_id
+      AND unpublished_reason = 'Hidden pending review after reports from other members';
+  END IF;
+
+  PERFORM public.log_admin_action(
+    CASE WHEN _action = 'take_down' THEN 'action_reports' ELSE 'dismiss_reports' END,
+    _target_type, _target_id,
+    jsonb_strip_nulls(jsonb_build_object('reports', resolved_count, 'reason', NULLIF(trim(_note), '')))
+  );
+
+  RETURN resolved_count;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.report_resource(UUID, TEXT, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.report_user(UUID, TEXT, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.admin_resolve_reports(TEXT, UUID, TEXT, TEXT) TO authenticated;
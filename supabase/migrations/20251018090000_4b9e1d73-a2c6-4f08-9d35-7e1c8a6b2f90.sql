@@ -0,0 +1,406 @@
+-- Categories form a tree (Tools > Power Tools > Drills). Each category lists
+-- the attributes its listings describe; subcategories inherit the attributes
+-- of their ancestors.
+--
+-- attribute_schema is an array of definitions such as
+--   {"key": "fuel_type", "label": "Fuel type", "type": "select",
+--    "options": ["Petrol", "Diesel"], "required": true, "filterable": true}
+-- where type is text, number, select or boolean; numbers may set min, max
+-- and unit. Filterable select and boolean attributes become browse facets.
+CREATE TABLE public.categories (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  parent_id UUID REFERENCES public.categories(id) ON DELETE RESTRICT,
+  slug TEXT NOT NULL UNIQUE CHECK (slug ~ '^[a-z0-9]+(-[a-z0-9]+)*$'),
+  name TEXT NOT NULL CHECK (char_length(name) BETWEEN 1 AND 60),
+  -- A lucide icon name, e.g. "wrench"
+  icon TEXT,
+  position INTEGER NOT NULL DEFAULT 0,
+  attribute_schema JSONB NOT NULL DEFAULT '[]'::jsonb CHECK (jsonb_typeof(attribute_schema) = 'array'),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (parent_id IS DISTINCT FROM id)
+);
+
+CREATE INDEX categories_parent_id_idx ON public.categories (parent_id, position);
+
+ALTER TABLE public.categories ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view categories" ON public.categories
+  FOR SELECT USING (true);
+
+CREATE POLICY "Admins can add categories" ON public.categories
+  FOR INSERT WITH CHECK (public.is_admin());
+
+CREATE POLICY "Admins can update categories" ON public.categories
+  FOR UPDATE USING (public.is_admin());
+
+CREATE POLICY "Admins can delete categories" ON public.categories
+  FOR DELETE USING (public.is_admin());
+
+-- The starting taxonomy; the top level matches the old fixed category list
+INSERT INTO public.categories (slug, name, icon, position, attribute_schema) VALUES
+  ('electronics', 'Electronics', 'laptop', 1, '[
+    {"key": "brand", "label": "Brand", "type": "text", "required": true},
+    {"key": "model", "label": "Model", "type": "text"}
+  ]'),
+  ('tools', 'Tools', 'wrench', 2, '[]'),
+  ('vehicles', 'Vehicles', 'car', 3, '[
+    {"key": "seats", "label": "Seats", "type": "number", "required": true, "min": 1, "max": 60},
+    {"key": "fuel_type", "label": "Fuel type", "type": "select", "required": true, "filterable": true,
+     "options": ["Petrol", "Diesel", "Electric", "Hybrid"]}
+  ]'),
+  ('equipment', 'Equipment', 'package', 4, '[]'),
+  ('books', 'Books', 'book-open', 5, '[
+    {"key": "author", "label": "Author", "type": "text"},
+    {"key": "format", "label": "Format", "type": "select", "filterable": true,
+     "options": ["Hardcover", "Paperback", "Audiobook"]}
+  ]'),
+  ('sports', 'Sports', 'dumbbell', 6, '[]'),
+  ('other', 'Other', 'shapes', 7, '[]');
+
+INSERT INTO public.categories (parent_id, slug, name, icon, position, attribute_schema)
+SELECT parent.id, c.slug, c.name, c.icon, c.position, c.attribute_schema::jsonb
+FROM (VALUES
+  ('electronics', 'cameras', 'Cameras', 'camera', 1, '[
+    {"key": "mount", "label": "Lens mount", "type": "text"}
+  ]'),
+  ('electronics', 'audio', 'Audio', 'speaker', 2, '[]'),
+  ('electronics', 'computers', 'Computers', 'monitor', 3, '[]'),
+  ('electronics', 'gaming', 'Gaming', 'gamepad-2', 4, '[]'),
+  ('tools', 'power-tools', 'Power Tools', 'zap', 1, '[
+    {"key": "power_source", "label": "Power source", "type": "select", "required": true, "filterable": true,
+     "options": ["Corded", "Cordless", "Petrol"]}
+  ]'),
+  ('tools', 'hand-tools', 'Hand Tools', 'hammer', 2, '[]'),
+  ('tools', 'garden-tools', 'Garden Tools', 'shovel', 3, '[]'),
+  ('vehicles', 'cars', 'Cars', 'car', 1, '[
+    {"key": "transmission", "label": "Transmission", "type": "select", "required": true, "filterable": true,
+     "options": ["Manual", "Automatic"]}
+  ]'),
+  ('vehicles', 'vans', 'Vans', 'truck', 2, '[
+    {"key": "load_volume", "label": "Load volume", "type": "number", "unit": "m³", "min": 0}
+  ]'),
+  ('vehicles', 'motorcycles', 'Motorcycles', 'bike', 3, '[]'),
+  ('equipment', 'camping', 'Camping', 'tent', 1, '[]'),
+  ('equipment', 'party-events', 'Party & Events', 'party-popper', 2, '[]'),
+  ('equipment', 'cleaning', 'Cleaning', 'spray-can', 3, '[]'),
+  ('sports', 'bicycles', 'Bicycles', 'bike', 1, '[
+    {"key": "frame_size", "label": "Frame size", "type": "select", "filterable": true,
+     "options": ["XS", "S", "M", "L", "XL"]},
+    {"key": "electric", "label": "Electric", "type": "boolean", "filterable": true}
+  ]'),
+  ('sports', 'water-sports', 'Water Sports', 'waves', 2, '[]'),
+  ('sports', 'winter-sports', 'Winter Sports', 'snowflake', 3, '[]')
+) AS c(parent_slug, slug, name, icon, position, attribute_schema)
+JOIN public.categories parent ON parent.slug = c.parent_slug;
+
+INSERT INTO public.categories (parent_id, slug, name, icon, position, attribute_schema)
+SELECT parent.id, c.slug, c.name, c.icon, c.position, c.attribute_schema::jsonb
+FROM (VALUES
+  ('power-tools', 'drills', 'Drills', 'drill', 1, '[
+    {"key": "voltage", "label": "Voltage", "type": "number", "unit": "V", "min": 1}
+  ]'),
+  ('power-tools', 'saws', 'Saws', 'axe', 2, '[]'),
+  ('power-tools', 'sanders', 'Sanders', 'disc', 3, '[]')
+) AS c(parent_slug, slug, name, icon, position, attribute_schema)
+JOIN public.categories parent ON parent.slug = c.parent_slug;
+
+-- A category and all of its ancestors, root first
+CREATE OR REPLACE FUNCTION public.category_lineage(_category_id UUID)
+RETURNS TABLE (id UUID, depth INTEGER, attribute_schema JSONB)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH RECURSIVE lineage AS (
+    SELECT c.id, c.parent_id, 0 AS height, c.attribute_schema
+    FROM public.categories c
+    WHERE c.id = _category_id
+    UNION ALL
+    SELECT c.id, c.parent_id, l.height + 1, c.attribute_schema
+    FROM public.categories c
+    JOIN lineage l ON c.id = l.parent_id
+  )
+  SELECT l.id, (max(l.height) OVER () - l.height)::INTEGER AS depth, l.attribute_schema
+  FROM lineage l
+  ORDER BY depth;
+$$;
+
+-- A category and all of its subcategories
+CREATE OR REPLACE FUNCTION public.category_subtree(_category_id UUID)
+RETURNS SETOF UUID
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH RECURSIVE subtree AS (
+    SELECT c.id FROM public.categories c WHERE c.id = _category_id
+    UNION ALL
+    SELECT c.id FROM public.categories c JOIN subtree s ON c.parent_id = s.id
+  )
+  SELECT id FROM subtree;
+$$;
+
+-- category stays as the category's name for display and full-text search;
+-- category_id is what listings are filed under
+ALTER TABLE public.resources
+  ADD COLUMN category_id UUID REFERENCES public.categories(id) ON DELETE RESTRICT,
+  ADD COLUMN attributes JSONB NOT NULL DEFAULT '{}'::jsonb CHECK (jsonb_typeof(attributes) = 'object'),
+  ALTER COLUMN category SET DEFAULT '';
+
+UPDATE public.resources r
+SET category_id = coalesce(
+  (SELECT c.id FROM public.categories c WHERE c.parent_id IS NULL AND lower(c.name) = lower(r.category)),
+  (SELECT c.id FROM public.categories c WHERE c.slug = 'other')
+);
+
+ALTER TABLE public.resources ALTER COLUMN category_id SET NOT NULL;
+
+CREATE INDEX resources_category_id_idx ON public.resources (category_id);
+
+-- Checks the attributes against the definitions of the category and its
+-- ancestors, and copies the category name onto the listing. Listings filed
+-- before a required attribute existed must add it on their next edit.
+CREATE OR REPLACE FUNCTION public.validate_resource_attributes()
+RETURNS TRIGGER AS $$
+DECLARE
+  definitions JSONB;
+  definition JSONB;
+  attribute_key TEXT;
+  attribute_label TEXT;
+  attribute_value JSONB;
+BEGIN
+  SELECT c.name INTO NEW.category FROM public.categories c WHERE c.id = NEW.category_id;
+
+  SELECT coalesce(jsonb_agg(d.definition ORDER BY l.depth, d.ordinality), '[]'::jsonb)
+  INTO definitions
+  FROM public.category_lineage(NEW.category_id) l
+  CROSS JOIN LATERAL jsonb_array_elements(l.attribute_schema) WITH ORDINALITY AS d(definition, ordinality);
+
+  FOR attribute_key IN SELECT jsonb_object_keys(NEW.attributes) LOOP
+    IF NOT EXISTS (SELECT 1 FROM jsonb_array_elements(definitions) AS d(definition) WHERE d.definition ->> 'key' = attribute_key) THEN
+      RAISE EXCEPTION '"%" is not an attribute of this category', attribute_key
+        USING ERRCODE = 'check_violation';
+    END IF;
+  END LOOP;
+
+  FOR definition IN SELECT jsonb_array_elements(definitions) LOOP
+    attribute_label := definition ->> 'label';
+    attribute_value := NEW.attributes -> (definition ->> 'key');
+
+    IF attribute_value IS NULL OR attribute_value = 'null'::jsonb OR attribute_value = '""'::jsonb THEN
+      IF coalesce((definition ->> 'required')::BOOLEAN, false) THEN
+        RAISE EXCEPTION '% is required', attribute_label
+          USING ERRCODE = 'check_violation';
+      END IF;
+      CONTINUE;
+    END IF;
+
+    CASE definition ->> 'type'
+      WHEN 'number' THEN
+        IF jsonb_typeof(attribute_value) <> 'number' THEN
+          RAISE EXCEPTION '% must be a number', attribute_label
+            USING ERRCODE = 'check_violation';
+        END IF;
+        IF definition ? 'min' AND attribute_value::NUMERIC < (definition ->> 'min')::NUMERIC THEN
+          RAISE EXCEPTION '% must be at least %', attribute_label, definition ->> 'min'
+            USING ERRCODE = 'check_violation';
+        END IF;
+        IF definition ? 'max' AND attribute_value::NUMERIC > (definition ->> 'max')::NUMERIC THEN
+          RAISE EXCEPTION '% must be at most %', attribute_label, definition ->> 'max'
+            USING ERRCODE = 'check_violation';
+        END IF;
+      WHEN 'boolean' THEN
+        IF jsonb_typeof(attribute_value) <> 'boolean' THEN
+          RAISE EXCEPTION '% must be yes or no', attribute_label
+            USING ERRCODE = 'check_violation';
+        END IF;
+      WHEN 'select' THEN
+        IF jsonb_typeof(attribute_value) <> 'string' OR NOT (definition -> 'options') ? (attribute_value #>> '{}') THEN
+          RAISE EXCEPTION '% must be one of the listed options', attribute_label
+            USING ERRCODE = 'check_violation';
+        END IF;
+      ELSE
+        IF jsonb_typeof(attribute_value) <> 'string' OR char_length(attribute_value #>> '{}') > 200 THEN
+          RAISE EXCEPTION '% must be text of at most 200 characters', attribute_label
+            USING ERRCODE = 'check_violation';
+        END IF;
+    END CASE;
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER validate_resource_attributes
+  BEFORE INSERT OR UPDATE OF category_id, attributes ON public.resources
+  FOR EACH ROW
+  EXECUTE FUNCTION public.validate_resource_attributes();
+
+-- Renaming a category renames it on its listings
+CREATE OR REPLACE FUNCTION public.sync_category_name()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE public.resources SET category = NEW.name WHERE category_id = NEW.id;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER sync_category_name
+  AFTER UPDATE OF name ON public.categories
+  FOR EACH ROW
+  WHEN (OLD.name IS DISTINCT FROM NEW.name)
+  EXECUTE FUNCTION public.sync_category_name();
+
+-- search_resources: the category filter now takes a category slug and also
+-- matches its subcategories, and _attributes narrows results to listings
+-- whose attributes equal the given values (compared as text). The argument
+-- list changes, so the old signature is dropped rather than replaced.
+DROP FUNCTION public.search_resources(TEXT, TEXT, NUMERIC, NUMERIC, TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE, DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION, TEXT, NUMERIC, UUID, INTEGER);
+
+CREATE OR REPLACE FUNCTION public.search_resources(
+  _query TEXT DEFAULT NULL,
+  _category TEXT DEFAULT NULL,
+  _attributes JSONB DEFAULT NULL,
+  _min_price NUMERIC DEFAULT NULL,
+  _max_price NUMERIC DEFAULT NULL,
+  _available_from TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  _available_to TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  _latitude DOUBLE PRECISION DEFAULT NULL,
+  _longitude DOUBLE PRECISION DEFAULT NULL,
+  _radius_km DOUBLE PRECISION DEFAULT NULL,
+  _sort TEXT DEFAULT 'newest',
+  _cursor_key NUMERIC DEFAULT NULL,
+  _cursor_id UUID DEFAULT NULL,
+  _limit INTEGER DEFAULT 12
+)
+RETURNS TABLE (
+  id UUID,
+  owner_id UUID,
+  title TEXT,
+  description TEXT,
+  category TEXT,
+  price NUMERIC,
+  location TEXT,
+  image_url TEXT,
+  cover_image_path TEXT,
+  availability_start TIMESTAMP WITH TIME ZONE,
+  availability_end TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE,
+  latitude DOUBLE PRECISION,
+  longitude DOUBLE PRECISION,
+  distance_km NUMERIC,
+  average_rating NUMERIC,
+  review_count INTEGER,
+  sort_key NUMERIC
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  search_query tsquery := NULLIF(websearch_to_tsquery('english', coalesce(_query, '')), ''::tsquery);
+  has_origin BOOLEAN := _latitude IS NOT NULL AND _longitude IS NOT NULL;
+  category_ids UUID[];
+BEGIN
+  IF _sort NOT IN ('newest', 'price_asc', 'price_desc', 'rating', 'distance') THEN
+    RAISE EXCEPTION 'Unknown sort option %', _sort
+      USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  IF (_sort = 'distance' OR _radius_km IS NOT NULL) AND NOT has_origin THEN
+    RAISE EXCEPTION 'A location is required to search by distance'
+      USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  IF _available_from IS NOT NULL AND _available_to IS NOT NULL AND _available_to <= _available_from THEN
+    RAISE EXCEPTION 'End date must be after start date'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF _attributes IS NOT NULL AND jsonb_typeof(_attributes) <> 'object' THEN
+    RAISE EXCEPTION 'Attribute filters must be an object'
+      USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  IF _category IS NOT NULL THEN
+    SELECT array_agg(s) INTO category_ids
+    FROM public.categories c
+    CROSS JOIN LATERAL public.category_subtree(c.id) s
+    WHERE c.slug = _category;
+
+    IF category_ids IS NULL THEN
+      RAISE EXCEPTION 'Category not found'
+        USING ERRCODE = 'no_data_found';
+    END IF;
+  END IF;
+
+  RETURN QUERY
+  SELECT *
+  FROM (
+    SELECT
+      r.id,
+      r.owner_id,
+      r.title,
+      r.description,
+      r.category,
+      r.price,
+      r.location,
+      r.image_url,
+      (
+        SELECT ri.storage_path
+        FROM public.resource_images ri
+        WHERE ri.resource_id = r.id
+        ORDER BY ri.is_cover DESC, ri.position
+        LIMIT 1
+      ) AS cover_image_path,
+      r.availability_start,
+      r.availability_end,
+      r.created_at,
+      r.latitude,
+      r.longitude,
+      d.distance_km,
+      rs.average_rating,
+      coalesce(rs.review_count, 0) AS review_count,
+      CASE _sort
+        WHEN 'price_asc' THEN -r.price
+        WHEN 'price_desc' THEN r.price
+        WHEN 'rating' THEN coalesce(rs.average_rating, 0)
+        WHEN 'distance' THEN -coalesce(d.distance_km, 100000)
+        ELSE round(extract(epoch FROM r.created_at) * 1000000)
+      END AS sort_key
+    FROM public.resources r
+    LEFT JOIN public.resource_rating_summary rs ON rs.resource_id = r.id
+    CROSS JOIN LATERAL (
+      SELECT CASE WHEN has_origin AND r.latitude IS NOT NULL
+        THEN round(public.distance_km(_latitude, _longitude, r.latitude, r.longitude)::NUMERIC, 3)
+      END AS distance_km
+    ) d
+    WHERE r.is_available = true
+      AND (search_query IS NULL OR r.search_vector @@ search_query)
+      AND (category_ids IS NULL OR r.category_id = ANY (category_ids))
+      AND (
+        _attributes IS NULL
+        OR NOT EXISTS (
+          SELECT 1 FROM jsonb_each_text(_attributes) f
+          WHERE r.attributes ->> f.key IS DISTINCT FROM f.value
+        )
+      )
+      AND (_min_price IS NULL OR r.price >= _min_price)
+      AND (_max_price IS NULL OR r.price <= _max_price)
+      AND (_available_from IS NULL OR r.availability_start <= _available_from)
+      AND (_available_to IS NULL OR r.availability_end >= _available_to)
+      AND (_radius_km IS NULL OR d.distance_km <= _radius_km)
+      AND (
+        _available_from IS NULL OR _available_to IS NULL
+        OR public.is_resource_open_during(r.id, _available_from, _available_to)
+      )
+  ) results
+  WHERE _cursor_key IS NULL OR _cursor_id IS NULL
+    OR (results.sort_key, results.id) < (_cursor_key, _cursor_id)
+  ORDER BY results.sort_key DESC, results.id DESC
+  LIMIT least(greatest(coalesce(_limit, 12), 1), 50);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.search_resources(TEXT, TEXT, JSONB, NUMERIC, NUMERIC, TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE, DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION, TEXT, NUMERIC, UUID, INTEGER) TO anon, authenticated;
@@ -0,0 +1,260 @@
+-- Owners choose per listing how bookings are accepted:
+--   request: every booking waits for the owner, as before
+--   instant: bookings from renters who meet the owner's criteria are
+--            confirmed as soon as their payment hold is placed
+-- Requests the owner has not answered in time are cancelled by the
+-- expire-booking-requests function, which also releases the payment hold.
+ALTER TABLE public.resources
+  ADD COLUMN booking_mode TEXT NOT NULL DEFAULT 'request' CHECK (booking_mode IN ('request', 'instant')),
+  ADD COLUMN instant_book_verified_email BOOLEAN NOT NULL DEFAULT true,
+  ADD COLUMN instant_book_min_rating NUMERIC(2, 1) CHECK (instant_book_min_rating BETWEEN 1 AND 5),
+  ADD COLUMN request_expiry_hours INTEGER NOT NULL DEFAULT 24 CHECK (request_expiry_hours BETWEEN 1 AND 168);
+
+ALTER TABLE public.bookings
+  -- When an unanswered request is cancelled
+  ADD COLUMN expires_at TIMESTAMP WITH TIME ZONE,
+  -- Set on requests cancelled because the owner did not answer
+  ADD COLUMN expired_at TIMESTAMP WITH TIME ZONE,
+  -- Whether the renter qualified for instant booking when they booked
+  ADD COLUMN instant_book BOOLEAN NOT NULL DEFAULT false;
+
+CREATE INDEX bookings_pending_expires_at_idx ON public.bookings (expires_at) WHERE status = 'pending';
+
+-- The booking mode and expiry are set by create_booking and the expiry job
+CREATE OR REPLACE FUNCTION public.protect_booking_terms()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF auth.uid() IS NOT NULL AND (
+    NEW.resource_id IS DISTINCT FROM OLD.resource_id
+    OR NEW.renter_id IS DISTINCT FROM OLD.renter_id
+    OR NEW.owner_id IS DISTINCT FROM OLD.owner_id
+    OR NEW.start_time IS DISTINCT FROM OLD.start_time
+    OR NEW.end_time IS DISTINCT FROM OLD.end_time
+    OR NEW.total_price IS DISTINCT FROM OLD.total_price
+    OR NEW.price_breakdown IS DISTINCT FROM OLD.price_breakdown
+    OR NEW.deposit_amount IS DISTINCT FROM OLD.deposit_amount
+    OR NEW.instant_book IS DISTINCT FROM OLD.instant_book
+    OR NEW.expires_at IS DISTINCT FROM OLD.expires_at
+    OR NEW.expired_at IS DISTINCT FROM OLD.expired_at
+  ) THEN
+    RAISE EXCEPTION 'Booking terms cannot be changed'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+-- Whether the renter meets the listing's instant booking criteria: a
+-- verified email if required, and a renter rating of at least the minimum
+-- (renters without reviews do not qualify when a minimum is set)
+CREATE OR REPLACE FUNCTION public.is_instant_book_eligible(_resource_id UUID, _renter_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT coalesce((
+    SELECT r.booking_mode = 'instant'
+      AND (
+        NOT r.instant_book_verified_email
+        OR EXISTS (SELECT 1 FROM auth.users u WHERE u.id = _renter_id AND u.email_confirmed_at IS NOT NULL)
+      )
+      AND (
+        r.instant_book_min_rating IS NULL
+        OR coalesce(
+          (SELECT s.average_as_renter FROM public.user_rating_summary s WHERE s.user_id = _renter_id),
+          0
+        ) >= r.instant_book_min_rating
+      )
+    FROM public.resources r
+    WHERE r.id = _resource_id
+  ), false);
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.is_instant_book_eligible(UUID, UUID) FROM PUBLIC, anon, authenticated;
+
+-- For the booking form: whether the signed-in member's booking would be
+-- confirmed straight away
+CREATE OR REPLACE FUNCTION public.can_instant_book(_resource_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT auth.uid() IS NOT NULL AND public.is_instant_book_eligible(_resource_id, auth.uid());
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.can_instant_book(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.can_instant_book(UUID) TO authenticated;
+
+-- create_booking: records whether the booking qualifies for instant booking
+-- and when the request expires. A request expires after the owner's
+-- response window, or when the booking would start if that is sooner.
+CREATE OR REPLACE FUNCTION public.create_booking(
+  _resource_id UUID,
+  _start_time TIMESTAMP WITH TIME ZONE,
+  _end_time TIMESTAMP WITH TIME ZONE,
+  _payment_method TEXT
+)
+RETURNS public.bookings
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  r public.resources%ROWTYPE;
+  quote JSONB;
+  new_booking public.bookings%ROWTYPE;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'You must be signed in to book a resource'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  SELECT * INTO r FROM public.resources
+  WHERE id = _resource_id AND is_available = true
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Resource not found or unavailable'
+      USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF r.owner_id = auth.uid() THEN
+    RAISE EXCEPTION 'You cannot book your own resource'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF _end_time <= _start_time
+    OR NOT public.get_resource_open_hours(_resource_id, _start_time, _end_time) @> tstzrange(_start_time, _end_time)
+  THEN
+    RAISE EXCEPTION 'Requested times are outside the resource''s availability'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  -- Direct overlaps are left to bookings_no_overlap so they keep reporting
+  -- as conflicts; this only catches bookings that fall inside the buffer
+  IF r.buffer_minutes > 0 AND EXISTS (
+    SELECT 1
+    FROM public.bookings b
+    WHERE b.resource_id = _resource_id
+      AND b.status IN ('pending', 'confirmed', 'picked_up')
+      AND tstzrange(
+        b.start_time - make_interval(mins => r.buffer_minutes),
+        b.end_time + make_interval(mins => r.buffer_minutes)
+      ) && tstzrange(_start_time, _end_time)
+      AND NOT (tstzrange(b.start_time, b.end_time) && tstzrange(_start_time, _end_time))
+  ) THEN
+    RAISE EXCEPTION 'The owner needs % minutes between rentals; choose a later start or an earlier end', r.buffer_minutes
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  quote := public.quote_booking(_resource_id, _start_time, _end_time);
+
+  INSERT INTO public.bookings (
+    resource_id,
+    renter_id,
+    owner_id,
+    start_time,
+    end_time,
+    total_price,
+    price_breakdown,
+    deposit_amount,
+    payment_method,
+    status,
+    instant_book,
+    expires_at
+  )
+  VALUES (
+    _resource_id,
+    auth.uid(),
+    r.owner_id,
+    _start_time,
+    _end_time,
+    (quote ->> 'total')::NUMERIC,
+    quote,
+    r.deposit_amount,
+    _payment_method,
+    'pending',
+    public.is_instant_book_eligible(_resource_id, auth.uid()),
+    least(now() + make_interval(hours => r.request_expiry_hours), _start_time)
+  )
+  RETURNING * INTO new_booking;
+
+  RETURN new_booking;
+END;
+$$;
+
+-- notify_booking_event: instant bookings tell the owner once confirmed
+-- instead of asking them to answer a request, and expired requests tell the
+-- renter
+ALTER TABLE public.notification_preferences DROP CONSTRAINT notification_preferences_type_check;
+ALTER TABLE public.notification_preferences ADD CONSTRAINT notification_preferences_type_check
+  CHECK (type IN ('booking_requested', 'booking_accepted', 'booking_rejected', 'booking_expired', 'pickup_reminder', 'return_overdue'));
+
+ALTER TABLE public.notifications DROP CONSTRAINT notifications_type_check;
+ALTER TABLE public.notifications ADD CONSTRAINT notifications_type_check
+  CHECK (type IN ('booking_requested', 'booking_accepted', 'booking_rejected', 'booking_expired', 'pickup_reminder', 'return_overdue'));
+
+CREATE OR REPLACE FUNCTION public.notify_booking_event()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _title TEXT;
+  _dates TEXT := public.format_booking_dates(NEW.start_time, NEW.end_time);
+BEGIN
+  SELECT r.title INTO _title FROM public.resources r WHERE r.id = NEW.resource_id;
+
+  IF TG_OP = 'INSERT' THEN
+    IF NOT NEW.instant_book THEN
+      PERFORM public.notify_user(
+        NEW.owner_id, 'booking_requested', NEW.id,
+        'New booking request',
+        format('"%s" was requested for %s.', _title, _dates),
+        '/dashboard'
+      );
+    END IF;
+  ELSIF NEW.status = 'confirmed' AND NEW.instant_book THEN
+    PERFORM public.notify_user(
+      NEW.owner_id, 'booking_requested', NEW.id,
+      'New instant booking',
+      format('"%s" was booked for %s.', _title, _dates),
+      '/dashboard'
+    );
+    PERFORM public.notify_user(
+      NEW.renter_id, 'booking_accepted', NEW.id,
+      'Booking confirmed',
+      format('Your booking of "%s" (%s) is confirmed.', _title, _dates),
+      '/dashboard'
+    );
+  ELSIF NEW.status = 'confirmed' THEN
+    PERFORM public.notify_user(
+      NEW.renter_id, 'booking_accepted', NEW.id,
+      'Booking accepted',
+      format('Your request for "%s" (%s) was accepted.', _title, _dates),
+      '/dashboard'
+    );
+  ELSIF NEW.status = 'rejected' THEN
+    PERFORM public.notify_user(
+      NEW.renter_id, 'booking_rejected', NEW.id,
+      'Booking declined',
+      format('Your request for "%s" (%s) was declined.', _title, _dates),
+      '/dashboard'
+    );
+  ELSIF NEW.status = 'cancelled' AND NEW.expired_at IS NOT NULL THEN
+    PERFORM public.notify_user(
+      NEW.renter_id, 'booking_expired', NEW.id,
+      'Booking request expired',
+      format('The owner did not answer your request for "%s" (%s) in time, so it was cancelled.', _title, _dates),
+      '/dashboard'
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
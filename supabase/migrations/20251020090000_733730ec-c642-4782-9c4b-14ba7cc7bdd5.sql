@@ -0,0 +1,502 @@
+-- Waitlist for booked-out dates.
+--
+-- Renters register interest in a resource for a date range. When a booking
+-- that overlaps a waiting entry is cancelled or rejected, the oldest entry
+-- whose range is now free is offered to its renter: the range is held for
+-- them until offer_expires_at, and only they can book it meanwhile. Lapsed
+-- offers are expired by the expire-booking-requests function, which passes
+-- the range on to the next renter in line.
+CREATE TABLE public.waitlist_entries (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  resource_id UUID NOT NULL REFERENCES public.resources(id) ON DELETE CASCADE,
+  renter_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  start_time TIMESTAMP WITH TIME ZONE NOT NULL,
+  end_time TIMESTAMP WITH TIME ZONE NOT NULL,
+  status TEXT NOT NULL DEFAULT 'waiting' CHECK (status IN ('waiting', 'offered', 'booked', 'expired', 'cancelled')),
+  offered_at TIMESTAMP WITH TIME ZONE,
+  offer_expires_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (end_time > start_time),
+  CHECK (status <> 'offered' OR offer_expires_at IS NOT NULL)
+);
+
+CREATE INDEX waitlist_entries_resource_idx ON public.waitlist_entries (resource_id, created_at)
+  WHERE status IN ('waiting', 'offered');
+CREATE INDEX waitlist_entries_renter_idx ON public.waitlist_entries (renter_id, created_at DESC);
+
+-- One open entry per renter and range
+CREATE UNIQUE INDEX waitlist_entries_open_once ON public.waitlist_entries (resource_id, renter_id, start_time, end_time)
+  WHERE status IN ('waiting', 'offered');
+
+ALTER TABLE public.waitlist_entries ENABLE ROW LEVEL SECURITY;
+
+-- Entries are written through join_waitlist, leave_waitlist and the
+-- functions below
+CREATE POLICY "Renters can view their waitlist entries" ON public.waitlist_entries
+  FOR SELECT USING (auth.uid() = renter_id);
+
+CREATE POLICY "Owners can view the waitlist of their resources" ON public.waitlist_entries
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.resources r
+      WHERE r.id = waitlist_entries.resource_id AND r.owner_id = auth.uid()
+    )
+  );
+
+-- Ranges held for a waitlisted renter; nobody else can book them until the
+-- offer lapses
+CREATE OR REPLACE FUNCTION public.get_resource_held_hours(_resource_id UUID, _except_renter_id UUID)
+RETURNS tstzmultirange
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT coalesce(range_agg(tstzrange(w.start_time, w.end_time)), '{}'::tstzmultirange)
+  FROM public.waitlist_entries w
+  WHERE w.resource_id = _resource_id
+    AND w.status = 'offered'
+    AND w.offer_expires_at > now()
+    AND w.renter_id IS DISTINCT FROM _except_renter_id;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_resource_held_hours(UUID, UUID) FROM PUBLIC, anon, authenticated;
+
+-- Held ranges count as taken for everyone but the renter they are held for,
+-- which keeps them out of the bookable slots and the browse date filter
+CREATE OR REPLACE FUNCTION public.get_resource_blocked_hours(
+  _resource_id UUID,
+  _from TIMESTAMP WITH TIME ZONE,
+  _to TIMESTAMP WITH TIME ZONE
+)
+RETURNS tstzmultirange
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT coalesce(range_agg(padded.hours), '{}'::tstzmultirange)
+    + (public.get_resource_held_hours(_resource_id, auth.uid()) * tstzmultirange(tstzrange(_from, _to)))
+  FROM public.bookings b
+  JOIN public.resources r ON r.id = b.resource_id
+  CROSS JOIN LATERAL (
+    SELECT tstzrange(
+      b.start_time - make_interval(mins => r.buffer_minutes),
+      b.end_time + make_interval(mins => r.buffer_minutes)
+    ) AS hours
+  ) padded
+  WHERE b.resource_id = _resource_id
+    AND b.status IN ('pending', 'confirmed', 'picked_up')
+    AND padded.hours && tstzrange(_from, _to);
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_resource_busy_intervals(_resource_id UUID)
+RETURNS TABLE (start_time TIMESTAMP WITH TIME ZONE, end_time TIMESTAMP WITH TIME ZONE)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT busy.start_time, busy.end_time
+  FROM (
+    SELECT b.start_time, b.end_time
+    FROM public.bookings b
+    WHERE b.resource_id = _resource_id
+      AND b.status IN ('pending', 'confirmed', 'picked_up')
+    UNION ALL
+    SELECT lower(held), upper(held)
+    FROM unnest(public.get_resource_held_hours(_resource_id, auth.uid())) AS held
+  ) busy
+  JOIN public.resources r ON r.id = _resource_id
+  WHERE busy.end_time > now()
+    AND (r.is_available = true OR r.owner_id = auth.uid())
+  ORDER BY busy.start_time;
+$$;
+
+-- Offer free ranges to the renters waiting for them, oldest entry first.
+-- Returns how many offers were made.
+CREATE OR REPLACE FUNCTION public.offer_waitlist_holds(_resource_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  r public.resources%ROWTYPE;
+  entry public.waitlist_entries%ROWTYPE;
+  offered INTEGER := 0;
+BEGIN
+  SELECT * INTO r FROM public.resources WHERE id = _resource_id;
+  IF NOT FOUND OR NOT r.is_available OR r.unpublished_at IS NOT NULL THEN
+    RETURN 0;
+  END IF;
+
+  FOR entry IN
+    SELECT * FROM public.waitlist_entries w
+    WHERE w.resource_id = _resource_id
+      AND w.status = 'waiting'
+      AND w.start_time > now()
+    ORDER BY w.created_at
+    FOR UPDATE
+  LOOP
+    CONTINUE WHEN NOT public.get_resource_open_hours(_resource_id, entry.start_time, entry.end_time)
+      @> tstzrange(entry.start_time, entry.end_time);
+
+    CONTINUE WHEN EXISTS (
+      SELECT 1
+      FROM public.bookings b
+      WHERE b.resource_id = _resource_id
+        AND b.status IN ('pending', 'confirmed', 'picked_up')
+        AND tstzrange(
+          b.start_time - make_interval(mins => r.buffer_minutes),
+          b.end_time + make_interval(mins => r.buffer_minutes)
+        ) && tstzrange(entry.start_time, entry.end_time)
+    );
+
+    -- Includes offers made earlier in this loop
+    CONTINUE WHEN public.get_resource_held_hours(_resource_id, NULL) && tstzrange(entry.start_time, entry.end_time);
+
+    UPDATE public.waitlist_entries
+    SET status = 'offered',
+        offered_at = now(),
+        offer_expires_at = least(now() + interval '12 hours', entry.start_time)
+    WHERE id = entry.id
+    RETURNING * INTO entry;
+
+    PERFORM public.notify_user(
+      entry.renter_id, 'waitlist_offer', NULL,
+      'A spot opened up',
+      format(
+        '"%s" is free for %s. It is held for you until %s UTC.',
+        r.title,
+        public.format_booking_dates(entry.start_time, entry.end_time),
+        to_char(entry.offer_expires_at AT TIME ZONE 'UTC', 'Mon FMDD HH24:MI')
+      ),
+      '/book/' || _resource_id,
+      entry.id
+    );
+    offered := offered + 1;
+  END LOOP;
+
+  RETURN offered;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.offer_waitlist_holds(UUID) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.offer_waitlist_on_booking_freed()
+RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM public.offer_waitlist_holds(NEW.resource_id);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER offer_waitlist_on_booking_freed
+  AFTER UPDATE OF status ON public.bookings
+  FOR EACH ROW
+  WHEN (
+    OLD.status IN ('pending', 'confirmed')
+    AND NEW.status IN ('cancelled', 'rejected')
+  )
+  EXECUTE FUNCTION public.offer_waitlist_on_booking_freed();
+
+CREATE OR REPLACE FUNCTION public.join_waitlist(
+  _resource_id UUID,
+  _start_time TIMESTAMP WITH TIME ZONE,
+  _end_time TIMESTAMP WITH TIME ZONE
+)
+RETURNS public.waitlist_entries
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  r public.resources%ROWTYPE;
+  new_entry public.waitlist_entries%ROWTYPE;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'You must be signed in to join a waitlist'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  SELECT * INTO r FROM public.resources
+  WHERE id = _resource_id AND is_available = true;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Resource not found or unavailable'
+      USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF r.owner_id = auth.uid() THEN
+    RAISE EXCEPTION 'You cannot join the waitlist for your own resource'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF _end_time <= _start_time OR _start_time <= now() THEN
+    RAISE EXCEPTION 'Choose future dates that end after they start'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  -- Only dates someone else has taken can be waited for
+  IF NOT public.get_resource_open_hours(_resource_id, _start_time, _end_time) @> tstzrange(_start_time, _end_time) THEN
+    RAISE EXCEPTION 'Requested times are outside the resource''s availability'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF NOT (public.get_resource_blocked_hours(_resource_id, _start_time, _end_time) && tstzrange(_start_time, _end_time)) THEN
+    RAISE EXCEPTION 'These dates are free; book them instead'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.waitlist_entries w
+    WHERE w.resource_id = _resource_id
+      AND w.renter_id = auth.uid()
+      AND w.status IN ('waiting', 'offered')
+      AND tstzrange(w.start_time, w.end_time) && tstzrange(_start_time, _end_time)
+  ) THEN
+    RAISE EXCEPTION 'You are already on the waitlist for these dates'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  INSERT INTO public.waitlist_entries (resource_id, renter_id, start_time, end_time)
+  VALUES (_resource_id, auth.uid(), _start_time, _end_time)
+  RETURNING * INTO new_entry;
+
+  RETURN new_entry;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.join_waitlist(UUID, TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE) TO authenticated;
+
+-- Leaving while holding an offer passes the range on to the next renter
+CREATE OR REPLACE FUNCTION public.leave_waitlist(_entry_id UUID)
+RETURNS public.waitlist_entries
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  entry public.waitlist_entries%ROWTYPE;
+  was_offered BOOLEAN;
+BEGIN
+  SELECT * INTO entry FROM public.waitlist_entries
+  WHERE id = _entry_id AND renter_id = auth.uid() AND status IN ('waiting', 'offered')
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Waitlist entry not found'
+      USING ERRCODE = 'no_data_found';
+  END IF;
+
+  was_offered := entry.status = 'offered';
+
+  UPDATE public.waitlist_entries SET status = 'cancelled'
+  WHERE id = _entry_id
+  RETURNING * INTO entry;
+
+  IF was_offered THEN
+    PERFORM public.offer_waitlist_holds(entry.resource_id);
+  END IF;
+
+  RETURN entry;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.leave_waitlist(UUID) TO authenticated;
+
+-- Run by the expire-booking-requests function: lapsed offers are expired and
+-- passed on, and entries whose dates have started are closed
+CREATE OR REPLACE FUNCTION public.expire_waitlist_offers()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _resource_id UUID;
+  expired INTEGER;
+BEGIN
+  UPDATE public.waitlist_entries
+  SET status = 'expired'
+  WHERE (status = 'offered' AND offer_expires_at <= now())
+     OR (status = 'waiting' AND start_time <= now());
+  GET DIAGNOSTICS expired = ROW_COUNT;
+
+  FOR _resource_id IN
+    SELECT DISTINCT w.resource_id FROM public.waitlist_entries w
+    WHERE w.status = 'waiting'
+  LOOP
+    PERFORM public.offer_waitlist_holds(_resource_id);
+  END LOOP;
+
+  RETURN expired;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.expire_waitlist_offers() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.expire_waitlist_offers() TO service_role;
+
+-- create_booking keeps held ranges for their renter, and booking one fills
+-- the renter's offer
+CREATE OR REPLACE FUNCTION public.create_booking(
+  _resource_id UUID,
+  _start_time TIMESTAMP WITH TIME ZONE,
+  _end_time TIMESTAMP WITH TIME ZONE,
+  _payment_method TEXT
+)
+RETURNS public.bookings
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  r public.resources%ROWTYPE;
+  quote JSONB;
+  new_booking public.bookings%ROWTYPE;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'You must be signed in to book a resource'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  SELECT * INTO r FROM public.resources
+  WHERE id = _resource_id AND is_available = true
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Resource not found or unavailable'
+      USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF r.owner_id = auth.uid() THEN
+    RAISE EXCEPTION 'You cannot book your own resource'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF _end_time <= _start_time
+    OR NOT public.get_resource_open_hours(_resource_id, _start_time, _end_time) @> tstzrange(_start_time, _end_time)
+  THEN
+    RAISE EXCEPTION 'Requested times are outside the resource''s availability'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF public.get_resource_held_hours(_resource_id, auth.uid()) && tstzrange(_start_time, _end_time) THEN
+    RAISE EXCEPTION 'These times are held for someone on the waitlist; choose other dates or join the waitlist'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  -- Direct overlaps are left to bookings_no_overlap so they keep reporting
+  -- as conflicts; this only catches bookings that fall inside the buffer
+  IF r.buffer_minutes > 0 AND EXISTS (
+    SELECT 1
+    FROM public.bookings b
+    WHERE b.resource_id = _resource_id
+      AND b.status IN ('pending', 'confirmed', 'picked_up')
+      AND tstzrange(
+        b.start_time - make_interval(mins => r.buffer_minutes),
+        b.end_time + make_interval(mins => r.buffer_minutes)
+      ) && tstzrange(_start_time, _end_time)
+      AND NOT (tstzrange(b.start_time, b.end_time) && tstzrange(_start_time, _end_time))
+  ) THEN
+    RAISE EXCEPTION 'The owner needs % minutes between rentals; choose a later start or an earlier end', r.buffer_minutes
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  quote := public.quote_booking(_resource_id, _start_time, _end_time);
+
+  INSERT INTO public.bookings (
+    resource_id,
+    renter_id,
+    owner_id,
+    start_time,
+    end_time,
+    total_price,
+    price_breakdown,
+    deposit_amount,
+    payment_method,
+    status,
+    instant_book,
+    expires_at
+  )
+  VALUES (
+    _resource_id,
+    auth.uid(),
+    r.owner_id,
+    _start_time,
+    _end_time,
+    (quote ->> 'total')::NUMERIC,
+    quote,
+    r.deposit_amount,
+    _payment_method,
+    'pending',
+    public.is_instant_book_eligible(_resource_id, auth.uid()),
+    least(now() + make_interval(hours => r.request_expiry_hours), _start_time)
+  )
+  RETURNING * INTO new_booking;
+
+  UPDATE public.waitlist_entries
+  SET status = 'booked'
+  WHERE resource_id = _resource_id
+    AND renter_id = auth.uid()
+    AND status IN ('waiting', 'offered')
+    AND tstzrange(start_time, end_time) && tstzrange(_start_time, _end_time);
+
+  RETURN new_booking;
+END;
+$$;
+
+-- Waitlist offers are about an entry rather than a booking
+ALTER TABLE public.notifications
+  ADD COLUMN waitlist_entry_id UUID REFERENCES public.waitlist_entries(id) ON DELETE CASCADE;
+
+ALTER TABLE public.notification_preferences DROP CONSTRAINT notification_preferences_type_check;
+ALTER TABLE public.notification_preferences ADD CONSTRAINT notification_preferences_type_check
+  CHECK (type IN ('booking_requested', 'booking_accepted', 'booking_rejected', 'booking_expired', 'waitlist_offer', 'pickup_reminder', 'return_overdue'));
+
+ALTER TABLE public.notifications DROP CONSTRAINT notifications_type_check;
+ALTER TABLE public.notifications ADD CONSTRAINT notifications_type_check
+  CHECK (type IN ('booking_requested', 'booking_accepted', 'booking_rejected', 'booking_expired', 'waitlist_offer', 'pickup_reminder', 'return_overdue'));
+
+DROP FUNCTION public.notify_user(UUID, TEXT, UUID, TEXT, TEXT, TEXT);
+
+CREATE OR REPLACE FUNCTION public.notify_user(
+  _user_id UUID,
+  _type TEXT,
+  _booking_id UUID,
+  _title TEXT,
+  _body TEXT,
+  _link TEXT,
+  _waitlist_entry_id UUID DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _in_app BOOLEAN := true;
+  _email BOOLEAN := true;
+BEGIN
+  SELECT p.in_app, p.email INTO _in_app, _email
+  FROM public.notification_preferences p
+  WHERE p.user_id = _user_id AND p.type = _type;
+
+  _in_app := coalesce(_in_app, true);
+  _email := coalesce(_email, true);
+
+  IF NOT _in_app AND NOT _email THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO public.notifications (user_id, type, booking_id, waitlist_entry_id, title, body, link, in_app, email_status)
+  VALUES (
+    _user_id, _type, _booking_id, _waitlist_entry_id, _title, _body, _link, _in_app,
+    CASE WHEN _email THEN 'pending' ELSE 'skipped' END
+  )
+  ON CONFLICT DO NOTHING;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.notify_user(UUID, TEXT, UUID, TEXT, TEXT, TEXT, UUID) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,146 @@
+-- Calendar sync.
+--
+-- Export: each member can create secret iCalendar feed URLs, one for all of
+-- their bookings and one per resource they own. The calendar-feed function
+-- looks the token up and lists the accepted bookings it covers; anyone with
+-- the URL can read the feed, so resetting a feed replaces its token.
+--
+-- Import: owners who also list a resource elsewhere give the URL of that
+-- platform's .ics feed. The sync-calendars function copies its events into
+-- resource_calendar_blocks, which are taken out of the resource's open hours
+-- like blackouts.
+CREATE TABLE public.calendar_feeds (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  -- NULL for the feed of all the member's bookings
+  resource_id UUID REFERENCES public.resources(id) ON DELETE CASCADE,
+  token TEXT NOT NULL UNIQUE DEFAULT replace(gen_random_uuid()::text || gen_random_uuid()::text, '-', ''),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX calendar_feeds_user_once ON public.calendar_feeds (user_id) WHERE resource_id IS NULL;
+CREATE UNIQUE INDEX calendar_feeds_resource_once ON public.calendar_feeds (user_id, resource_id) WHERE resource_id IS NOT NULL;
+
+ALTER TABLE public.calendar_feeds ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their calendar feeds" ON public.calendar_feeds
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create calendar feeds for their bookings and resources" ON public.calendar_feeds
+  FOR INSERT WITH CHECK (
+    auth.uid() = user_id
+    AND (
+      resource_id IS NULL
+      OR EXISTS (SELECT 1 FROM public.resources r WHERE r.id = resource_id AND r.owner_id = auth.uid())
+    )
+  );
+
+CREATE POLICY "Users can delete their calendar feeds" ON public.calendar_feeds
+  FOR DELETE USING (auth.uid() = user_id);
+
+ALTER TABLE public.resources
+  ADD COLUMN ical_import_url TEXT CHECK (ical_import_url ~* '^(https?|webcal)://'),
+  -- Outcome of the last import, written by sync-calendars
+  ADD COLUMN ical_synced_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN ical_sync_error TEXT;
+
+CREATE TABLE public.resource_calendar_blocks (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  resource_id UUID NOT NULL REFERENCES public.resources(id) ON DELETE CASCADE,
+  -- The event's UID in the imported calendar
+  uid TEXT NOT NULL,
+  summary TEXT,
+  starts_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  ends_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  CHECK (ends_at > starts_at)
+);
+
+CREATE INDEX resource_calendar_blocks_resource_idx ON public.resource_calendar_blocks (resource_id, starts_at);
+
+ALTER TABLE public.resource_calendar_blocks ENABLE ROW LEVEL SECURITY;
+
+-- Written only by sync-calendars with the service role
+CREATE POLICY "Owners can view imported blocks of their resources" ON public.resource_calendar_blocks
+  FOR SELECT USING (
+    EXISTS (SELECT 1 FROM public.resources r WHERE r.id = resource_id AND r.owner_id = auth.uid())
+  );
+
+-- Blocks from a calendar the owner no longer imports are dropped with it
+CREATE OR REPLACE FUNCTION public.reset_calendar_import()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.ical_import_url IS DISTINCT FROM OLD.ical_import_url THEN
+    DELETE FROM public.resource_calendar_blocks WHERE resource_id = NEW.id;
+    NEW.ical_synced_at := NULL;
+    NEW.ical_sync_error := NULL;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER reset_calendar_import
+  BEFORE UPDATE OF ical_import_url ON public.resources
+  FOR EACH ROW
+  EXECUTE FUNCTION public.reset_calendar_import();
+
+-- get_resource_open_hours: imported blocks close the resource like blackouts
+CREATE OR REPLACE FUNCTION public.get_resource_open_hours(
+  _resource_id UUID,
+  _from TIMESTAMP WITH TIME ZONE,
+  _to TIMESTAMP WITH TIME ZONE
+)
+RETURNS tstzmultirange
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH res AS (
+    SELECT
+      r.id,
+      r.timezone,
+      CASE WHEN greatest(r.availability_start, _from) < least(r.availability_end, _to)
+        THEN tstzmultirange(tstzrange(greatest(r.availability_start, _from), least(r.availability_end, _to)))
+        ELSE '{}'::tstzmultirange
+      END AS availability_window,
+      EXISTS (SELECT 1 FROM public.resource_weekly_hours w WHERE w.resource_id = r.id) AS has_weekly_hours
+    FROM public.resources r
+    WHERE r.id = _resource_id
+  ),
+  weekly AS (
+    SELECT range_agg(tstzrange(
+      (d::date + w.start_time) AT TIME ZONE res.timezone,
+      (d::date + w.end_time) AT TIME ZONE res.timezone
+    )) AS hours
+    FROM res
+    CROSS JOIN generate_series(
+      ((_from AT TIME ZONE res.timezone)::date - 1)::timestamp,
+      (_to AT TIME ZONE res.timezone)::date::timestamp,
+      INTERVAL '1 day'
+    ) AS d
+    JOIN public.resource_weekly_hours w
+      ON w.resource_id = res.id AND w.weekday = EXTRACT(DOW FROM d)
+  ),
+  blackouts AS (
+    SELECT range_agg(closed.hours) AS hours
+    FROM (
+      SELECT tstzrange(b.starts_at, b.ends_at) AS hours
+      FROM public.resource_blackouts b
+      WHERE b.resource_id = _resource_id
+        AND b.starts_at < _to
+        AND b.ends_at > _from
+      UNION ALL
+      SELECT tstzrange(c.starts_at, c.ends_at)
+      FROM public.resource_calendar_blocks c
+      WHERE c.resource_id = _resource_id
+        AND c.starts_at < _to
+        AND c.ends_at > _from
+    ) closed
+  )
+  SELECT
+    CASE WHEN res.has_weekly_hours
+      THEN res.availability_window * coalesce(weekly.hours, '{}'::tstzmultirange)
+      ELSE res.availability_window
+    END - coalesce(blackouts.hours, '{}'::tstzmultirange)
+  FROM res, weekly, blackouts;
+$$;
@@ -0,0 +1,36 @@
+-- Bookings paid by card or PayPal can only be confirmed once the payment has
+-- been captured, whoever confirms them. Without this a booking whose
+-- authorization failed part way, or was voided when the request expired,
+-- could be accepted with nothing paid.
+CREATE OR REPLACE FUNCTION public.enforce_booking_payment_state()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status = 'confirmed'
+    AND NEW.payment_method IS DISTINCT FROM 'cash'
+    AND NOT EXISTS (
+      SELECT 1 FROM public.booking_payments p
+      WHERE p.booking_id = NEW.id AND p.status = 'captured'
+    )
+  THEN
+    RAISE EXCEPTION 'The payment for this booking has not been completed'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF auth.uid() IS NOT NULL
+    AND NEW.status IN ('confirmed', 'rejected', 'cancelled')
+    AND EXISTS (
+      SELECT 1 FROM public.booking_payments p
+      WHERE p.booking_id = NEW.id AND p.status IN ('authorized', 'captured')
+    )
+  THEN
+    RAISE EXCEPTION 'This booking has a payment that must be settled through the payments service'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
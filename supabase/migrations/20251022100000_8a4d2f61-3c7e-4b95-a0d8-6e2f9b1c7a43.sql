@@ -0,0 +1,24 @@
+-- Contact details are shared once a booking has been accepted rather than
+-- as soon as one is requested, so a booking request alone does not reveal
+-- the owner's email and phone
+CREATE OR REPLACE FUNCTION public.are_booking_counterparties(_user_a UUID, _user_b UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.bookings
+    WHERE status IN ('confirmed', 'picked_up', 'returned')
+      AND (
+        (renter_id = _user_a AND owner_id = _user_b)
+        OR (renter_id = _user_b AND owner_id = _user_a)
+      )
+  );
+$$;
+
+-- Only public_profiles uses it, and the view runs with its owner's rights;
+-- callers must not be able to probe whether any two members have booked
+-- each other
+REVOKE EXECUTE ON FUNCTION public.are_booking_counterparties(UUID, UUID) FROM PUBLIC, anon, authenticated;
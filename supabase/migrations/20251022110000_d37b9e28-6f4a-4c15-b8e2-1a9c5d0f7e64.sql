@@ -0,0 +1,12 @@
+-- The availability helpers read blackouts, bookings and waitlist holds for
+-- any resource id they are given. They are only meant to be called from the
+-- booking, slot and search functions, which run with the owner's rights and
+-- only expose resources the caller may see; on their own they run with the
+-- caller's rights and cannot be called by clients at all.
+ALTER FUNCTION public.get_resource_open_hours(UUID, TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE) SECURITY INVOKER;
+ALTER FUNCTION public.get_resource_blocked_hours(UUID, TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE) SECURITY INVOKER;
+ALTER FUNCTION public.is_resource_open_during(UUID, TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE) SECURITY INVOKER;
+
+REVOKE EXECUTE ON FUNCTION public.get_resource_open_hours(UUID, TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.get_resource_blocked_hours(UUID, TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.is_resource_open_during(UUID, TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,132 @@
+-- Dismissing reports relisted a hidden listing even when its owner had
+-- unlisted it before it was reported. Hiding now records whether the
+-- listing was listed, and dismissing restores exactly that.
+ALTER TABLE public.resources
+  ADD COLUMN listed_before_reports BOOLEAN NOT NULL DEFAULT false;
+
+-- Listings hidden before this change were relisted on dismissal; keep that
+UPDATE public.resources
+SET listed_before_reports = true
+WHERE unpublished_reason = 'Hidden pending review after reports from other members';
+
+CREATE OR REPLACE FUNCTION public.report_resource(_resource_id UUID, _reason TEXT, _details TEXT DEFAULT NULL)
+RETURNS public.reports
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  -- Distinct members with an open report before a listing is hidden
+  hide_threshold CONSTANT INTEGER := 3;
+  r public.resources%ROWTYPE;
+  report public.reports%ROWTYPE;
+  reporter_count INTEGER;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'You must be signed in to report a listing'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  SELECT * INTO r FROM public.resources WHERE id = _resource_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Resource not found'
+      USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF r.owner_id = auth.uid() THEN
+    RAISE EXCEPTION 'You cannot report your own listing'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.reports
+    WHERE reporter_id = auth.uid() AND resource_id = _resource_id AND status = 'open'
+  ) THEN
+    RAISE EXCEPTION 'You have already reported this listing'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  INSERT INTO public.reports (reporter_id, resource_id, reason, details)
+  VALUES (auth.uid(), _resource_id, _reason, NULLIF(trim(_details), ''))
+  RETURNING * INTO report;
+
+  SELECT count(DISTINCT reporter_id) INTO reporter_count
+  FROM public.reports
+  WHERE resource_id = _resource_id AND status = 'open';
+
+  -- The reason text is how admin_resolve_reports recognises listings to restore
+  IF reporter_count >= hide_threshold AND r.unpublished_at IS NULL THEN
+    UPDATE public.resources
+    SET is_available = false,
+        listed_before_reports = r.is_available,
+        unpublished_at = now(),
+        unpublished_reason = 'Hidden pending review after reports from other members'
+    WHERE id = _resource_id;
+  END IF;
+
+  RETURN report;
+END;
+$$;
+
+-- Close every open report about a listing or member. 'take_down' unpublishes
+-- the listing or suspends the member; 'dismiss' puts a listing that was only
+-- hidden because of the reports back as its owner had it.
+CREATE OR REPLACE FUNCTION public.admin_resolve_reports(
+  _target_type TEXT,
+  _target_id UUID,
+  _action TEXT,
+  _note TEXT DEFAULT NULL
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  resolved_count INTEGER;
+BEGIN
+  PERFORM public.require_admin();
+
+  IF _target_type NOT IN ('resource', 'user') OR _action NOT IN ('take_down', 'dismiss') THEN
+    RAISE EXCEPTION 'Unknown report target or action'
+      USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  UPDATE public.reports
+  SET status = CASE WHEN _action = 'take_down' THEN 'actioned' ELSE 'dismissed' END,
+      resolution_note = NULLIF(trim(_note), ''),
+      reviewed_by = auth.uid(),
+      reviewed_at = now()
+  WHERE status = 'open'
+    AND CASE WHEN _target_type = 'resource' THEN resource_id ELSE reported_user_id END = _target_id;
+  GET DIAGNOSTICS resolved_count = ROW_COUNT;
+
+  IF resolved_count = 0 THEN
+    RAISE EXCEPTION 'There are no open reports to resolve'
+      USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF _action = 'take_down' AND _target_type = 'resource' THEN
+    PERFORM public.admin_set_resource_published(_target_id, false, _note);
+  ELSIF _action = 'take_down' THEN
+    PERFORM public.admin_suspend_user(_target_id, _note);
+  ELSIF _target_type = 'resource' THEN
+    UPDATE public.resources
+    SET is_available = listed_before_reports,
+        listed_before_reports = false,
+        unpublished_at = NULL,
+        unpublished_reason = NULL
+    WHERE id = _target_id
+      AND unpublished_reason = 'Hidden pending review after reports from other members';
+  END IF;
+
+  PERFORM public.log_admin_action(
+    CASE WHEN _action = 'take_down' THEN 'action_reports' ELSE 'dismiss_reports' END,
+    _target_type, _target_id,
+    jsonb_strip_nulls(jsonb_build_object('reports', resolved_count, 'reason', NULLIF(trim(_note), '')))
+  );
+
+  RETURN resolved_count;
+END;
+$$;
@@ -0,0 +1,42 @@
+-- Emails that fail are retried by send-notifications on later runs, up to a
+-- limit, before they are marked failed
+ALTER TABLE public.notifications
+  ADD COLUMN email_attempts INTEGER NOT NULL DEFAULT 0 CHECK (email_attempts >= 0);
+
+-- A notification is recorded even when both channels are off, hidden and
+-- not emailed. queue_booking_reminders looks for an existing row to know a
+-- reminder was handled, so without one it queued the same reminder on every
+-- run.
+CREATE OR REPLACE FUNCTION public.notify_user(
+  _user_id UUID,
+  _type TEXT,
+  _booking_id UUID,
+  _title TEXT,
+  _body TEXT,
+  _link TEXT,
+  _waitlist_entry_id UUID DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _in_app BOOLEAN := true;
+  _email BOOLEAN := true;
+BEGIN
+  SELECT p.in_app, p.email INTO _in_app, _email
+  FROM public.notification_preferences p
+  WHERE p.user_id = _user_id AND p.type = _type;
+
+  _in_app := coalesce(_in_app, true);
+  _email := coalesce(_email, true);
+
+  INSERT INTO public.notifications (user_id, type, booking_id, waitlist_entry_id, title, body, link, in_app, email_status)
+  VALUES (
+    _user_id, _type, _booking_id, _waitlist_entry_id, _title, _body, _link, _in_app,
+    CASE WHEN _email THEN 'pending' ELSE 'skipped' END
+  )
+  ON CONFLICT DO NOTHING;
+END;
+$$;
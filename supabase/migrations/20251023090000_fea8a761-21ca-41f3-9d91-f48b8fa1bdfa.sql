@@ -0,0 +1,131 @@
+-- The resource and booking forms check their input with the shared zod
+-- schemas, but those only run in the browser. These constraints hold the same
+-- limits for writes that go straight to the API; prices, minimum rental,
+-- buffer and response window already have theirs.
+--
+-- Rows saved before this are not rechecked; the constraints apply to them
+-- from their next update.
+ALTER TABLE public.resources
+  ADD CONSTRAINT resources_title_check CHECK (btrim(title) <> '') NOT VALID,
+  ADD CONSTRAINT resources_location_check CHECK (btrim(location) <> '') NOT VALID,
+  ADD CONSTRAINT resources_availability_range_check CHECK (availability_end > availability_start) NOT VALID;
+
+ALTER TABLE public.bookings
+  ADD CONSTRAINT bookings_payment_method_check CHECK (payment_method IN ('card', 'paypal', 'cash')) NOT VALID;
+
+-- create_booking checks its arguments before looking at the resource
+CREATE OR REPLACE FUNCTION public.create_booking(
+  _resource_id UUID,
+  _start_time TIMESTAMP WITH TIME ZONE,
+  _end_time TIMESTAMP WITH TIME ZONE,
+  _payment_method TEXT
+)
+RETURNS public.bookings
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  r public.resources%ROWTYPE;
+  quote JSONB;
+  new_booking public.bookings%ROWTYPE;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'You must be signed in to book a resource'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF _start_time IS NULL OR _end_time IS NULL OR _end_time <= _start_time THEN
+    RAISE EXCEPTION 'End date must be after the start date'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF _payment_method IS NULL OR _payment_method NOT IN ('card', 'paypal', 'cash') THEN
+    RAISE EXCEPTION 'Choose a payment method'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  SELECT * INTO r FROM public.resources
+  WHERE id = _resource_id AND is_available = true
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Resource not found or unavailable'
+      USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF r.owner_id = auth.uid() THEN
+    RAISE EXCEPTION 'You cannot book your own resource'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF NOT public.get_resource_open_hours(_resource_id, _start_time, _end_time) @> tstzrange(_start_time, _end_time)
+  THEN
+    RAISE EXCEPTION 'Requested times are outside the resource''s availability'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF public.get_resource_held_hours(_resource_id, auth.uid()) && tstzrange(_start_time, _end_time) THEN
+    RAISE EXCEPTION 'These times are held for someone on the waitlist; choose other dates or join the waitlist'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  -- Direct overlaps are left to bookings_no_overlap so they keep reporting
+  -- as conflicts; this only catches bookings that fall inside the buffer
+  IF r.buffer_minutes > 0 AND EXISTS (
+    SELECT 1
+    FROM public.bookings b
+    WHERE b.resource_id = _resource_id
+      AND b.status IN ('pending', 'confirmed', 'picked_up')
+      AND tstzrange(
+        b.start_time - make_interval(mins => r.buffer_minutes),
+        b.end_time + make_interval(mins => r.buffer_minutes)
+      ) && tstzrange(_start_time, _end_time)
+      AND NOT (tstzrange(b.start_time, b.end_time) && tstzrange(_start_time, _end_time))
+  ) THEN
+    RAISE EXCEPTION 'The owner needs % minutes between rentals; choose a later start or an earlier end', r.buffer_minutes
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  quote := public.quote_booking(_resource_id, _start_time, _end_time);
+
+  INSERT INTO public.bookings (
+    resource_id,
+    renter_id,
+    owner_id,
+    start_time,
+    end_time,
+    total_price,
+    price_breakdown,
+    deposit_amount,
+    payment_method,
+    status,
+    instant_book,
+    expires_at
+  )
+  VALUES (
+    _resource_id,
+    auth.uid(),
+    r.owner_id,
+    _start_time,
+    _end_time,
+    (quote ->> 'total')::NUMERIC,
+    quote,
+    r.deposit_amount,
+    _payment_method,
+    'pending',
+    public.is_instant_book_eligible(_resource_id, auth.uid()),
+    least(now() + make_interval(hours => r.request_expiry_hours), _start_time)
+  )
+  RETURNING * INTO new_booking;
+
+  UPDATE public.waitlist_entries
+  SET status = 'booked'
+  WHERE resource_id = _resource_id
+    AND renter_id = auth.uid()
+    AND status IN ('waiting', 'offered')
+    AND tstzrange(start_time, end_time) && tstzrange(_start_time, _end_time);
+
+  RETURN new_booking;
+END;
+$$;
@@ -0,0 +1,154 @@
+-- protect_resource_moderation trusted every SECURITY DEFINER function that
+-- updated resources. Only admins, and report_resource through a flag it sets
+-- for its own update, may now change whether a listing is unpublished.
+--
+-- While a listing is hidden pending review, its owner's "Listed for
+-- booking" choice is kept in listed_before_reports instead of is_available,
+-- so dismissing the reports puts it back the way the owner last left it.
+CREATE OR REPLACE FUNCTION public.protect_resource_moderation()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF public.is_admin() OR current_setting('app.moderating', true) = 'on' THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.unpublished_at IS DISTINCT FROM OLD.unpublished_at
+    OR NEW.unpublished_reason IS DISTINCT FROM OLD.unpublished_reason THEN
+    RAISE EXCEPTION 'Only moderators can change whether a listing is unpublished'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF current_user = 'authenticated'
+    AND OLD.owner_id = auth.uid()
+    AND OLD.unpublished_reason = 'Hidden pending review after reports from other members'
+  THEN
+    NEW.listed_before_reports := NEW.is_available;
+    NEW.is_available := false;
+  ELSE
+    NEW.listed_before_reports := OLD.listed_before_reports;
+  END IF;
+
+  IF NEW.unpublished_at IS NOT NULL AND NEW.is_available THEN
+    RAISE EXCEPTION 'This listing was unpublished by a moderator and cannot be relisted'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+-- Reports are only taken for listings the reporter can see. Those are
+-- listed, so a hidden listing comes back on dismissal unless its owner
+-- unlists it during the review.
+CREATE OR REPLACE FUNCTION public.report_resource(_resource_id UUID, _reason TEXT, _details TEXT DEFAULT NULL)
+RETURNS public.reports
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  -- Distinct members with an open report before a listing is hidden
+  hide_threshold CONSTANT INTEGER := 3;
+  r public.resources%ROWTYPE;
+  report public.reports%ROWTYPE;
+  reporter_count INTEGER;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'You must be signed in to report a listing'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  -- Only listings the reporter can browse; unlisted ones are visible to
+  -- their owner alone
+  SELECT * INTO r FROM public.resources WHERE id = _resource_id AND is_available = true;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Resource not found'
+      USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF r.owner_id = auth.uid() THEN
+    RAISE EXCEPTION 'You cannot report your own listing'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.reports
+    WHERE reporter_id = auth.uid() AND resource_id = _resource_id AND status = 'open'
+  ) THEN
+    RAISE EXCEPTION 'You have already reported this listing'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  INSERT INTO public.reports (reporter_id, resource_id, reason, details)
+  VALUES (auth.uid(), _resource_id, _reason, NULLIF(trim(_details), ''))
+  RETURNING * INTO report;
+
+  SELECT count(DISTINCT reporter_id) INTO reporter_count
+  FROM public.reports
+  WHERE resource_id = _resource_id AND status = 'open';
+
+  -- The reason text is how admin_resolve_reports recognises listings to restore
+  IF reporter_count >= hide_threshold AND r.unpublished_at IS NULL THEN
+    PERFORM set_config('app.moderating', 'on', true);
+    UPDATE public.resources
+    SET is_available = false,
+        listed_before_reports = true,
+        unpublished_at = now(),
+        unpublished_reason = 'Hidden pending review after reports from other members'
+    WHERE id = _resource_id;
+    PERFORM set_config('app.moderating', '', true);
+  END IF;
+
+  RETURN report;
+END;
+$$;
+
+-- Publishing or unpublishing by hand settles the listing; dismissing
+-- reports afterwards does not relist it
+CREATE OR REPLACE FUNCTION public.admin_set_resource_published(
+  _resource_id UUID,
+  _published BOOLEAN,
+  _reason TEXT DEFAULT NULL
+)
+RETURNS public.resources
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  r public.resources%ROWTYPE;
+BEGIN
+  PERFORM public.require_admin();
+
+  IF NOT _published AND NULLIF(trim(_reason), '') IS NULL THEN
+    RAISE EXCEPTION 'Please give a reason for unpublishing this listing'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF _published THEN
+    UPDATE public.resources
+    SET listed_before_reports = false, unpublished_at = NULL, unpublished_reason = NULL
+    WHERE id = _resource_id
+    RETURNING * INTO r;
+  ELSE
+    UPDATE public.resources
+    SET is_available = false, listed_before_reports = false, unpublished_at = now(), unpublished_reason = trim(_reason)
+    WHERE id = _resource_id
+    RETURNING * INTO r;
+  END IF;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Resource not found'
+      USING ERRCODE = 'no_data_found';
+  END IF;
+
+  PERFORM public.log_admin_action(
+    CASE WHEN _published THEN 'republish_resource' ELSE 'unpublish_resource' END,
+    'resource', _resource_id,
+    jsonb_strip_nulls(jsonb_build_object('title', r.title, 'reason', NULLIF(trim(_reason), '')))
+  );
+
+  RETURN r;
+END;
+$$;
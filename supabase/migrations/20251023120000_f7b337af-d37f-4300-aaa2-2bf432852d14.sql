@@ -0,0 +1,118 @@
+-- Weekend rates apply to Saturdays and Sundays where the resource is, not
+-- in the database's time zone
+CREATE OR REPLACE FUNCTION public.quote_booking(
+  _resource_id UUID,
+  _start_time TIMESTAMP WITH TIME ZONE,
+  _end_time TIMESTAMP WITH TIME ZONE
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  r public.resources%ROWTYPE;
+  duration_hours NUMERIC;
+  hours INTEGER;
+  days INTEGER;
+  weeks INTEGER := 0;
+  daily_count INTEGER;
+  first_weekday INTEGER;
+  weekday_count INTEGER := 0;
+  weekend_count INTEGER := 0;
+  lines JSONB := '[]'::JSONB;
+  total NUMERIC := 0;
+BEGIN
+  SELECT * INTO r FROM public.resources
+  WHERE id = _resource_id AND (is_available = true OR owner_id = auth.uid());
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Resource not found or unavailable'
+      USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF _end_time <= _start_time THEN
+    RAISE EXCEPTION 'End time must be after start time'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  duration_hours := EXTRACT(EPOCH FROM (_end_time - _start_time)) / 3600;
+
+  IF duration_hours < r.min_rental_hours THEN
+    RAISE EXCEPTION 'Minimum rental duration is % hour(s)', r.min_rental_hours
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  hours := CEIL(duration_hours);
+
+  IF duration_hours < 24 AND r.hourly_price IS NOT NULL AND hours * r.hourly_price < r.price THEN
+    lines := lines || jsonb_build_object(
+      'label', 'Hourly rate',
+      'quantity', hours,
+      'unit', 'hour',
+      'unit_price', r.hourly_price,
+      'amount', hours * r.hourly_price
+    );
+    total := hours * r.hourly_price;
+  ELSE
+    days := CEIL(duration_hours / 24);
+
+    IF r.weekly_price IS NOT NULL THEN
+      weeks := days / 7;
+    END IF;
+
+    -- Days after the whole weeks: every run of seven has two weekend days,
+    -- and the days left over are counted from the weekday they start on
+    daily_count := days - weeks * 7;
+    IF r.weekend_price IS NOT NULL THEN
+      first_weekday := EXTRACT(ISODOW FROM _start_time AT TIME ZONE r.timezone);
+      weekend_count := (daily_count / 7) * 2 + (
+        SELECT count(*)
+        FROM generate_series(0, daily_count % 7 - 1) AS i
+        WHERE (first_weekday - 1 + i) % 7 + 1 IN (6, 7)
+      );
+    END IF;
+    weekday_count := daily_count - weekend_count;
+
+    IF weeks > 0 THEN
+      lines := lines || jsonb_build_object(
+        'label', 'Weekly rate',
+        'quantity', weeks,
+        'unit', 'week',
+        'unit_price', r.weekly_price,
+        'amount', weeks * r.weekly_price
+      );
+      total := total + weeks * r.weekly_price;
+    END IF;
+
+    IF weekday_count > 0 THEN
+      lines := lines || jsonb_build_object(
+        'label', 'Daily rate',
+        'quantity', weekday_count,
+        'unit', 'day',
+        'unit_price', r.price,
+        'amount', weekday_count * r.price
+      );
+      total := total + weekday_count * r.price;
+    END IF;
+
+    IF weekend_count > 0 THEN
+      lines := lines || jsonb_build_object(
+        'label', 'Weekend rate',
+        'quantity', weekend_count,
+        'unit', 'day',
+        'unit_price', r.weekend_price,
+        'amount', weekend_count * r.weekend_price
+      );
+      total := total + weekend_count * r.weekend_price;
+    END IF;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'lines', lines,
+    'total', total,
+    'duration_hours', duration_hours
+  );
+END;
+$$;
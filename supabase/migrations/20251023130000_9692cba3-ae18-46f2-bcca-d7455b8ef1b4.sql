@@ -0,0 +1,4 @@
+-- has_role answers for any user id, so signed-in members could find out who
+-- the admins are. Clients only need is_admin() for themselves, which, like
+-- the admin functions, calls has_role with the owner's rights.
+REVOKE EXECUTE ON FUNCTION public.has_role(UUID, public.app_role) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,202 @@
+-- Notifications printed dates in the database session's time zone, and
+-- format_booking_dates was declared IMMUTABLE although to_char on a
+-- timestamptz depends on that setting. Dates and times are now written in
+-- the resource's time zone, where the renter picks up and returns.
+CREATE OR REPLACE FUNCTION public.format_booking_dates(
+  _start TIMESTAMP WITH TIME ZONE,
+  _end TIMESTAMP WITH TIME ZONE,
+  _timezone TEXT
+)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT to_char(_start AT TIME ZONE _timezone, 'Mon FMDD') || ' – ' || to_char(_end AT TIME ZONE _timezone, 'Mon FMDD');
+$$;
+
+CREATE OR REPLACE FUNCTION public.notify_booking_event()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _title TEXT;
+  _timezone TEXT;
+  _dates TEXT;
+BEGIN
+  SELECT r.title, r.timezone INTO _title, _timezone FROM public.resources r WHERE r.id = NEW.resource_id;
+  _dates := public.format_booking_dates(NEW.start_time, NEW.end_time, _timezone);
+
+  IF TG_OP = 'INSERT' THEN
+    IF NOT NEW.instant_book THEN
+      PERFORM public.notify_user(
+        NEW.owner_id, 'booking_requested', NEW.id,
+        'New booking request',
+        format('"%s" was requested for %s.', _title, _dates),
+        '/dashboard'
+      );
+    END IF;
+  ELSIF NEW.status = 'confirmed' AND NEW.instant_book THEN
+    PERFORM public.notify_user(
+      NEW.owner_id, 'booking_requested', NEW.id,
+      'New instant booking',
+      format('"%s" was booked for %s.', _title, _dates),
+      '/dashboard'
+    );
+    PERFORM public.notify_user(
+      NEW.renter_id, 'booking_accepted', NEW.id,
+      'Booking confirmed',
+      format('Your booking of "%s" (%s) is confirmed.', _title, _dates),
+      '/dashboard'
+    );
+  ELSIF NEW.status = 'confirmed' THEN
+    PERFORM public.notify_user(
+      NEW.renter_id, 'booking_accepted', NEW.id,
+      'Booking accepted',
+      format('Your request for "%s" (%s) was accepted.', _title, _dates),
+      '/dashboard'
+    );
+  ELSIF NEW.status = 'rejected' THEN
+    PERFORM public.notify_user(
+      NEW.renter_id, 'booking_rejected', NEW.id,
+      'Booking declined',
+      format('Your request for "%s" (%s) was declined.', _title, _dates),
+      '/dashboard'
+    );
+  ELSIF NEW.status = 'cancelled' AND NEW.expired_at IS NOT NULL THEN
+    PERFORM public.notify_user(
+      NEW.renter_id, 'booking_expired', NEW.id,
+      'Booking request expired',
+      format('The owner did not answer your request for "%s" (%s) in time, so it was cancelled.', _title, _dates),
+      '/dashboard'
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.offer_waitlist_holds(_resource_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  r public.resources%ROWTYPE;
+  entry public.waitlist_entries%ROWTYPE;
+  offered INTEGER := 0;
+BEGIN
+  SELECT * INTO r FROM public.resources WHERE id = _resource_id;
+  IF NOT FOUND OR NOT r.is_available OR r.unpublished_at IS NOT NULL THEN
+    RETURN 0;
+  END IF;
+
+  FOR entry IN
+    SELECT * FROM public.waitlist_entries w
+    WHERE w.resource_id = _resource_id
+      AND w.status = 'waiting'
+      AND w.start_time > now()
+    ORDER BY w.created_at
+    FOR UPDATE
+  LOOP
+    CONTINUE WHEN NOT public.get_resource_open_hours(_resource_id, entry.start_time, entry.end_time)
+      @> tstzrange(entry.start_time, entry.end_time);
+
+    CONTINUE WHEN EXISTS (
+      SELECT 1
+      FROM public.bookings b
+      WHERE b.resource_id = _resource_id
+        AND b.status IN ('pending', 'confirmed', 'picked_up')
+        AND tstzrange(
+          b.start_time - make_interval(mins => r.buffer_minutes),
+          b.end_time + make_interval(mins => r.buffer_minutes)
+        ) && tstzrange(entry.start_time, entry.end_time)
+    );
+
+    -- Includes offers made earlier in this loop
+    CONTINUE WHEN public.get_resource_held_hours(_resource_id, NULL) && tstzrange(entry.start_time, entry.end_time);
+
+    UPDATE public.waitlist_entries
+    SET status = 'offered',
+        offered_at = now(),
+        offer_expires_at = least(now() + interval '12 hours', entry.start_time)
+    WHERE id = entry.id
+    RETURNING * INTO entry;
+
+    PERFORM public.notify_user(
+      entry.renter_id, 'waitlist_offer', NULL,
+      'A spot opened up',
+      format(
+        '"%s" is free for %s. It is held for you until %s UTC.',
+        r.title,
+        public.format_booking_dates(entry.start_time, entry.end_time, r.timezone),
+        to_char(entry.offer_expires_at AT TIME ZONE 'UTC', 'Mon FMDD HH24:MI')
+      ),
+      '/book/' || _resource_id,
+      entry.id
+    );
+    offered := offered + 1;
+  END LOOP;
+
+  RETURN offered;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.queue_booking_reminders()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _booking RECORD;
+  _count INTEGER := 0;
+BEGIN
+  FOR _booking IN
+    SELECT b.*, r.title, r.timezone
+    FROM public.bookings b
+    JOIN public.resources r ON r.id = b.resource_id
+    WHERE b.status = 'confirmed'
+      AND b.start_time > now()
+      AND b.start_time <= now() + INTERVAL '24 hours'
+      AND NOT EXISTS (
+        SELECT 1 FROM public.notifications n
+        WHERE n.booking_id = b.id AND n.type = 'pickup_reminder'
+      )
+  LOOP
+    PERFORM public.notify_user(
+      _booking.renter_id, 'pickup_reminder', _booking.id,
+      'Pickup coming up',
+      format('Your booking of "%s" starts %s.', _booking.title, to_char(_booking.start_time AT TIME ZONE _booking.timezone, 'Mon FMDD "at" HH24:MI')),
+      '/dashboard'
+    );
+    _count := _count + 1;
+  END LOOP;
+
+  FOR _booking IN
+    SELECT b.*, r.title, r.timezone
+    FROM public.bookings b
+    JOIN public.resources r ON r.id = b.resource_id
+    WHERE b.status = 'picked_up'
+      AND b.end_time < now()
+      AND NOT EXISTS (
+        SELECT 1 FROM public.notifications n
+        WHERE n.booking_id = b.id AND n.type = 'return_overdue'
+      )
+  LOOP
+    PERFORM public.notify_user(
+      _booking.renter_id, 'return_overdue', _booking.id,
+      'Return overdue',
+      format('"%s" was due back %s. Please return it or message the owner.', _booking.title, to_char(_booking.end_time AT TIME ZONE _booking.timezone, 'Mon FMDD "at" HH24:MI')),
+      '/dashboard'
+    );
+    _count := _count + 1;
+  END LOOP;
+
+  RETURN _count;
+END;
+$$;
+
+DROP FUNCTION public.format_booking_dates(TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE);